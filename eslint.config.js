@@ -33,9 +33,34 @@ export default [
         KeyboardEvent: 'readonly',
         TouchEvent: 'readonly',
         PointerEvent: 'readonly',
+        MouseEvent: 'readonly',
         HTMLElement: 'readonly',
         HTMLButtonElement: 'readonly',
         HTMLCanvasElement: 'readonly',
+        fetch: 'readonly',
+        URLSearchParams: 'readonly',
+        structuredClone: 'readonly',
+        indexedDB: 'readonly',
+        IDBDatabase: 'readonly',
+        IDBObjectStore: 'readonly',
+        IDBRequest: 'readonly',
+        IDBTransactionMode: 'readonly',
+        Blob: 'readonly',
+        Response: 'readonly',
+        TextEncoder: 'readonly',
+        TextDecoder: 'readonly',
+        CompressionStream: 'readonly',
+        DecompressionStream: 'readonly',
+        navigator: 'readonly',
+        HTMLTextAreaElement: 'readonly',
+        AudioContext: 'readonly',
+        AudioBuffer: 'readonly',
+        AudioBufferSourceNode: 'readonly',
+        AudioParam: 'readonly',
+        GainNode: 'readonly',
+        OscillatorNode: 'readonly',
+        Gamepad: 'readonly',
+        GamepadEvent: 'readonly',
         // Node globals
         process: 'readonly',
         __dirname: 'readonly',
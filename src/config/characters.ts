@@ -3,7 +3,15 @@
  * Defines all 6 characters with their distinct attributes and unlock criteria
  */
 
-import type { CharacterConfig } from '../types/config';
+import type { CharacterConfig, JumpAssist } from '../types/config';
+
+/**
+ * Jump timing windows for characters that don't set their own
+ */
+export const DEFAULT_JUMP_ASSIST: JumpAssist = {
+  bufferTime: 0.1,
+  coyoteTime: 0.08,
+};
 
 /**
  * All character definitions with distinct gameplay attributes
@@ -12,6 +20,9 @@ import type { CharacterConfig } from '../types/config';
  * - speed: 1 = normal, 2 = fast
  * - jumpHeight: 1 = jump 1 crate, 2 = jump 2 crates
  * - pushStrength: 1 = push 1 crate, 2 = push stack of 2 crates
+ *
+ * Jump assist windows are longer for fast characters (they run off edges sooner)
+ * and high jumpers (they spend longer in the air before landing)
  */
 export const CHARACTERS: CharacterConfig[] = [
   {
@@ -33,6 +44,7 @@ export const CHARACTERS: CharacterConfig[] = [
       jumpHeight: 1,
       pushStrength: 1,
     },
+    jumpAssist: { bufferTime: 0.1, coyoteTime: 0.12 },
     sprite: 'char2',
     initiallyUnlocked: true,
   },
@@ -44,6 +56,7 @@ export const CHARACTERS: CharacterConfig[] = [
       jumpHeight: 2,
       pushStrength: 1,
     },
+    jumpAssist: { bufferTime: 0.15, coyoteTime: 0.08 },
     sprite: 'char3',
     initiallyUnlocked: false,
     unlockCriteria: {
@@ -74,6 +87,7 @@ export const CHARACTERS: CharacterConfig[] = [
       jumpHeight: 2,
       pushStrength: 1,
     },
+    jumpAssist: { bufferTime: 0.15, coyoteTime: 0.12 },
     sprite: 'char5',
     initiallyUnlocked: false,
     unlockCriteria: {
@@ -89,6 +103,7 @@ export const CHARACTERS: CharacterConfig[] = [
       jumpHeight: 1,
       pushStrength: 2,
     },
+    jumpAssist: { bufferTime: 0.1, coyoteTime: 0.12 },
     sprite: 'char6',
     initiallyUnlocked: false,
     unlockCriteria: {
@@ -105,6 +120,13 @@ export function getCharacterById(id: number): CharacterConfig | undefined {
   return CHARACTERS.find((c) => c.id === id);
 }
 
+/**
+ * Get a character's jump timing windows
+ */
+export function getJumpAssist(character: CharacterConfig): JumpAssist {
+  return character.jumpAssist ?? DEFAULT_JUMP_ASSIST;
+}
+
 /**
  * Get all initially unlocked characters
  */
@@ -0,0 +1,51 @@
+/**
+ * Gesture Configuration
+ * Touch gesture thresholds and the ranges the sensitivity calibration screen
+ * lets players pick from. Thresholds are saved per profile.
+ */
+
+import { clamp, isFiniteNumber, isObject } from '../utils/Validation';
+
+export interface GestureThresholds {
+  minDistance: number; // Shortest swipe (pixels)
+  minVelocity: number; // Slowest swipe (pixels per millisecond)
+  maxDuration: number; // Longest swipe (milliseconds)
+  dragDistance: number; // Sideways drag that starts hold-to-move (pixels)
+}
+
+export const DEFAULT_GESTURE_THRESHOLDS: GestureThresholds = {
+  minDistance: 30,
+  minVelocity: 0.3,
+  maxDuration: 300,
+  dragDistance: 24,
+};
+
+/**
+ * Range and calibration step of each threshold
+ */
+export const GESTURE_THRESHOLD_RANGES: Record<
+  keyof GestureThresholds,
+  { min: number; max: number; step: number }
+> = {
+  minDistance: { min: 10, max: 80, step: 5 },
+  minVelocity: { min: 0.1, max: 1, step: 0.05 },
+  maxDuration: { min: 150, max: 600, step: 50 },
+  dragDistance: { min: 10, max: 80, step: 5 },
+};
+
+/**
+ * Read stored thresholds, clamped to their ranges (the defaults for anything missing)
+ */
+export function readGestureThresholds(value: unknown): GestureThresholds {
+  const stored = isObject(value) ? value : {};
+
+  const thresholds = { ...DEFAULT_GESTURE_THRESHOLDS };
+  for (const key of Object.keys(thresholds) as (keyof GestureThresholds)[]) {
+    const storedValue = stored[key];
+    if (isFiniteNumber(storedValue)) {
+      const { min, max } = GESTURE_THRESHOLD_RANGES[key];
+      thresholds[key] = clamp(storedValue, min, max);
+    }
+  }
+  return thresholds;
+}
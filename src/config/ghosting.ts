@@ -0,0 +1,56 @@
+/**
+ * Ghosting Configuration
+ * LCD ghosting: moving sprites smear as earlier frames fade out, and lit
+ * pixels cast a faint shadow onto the screen behind them. Off by default;
+ * saved per profile.
+ */
+
+import { clamp, isFiniteNumber, isObject } from '../utils/Validation';
+
+export interface GhostingSettings {
+  enabled: boolean;
+  intensity: number; // MIN_GHOSTING_INTENSITY (faint) to 1 (heavy smear)
+}
+
+export const DEFAULT_GHOSTING_SETTINGS: GhostingSettings = {
+  enabled: false,
+  intensity: 0.5,
+};
+
+// Intensity range and settings step
+export const MIN_GHOSTING_INTENSITY = 0.1;
+export const GHOSTING_INTENSITY_STEP = 0.1;
+
+// Strongest effect, at full intensity
+const MAX_DECAY = 0.8; // Share of the previous frame kept each 60 FPS frame
+const MAX_SHADOW_ALPHA = 0.25; // Opacity of the pixel shadow
+
+/**
+ * Share of the previous frame kept each 60 FPS frame at an intensity
+ */
+export function getGhostingDecay(intensity: number): number {
+  return MAX_DECAY * intensity;
+}
+
+/**
+ * Opacity of the pixel shadow at an intensity
+ */
+export function getGhostingShadowAlpha(intensity: number): number {
+  return MAX_SHADOW_ALPHA * intensity;
+}
+
+/**
+ * Read stored ghosting settings, using the defaults for anything missing or malformed
+ */
+export function readGhostingSettings(value: unknown): GhostingSettings {
+  const stored = isObject(value) ? value : {};
+  const intensity = stored.intensity;
+
+  return {
+    enabled:
+      typeof stored.enabled === 'boolean' ? stored.enabled : DEFAULT_GHOSTING_SETTINGS.enabled,
+    intensity: isFiniteNumber(intensity)
+      ? clamp(intensity, MIN_GHOSTING_INTENSITY, 1)
+      : DEFAULT_GHOSTING_SETTINGS.intensity,
+  };
+}
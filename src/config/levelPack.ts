@@ -0,0 +1,249 @@
+/**
+ * Level Pack Format
+ * Versioned JSON format for level definitions (crane counts, speeds, lines, rewards,
+ * descriptions) so levels can be tweaked and added without touching TypeScript.
+ * Packs are validated on load; every problem is reported as a readable message.
+ */
+
+import type { LevelConfig } from '../types/config';
+import { getCharacterById } from './characters';
+import { validateSpawnTable } from './spawnTable';
+import { isObject } from '../utils/Validation';
+
+/**
+ * Current level pack format version (bump when the format changes)
+ */
+export const LEVEL_PACK_FORMAT_VERSION = 1;
+
+/**
+ * Maximum number of cranes the play area can hold
+ */
+export const MAX_CRANE_COUNT = 8;
+
+/**
+ * A validated set of level definitions
+ */
+export interface LevelPack {
+  version: number;
+  name: string;
+  levels: LevelConfig[];
+}
+
+/**
+ * Result of validating a level pack: the pack, or every problem found
+ */
+export type LevelPackResult = { pack: LevelPack; errors: [] } | { pack: null; errors: string[] };
+
+const PACK_FIELDS = ['version', 'name', 'levels'];
+
+const LEVEL_FIELDS = [
+  'levelNumber',
+  'craneCount',
+  'crateSpeed',
+  'linesToClear',
+  'description',
+  'spawnInterval',
+  'specialBlockRate',
+  'bombRate',
+  'spawnTable',
+  'unlockCharacterIds',
+];
+
+function describeValue(value: unknown): string {
+  return value === undefined ? 'nothing' : JSON.stringify(value);
+}
+
+/**
+ * Validate one level definition, appending a message to errors for each problem
+ */
+function validateLevel(data: unknown, index: number, errors: string[]): LevelConfig | null {
+  const path = `levels[${index}]`;
+  if (!isObject(data)) {
+    errors.push(`${path}: expected an object, got ${describeValue(data)}`);
+    return null;
+  }
+
+  const errorCount = errors.length;
+  const expect = (field: string, valid: boolean, expected: string) => {
+    if (!valid) {
+      errors.push(`${path}.${field}: expected ${expected}, got ${describeValue(data[field])}`);
+    }
+  };
+  const isInteger = (value: unknown, min: number, max = Infinity) =>
+    Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+  const isNumber = (value: unknown, min: number, max = Infinity) =>
+    typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+  const isOptional = (field: string, valid: (value: unknown) => boolean) =>
+    data[field] === undefined || valid(data[field]);
+
+  for (const field of Object.keys(data)) {
+    if (!LEVEL_FIELDS.includes(field)) {
+      errors.push(`${path}.${field}: unknown field`);
+    }
+  }
+
+  expect(
+    'levelNumber',
+    data.levelNumber === index + 1,
+    `${index + 1} (levels are numbered in order from 1)`
+  );
+  expect(
+    'craneCount',
+    isInteger(data.craneCount, 1, MAX_CRANE_COUNT),
+    `a whole number from 1 to ${MAX_CRANE_COUNT}`
+  );
+  expect('crateSpeed', isNumber(data.crateSpeed, 0.1), 'a number of at least 0.1');
+  expect('linesToClear', isInteger(data.linesToClear, 1), 'a whole number of at least 1');
+  expect(
+    'description',
+    isOptional('description', (value) => typeof value === 'string'),
+    'text'
+  );
+  expect(
+    'spawnInterval',
+    isOptional('spawnInterval', (value) => isNumber(value, 100)),
+    'a time in milliseconds of at least 100'
+  );
+  expect(
+    'specialBlockRate',
+    isOptional('specialBlockRate', (value) => isNumber(value, 0, 1)),
+    'a chance from 0 to 1'
+  );
+  expect(
+    'bombRate',
+    isOptional('bombRate', (value) => isNumber(value, 0, 1)),
+    'a chance from 0 to 1'
+  );
+
+  if (data.spawnTable !== undefined) {
+    errors.push(...validateSpawnTable(data.spawnTable, `${path}.spawnTable`));
+  }
+
+  const unlocks = data.unlockCharacterIds;
+  if (unlocks !== undefined) {
+    if (!Array.isArray(unlocks)) {
+      errors.push(
+        `${path}.unlockCharacterIds: expected a list of character ids, got ${describeValue(unlocks)}`
+      );
+    } else {
+      unlocks.forEach((id, i) => {
+        if (!Number.isInteger(id) || !getCharacterById(id as number)) {
+          errors.push(
+            `${path}.unlockCharacterIds[${i}]: unknown character id ${describeValue(id)}`
+          );
+        }
+      });
+    }
+  }
+
+  if (
+    typeof data.specialBlockRate === 'number' &&
+    typeof data.bombRate === 'number' &&
+    data.specialBlockRate + data.bombRate > 1
+  ) {
+    errors.push(`${path}: specialBlockRate and bombRate add up to more than 1`);
+  }
+
+  if (errors.length > errorCount) {
+    return null;
+  }
+
+  return { ...data } as unknown as LevelConfig;
+}
+
+/**
+ * Validate parsed level pack data
+ * Returns the pack, or a readable message for every problem found
+ */
+export function validateLevelPack(data: unknown): LevelPackResult {
+  if (!isObject(data)) {
+    return { pack: null, errors: [`level pack: expected an object, got ${describeValue(data)}`] };
+  }
+
+  const errors: string[] = [];
+
+  if (data.version !== LEVEL_PACK_FORMAT_VERSION) {
+    errors.push(
+      `version: expected ${LEVEL_PACK_FORMAT_VERSION}, got ${describeValue(data.version)}`
+    );
+  }
+  if (data.name !== undefined && typeof data.name !== 'string') {
+    errors.push(`name: expected text, got ${describeValue(data.name)}`);
+  }
+  for (const field of Object.keys(data)) {
+    if (!PACK_FIELDS.includes(field)) {
+      errors.push(`${field}: unknown field`);
+    }
+  }
+
+  const levels: LevelConfig[] = [];
+  if (!Array.isArray(data.levels) || data.levels.length === 0) {
+    errors.push(`levels: expected a non-empty list of levels, got ${describeValue(data.levels)}`);
+  } else {
+    data.levels.forEach((levelData, index) => {
+      const level = validateLevel(levelData, index, errors);
+      if (level) {
+        levels.push(level);
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    return { pack: null, errors };
+  }
+
+  return {
+    pack: {
+      version: LEVEL_PACK_FORMAT_VERSION,
+      name: typeof data.name === 'string' ? data.name : 'Untitled',
+      levels,
+    },
+    errors: [],
+  };
+}
+
+/**
+ * Parse and validate a level pack from JSON text
+ */
+export function parseLevelPack(json: string): LevelPackResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { pack: null, errors: [`level pack is not valid JSON: ${reason}`] };
+  }
+
+  return validateLevelPack(data);
+}
+
+/**
+ * Fetch, parse and validate a level pack from a URL
+ */
+export async function loadLevelPack(url: string): Promise<LevelPackResult> {
+  let json: string;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      return { pack: null, errors: [`could not load ${url}: HTTP ${response.status}`] };
+    }
+    json = await response.text();
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { pack: null, errors: [`could not load ${url}: ${reason}`] };
+  }
+
+  return parseLevelPack(json);
+}
+
+/**
+ * Validate a level pack that ships with the game
+ * Throws with every problem listed, since a broken bundled pack is a build error
+ */
+export function requireLevelPack(data: unknown, source: string): LevelPack {
+  const result = validateLevelPack(data);
+  if (!result.pack) {
+    throw new Error(`Invalid level pack ${source}:\n${result.errors.join('\n')}`);
+  }
+  return result.pack;
+}
@@ -1,9 +1,14 @@
 /**
  * Level Configuration
- * Defines all levels with their difficulty parameters
+ * Level lookups and difficulty parameters; the levels themselves are defined in
+ * JSON level packs (see levelPack.ts)
  */
 
 import type { LevelConfig } from '../types/config';
+import { GameMode } from '../types/game';
+import type { LevelPack } from './levelPack';
+import { requireLevelPack, MAX_CRANE_COUNT } from './levelPack';
+import classicPack from './levelPacks/classic.json';
 
 /**
  * Base fall speed in pixels per second
@@ -12,98 +17,143 @@ import type { LevelConfig } from '../types/config';
 export const BASE_FALL_SPEED = 60;
 
 /**
- * All level definitions with progressive difficulty
+ * Base time between crane drops in milliseconds
+ * Levels without an explicit spawnInterval divide this by their crateSpeed
+ */
+export const BASE_SPAWN_INTERVAL = 2000;
+
+/**
+ * Default special block chance per drop (midpoint of the 5-10% range)
+ */
+export const DEFAULT_SPECIAL_BLOCK_RATE = 0.075;
+
+/**
+ * Default bomb chance per drop - rare (2-3%)
+ */
+export const DEFAULT_BOMB_RATE = 0.025;
+
+/**
+ * Endless mode scaling, applied per level beyond the last designed level
+ * Each parameter grows (or shrinks) linearly from the last level's values up to its limit
+ */
+export const ENDLESS_SCALING = {
+  crateSpeedStep: 0.2,
+  maxCrateSpeed: 6.0,
+  spawnIntervalFactor: 0.95, // Multiplied in once per level
+  minSpawnInterval: 250,
+  specialBlockRateStep: 0.005,
+  maxSpecialBlockRate: 0.15,
+  bombRateStep: 0.005,
+  maxBombRate: 0.1,
+  linesToClearStep: 3,
+  maxLinesToClear: 50,
+  maxCraneCount: MAX_CRANE_COUNT,
+};
+
+/**
+ * The level pack that ships with the game (src/config/levelPacks/classic.json)
  *
  * Level Parameters:
  * - craneCount: Number of cranes dropping crates (1-8)
  * - crateSpeed: Multiplier for fall speed (1.0-4.0)
  * - linesToClear: Number of lines needed to complete the level
+ * - unlockCharacterIds: Characters unlocked by completing the level
+ */
+export const DEFAULT_LEVEL_PACK: LevelPack = requireLevelPack(classicPack, 'classic.json');
+
+/**
+ * All level definitions of the default pack, with progressive difficulty
  */
-export const LEVELS: LevelConfig[] = [
-  {
-    levelNumber: 1,
-    craneCount: 1,
-    crateSpeed: 1.0,
-    linesToClear: 3,
-    description: 'Welcome to Stack Attack!',
-  },
-  {
-    levelNumber: 2,
-    craneCount: 2,
-    crateSpeed: 1.2,
-    linesToClear: 5,
-    description: 'Two cranes now!',
-  },
-  {
-    levelNumber: 3,
-    craneCount: 2,
-    crateSpeed: 1.5,
-    linesToClear: 7,
-    description: 'Crates are falling faster!',
-  },
-  {
-    levelNumber: 4,
-    craneCount: 3,
-    crateSpeed: 1.8,
-    linesToClear: 8,
-    description: 'Three cranes in action!',
-  },
-  {
-    levelNumber: 5,
-    craneCount: 4,
-    crateSpeed: 2.0,
-    linesToClear: 10,
-    description: 'Four cranes dropping crates!',
-  },
-  {
-    levelNumber: 6,
-    craneCount: 5,
-    crateSpeed: 2.3,
-    linesToClear: 12,
-    description: 'Getting challenging!',
-  },
-  {
-    levelNumber: 7,
-    craneCount: 6,
-    crateSpeed: 2.6,
-    linesToClear: 15,
-    description: 'Six cranes!',
-  },
-  {
-    levelNumber: 8,
-    craneCount: 7,
-    crateSpeed: 3.0,
-    linesToClear: 18,
-    description: 'Seven cranes now!',
-  },
-  {
-    levelNumber: 9,
-    craneCount: 8,
-    crateSpeed: 3.5,
-    linesToClear: 20,
-    description: 'Maximum cranes!',
-  },
-  {
-    levelNumber: 10,
-    craneCount: 8,
-    crateSpeed: 4.0,
-    linesToClear: 25,
-    description: 'Final challenge!',
-  },
-];
+export const LEVELS: LevelConfig[] = DEFAULT_LEVEL_PACK.levels;
 
 /**
  * Get level configuration by level number
  */
-export function getLevelConfig(levelNumber: number): LevelConfig | undefined {
-  return LEVELS.find((l) => l.levelNumber === levelNumber);
+export function getLevelConfig(
+  levelNumber: number,
+  pack: LevelPack = DEFAULT_LEVEL_PACK
+): LevelConfig | undefined {
+  return pack.levels.find((l) => l.levelNumber === levelNumber);
+}
+
+/**
+ * Generate an endless mode level beyond the last designed level
+ * Levels up to the last designed one are returned unchanged; generated levels spawn
+ * from their special block and bomb rates rather than a custom spawn table
+ */
+export function getEndlessLevelConfig(
+  levelNumber: number,
+  pack: LevelPack = DEFAULT_LEVEL_PACK
+): LevelConfig | undefined {
+  const maxLevel = getMaxLevel(pack);
+  if (levelNumber <= maxLevel) {
+    return getLevelConfig(levelNumber, pack);
+  }
+
+  const last = getLevelConfig(maxLevel, pack)!;
+  const beyond = levelNumber - maxLevel;
+  const crateSpeed = Math.min(
+    last.crateSpeed + beyond * ENDLESS_SCALING.crateSpeedStep,
+    ENDLESS_SCALING.maxCrateSpeed
+  );
+  const lastSpawnInterval = last.spawnInterval ?? BASE_SPAWN_INTERVAL / last.crateSpeed;
+
+  return {
+    levelNumber,
+    craneCount: Math.min(last.craneCount + beyond, ENDLESS_SCALING.maxCraneCount),
+    crateSpeed,
+    linesToClear: Math.min(
+      last.linesToClear + beyond * ENDLESS_SCALING.linesToClearStep,
+      ENDLESS_SCALING.maxLinesToClear
+    ),
+    spawnInterval: Math.max(
+      Math.round(lastSpawnInterval * Math.pow(ENDLESS_SCALING.spawnIntervalFactor, beyond)),
+      ENDLESS_SCALING.minSpawnInterval
+    ),
+    specialBlockRate: Math.min(
+      (last.specialBlockRate ?? DEFAULT_SPECIAL_BLOCK_RATE) +
+        beyond * ENDLESS_SCALING.specialBlockRateStep,
+      ENDLESS_SCALING.maxSpecialBlockRate
+    ),
+    bombRate: Math.min(
+      (last.bombRate ?? DEFAULT_BOMB_RATE) + beyond * ENDLESS_SCALING.bombRateStep,
+      ENDLESS_SCALING.maxBombRate
+    ),
+    description: `Endless level ${levelNumber}`,
+    unlockCharacterIds: [],
+  };
+}
+
+/**
+ * Get the level configuration for a game mode
+ * Endless mode generates levels beyond the last designed level
+ */
+export function resolveLevelConfig(
+  levelNumber: number,
+  mode: GameMode = GameMode.Classic,
+  pack: LevelPack = DEFAULT_LEVEL_PACK
+): LevelConfig | undefined {
+  return mode === GameMode.Endless
+    ? getEndlessLevelConfig(levelNumber, pack)
+    : getLevelConfig(levelNumber, pack);
+}
+
+/**
+ * Get the time between crane drops for a level in milliseconds
+ */
+export function getLevelSpawnInterval(level: LevelConfig): number {
+  return level.spawnInterval ?? BASE_SPAWN_INTERVAL / level.crateSpeed;
 }
 
 /**
  * Get the fall speed for a level in pixels per second
  */
-export function getLevelFallSpeed(levelNumber: number): number {
-  const level = getLevelConfig(levelNumber);
+export function getLevelFallSpeed(
+  levelNumber: number,
+  mode: GameMode = GameMode.Classic,
+  pack: LevelPack = DEFAULT_LEVEL_PACK
+): number {
+  const level = resolveLevelConfig(levelNumber, mode, pack);
   if (!level) {
     // Default to highest difficulty if level not found
     return BASE_FALL_SPEED * 4.0;
@@ -114,35 +164,35 @@ export function getLevelFallSpeed(levelNumber: number): number {
 /**
  * Get all levels
  */
-export function getAllLevels(): LevelConfig[] {
-  return [...LEVELS];
+export function getAllLevels(pack: LevelPack = DEFAULT_LEVEL_PACK): LevelConfig[] {
+  return [...pack.levels];
 }
 
 /**
  * Get the maximum level number
  */
-export function getMaxLevel(): number {
-  return Math.max(...LEVELS.map((l) => l.levelNumber));
+export function getMaxLevel(pack: LevelPack = DEFAULT_LEVEL_PACK): number {
+  return Math.max(...pack.levels.map((l) => l.levelNumber));
 }
 
 /**
- * Check if there's a next level
+ * Check if there's a next level (always true in endless mode)
  */
-export function hasNextLevel(currentLevel: number): boolean {
-  return currentLevel < getMaxLevel();
+export function hasNextLevel(
+  currentLevel: number,
+  mode: GameMode = GameMode.Classic,
+  pack: LevelPack = DEFAULT_LEVEL_PACK
+): boolean {
+  return mode === GameMode.Endless || currentLevel < getMaxLevel(pack);
 }
 
 /**
  * Get unlock rewards for a specific level
  * Returns an array of character IDs that unlock at this level
  */
-export function getLevelUnlockRewards(levelNumber: number): number[] {
-  // Character unlock mapping by level
-  const unlockMap: Record<number, number[]> = {
-    3: [3], // Level 3 unlocks Character 3 (Jumper)
-    5: [4], // Level 5 unlocks Character 4 (Strong)
-    8: [6], // Level 8 unlocks Character 6 (Master)
-  };
-
-  return unlockMap[levelNumber] || [];
+export function getLevelUnlockRewards(
+  levelNumber: number,
+  pack: LevelPack = DEFAULT_LEVEL_PACK
+): number[] {
+  return [...(getLevelConfig(levelNumber, pack)?.unlockCharacterIds ?? [])];
 }
@@ -0,0 +1,117 @@
+/**
+ * Music Configuration
+ * Background music for each scene, written in the tracker format read by
+ * MusicSequencer (see MusicSequencer.ts for the format)
+ */
+
+import { SceneType } from '../types/game';
+
+/**
+ * Music tracks
+ */
+export const MusicTrack = {
+  Menu: 'menu',
+  Game: 'game',
+  LevelTransition: 'levelTransition',
+  GameOver: 'gameOver',
+} as const;
+export type MusicTrack = (typeof MusicTrack)[keyof typeof MusicTrack];
+
+/**
+ * How much faster the in-game music gets per unit of crate speed above 1
+ * (crate speed triples over the classic levels; the music only speeds up by half)
+ */
+export const GAME_MUSIC_TEMPO_STEP = 0.25;
+
+/**
+ * Song text for each track
+ */
+export const MUSIC_TRACKS: Record<MusicTrack, string> = {
+  menu: `
+# Main menu - easy-going two-voice loop
+tempo 120
+channel lead square 0.4
+channel bass square 0.3
+
+pattern a
+lead C-5 ... E-5 ... G-5 ... E-5 ... F-5 ... A-5 ... G-5 ... --- ...
+bass C-3 ... ... ... C-3 ... ... ... F-2 ... ... ... G-2 ... ... ...
+
+pattern b
+lead E-5 ... D-5 ... C-5 ... D-5 ... E-5 ... G-5 ... C-6 ... --- ...
+bass A-2 ... ... ... E-2 ... ... ... F-2 ... ... ... G-2 ... C-3 ...
+
+order a b a b
+`,
+
+  game: `
+# In game - driving minor-key lead over noise drums
+tempo 140
+channel lead square 0.4
+channel drums noise 0.25 decay
+
+pattern a
+lead  A-4 ... C-5 A-4 E-5 ... C-5 ... D-5 ... B-4 ... G#4 ... E-4 ...
+drums C-4 ... C-7 ... C-5 ... C-7 ... C-4 ... C-7 ... C-5 ... C-7 C-7
+
+pattern b
+lead  A-4 ... E-5 ... A-5 ... G-5 ... F-5 ... E-5 ... D-5 ... E-5 ...
+drums C-4 ... C-7 ... C-5 ... C-7 ... C-4 ... C-7 ... C-5 C-7 C-5 C-5
+
+order a a b a
+`,
+
+  levelTransition: `
+# Level complete - short fanfare
+tempo 150
+channel lead square 0.4
+
+pattern fanfare
+lead G-4 C-5 E-5 G-5 ... E-5 G-5 ... ... ... --- ... ... ... ... ...
+
+order fanfare
+`,
+
+  gameOver: `
+# Game over - slow descending line
+tempo 80
+channel lead square 0.35
+
+pattern a
+lead A-4 ... ... ... G-4 ... ... ... F-4 ... ... ... E-4 ... ... ...
+
+pattern b
+lead D-4 ... ... ... C-4 ... ... ... B-3 ... ... ... ... ... --- ...
+
+order a b
+`,
+};
+
+/**
+ * Music for each scene (scenes without an entry are silent)
+ */
+const SCENE_MUSIC: Partial<Record<SceneType, MusicTrack>> = {
+  [SceneType.ProfileSelect]: MusicTrack.Menu,
+  [SceneType.MainMenu]: MusicTrack.Menu,
+  [SceneType.Settings]: MusicTrack.Menu,
+  [SceneType.Controls]: MusicTrack.Menu,
+  [SceneType.PaletteEditor]: MusicTrack.Menu,
+  [SceneType.CharacterSelect]: MusicTrack.Menu,
+  [SceneType.Game]: MusicTrack.Game,
+  [SceneType.LevelTransition]: MusicTrack.LevelTransition,
+  [SceneType.GameOver]: MusicTrack.GameOver,
+};
+
+/**
+ * Get the music track for a scene (null if the scene has no music)
+ */
+export function getSceneMusicTrack(sceneType: SceneType): MusicTrack | null {
+  return SCENE_MUSIC[sceneType] ?? null;
+}
+
+/**
+ * Get the in-game music tempo scale for a level's crate speed multiplier
+ */
+export function getGameMusicTempoScale(crateSpeedMultiplier: number): number {
+  return 1 + Math.max(0, crateSpeedMultiplier - 1) * GAME_MUSIC_TEMPO_STEP;
+}
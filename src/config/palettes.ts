@@ -0,0 +1,207 @@
+/**
+ * Palette Configuration
+ * LCD color palettes: the presets the game ships with and the custom palettes
+ * players make in the palette editor. Custom palettes are saved per profile.
+ */
+
+import { isObject } from '../utils/Validation';
+
+/**
+ * Palette id - one of the presets below or a custom palette
+ */
+export type ColorPalette = string;
+export const ColorPalette = {
+  Blue: 'blue',
+  Amber: 'amber',
+  HighContrast: 'highContrast',
+  Green: 'green',
+  Grey: 'grey',
+  Red: 'red',
+  Inverted: 'inverted',
+} as const;
+
+export interface PaletteColors {
+  background: number;
+  foreground: number;
+  accent: number;
+  glow: number;
+}
+
+export interface PaletteDefinition {
+  id: ColorPalette;
+  name: string; // Shown in settings
+  colors: PaletteColors;
+}
+
+/**
+ * Editable colors, in the order the palette editor lists them
+ */
+export const PALETTE_COLOR_KEYS: (keyof PaletteColors)[] = [
+  'background',
+  'foreground',
+  'accent',
+  'glow',
+];
+
+/**
+ * Preset palettes, in the order settings cycles through them
+ */
+export const PRESET_PALETTES: PaletteDefinition[] = [
+  {
+    // Authentic backlit LCD style (bright cyan background, dark pixels)
+    id: ColorPalette.Blue,
+    name: 'BLUE',
+    colors: {
+      background: 0x6eb8d4, // Cyan/turquoise backlit LCD background (like Siemens)
+      foreground: 0x0a1018, // Near-black for game elements
+      accent: 0x3a5a6a, // Dark gray-blue for mid-tones
+      glow: 0x8ed0e8, // Lighter cyan for center glow
+    },
+  },
+  {
+    // Siemens A50 style orange LCD
+    id: ColorPalette.Amber,
+    name: 'AMBER',
+    colors: {
+      background: 0xe8621f, // Siemens A50 orange LCD background
+      foreground: 0x1a1810, // Near-black for game elements
+      accent: 0xb84a18, // Darker orange for mid-tones
+      glow: 0xf58040, // Lighter orange for center glow
+    },
+  },
+  {
+    // Maximum separation between pixels and background
+    id: ColorPalette.HighContrast,
+    name: 'HIGH CONTRAST',
+    colors: {
+      background: 0xffffff, // Pure white background
+      foreground: 0x000000, // Pure black for game elements
+      accent: 0x404040, // Dark gray for mid-tones (still readable on white)
+      glow: 0xffffff, // No tint (the vignette is skipped)
+    },
+  },
+  {
+    // Original handheld pea-green screen
+    id: ColorPalette.Green,
+    name: 'GREEN',
+    colors: {
+      background: 0x9bbc0f, // Pea-green LCD background
+      foreground: 0x0f380f, // Darkest green for game elements
+      accent: 0x306230, // Dark green for mid-tones
+      glow: 0xb8d43a, // Lighter green for center glow
+    },
+  },
+  {
+    // Unlit monochrome LCD
+    id: ColorPalette.Grey,
+    name: 'GREY',
+    colors: {
+      background: 0xc4c8c0, // Grey reflective LCD background
+      foreground: 0x1c1c1c, // Near-black for game elements
+      accent: 0x70746e, // Mid grey for mid-tones
+      glow: 0xdcdfd8, // Lighter grey for center glow
+    },
+  },
+  {
+    // Red backlit LCD
+    id: ColorPalette.Red,
+    name: 'RED',
+    colors: {
+      background: 0xd8383a, // Red LCD background
+      foreground: 0x1a0c0c, // Near-black for game elements
+      accent: 0x9a2426, // Darker red for mid-tones
+      glow: 0xf05a5a, // Lighter red for center glow
+    },
+  },
+  {
+    // Negative LCD - light pixels on a dark screen
+    id: ColorPalette.Inverted,
+    name: 'INVERTED',
+    colors: {
+      background: 0x101010, // Near-black background
+      foreground: 0xf0f0f0, // Near-white for game elements
+      accent: 0x909090, // Light grey for mid-tones
+      glow: 0x303030, // Dark grey for center glow
+    },
+  },
+];
+
+// Custom palettes per profile (ids are custom1, custom2, ...)
+export const MAX_CUSTOM_PALETTES = 4;
+const CUSTOM_PALETTE_PREFIX = 'custom';
+
+const isColor = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 0xffffff;
+
+/**
+ * Check if a palette was made in the palette editor
+ */
+export function isCustomPalette(palette: ColorPalette): boolean {
+  return palette.startsWith(CUSTOM_PALETTE_PREFIX);
+}
+
+/**
+ * Check if two palettes have the same colors
+ */
+export function samePaletteColors(a: PaletteColors, b: PaletteColors): boolean {
+  return PALETTE_COLOR_KEYS.every((key) => a[key] === b[key]);
+}
+
+/**
+ * Read stored custom palettes, dropping malformed or duplicate entries
+ */
+export function readCustomPalettes(value: unknown): PaletteDefinition[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const palettes: PaletteDefinition[] = [];
+  for (const stored of value) {
+    if (
+      !isObject(stored) ||
+      typeof stored.id !== 'string' ||
+      !isCustomPalette(stored.id) ||
+      typeof stored.name !== 'string' ||
+      !isObject(stored.colors) ||
+      palettes.some((palette) => palette.id === stored.id)
+    ) {
+      continue;
+    }
+
+    const colors = stored.colors;
+    if (PALETTE_COLOR_KEYS.every((key) => isColor(colors[key]))) {
+      palettes.push({
+        id: stored.id,
+        name: stored.name,
+        colors: {
+          background: colors.background as number,
+          foreground: colors.foreground as number,
+          accent: colors.accent as number,
+          glow: colors.glow as number,
+        },
+      });
+    }
+  }
+  return palettes.slice(0, MAX_CUSTOM_PALETTES);
+}
+
+/**
+ * Make a new custom palette starting from the given colors
+ * Returns null when there are already MAX_CUSTOM_PALETTES
+ */
+export function createCustomPalette(
+  existing: PaletteDefinition[],
+  colors: PaletteColors
+): PaletteDefinition | null {
+  if (existing.filter((palette) => isCustomPalette(palette.id)).length >= MAX_CUSTOM_PALETTES) {
+    return null;
+  }
+
+  for (let number = 1; number <= MAX_CUSTOM_PALETTES; number++) {
+    const id = `${CUSTOM_PALETTE_PREFIX}${number}`;
+    if (!existing.some((palette) => palette.id === id)) {
+      return { id, name: `CUSTOM ${number}`, colors: { ...colors } };
+    }
+  }
+  return null;
+}
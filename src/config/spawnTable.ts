@@ -0,0 +1,115 @@
+/**
+ * Spawn Table Configuration
+ * Weighted tables deciding which crate type (and, for regular crates, which color)
+ * each crane drop carries, with optional guarantees such as "at least one helmet
+ * per 30 crates". Each level can define its own table.
+ */
+
+import { CrateType, CRATE_COLORS } from '../types/entities';
+import type { SpawnTable } from '../types/config';
+
+/**
+ * Share of the special block weight per special type (Extra Life and Rainbow are the rarest)
+ */
+const SPECIAL_TYPE_SHARES: [CrateType, number][] = [
+  [CrateType.ExtraPoints, 2],
+  [CrateType.SuperJump, 2],
+  [CrateType.Helmet, 2],
+  [CrateType.ExtraLife, 1],
+  [CrateType.Rainbow, 1],
+];
+
+/**
+ * Every crate type, in spawn table order
+ */
+export const CRATE_TYPES = Object.values(CrateType) as CrateType[];
+
+/**
+ * Build a spawn table from a special block chance and a bomb chance per drop
+ * Used for levels that only set specialBlockRate/bombRate
+ */
+export function createSpawnTable(specialBlockRate: number, bombRate: number): SpawnTable {
+  const totalShares = SPECIAL_TYPE_SHARES.reduce((sum, [, share]) => sum + share, 0);
+  const types: Partial<Record<CrateType, number>> = {
+    [CrateType.Regular]: Math.max(0, 1 - specialBlockRate - bombRate),
+    [CrateType.Bomb]: bombRate,
+  };
+  for (const [type, share] of SPECIAL_TYPE_SHARES) {
+    types[type] = (specialBlockRate * share) / totalShares;
+  }
+  return { types };
+}
+
+/**
+ * Validate a spawn table definition from a level pack
+ * Returns a readable message for every problem (empty if valid)
+ */
+export function validateSpawnTable(data: unknown, path: string): string[] {
+  const errors: string[] = [];
+  const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+  if (!isRecord(data)) {
+    return [`${path}: expected an object with types, colors and guarantees`];
+  }
+
+  const validateWeights = (field: string, keys: readonly string[], required: boolean) => {
+    const weights = data[field];
+    if (weights === undefined && !required) return;
+    if (!isRecord(weights)) {
+      errors.push(`${path}.${field}: expected weights by name (${keys.join(', ')})`);
+      return;
+    }
+    let total = 0;
+    for (const [key, weight] of Object.entries(weights)) {
+      if (!keys.includes(key)) {
+        errors.push(`${path}.${field}.${key}: unknown name (expected one of ${keys.join(', ')})`);
+      } else if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+        errors.push(`${path}.${field}.${key}: expected a weight of at least 0`);
+      } else {
+        total += weight;
+      }
+    }
+    if (total <= 0) {
+      errors.push(`${path}.${field}: at least one weight must be above 0`);
+    }
+  };
+
+  validateWeights('types', CRATE_TYPES, true);
+  validateWeights('colors', CRATE_COLORS, false);
+
+  const guarantees = data.guarantees;
+  if (guarantees !== undefined) {
+    if (!Array.isArray(guarantees)) {
+      errors.push(`${path}.guarantees: expected a list of guarantees`);
+    } else {
+      guarantees.forEach((guarantee, i) => {
+        const at = `${path}.guarantees[${i}]`;
+        if (!isRecord(guarantee)) {
+          errors.push(`${at}: expected an object with type, count and per`);
+          return;
+        }
+        if (!CRATE_TYPES.includes(guarantee.type as CrateType)) {
+          errors.push(`${at}.type: expected one of ${CRATE_TYPES.join(', ')}`);
+        }
+        if (!Number.isInteger(guarantee.count) || (guarantee.count as number) < 1) {
+          errors.push(`${at}.count: expected a whole number of at least 1`);
+        }
+        if (
+          !Number.isInteger(guarantee.per) ||
+          (guarantee.per as number) < ((guarantee.count as number) || 1)
+        ) {
+          errors.push(`${at}.per: expected a whole number of crates of at least count`);
+        }
+      });
+    }
+  }
+
+  for (const field of Object.keys(data)) {
+    if (!['types', 'colors', 'guarantees'].includes(field)) {
+      errors.push(`${path}.${field}: unknown field`);
+    }
+  }
+
+  return errors;
+}
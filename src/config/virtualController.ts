@@ -0,0 +1,111 @@
+/**
+ * Virtual Controller Configuration
+ * Layouts and button placement for the on-screen touch controls. Placement is
+ * saved per device (not per profile), as it depends on the screen and the hands
+ * holding it.
+ */
+
+import { clamp, isFiniteNumber, isObject } from '../utils/Validation';
+
+/**
+ * Touch control schemes
+ */
+export const ControllerLayout = {
+  DpadButton: 'dpadButton', // Left/right buttons and a jump button
+  TapZones: 'tapZones', // Tap the lower left/right of the screen to move, the top to jump
+  SwipeOnly: 'swipeOnly', // Swipe left/right to move, up to jump
+} as const;
+export type ControllerLayout = (typeof ControllerLayout)[keyof typeof ControllerLayout];
+
+/**
+ * On-screen buttons that can be placed
+ */
+export const ControllerButton = {
+  Left: 'left',
+  Right: 'right',
+  Jump: 'jump',
+  Pause: 'pause',
+} as const;
+export type ControllerButton = (typeof ControllerButton)[keyof typeof ControllerButton];
+
+/**
+ * Center of a button, as a fraction of the screen width and height (0-1)
+ */
+export interface ButtonPlacement {
+  x: number;
+  y: number;
+}
+
+export interface VirtualControllerSettings {
+  layout: ControllerLayout;
+  buttonSize: number; // Pixels (the pause button is half as big)
+  opacity: number; // 0-1
+  buttons: Record<ControllerButton, ButtonPlacement>;
+}
+
+// Button size range (the minimum is the recommended 44px touch target)
+export const MIN_BUTTON_SIZE = 44;
+export const MAX_BUTTON_SIZE = 140;
+
+// Lowest opacity (so buttons can't be made invisible and lost)
+export const MIN_BUTTON_OPACITY = 0.2;
+
+/**
+ * Default layout: movement in the bottom left corner, jump in the bottom right
+ */
+export const DEFAULT_VIRTUAL_CONTROLLER_SETTINGS: VirtualControllerSettings = {
+  layout: ControllerLayout.DpadButton,
+  buttonSize: 90,
+  opacity: 1,
+  buttons: {
+    left: { x: 0.16, y: 0.88 },
+    right: { x: 0.42, y: 0.88 },
+    jump: { x: 0.84, y: 0.88 },
+    pause: { x: 0.1, y: 0.74 },
+  },
+};
+
+/**
+ * Read stored controller settings, using the defaults for anything missing or malformed
+ */
+export function readVirtualControllerSettings(value: unknown): VirtualControllerSettings {
+  const defaults = DEFAULT_VIRTUAL_CONTROLLER_SETTINGS;
+  const stored = isObject(value) ? value : {};
+  const storedButtons = isObject(stored.buttons) ? stored.buttons : {};
+
+  const buttons = { ...defaults.buttons };
+  for (const button of Object.values(ControllerButton)) {
+    const placement = storedButtons[button];
+    if (isObject(placement) && isFiniteNumber(placement.x) && isFiniteNumber(placement.y)) {
+      buttons[button] = { x: clamp(placement.x, 0, 1), y: clamp(placement.y, 0, 1) };
+    }
+  }
+
+  return {
+    layout: (Object.values(ControllerLayout) as unknown[]).includes(stored.layout)
+      ? (stored.layout as ControllerLayout)
+      : defaults.layout,
+    buttonSize: isFiniteNumber(stored.buttonSize)
+      ? clamp(stored.buttonSize, MIN_BUTTON_SIZE, MAX_BUTTON_SIZE)
+      : defaults.buttonSize,
+    opacity: isFiniteNumber(stored.opacity)
+      ? clamp(stored.opacity, MIN_BUTTON_OPACITY, 1)
+      : defaults.opacity,
+    buttons,
+  };
+}
+
+/**
+ * Flip the button placement left to right (e.g. for left-handed players)
+ * The move buttons trade places, so the left arrow stays left of the right arrow
+ */
+export function mirrorVirtualController(
+  settings: VirtualControllerSettings
+): VirtualControllerSettings {
+  const flip = ({ x, y }: ButtonPlacement): ButtonPlacement => ({ x: 1 - x, y });
+  const { left, right, jump, pause } = settings.buttons;
+  return {
+    ...settings,
+    buttons: { left: flip(right), right: flip(left), jump: flip(jump), pause: flip(pause) },
+  };
+}
@@ -1,13 +1,14 @@
 /**
  * Character Entity
  * Player-controlled character with movement, jumping, and pushing abilities
+ * Pure model (no rendering) - drawn by CharacterView
  */
 
-import { Sprite, Texture } from 'pixi.js';
 import type { CharacterConfig } from '../types/config';
 import type { Position, Velocity } from '../types/entities';
 import type { CharacterAnimationFrame } from '../utils/SpriteGenerator';
 import { DEFAULT_GRID_CONFIG, getGridLeftX } from '../config/grid';
+import { getJumpAssist } from '../config/characters';
 
 export const CharacterState = {
   Idle: 'idle',
@@ -19,6 +20,34 @@ export const CharacterState = {
 
 export type CharacterState = (typeof CharacterState)[keyof typeof CharacterState];
 
+/**
+ * Serializable character state (for mid-game save and resume)
+ */
+export interface CharacterSnapshot {
+  characterId: number;
+  x: number;
+  y: number;
+  velocity: Velocity;
+  state: CharacterState;
+  onGround: boolean;
+  wasOnGround: boolean;
+  facingRight: boolean;
+  superJumpActive: boolean;
+  superJumpEndTime: number;
+  walkAnimationTimer: number;
+  walkSequenceIndex: number;
+  pushAnimationTimer: number;
+  pushSequenceIndex: number;
+  idleAnimationTimer: number;
+  idleSequenceIndex: number;
+  idleLookingLeft: boolean;
+  gridSnapTargetX: number | null;
+  lastMoveDirection: number;
+  lastSnapX: number;
+  jumpBufferTimer: number;
+  coyoteTimer: number;
+}
+
 // Physics constants
 const GRAVITY = 980; // pixels per second squared
 const MAX_FALL_SPEED = 400; // pixels per second
@@ -35,6 +64,10 @@ const JUMP_BUFFER = 6; // extra height buffer to clear crate
 const GRID_SNAP_SPEED = 150; // pixels per second when snapping to grid
 const GRID_SNAP_THRESHOLD = 1; // snap immediately if within this distance
 
+// Default size of the character sprite (8x16 pixels at 2x scale)
+const CHARACTER_WIDTH = 16;
+const CHARACTER_HEIGHT = 32;
+
 // Collision width ratio - character collision is narrower than sprite
 // This allows fitting into 1-crate wide niches
 const COLLISION_WIDTH_RATIO = 0.7; // 70% of sprite width
@@ -63,7 +96,13 @@ const IDLE_SEQUENCE: CharacterAnimationFrame[] = [
 // Track which frames are "look left" (need mirroring)
 const IDLE_LOOK_LEFT_INDICES = [2]; // Index 2 is "look left"
 
-export class Character extends Sprite {
+export class Character {
+  // Position (bottom-center anchor) and size in logical pixels
+  x: number = 0;
+  y: number = 0;
+  width: number = CHARACTER_WIDTH;
+  height: number = CHARACTER_HEIGHT;
+
   private config: CharacterConfig;
   private velocity: Velocity;
   private state: CharacterState;
@@ -74,6 +113,11 @@ export class Character extends Sprite {
   // Special effects
   private superJumpActive: boolean = false;
   private superJumpEndTime: number = 0;
+  private clock: () => number;
+
+  // Jump assist (seconds left): a jump pressed before landing, and time since leaving the ground
+  private jumpBufferTimer: number = 0;
+  private coyoteTimer: number = 0;
 
   // Animation state
   private walkAnimationTimer: number = 0;
@@ -90,24 +134,17 @@ export class Character extends Sprite {
   private lastMoveDirection: number = 0; // -1 = left, 1 = right, 0 = none
   private lastSnapX: number = 0; // To detect if we're stuck
 
-  constructor(config: CharacterConfig) {
-    super();
+  /**
+   * @param clock Time source in milliseconds for timed effects (simulation time when headless)
+   */
+  constructor(config: CharacterConfig, clock: () => number = () => Date.now()) {
     this.config = config;
+    this.clock = clock;
     this.velocity = { x: 0, y: 0 };
     this.state = CharacterState.Idle;
     this.onGround = false;
     this.wasOnGround = false;
     this.facingRight = true;
-
-    // Set anchor to bottom-center for ground alignment
-    this.anchor.set(0.5, 1);
-  }
-
-  /**
-   * Set the character's sprite texture
-   */
-  setTexture(texture: Texture): void {
-    this.texture = texture;
   }
 
   /**
@@ -153,6 +190,11 @@ export class Character extends Sprite {
       this.velocity.y = 0;
       this.state = CharacterState.Idle;
     }
+
+    // Standing on something - restart the coyote time window
+    if (onGround) {
+      this.coyoteTimer = getJumpAssist(this.config).coyoteTime;
+    }
   }
 
   /**
@@ -199,7 +241,6 @@ export class Character extends Sprite {
    */
   moveLeft(deltaTime: number): void {
     this.facingRight = false;
-    this.scale.x = -Math.abs(this.scale.x); // Flip sprite
 
     // Cancel any grid snap in progress and remember direction
     this.gridSnapTargetX = null;
@@ -224,7 +265,6 @@ export class Character extends Sprite {
    */
   moveRight(deltaTime: number): void {
     this.facingRight = true;
-    this.scale.x = Math.abs(this.scale.x); // Normal sprite direction
 
     // Cancel any grid snap in progress and remember direction
     this.gridSnapTargetX = null;
@@ -246,15 +286,29 @@ export class Character extends Sprite {
 
   /**
    * Make character jump
+   * In the air the press is remembered for the jump buffer window and performed on landing
    */
   jump(): void {
-    if (!this.onGround) {
-      return; // Can't jump in air
+    this.jumpBufferTimer = getJumpAssist(this.config).bufferTime;
+    this.applyBufferedJump();
+  }
+
+  /**
+   * Perform a remembered jump if the character can jump now
+   * Called every step, as the jump key may have been released before landing
+   */
+  applyBufferedJump(): void {
+    // Can't jump in air (except just after walking off an edge)
+    const canJump = this.onGround || this.coyoteTimer > 0;
+    if (this.jumpBufferTimer <= 0 || !canJump) {
+      return;
     }
 
     this.velocity.y = this.getJumpVelocity();
     this.onGround = false;
     this.state = CharacterState.Jumping;
+    this.jumpBufferTimer = 0;
+    this.coyoteTimer = 0;
   }
 
   /**
@@ -296,7 +350,7 @@ export class Character extends Sprite {
    */
   activateSuperJump(duration: number = 10000): void {
     this.superJumpActive = true;
-    this.superJumpEndTime = Date.now() + duration;
+    this.superJumpEndTime = this.clock() + duration;
   }
 
   /**
@@ -311,10 +365,14 @@ export class Character extends Sprite {
    */
   update(deltaTime: number): void {
     // Check super jump expiration
-    if (this.superJumpActive && Date.now() >= this.superJumpEndTime) {
+    if (this.superJumpActive && this.clock() >= this.superJumpEndTime) {
       this.superJumpActive = false;
     }
 
+    // Jump assist windows run out (the coyote window restarts whenever the character lands)
+    this.jumpBufferTimer = Math.max(0, this.jumpBufferTimer - deltaTime);
+    this.coyoteTimer = Math.max(0, this.coyoteTimer - deltaTime);
+
     // Apply friction when no movement input (deceleration)
     // Use wasOnGround (saved at start of frame) because onGround may be temporarily reset
     // Only apply when in Idle state (no movement keys pressed)
@@ -350,14 +408,8 @@ export class Character extends Sprite {
           this.gridSnapTargetX = cellCenter0 + clampedColumn * cellWidth;
           this.lastSnapX = -9999; // Initialize to impossible value
 
-          // Set sprite direction based on snap direction
-          if (this.lastMoveDirection > 0) {
-            this.facingRight = true;
-            this.scale.x = Math.abs(this.scale.x);
-          } else {
-            this.facingRight = false;
-            this.scale.x = -Math.abs(this.scale.x);
-          }
+          // Face the snap direction
+          this.facingRight = this.lastMoveDirection > 0;
         }
 
         // Move towards snap target
@@ -540,6 +592,64 @@ export class Character extends Sprite {
     this.y = y;
   }
 
+  /**
+   * Capture position, physics, effect and animation state
+   */
+  getSnapshot(): CharacterSnapshot {
+    return {
+      characterId: this.config.id,
+      x: this.x,
+      y: this.y,
+      velocity: { ...this.velocity },
+      state: this.state,
+      onGround: this.onGround,
+      wasOnGround: this.wasOnGround,
+      facingRight: this.facingRight,
+      superJumpActive: this.superJumpActive,
+      superJumpEndTime: this.superJumpEndTime,
+      walkAnimationTimer: this.walkAnimationTimer,
+      walkSequenceIndex: this.walkSequenceIndex,
+      pushAnimationTimer: this.pushAnimationTimer,
+      pushSequenceIndex: this.pushSequenceIndex,
+      idleAnimationTimer: this.idleAnimationTimer,
+      idleSequenceIndex: this.idleSequenceIndex,
+      idleLookingLeft: this.idleLookingLeft,
+      gridSnapTargetX: this.gridSnapTargetX,
+      lastMoveDirection: this.lastMoveDirection,
+      lastSnapX: this.lastSnapX,
+      jumpBufferTimer: this.jumpBufferTimer,
+      coyoteTimer: this.coyoteTimer,
+    };
+  }
+
+  /**
+   * Restore position, physics, effect and animation state from a snapshot
+   * Super jump end time is on the clock passed to the constructor
+   */
+  restoreSnapshot(snapshot: CharacterSnapshot): void {
+    this.x = snapshot.x;
+    this.y = snapshot.y;
+    this.velocity = { ...snapshot.velocity };
+    this.state = snapshot.state;
+    this.onGround = snapshot.onGround;
+    this.wasOnGround = snapshot.wasOnGround;
+    this.facingRight = snapshot.facingRight;
+    this.superJumpActive = snapshot.superJumpActive;
+    this.superJumpEndTime = snapshot.superJumpEndTime;
+    this.walkAnimationTimer = snapshot.walkAnimationTimer;
+    this.walkSequenceIndex = snapshot.walkSequenceIndex;
+    this.pushAnimationTimer = snapshot.pushAnimationTimer;
+    this.pushSequenceIndex = snapshot.pushSequenceIndex;
+    this.idleAnimationTimer = snapshot.idleAnimationTimer;
+    this.idleSequenceIndex = snapshot.idleSequenceIndex;
+    this.idleLookingLeft = snapshot.idleLookingLeft;
+    this.gridSnapTargetX = snapshot.gridSnapTargetX;
+    this.lastMoveDirection = snapshot.lastMoveDirection;
+    this.lastSnapX = snapshot.lastSnapX;
+    this.jumpBufferTimer = snapshot.jumpBufferTimer;
+    this.coyoteTimer = snapshot.coyoteTimer;
+  }
+
   /**
    * Reset character to initial state
    */
@@ -550,8 +660,9 @@ export class Character extends Sprite {
     this.wasOnGround = false;
     this.superJumpActive = false;
     this.superJumpEndTime = 0;
+    this.jumpBufferTimer = 0;
+    this.coyoteTimer = 0;
     this.facingRight = true;
-    this.scale.x = Math.abs(this.scale.x);
     // Reset all animation states
     this.walkAnimationTimer = 0;
     this.walkSequenceIndex = 0;
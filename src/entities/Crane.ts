@@ -2,10 +2,11 @@
  * Crane Entity
  * Moves horizontally at top of screen, enters from left or right, drops crates
  * Has hooks that grip the crate while moving, then release it
+ * Pure model (no rendering) - drawn by CraneView
  */
 
-import { Sprite, Texture } from 'pixi.js';
 import type { Position } from '../types/entities';
+import { SeededRandom } from '../utils/SeededRandom';
 
 export const CraneState = {
   Idle: 'idle', // Waiting off-screen
@@ -24,6 +25,23 @@ export interface CraneConfig {
   cellWidth: number;
   gridLeftX: number;
   gridColumns: number;
+  random?: SeededRandom; // Shared gameplay RNG (entry side selection)
+}
+
+/**
+ * Serializable crane state (for mid-game save and resume)
+ */
+export interface CraneSnapshot {
+  x: number;
+  y: number;
+  visible: boolean;
+  targetColumn: number;
+  state: CraneState;
+  active: boolean;
+  enterFromLeft: boolean;
+  dropPauseTimer: number;
+  readyToDrop: boolean;
+  hooksOpen: boolean;
 }
 
 // Movement speed in pixels per second
@@ -33,7 +51,12 @@ const DROP_PAUSE_TIME = 200;
 // Hook offset from crane bottom (where crate attaches)
 const HOOK_OFFSET_Y = 8; // 4 pixels * 2 scale = 8 pixels for hooks
 
-export class Crane extends Sprite {
+export class Crane {
+  // Position (bottom-center anchor) in logical pixels; hidden while off-screen
+  x: number = 0;
+  y: number = 0;
+  visible: boolean = false;
+
   private craneId: number;
   private targetColumn: number;
   private state: CraneState;
@@ -44,6 +67,7 @@ export class Crane extends Sprite {
   private gridLeftX: number;
   private gridColumns: number;
   private topY: number;
+  private random: SeededRandom;
 
   // Movement state
   private enterFromLeft: boolean;
@@ -52,11 +76,8 @@ export class Crane extends Sprite {
 
   // Hook state
   private hooksOpen: boolean;
-  private closedTexture: Texture | null;
-  private openTexture: Texture | null;
 
   constructor(config: CraneConfig) {
-    super();
     this.craneId = config.id;
     this.targetColumn = 0;
     this.state = CraneState.Idle;
@@ -67,6 +88,7 @@ export class Crane extends Sprite {
     this.gridLeftX = config.gridLeftX;
     this.gridColumns = config.gridColumns;
     this.topY = config.topY;
+    this.random = config.random ?? new SeededRandom();
 
     this.enterFromLeft = true;
     this.dropPauseTimer = 0;
@@ -74,11 +96,6 @@ export class Crane extends Sprite {
 
     // Hook state
     this.hooksOpen = false;
-    this.closedTexture = null;
-    this.openTexture = null;
-
-    // Set anchor to bottom-center for positioning above drop point
-    this.anchor.set(0.5, 1);
 
     // Start off-screen
     this.y = this.topY;
@@ -113,7 +130,7 @@ export class Crane extends Sprite {
     }
 
     this.targetColumn = column;
-    this.enterFromLeft = Math.random() < 0.5;
+    this.enterFromLeft = this.random.chance(0.5);
     this.x = this.getOffScreenX(this.enterFromLeft);
     this.state = CraneState.Entering;
     this.visible = true;
@@ -123,39 +140,18 @@ export class Crane extends Sprite {
     this.closeHooks();
   }
 
-  /**
-   * Set the crane's sprite textures (closed and open hooks)
-   */
-  setTexture(texture: Texture): void {
-    this.texture = texture;
-    this.closedTexture = texture;
-  }
-
-  /**
-   * Set the open hooks texture
-   */
-  setOpenTexture(texture: Texture): void {
-    this.openTexture = texture;
-  }
-
   /**
    * Open the hooks (to release crate)
    */
   openHooks(): void {
-    if (!this.hooksOpen && this.openTexture) {
-      this.hooksOpen = true;
-      this.texture = this.openTexture;
-    }
+    this.hooksOpen = true;
   }
 
   /**
    * Close the hooks (to grip crate)
    */
   closeHooks(): void {
-    if (this.hooksOpen && this.closedTexture) {
-      this.hooksOpen = false;
-      this.texture = this.closedTexture;
-    }
+    this.hooksOpen = false;
   }
 
   /**
@@ -335,6 +331,40 @@ export class Crane extends Sprite {
     }
   }
 
+  /**
+   * Capture the movement and hook state
+   */
+  getSnapshot(): CraneSnapshot {
+    return {
+      x: this.x,
+      y: this.y,
+      visible: this.visible,
+      targetColumn: this.targetColumn,
+      state: this.state,
+      active: this.active,
+      enterFromLeft: this.enterFromLeft,
+      dropPauseTimer: this.dropPauseTimer,
+      readyToDrop: this.readyToDrop,
+      hooksOpen: this.hooksOpen,
+    };
+  }
+
+  /**
+   * Restore the movement and hook state from a snapshot
+   */
+  restoreSnapshot(snapshot: CraneSnapshot): void {
+    this.x = snapshot.x;
+    this.y = snapshot.y;
+    this.visible = snapshot.visible;
+    this.targetColumn = snapshot.targetColumn;
+    this.state = snapshot.state;
+    this.active = snapshot.active;
+    this.enterFromLeft = snapshot.enterFromLeft;
+    this.dropPauseTimer = snapshot.dropPauseTimer;
+    this.readyToDrop = snapshot.readyToDrop;
+    this.hooksOpen = snapshot.hooksOpen;
+  }
+
   /**
    * Reset the crane to initial state
    */
@@ -345,9 +375,6 @@ export class Crane extends Sprite {
     this.readyToDrop = false;
     this.dropPauseTimer = 0;
     this.hooksOpen = false;
-    if (this.closedTexture) {
-      this.texture = this.closedTexture;
-    }
     this.x = this.getOffScreenX(true);
   }
 }
@@ -1,10 +1,11 @@
 /**
  * Crate Entity
  * Falling crate that stacks on the game grid with animations
+ * Pure model (no rendering) - drawn by CrateView
  */
 
-import { Sprite, Texture } from 'pixi.js';
 import { CrateType, type Position, type Velocity, type CrateColor } from '../types/entities';
+import { DEFAULT_GRID_CONFIG } from '../config/grid';
 
 export const CrateState = {
   Idle: 'idle',
@@ -25,13 +26,51 @@ export interface CrateConfig {
   color?: CrateColor;
 }
 
+/**
+ * Serializable crate state (for mid-game save and resume)
+ */
+export interface CrateSnapshot {
+  id: string;
+  type: CrateType;
+  color: CrateColor | null;
+  x: number;
+  y: number;
+  alpha: number;
+  scale: number;
+  velocity: Velocity;
+  state: CrateState;
+  gridColumn: number;
+  gridRow: number;
+  fallSpeed: number;
+  clearAnimationTimer: number;
+  flashTimer: number;
+  isFlashing: boolean;
+  bombTimer: number;
+  isBombActive: boolean;
+  bombWarningFlash: boolean;
+  slideDirection: number;
+  slideTargetX: number;
+  isAutoSliding: boolean;
+  justStopped: boolean;
+}
+
 // Animation constants
 const CLEAR_ANIMATION_DURATION = 0.3; // seconds
 const FLASH_INTERVAL = 0.05; // seconds
 const BOMB_FUSE_TIME = 5.0; // seconds before bomb explodes
 const BOMB_WARNING_TIME = 2.0; // seconds before explosion to start warning flash
 
-export class Crate extends Sprite {
+export class Crate {
+  // Position (bottom-center anchor) and size in logical pixels
+  x: number = 0;
+  y: number = 0;
+  width: number = DEFAULT_GRID_CONFIG.cellWidth;
+  height: number = DEFAULT_GRID_CONFIG.cellHeight;
+
+  // Visual state driven by animations (read by the view)
+  alpha: number = 1;
+  scale: number = 1;
+
   private crateId: string;
   private crateType: CrateType;
   private crateColor: CrateColor | null;
@@ -60,7 +99,6 @@ export class Crate extends Sprite {
   private justStopped: boolean = false; // True for one frame after stopping, prevents immediate re-push
 
   constructor(config: CrateConfig) {
-    super();
     this.crateId = config.id;
     this.crateType = config.type;
     this.crateColor = config.color || null;
@@ -69,16 +107,6 @@ export class Crate extends Sprite {
     this.fallSpeed = config.fallSpeed;
     this.velocity = { x: 0, y: 0 };
     this.state = CrateState.Idle;
-
-    // Set anchor to bottom-center for grid alignment
-    this.anchor.set(0.5, 1);
-  }
-
-  /**
-   * Set the crate's sprite texture
-   */
-  setTexture(texture: Texture): void {
-    this.texture = texture;
   }
 
   /**
@@ -96,10 +124,21 @@ export class Crate extends Sprite {
   }
 
   /**
-   * Check if this is a special crate
+   * Check if this is a special crate (activated by touching it)
    */
   isSpecial(): boolean {
-    return this.crateType !== CrateType.Regular && this.crateType !== CrateType.Bomb;
+    return (
+      this.crateType !== CrateType.Regular &&
+      this.crateType !== CrateType.Bomb &&
+      this.crateType !== CrateType.Rainbow
+    );
+  }
+
+  /**
+   * Check if this is a rainbow crate (matches any color)
+   */
+  isRainbow(): boolean {
+    return this.crateType === CrateType.Rainbow;
   }
 
   /**
@@ -141,6 +180,13 @@ export class Crate extends Sprite {
     return Math.min(this.bombTimer / BOMB_FUSE_TIME, 1);
   }
 
+  /**
+   * Get the whole seconds left on the bomb fuse (counts down while ticking)
+   */
+  getBombSecondsLeft(): number {
+    return Math.ceil(BOMB_FUSE_TIME - this.bombTimer);
+  }
+
   /**
    * Check if bomb is active (ticking)
    */
@@ -480,7 +526,7 @@ export class Crate extends Sprite {
 
       // Scale down slightly for visual effect
       const scaleProgress = Math.min(fadeProgress, 1);
-      this.scale.set(1 - scaleProgress * 0.3);
+      this.scale = 1 - scaleProgress * 0.3;
     }
   }
 
@@ -488,11 +534,13 @@ export class Crate extends Sprite {
    * Get bounding box for collision detection
    */
   getCollisionBounds(): { x: number; y: number; width: number; height: number } {
+    const width = this.width * this.scale;
+    const height = this.height * this.scale;
     return {
-      x: this.x - this.width / 2,
-      y: this.y - this.height,
-      width: this.width,
-      height: this.height,
+      x: this.x - width / 2,
+      y: this.y - height,
+      width,
+      height,
     };
   }
 
@@ -517,7 +565,7 @@ export class Crate extends Sprite {
     this.state = CrateState.Idle;
     this.gridRow = -1;
     this.alpha = 1;
-    this.scale.set(1);
+    this.scale = 1;
     this.clearAnimationTimer = 0;
     this.flashTimer = 0;
     this.isFlashing = false;
@@ -531,6 +579,69 @@ export class Crate extends Sprite {
     this.isAutoSliding = false;
   }
 
+  /**
+   * Capture the complete crate state
+   */
+  getSnapshot(): CrateSnapshot {
+    return {
+      id: this.crateId,
+      type: this.crateType,
+      color: this.crateColor,
+      x: this.x,
+      y: this.y,
+      alpha: this.alpha,
+      scale: this.scale,
+      velocity: { ...this.velocity },
+      state: this.state,
+      gridColumn: this.gridColumn,
+      gridRow: this.gridRow,
+      fallSpeed: this.fallSpeed,
+      clearAnimationTimer: this.clearAnimationTimer,
+      flashTimer: this.flashTimer,
+      isFlashing: this.isFlashing,
+      bombTimer: this.bombTimer,
+      isBombActive: this.isBombActive,
+      bombWarningFlash: this.bombWarningFlash,
+      slideDirection: this.slideDirection,
+      slideTargetX: this.slideTargetX,
+      isAutoSliding: this.isAutoSliding,
+      justStopped: this.justStopped,
+    };
+  }
+
+  /**
+   * Create a crate from a snapshot
+   */
+  static fromSnapshot(snapshot: CrateSnapshot): Crate {
+    const crate = new Crate({
+      id: snapshot.id,
+      column: snapshot.gridColumn,
+      type: snapshot.type,
+      fallSpeed: snapshot.fallSpeed,
+      color: snapshot.color ?? undefined,
+    });
+
+    crate.x = snapshot.x;
+    crate.y = snapshot.y;
+    crate.alpha = snapshot.alpha;
+    crate.scale = snapshot.scale;
+    crate.velocity = { ...snapshot.velocity };
+    crate.state = snapshot.state;
+    crate.gridRow = snapshot.gridRow;
+    crate.clearAnimationTimer = snapshot.clearAnimationTimer;
+    crate.flashTimer = snapshot.flashTimer;
+    crate.isFlashing = snapshot.isFlashing;
+    crate.bombTimer = snapshot.bombTimer;
+    crate.isBombActive = snapshot.isBombActive;
+    crate.bombWarningFlash = snapshot.bombWarningFlash;
+    crate.slideDirection = snapshot.slideDirection;
+    crate.slideTargetX = snapshot.slideTargetX;
+    crate.isAutoSliding = snapshot.isAutoSliding;
+    crate.justStopped = snapshot.justStopped;
+
+    return crate;
+  }
+
   /**
    * Get the fall speed
    */
@@ -55,6 +55,12 @@ export const SPECIAL_BLOCK_EFFECTS = {
     pointValue: 0,
     duration: 5000, // 5 seconds fuse time
   },
+  [CrateType.Rainbow]: {
+    name: 'Rainbow',
+    description: 'Matches any color - push it into place to finish a match',
+    pointValue: 0,
+    duration: 0,
+  },
 };
 
 export class SpecialBlock extends Crate {
@@ -1,31 +1,67 @@
-import { Application, Graphics, Sprite } from 'pixi.js';
+import { Application, Container, Graphics, Sprite } from 'pixi.js';
 import './style.css';
-import { LCDEffect, ColorPalette } from './systems/LCDEffect';
+import {
+  LCDEffect,
+  ColorPalette,
+  type PaletteColors,
+  type PaletteDefinition,
+} from './systems/LCDEffect';
+import { LCDGhosting } from './systems/LCDGhosting';
 import { DisplayScaler } from './systems/DisplayScaler';
 import { PixelGridGenerator } from './utils/PixelGridGenerator';
 import { AssetLoader } from './utils/AssetLoader';
 import { SceneManager } from './systems/SceneManager';
+import { GameLoop } from './systems/GameLoop';
 import { InputManager } from './systems/InputManager';
-import { GameStorage } from './systems/GameStorage';
+import { SoundEngine } from './systems/SoundEngine';
+import { MusicSequencer, parseSong } from './systems/MusicSequencer';
+import type { Song } from './systems/MusicSequencer';
+import {
+  MUSIC_TRACKS,
+  MusicTrack,
+  getSceneMusicTrack,
+  getGameMusicTempoScale,
+} from './config/music';
+import { GameStorage, MAX_PROFILE_NAME_LENGTH } from './systems/GameStorage';
 import { LoadingScene } from './scenes/LoadingScene';
 import { MainMenuScene } from './scenes/MainMenuScene';
 import { SettingsScene } from './scenes/SettingsScene';
+import { ControlsScene } from './scenes/ControlsScene';
+import { PaletteEditorScene } from './scenes/PaletteEditorScene';
 import { GameScene } from './scenes/GameScene';
 import { GameOverScene } from './scenes/GameOverScene';
 import { LevelTransitionScene } from './scenes/LevelTransitionScene';
-import { SceneType, InputAction } from './types/game';
+import { CharacterSelectScene } from './scenes/CharacterSelectScene';
+import { ProfileSelectScene } from './scenes/ProfileSelectScene';
+import { SceneType } from './types/game';
+import type { GameMode } from './types/game';
 import { getInitialUnlockedIds } from './config/characters';
+import { loadLevelPack } from './config/levelPack';
+import type { LevelPack } from './config/levelPack';
+import type { UnlockProgress } from './systems/CharacterUnlockManager';
+import { encodeSaveCode, decodeSaveCode } from './systems/SaveTransfer';
+import { VirtualController } from './systems/VirtualController';
+import { GestureCalibration } from './systems/GestureCalibration';
+import { ControllerLayout } from './config/virtualController';
+import type { VirtualControllerSettings } from './config/virtualController';
 
 const LOGICAL_WIDTH = 224; // 12 columns × 16px + 16px walls × 2 = 224px
 const LOGICAL_HEIGHT = 320;
 const BASE_SCALE = 1.5; // Scale up display for better visibility
+const TOAST_DURATION_MS = 2500; // How long toasts stay on screen
 
 // Global instances
 let lcdEffect: LCDEffect;
+let lcdGhosting: LCDGhosting;
 let displayScaler: DisplayScaler;
 let assetLoader: AssetLoader;
 let sceneManager: SceneManager;
 let inputManager: InputManager;
+let soundEngine: SoundEngine;
+let musicSequencer: MusicSequencer;
+let gameLoop: GameLoop;
+let virtualController: VirtualController | null = null;
+let gestureCalibration: GestureCalibration | null = null;
 
 // Performance tracking
 let frameCount = 0;
@@ -33,9 +69,15 @@ let lastFpsUpdate = 0;
 let currentFps = 60;
 
 // Session state for character selection and game progress
+// Unlocks and the selected character are restored from storage at boot
 let sessionState = {
   selectedCharacterId: 1,
   unlockedCharacterIds: getInitialUnlockedIds(),
+  unlockProgress: {
+    unlockedCharacterIds: getInitialUnlockedIds(),
+    highestLevelByCharacter: {},
+    bestScore: 0,
+  } as UnlockProgress,
   currentScore: 0,
   currentLevel: 1,
 };
@@ -44,21 +86,19 @@ let sessionState = {
  * Initialize the game with loading screen
  */
 async function initializeGame() {
-  // Load saved palette from cookies FIRST, before creating any scenes
-  const savedPalette = GameStorage.getPalette();
-  const initialPalette =
-    savedPalette && Object.values(ColorPalette).includes(savedPalette)
-      ? savedPalette
-      : ColorPalette.Blue;
+  // Load stored data (migrating old cookies) and the saved palettes FIRST,
+  // before creating any scenes
+  await GameStorage.initialize();
 
   // Initialize LCD effect system with saved or default palette
-  lcdEffect = new LCDEffect(initialPalette);
+  lcdEffect = new LCDEffect(GameStorage.getPalette(), GameStorage.getCustomPalettes());
   displayScaler = new DisplayScaler(LOGICAL_WIDTH, LOGICAL_HEIGHT);
 
   const app = new Application();
 
   // Get initial background color from LCD effect
   const colors = lcdEffect.getPaletteColors();
+  updateOverlayPalette(colors);
 
   await app.init({
     width: LOGICAL_WIDTH,
@@ -87,17 +127,21 @@ async function initializeGame() {
   app.canvas.style.imageRendering = 'pixelated';
   app.canvas.style.imageRendering = 'crisp-edges';
 
+  // Everything on the LCD, below the dot-matrix (the ghosting filter draws it)
+  const lcdScreen = new Container();
+  app.stage.addChild(lcdScreen);
+
   // Create background layer
   const background = new Graphics();
   lcdEffect.applyBackgroundColor(background, LOGICAL_WIDTH, LOGICAL_HEIGHT);
-  app.stage.addChild(background);
+  lcdScreen.addChild(background);
 
   // Create glow layer for backlight effect
   const glowLayer = lcdEffect.createGlowLayer(LOGICAL_WIDTH, LOGICAL_HEIGHT);
-  app.stage.addChild(glowLayer);
+  lcdScreen.addChild(glowLayer);
 
   // Initialize scene manager first
-  sceneManager = new SceneManager(app);
+  sceneManager = new SceneManager(app, lcdScreen);
 
   // Create and show loading scene immediately
   const loadingScene = new LoadingScene();
@@ -105,6 +149,11 @@ async function initializeGame() {
   loadingScene.setColors(colors);
   sceneManager.registerScene(loadingScene);
 
+  // LCD ghosting filter (shown in place of the screen while it is on)
+  lcdGhosting = new LCDGhosting(app, lcdScreen, LOGICAL_WIDTH, LOGICAL_HEIGHT);
+  lcdGhosting.setSettings(GameStorage.getGhostingSettings());
+  app.stage.addChild(lcdGhosting.getView());
+
   // Create dot-matrix overlay
   const gridTexture = PixelGridGenerator.generate(LOGICAL_WIDTH, LOGICAL_HEIGHT, 2, 0.1);
   const gridOverlay = new Sprite(gridTexture);
@@ -115,16 +164,16 @@ async function initializeGame() {
   handleResize(app);
   window.addEventListener('resize', () => handleResize(app));
 
-  // Set up game loop
-  app.ticker.add((ticker) => {
-    const deltaTime = ticker.deltaTime / 60; // Normalize to seconds
-
-    // Update FPS counter
-    updateFpsCounter();
-
-    // Update scene manager
+  // Set up fixed-timestep game loop (deterministic simulation for replays)
+  gameLoop = new GameLoop(app);
+  gameLoop.addUpdateCallback((deltaTime) => {
+    // Gamepads are polled before the scenes step (input is created once loading gets there)
+    inputManager?.update();
     sceneManager.update(deltaTime);
   });
+  gameLoop.addRenderCallback(() => lcdGhosting.update());
+  gameLoop.addRenderCallback(updateFpsCounter);
+  gameLoop.start();
 
   // Show loading scene
   await sceneManager.push(SceneType.Loading);
@@ -134,22 +183,36 @@ async function initializeGame() {
   assetLoader = new AssetLoader(app);
   loadingScene.setProgress(0.2, 'Loading sprites...');
 
-  const blueColors = lcdEffect.getColorsForPalette(ColorPalette.Blue);
-  const amberColors = lcdEffect.getColorsForPalette(ColorPalette.Amber);
+  const paletteColors = Object.fromEntries(
+    lcdEffect.getPalettes().map(({ id, colors }) => [id, colors])
+  );
 
   // Simulate loading stages for better UX
   await new Promise((resolve) => setTimeout(resolve, 100));
   loadingScene.setProgress(0.4, 'Generating character sprites...');
 
-  await assetLoader.load(blueColors, amberColors);
+  await assetLoader.load(paletteColors, lcdEffect.getCurrentPalette());
   loadingScene.setProgress(0.6, 'Setting up game systems...');
 
   // Initialize input manager
   inputManager = new InputManager();
   inputManager.initialize();
+  inputManager.getKeyboardInput().setKeyMapping(GameStorage.getKeyMapping());
+  inputManager.getGestureRecognizer().setThresholds(GameStorage.getGestureThresholds());
+  inputManager.getGamepadInput().onConnectionChange((index, connected) => {
+    showToast(`CONTROLLER ${index + 1} ${connected ? 'CONNECTED' : 'DISCONNECTED'}`);
+  });
 
-  // Set up HTML mobile controls
+  // Sound effects start with the first key press or tap (browsers block audio before)
+  soundEngine = new SoundEngine();
+  applyAudioSettings();
+  window.addEventListener('keydown', () => soundEngine.unlock());
+  window.addEventListener('pointerdown', () => soundEngine.unlock());
+  document.addEventListener('visibilitychange', applyAudioSettings);
+
+  // Set up HTML mobile controls (layout saved per device)
   setupMobileControls();
+  setupGestureCalibration();
 
   loadingScene.setProgress(0.7, 'Creating scenes...');
 
@@ -162,8 +225,8 @@ async function initializeGame() {
   // Mark loading complete
   loadingScene.completeLoading();
   loadingScene.setOnLoadComplete(async () => {
-    // Transition to main menu
-    await sceneManager.replace(SceneType.MainMenu);
+    // Transition to the profile picker (then the main menu)
+    await sceneManager.replace(SceneType.ProfileSelect);
   });
 }
 
@@ -174,9 +237,16 @@ async function createAndRegisterScenes(
   loadingScene: LoadingScene,
   background: Graphics
 ): Promise<void> {
+  // Restore unlocks and progress earned in earlier sessions
+  restoreUnlockProgress();
+
   // Create scenes
+  const profileSelectScene = new ProfileSelectScene(lcdEffect);
   const mainMenuScene = new MainMenuScene(lcdEffect);
   const settingsScene = new SettingsScene(lcdEffect);
+  const controlsScene = new ControlsScene(lcdEffect);
+  const paletteEditorScene = new PaletteEditorScene(lcdEffect);
+  const characterSelectScene = new CharacterSelectScene(lcdEffect);
   const gameScene = new GameScene(lcdEffect);
   const gameOverScene = new GameOverScene(lcdEffect);
   const levelTransitionScene = new LevelTransitionScene(lcdEffect);
@@ -184,8 +254,12 @@ async function createAndRegisterScenes(
   loadingScene.setProgress(0.75, 'Registering scenes...');
 
   // Register scenes
+  sceneManager.registerScene(profileSelectScene);
   sceneManager.registerScene(mainMenuScene);
   sceneManager.registerScene(settingsScene);
+  sceneManager.registerScene(controlsScene);
+  sceneManager.registerScene(paletteEditorScene);
+  sceneManager.registerScene(characterSelectScene);
   sceneManager.registerScene(gameScene);
   sceneManager.registerScene(gameOverScene);
   sceneManager.registerScene(levelTransitionScene);
@@ -193,15 +267,49 @@ async function createAndRegisterScenes(
   loadingScene.setProgress(0.8, 'Configuring game logic...');
 
   // Set up game scene
+  const levelPack = await loadRequestedLevelPack();
+  if (levelPack) {
+    gameScene.setLevelPack(levelPack);
+  }
   gameScene.setAssetLoader(assetLoader);
   gameScene.setInputManager(inputManager);
+  gameScene.setSoundEngine(soundEngine);
+  gameScene.setCrateGlyphs(GameStorage.getCrateGlyphs());
+
+  // Music follows the current scene and advances with the game loop; the in-game pause holds it
+  const songs = loadMusicTracks();
+  musicSequencer = new MusicSequencer(soundEngine);
+  gameLoop.addUpdateCallback((deltaTime) => {
+    const sceneType = sceneManager.getCurrentScene()?.getType();
+    const track = sceneType ? getSceneMusicTrack(sceneType) : null;
+    musicSequencer.play(track ? (songs.get(track) ?? null) : null);
+    musicSequencer.setPaused(track === MusicTrack.Game && gameScene.isPaused());
+    musicSequencer.setTempoScale(
+      track === MusicTrack.Game ? getGameMusicTempoScale(gameScene.getCrateSpeedMultiplier()) : 1
+    );
+    musicSequencer.update(deltaTime);
+
+    // Tap zones only take taps during play, so they don't cover menus
+    virtualController?.setTapZonesActive(
+      sceneType === SceneType.Game && gameScene.isPlaying() && !gameScene.isPaused()
+    );
+  });
   gameScene.setCallbacks({
     onGameOver: async (score: number, level: number, linesCleared?: number) => {
       sessionState.currentScore = score;
       sessionState.currentLevel = level;
-
-      // Save high score to cookies
-      const isNewHighScore = GameStorage.addHighScore(score, level, linesCleared);
+      saveUnlockProgress(gameScene.getUnlockProgress());
+
+      // The run is over - nothing left to continue
+      GameStorage.clearSavedGame();
+
+      // Save high score (each game mode has its own table)
+      const isNewHighScore = GameStorage.addHighScore(
+        score,
+        level,
+        linesCleared,
+        gameScene.getGameMode()
+      );
       gameOverScene.setFinalScore(score);
       gameOverScene.setHighestLevel(level);
       gameOverScene.setIsNewHighScore(isNewHighScore);
@@ -211,13 +319,37 @@ async function createAndRegisterScenes(
     onLevelComplete: async (level: number, score: number) => {
       sessionState.currentScore = score;
       sessionState.currentLevel = level + 1;
-
-      levelTransitionScene.setLevelInfo(level, score);
+      saveUnlockProgress(gameScene.getUnlockProgress());
+
+      levelTransitionScene.setLevelInfo(
+        level,
+        score,
+        gameScene.getGameMode(),
+        gameScene.getLevelPack()
+      );
       await sceneManager.push(SceneType.LevelTransition);
     },
     onQuitToMenu: async () => {
       await sceneManager.replace(SceneType.MainMenu);
     },
+    onAutoSave: (snapshot) => {
+      GameStorage.saveGame(snapshot);
+    },
+  });
+
+  // Save the run in progress when the tab is hidden or closed
+  const saveRunInProgress = () => {
+    const snapshot = gameScene.createSnapshot();
+    if (snapshot) {
+      GameStorage.saveGame(snapshot);
+      saveUnlockProgress(gameScene.getUnlockProgress());
+    }
+  };
+  window.addEventListener('pagehide', saveRunInProgress);
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') {
+      saveRunInProgress();
+    }
   });
 
   loadingScene.setProgress(0.85, 'Setting up transitions...');
@@ -234,10 +366,9 @@ async function createAndRegisterScenes(
 
   // Set up game over scene
   gameOverScene.setOnPlayAgain(async () => {
-    // Reset session state
+    // Reset session state (unlocks are kept)
     sessionState.currentScore = 0;
     sessionState.currentLevel = 1;
-    sessionState.unlockedCharacterIds = getInitialUnlockedIds();
 
     // Go to main menu and show level selection
     gameScene.reset();
@@ -246,10 +377,9 @@ async function createAndRegisterScenes(
   });
 
   gameOverScene.setOnMainMenu(async () => {
-    // Reset session state
+    // Reset session state (unlocks are kept)
     sessionState.currentScore = 0;
     sessionState.currentLevel = 1;
-    sessionState.unlockedCharacterIds = getInitialUnlockedIds();
 
     gameScene.reset();
     await sceneManager.replace(SceneType.MainMenu);
@@ -261,22 +391,229 @@ async function createAndRegisterScenes(
   mainMenuScene.setOnAction(async (action) => {
     switch (action) {
       case 'settings':
+        settingsScene.setAudioSettings(GameStorage.getAudioSettings());
+        settingsScene.setCrateGlyphs(GameStorage.getCrateGlyphs());
+        settingsScene.setGhostingSettings(GameStorage.getGhostingSettings());
+        settingsScene.reset();
         await sceneManager.push(SceneType.Settings);
         break;
+      case 'profiles':
+        profileSelectScene.setProfiles(
+          GameStorage.getProfiles(),
+          GameStorage.getActiveProfile().id
+        );
+        await sceneManager.replace(SceneType.ProfileSelect);
+        break;
+      case 'characters':
+        characterSelectScene.setUnlockedCharacterIds(sessionState.unlockedCharacterIds);
+        characterSelectScene.setSelectedCharacterId(sessionState.selectedCharacterId);
+        await sceneManager.push(SceneType.CharacterSelect);
+        break;
+      case 'continue': {
+        const snapshot = GameStorage.loadSavedGame();
+        if (!snapshot) {
+          break;
+        }
+        sessionState.selectedCharacterId = snapshot.character.characterId;
+        sessionState.currentLevel = snapshot.level.currentLevel;
+        gameScene.setUnlockProgress(sessionState.unlockProgress);
+        await sceneManager.push(SceneType.Game);
+        if (!gameScene.resumeFromSnapshot(snapshot)) {
+          // Unusable save (e.g. from an older version) - drop it and go back
+          GameStorage.clearSavedGame();
+          await sceneManager.replace(SceneType.MainMenu);
+        }
+        break;
+      }
     }
   });
 
   // Handle starting game with selected level
-  mainMenuScene.setOnStartGame(async (startLevel: number) => {
+  mainMenuScene.setOnStartGame(async (startLevel: number, mode: GameMode) => {
     sessionState.currentLevel = startLevel;
-    gameScene.setUnlockedCharacterIds(sessionState.unlockedCharacterIds);
+    // A new game replaces the saved run
+    GameStorage.clearSavedGame();
+    gameScene.setUnlockProgress(sessionState.unlockProgress);
     await sceneManager.push(SceneType.Game);
-    gameScene.initializeGame(sessionState.selectedCharacterId, startLevel);
+    gameScene.initializeGame(sessionState.selectedCharacterId, startLevel, mode);
   });
 
   settingsScene.setOnBack(() => {
     sceneManager.pop();
   });
+  settingsScene.setOnAudioSettingsChange((settings) => {
+    GameStorage.saveSettings(settings);
+    applyAudioSettings();
+  });
+  settingsScene.setOnCustomPalettesChange((palettes) => {
+    GameStorage.saveCustomPalettes(palettes);
+  });
+  settingsScene.setOnCrateGlyphsChange((enabled) => {
+    GameStorage.saveCrateGlyphs(enabled);
+    gameScene.setCrateGlyphs(enabled);
+  });
+  settingsScene.setOnGhostingChange((settings) => {
+    GameStorage.saveGhostingSettings(settings);
+    lcdGhosting.setSettings(settings);
+  });
+  settingsScene.setOnOpenControls(async () => {
+    controlsScene.setKeyMapping(GameStorage.getKeyMapping());
+    await sceneManager.push(SceneType.Controls);
+  });
+  settingsScene.setOnEditPalette(async () => {
+    await sceneManager.push(SceneType.PaletteEditor);
+  });
+
+  // Controls page: key bindings, touch layout and gesture sensitivity
+  controlsScene.setOnBack(() => {
+    sceneManager.pop();
+  });
+  controlsScene.setOnKeyMappingChange((mapping) => {
+    GameStorage.saveKeyMapping(mapping);
+    inputManager.getKeyboardInput().setKeyMapping(mapping);
+  });
+  controlsScene.setOnEditTouchControls(() => {
+    virtualController?.startEditing((settings) => {
+      GameStorage.saveVirtualControllerSettings(settings);
+      applyVirtualControllerLayout(settings);
+    });
+  });
+  controlsScene.setOnCalibrateGestures(() => {
+    if (!gestureCalibration) {
+      return;
+    }
+    gestureCalibration.open(GameStorage.getGestureThresholds(), (thresholds) => {
+      GameStorage.saveGestureThresholds(thresholds);
+      inputManager.getGestureRecognizer().setThresholds(thresholds);
+    });
+  });
+
+  // Palette editor: saves the edited custom palette
+  paletteEditorScene.setOnBack(() => {
+    sceneManager.pop();
+  });
+  paletteEditorScene.setOnCustomPalettesChange((palettes) => {
+    GameStorage.saveCustomPalettes(palettes);
+  });
+  paletteEditorScene.setOnPaletteDeleted((name) => {
+    sceneManager.pop();
+    settingsScene.showStatus(`${name} deleted`);
+  });
+
+  settingsScene.setOnExportSave(async () => {
+    const code = await encodeSaveCode(GameStorage.getTransferData());
+    await showTextDialog({
+      title: 'EXPORT SAVE',
+      hint: 'Copy this code and import it in Settings on your other device.',
+      confirmLabel: 'COPY',
+      value: code,
+      copyOnly: true,
+    });
+  });
+  settingsScene.setOnImportSave(async () => {
+    const code = await showTextDialog({
+      title: 'IMPORT SAVE',
+      hint: 'Paste a save code exported on your other device.',
+      confirmLabel: 'IMPORT',
+    });
+    if (!code) {
+      return;
+    }
+
+    const result = await decodeSaveCode(code);
+    if (!result.data) {
+      settingsScene.showStatus(result.error);
+      return;
+    }
+
+    GameStorage.importTransferData(result.data);
+    applyActiveProfile();
+    gameScene.setCrateGlyphs(GameStorage.getCrateGlyphs());
+    settingsScene.setAudioSettings(GameStorage.getAudioSettings());
+    settingsScene.setCrateGlyphs(GameStorage.getCrateGlyphs());
+    settingsScene.setGhostingSettings(GameStorage.getGhostingSettings());
+    settingsScene.showStatus('Save imported');
+  });
+
+  // Profiles: everyone sharing the device keeps their own progress and settings
+  profileSelectScene.setProfiles(GameStorage.getProfiles(), GameStorage.getActiveProfile().id);
+  profileSelectScene.setOnProfileSelected(async (profileId: number) => {
+    GameStorage.switchProfile(profileId);
+    applyActiveProfile();
+    gameScene.setCrateGlyphs(GameStorage.getCrateGlyphs());
+    await sceneManager.replace(SceneType.MainMenu);
+  });
+  profileSelectScene.setOnCreateProfile(async () => {
+    const name = await showTextDialog({
+      title: 'NEW PROFILE',
+      hint: `Enter a name (up to ${MAX_PROFILE_NAME_LENGTH} characters).`,
+      confirmLabel: 'CREATE',
+      maxLength: MAX_PROFILE_NAME_LENGTH,
+    });
+    if (name === null) {
+      return;
+    }
+
+    const profileId = GameStorage.createProfile(name);
+    if (profileId === null) {
+      profileSelectScene.showMessage('Name is empty or already used');
+      return;
+    }
+    profileSelectScene.setProfiles(GameStorage.getProfiles(), profileId);
+  });
+  profileSelectScene.setOnRenameProfile(async (profileId: number) => {
+    const profile = GameStorage.getProfiles().find((p) => p.id === profileId);
+    const name = await showTextDialog({
+      title: 'RENAME PROFILE',
+      hint: `Enter a name (up to ${MAX_PROFILE_NAME_LENGTH} characters).`,
+      confirmLabel: 'RENAME',
+      value: profile?.name,
+      maxLength: MAX_PROFILE_NAME_LENGTH,
+    });
+    if (name === null) {
+      return;
+    }
+
+    if (!GameStorage.renameProfile(profileId, name)) {
+      profileSelectScene.showMessage('Name is empty or already used');
+      return;
+    }
+    profileSelectScene.setProfiles(GameStorage.getProfiles(), profileId);
+  });
+  profileSelectScene.setOnDeleteProfile((profileId: number) => {
+    GameStorage.deleteProfile(profileId);
+    profileSelectScene.setProfiles(GameStorage.getProfiles(), GameStorage.getActiveProfile().id);
+  });
+
+  characterSelectScene.setOnCharacterSelected((characterId: number) => {
+    sessionState.selectedCharacterId = characterId;
+    GameStorage.saveSelectedCharacterId(characterId);
+    sceneManager.pop();
+  });
+  characterSelectScene.setOnBack(() => {
+    sceneManager.pop();
+  });
+
+  // Keep sprite colors in step with added, edited and removed custom palettes
+  lcdEffect.on('palettesChanged', (palettes: PaletteDefinition[]) => {
+    for (const palette of assetLoader.getPalettes()) {
+      if (!lcdEffect.hasPalette(palette)) {
+        assetLoader.removePalette(palette);
+      }
+    }
+    for (const { id, colors } of palettes) {
+      assetLoader.setPaletteColors(id, colors);
+    }
+  });
+
+  // Colors being tried out in the palette editor: only the screen behind the
+  // settings scene is redrawn (no sprites, other scenes or storage)
+  lcdEffect.on('palettePreview', (previewColors: PaletteColors) => {
+    sceneManager.getApp()!.renderer.background.color = previewColors.background;
+    lcdEffect.applyBackgroundColor(background, LOGICAL_WIDTH, LOGICAL_HEIGHT);
+    lcdEffect.updateGlowLayer(LOGICAL_WIDTH, LOGICAL_HEIGHT);
+    updateOverlayPalette(previewColors);
+  });
 
   // Listen for palette changes
   lcdEffect.on('paletteChanged', (_palette: ColorPalette) => {
@@ -286,96 +623,292 @@ async function createAndRegisterScenes(
     lcdEffect.updateGlowLayer(LOGICAL_WIDTH, LOGICAL_HEIGHT);
 
     // Update all scenes with new palette
+    profileSelectScene.updatePalette();
     mainMenuScene.updatePalette();
     settingsScene.updatePalette();
+    controlsScene.updatePalette();
+    paletteEditorScene.updatePalette();
+    characterSelectScene.updatePalette();
     gameScene.updatePalette();
     gameOverScene.updatePalette();
     levelTransitionScene.updatePalette();
 
-    // Update HTML mobile controls palette
-    updateMobileControlsPalette(_palette);
+    // Update the HTML overlays (controller, dialogs, toasts)
+    updateOverlayPalette(newColors);
 
-    // Store palette preference in cookies
-    GameStorage.savePalette(_palette);
+    // Store palette preference (edits to the current palette are saved with the custom palettes)
+    if (GameStorage.getPalette() !== _palette) {
+      GameStorage.savePalette(_palette);
+    }
   });
 }
 
+/**
+ * Load saved unlocks, progress and the selected character into the session
+ * Falls back to the first character if the saved one is not unlocked
+ */
+function restoreUnlockProgress(): void {
+  const progress = GameStorage.getUnlockProgress();
+  sessionState.unlockProgress = progress;
+  sessionState.unlockedCharacterIds = progress.unlockedCharacterIds;
+
+  const savedCharacterId = GameStorage.getSelectedCharacterId();
+  sessionState.selectedCharacterId = progress.unlockedCharacterIds.includes(savedCharacterId)
+    ? savedCharacterId
+    : progress.unlockedCharacterIds[0];
+}
+
+/**
+ * Load the active profile into the session: unlocks, selected character, sound,
+ * ghosting and palette
+ */
+function applyActiveProfile(): void {
+  restoreUnlockProgress();
+  applyAudioSettings();
+  lcdGhosting.setSettings(GameStorage.getGhostingSettings());
+  inputManager.getKeyboardInput().setKeyMapping(GameStorage.getKeyMapping());
+  inputManager.getGestureRecognizer().setThresholds(GameStorage.getGestureThresholds());
+
+  // Read the palette before loading the custom palettes (removing the current one saves Blue)
+  const palette = GameStorage.getPalette();
+  lcdEffect.setCustomPalettes(GameStorage.getCustomPalettes());
+  if (lcdEffect.hasPalette(palette) && palette !== lcdEffect.getCurrentPalette()) {
+    lcdEffect.setPalette(palette);
+  }
+}
+
+/**
+ * Apply the active profile's audio settings to the sound engine
+ * (also called when the tab is hidden or shown, for the mute when hidden option)
+ */
+function applyAudioSettings(): void {
+  const audio = GameStorage.getAudioSettings();
+  soundEngine.setEnabled(GameStorage.isSoundEnabled());
+  soundEngine.setVolumes({
+    master: audio.masterVolume,
+    music: audio.musicVolume,
+    effects: audio.sfxVolume,
+  });
+  soundEngine.setMuted(audio.muteWhenHidden && document.visibilityState === 'hidden');
+}
+
+/**
+ * Parse the built-in songs (a song that fails to parse is left out, so its scenes are silent)
+ */
+function loadMusicTracks(): Map<MusicTrack, Song> {
+  const songs = new Map<MusicTrack, Song>();
+  for (const [track, text] of Object.entries(MUSIC_TRACKS) as [MusicTrack, string][]) {
+    const result = parseSong(text);
+    if (result.song) {
+      songs.set(track, result.song);
+    } else {
+      console.error(`Could not load the ${track} music:`, result.error);
+    }
+  }
+  return songs;
+}
+
+/**
+ * Keep the unlocks and progress from the game scene in the session and save them
+ */
+function saveUnlockProgress(progress: UnlockProgress): void {
+  sessionState.unlockProgress = progress;
+  sessionState.unlockedCharacterIds = progress.unlockedCharacterIds;
+  GameStorage.saveUnlockProgress(progress);
+}
+
+/**
+ * Load the level pack named by the ?levels= URL parameter (lets designers try out
+ * a pack without rebuilding). Returns null to keep the bundled pack, logging every
+ * validation problem if the requested pack is broken.
+ */
+async function loadRequestedLevelPack(): Promise<LevelPack | null> {
+  const url = new URLSearchParams(window.location.search).get('levels');
+  if (!url) {
+    return null;
+  }
+
+  const result = await loadLevelPack(url);
+  if (!result.pack) {
+    console.error(`Level pack ${url} was not loaded:\n${result.errors.join('\n')}`);
+    return null;
+  }
+
+  return result.pack;
+}
+
 /**
  * Set up HTML mobile controls and wire them to InputManager
  */
 function setupMobileControls(): void {
   const mobileControls = document.getElementById('mobile-controls');
-  const leftBtn = document.getElementById('btn-left');
-  const rightBtn = document.getElementById('btn-right');
-  const jumpBtn = document.getElementById('btn-jump');
-  const pauseBtn = document.getElementById('btn-pause');
-
-  if (!mobileControls || !leftBtn || !rightBtn || !jumpBtn || !pauseBtn) {
+  if (!mobileControls) {
     console.warn('Mobile controls not found in DOM');
     return;
   }
 
-  // Helper to handle press/release for movement buttons
-  const setupButton = (btn: HTMLElement, action: InputAction, _name: string) => {
-    const handlePress = (e: Event) => {
-      e.preventDefault();
-      btn.classList.add('pressed');
-      inputManager.triggerAction(action, true);
-    };
+  virtualController = new VirtualController(mobileControls);
+  virtualController.onAction((action, active) => inputManager.triggerAction(action, active));
 
-    const handleRelease = (e: Event) => {
-      e.preventDefault();
-      btn.classList.remove('pressed');
-      inputManager.triggerAction(action, false);
-    };
+  const settings = GameStorage.getVirtualControllerSettings();
+  virtualController.setSettings(settings);
+  applyVirtualControllerLayout(settings);
+}
 
-    // Touch events
-    btn.addEventListener('touchstart', handlePress, { passive: false });
-    btn.addEventListener('touchend', handleRelease, { passive: false });
-    btn.addEventListener('touchcancel', handleRelease, { passive: false });
+/**
+ * Set up the touch sensitivity screen; it shows the gestures made while it is open
+ */
+function setupGestureCalibration(): void {
+  const root = document.getElementById('gesture-calibration');
+  if (!root) {
+    console.warn('Gesture calibration not found in DOM');
+    return;
+  }
 
-    // Mouse events (for testing in browser)
-    btn.addEventListener('mousedown', handlePress);
-    btn.addEventListener('mouseup', handleRelease);
-    btn.addEventListener('mouseleave', handleRelease);
-  };
+  const calibration = new GestureCalibration(root);
+  inputManager.onGesture((gesture) => {
+    if (calibration.isOpen()) {
+      calibration.showGesture(gesture);
+    }
+  });
+  gestureCalibration = calibration;
+}
 
-  // Helper for single-tap buttons (pause)
-  const setupTapButton = (btn: HTMLElement, action: InputAction) => {
-    const handleTap = (e: Event) => {
-      e.preventDefault();
-      btn.classList.add('pressed');
-      inputManager.triggerAction(action, true);
-      // Reset action after brief delay
-      setTimeout(() => {
-        btn.classList.remove('pressed');
-        inputManager.triggerAction(action, false);
-      }, 100);
-    };
+/**
+ * Gestures only move and jump in the swipe layout (elsewhere they would fight the buttons)
+ */
+function applyVirtualControllerLayout(settings: VirtualControllerSettings): void {
+  inputManager.setSwipeActionsEnabled(settings.layout === ControllerLayout.SwipeOnly);
+}
 
-    btn.addEventListener('touchstart', handleTap, { passive: false });
-    btn.addEventListener('click', handleTap);
-  };
+/**
+ * Color the HTML overlays with the active palette (CSS custom properties on :root)
+ */
+function updateOverlayPalette(colors: PaletteColors): void {
+  const style = document.documentElement.style;
+  style.setProperty('--lcd-bg', toCssChannels(colors.background));
+  style.setProperty('--lcd-fg', toCssChannels(colors.foreground));
+}
 
-  setupButton(leftBtn, InputAction.MoveLeft, 'left');
-  setupButton(rightBtn, InputAction.MoveRight, 'right');
-  setupButton(jumpBtn, InputAction.Jump, 'jump');
-  setupTapButton(pauseBtn, InputAction.Pause);
+/**
+ * Format a 0xRRGGBB color as "r, g, b" for use in rgba()
+ */
+function toCssChannels(color: number): string {
+  return `${(color >> 16) & 0xff}, ${(color >> 8) & 0xff}, ${color & 0xff}`;
 }
 
 /**
- * Update mobile controls color palette
+ * Options for the text dialog
  */
-function updateMobileControlsPalette(palette: ColorPalette): void {
-  const mobileControls = document.getElementById('mobile-controls');
-  if (!mobileControls) return;
+interface TextDialogOptions {
+  title: string;
+  hint: string;
+  confirmLabel: string;
+  value?: string;
+  /** Show the value for copying instead of asking for text (confirm copies it) */
+  copyOnly?: boolean;
+  /** Ask for a single line of at most this many characters (Enter confirms) */
+  maxLength?: number;
+}
 
-  // Toggle amber class based on palette
-  if (palette === ColorPalette.Amber) {
-    mobileControls.classList.add('amber');
+/**
+ * Show the HTML text dialog over the game (save codes, profile names)
+ * Resolves with the entered text, or null if the dialog was closed
+ */
+function showTextDialog(options: TextDialogOptions): Promise<string | null> {
+  const dialog = document.getElementById('text-dialog');
+  const title = document.getElementById('text-dialog-title');
+  const hint = document.getElementById('text-dialog-hint');
+  const text = document.getElementById('text-dialog-text') as HTMLTextAreaElement | null;
+  const confirmBtn = document.getElementById('text-dialog-confirm');
+  const cancelBtn = document.getElementById('text-dialog-cancel');
+
+  if (!dialog || !title || !hint || !text || !confirmBtn || !cancelBtn) {
+    console.warn('Text dialog not found in DOM');
+    return Promise.resolve(null);
+  }
+
+  const { copyOnly = false, maxLength } = options;
+  title.textContent = options.title;
+  hint.textContent = options.hint;
+  text.value = options.value ?? '';
+  text.readOnly = copyOnly;
+  text.rows = maxLength ? 1 : 6;
+  if (maxLength) {
+    text.maxLength = maxLength;
+  } else {
+    text.removeAttribute('maxlength');
+  }
+  confirmBtn.textContent = options.confirmLabel;
+  dialog.hidden = false;
+  if (copyOnly) {
+    text.select();
   } else {
-    mobileControls.classList.remove('amber');
+    text.focus();
+  }
+
+  return new Promise((resolve) => {
+    const close = (result: string | null) => {
+      dialog.hidden = true;
+      confirmBtn.removeEventListener('click', handleConfirm);
+      cancelBtn.removeEventListener('click', handleCancel);
+      dialog.removeEventListener('keydown', handleKeyDown);
+      resolve(result);
+    };
+
+    const handleConfirm = () => {
+      if (!copyOnly) {
+        close(text.value);
+        return;
+      }
+      // Clipboard access needs a secure context - the text stays selected otherwise
+      text.select();
+      navigator.clipboard?.writeText(text.value).then(
+        () => (confirmBtn.textContent = 'COPIED'),
+        () => (confirmBtn.textContent = 'COPY MANUALLY')
+      );
+    };
+
+    const handleCancel = () => close(null);
+
+    // Keep key presses away from the scene underneath
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.stopPropagation();
+      if (event.key === 'Escape') {
+        close(null);
+      } else if (event.key === 'Enter' && maxLength) {
+        event.preventDefault();
+        handleConfirm();
+      }
+    };
+
+    confirmBtn.addEventListener('click', handleConfirm);
+    cancelBtn.addEventListener('click', handleCancel);
+    dialog.addEventListener('keydown', handleKeyDown);
+  });
+}
+
+let toastTimeout: number | null = null;
+
+/**
+ * Briefly show a message over the game (e.g. a controller being plugged in)
+ */
+function showToast(message: string): void {
+  const toast = document.getElementById('toast');
+  if (!toast) {
+    return;
+  }
+
+  toast.textContent = message;
+  toast.hidden = false;
+
+  if (toastTimeout) {
+    window.clearTimeout(toastTimeout);
   }
+  toastTimeout = window.setTimeout(() => {
+    toast.hidden = true;
+    toastTimeout = null;
+  }, TOAST_DURATION_MS);
 }
 
 /**
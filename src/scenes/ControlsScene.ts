@@ -0,0 +1,605 @@
+/**
+ * Controls Scene
+ * Opened from Settings: lists the keys bound to each action so they can be
+ * rebound or cleared, and opens the touch layout editor and the touch
+ * sensitivity calibration
+ */
+
+import { Graphics, Text, TextStyle, Container } from 'pixi.js';
+import { Scene } from './Scene';
+import { SceneType, InputAction } from '../types/game';
+import type { LCDEffect } from '../systems/LCDEffect';
+import {
+  DEFAULT_KEY_MAPPING,
+  bindKey,
+  clearKeys,
+  getKeyLabel,
+  getKeysForAction,
+  normalizeKey,
+} from '../systems/KeyboardInput';
+import type { KeyMapping } from '../systems/KeyboardInput';
+
+// Option indices (0-5 are the key binding rows)
+const RESET_KEYS_OPTION = 6;
+const TOUCH_LAYOUT_OPTION = 7;
+const GESTURES_OPTION = 8;
+const DONE_OPTION = 9;
+
+// Actions that can be rebound, in the order they are listed
+const BINDABLE_ACTIONS: [InputAction, string][] = [
+  [InputAction.MoveLeft, 'MOVE LEFT'],
+  [InputAction.MoveRight, 'MOVE RIGHT'],
+  [InputAction.Jump, 'JUMP'],
+  [InputAction.Pause, 'PAUSE'],
+  [InputAction.Confirm, 'CONFIRM'],
+  [InputAction.Back, 'BACK'],
+];
+
+export class ControlsScene extends Scene {
+  private lcdEffect: LCDEffect;
+
+  // UI elements
+  private background: Graphics | null = null;
+  private titleText: Text | null = null;
+  private hintText: Text | null = null;
+  private bindingRows: BindingRow[] = [];
+  private statusText: Text | null = null;
+  private resetKeysButton: ButtonContainer | null = null;
+  private touchLayoutButton: ButtonContainer | null = null;
+  private gesturesButton: ButtonContainer | null = null;
+  private doneButton: ButtonContainer | null = null;
+
+  // 0-5 = key binding rows, 6 = reset, 7 = touch layout, 8 = gestures, 9 = done
+  private selectedOptionIndex: number = 0;
+
+  private keyMapping: KeyMapping = { ...DEFAULT_KEY_MAPPING };
+
+  // Action waiting for a key press
+  private capturingAction: InputAction | null = null;
+
+  // Callbacks
+  private onBack: (() => void) | null = null;
+  private onKeyMappingChange: ((mapping: KeyMapping) => void) | null = null;
+  private onEditTouchControls: (() => void) | null = null;
+  private onCalibrateGestures: (() => void) | null = null;
+
+  constructor(lcdEffect: LCDEffect) {
+    super(SceneType.Controls);
+    this.lcdEffect = lcdEffect;
+  }
+
+  /**
+   * Set the callback for when done is pressed
+   */
+  setOnBack(callback: () => void): void {
+    this.onBack = callback;
+  }
+
+  /**
+   * Set the callback for when a key binding changes
+   */
+  setOnKeyMappingChange(callback: (mapping: KeyMapping) => void): void {
+    this.onKeyMappingChange = callback;
+  }
+
+  /**
+   * Set the callback for when the touch layout editor is opened
+   */
+  setOnEditTouchControls(callback: () => void): void {
+    this.onEditTouchControls = callback;
+  }
+
+  /**
+   * Set the callback for when the touch sensitivity calibration is opened
+   */
+  setOnCalibrateGestures(callback: () => void): void {
+    this.onCalibrateGestures = callback;
+  }
+
+  /**
+   * Show the stored key bindings
+   */
+  setKeyMapping(mapping: KeyMapping): void {
+    this.keyMapping = { ...mapping };
+    this.updateBindingRows();
+  }
+
+  /**
+   * Create the scene content
+   */
+  protected async onCreate(): Promise<void> {
+    const colors = this.lcdEffect.getPaletteColors();
+
+    // Create background
+    this.background = new Graphics();
+    this.background.rect(0, 0, 240, 320);
+    this.background.fill({ color: colors.background });
+    this.container.addChild(this.background);
+
+    this.titleText = new Text({
+      text: 'CONTROLS',
+      style: new TextStyle({
+        fontFamily: 'monospace',
+        fontSize: 18,
+        fill: colors.foreground,
+        align: 'center',
+        fontWeight: 'bold',
+      }),
+    });
+    this.titleText.anchor.set(0.5);
+    this.titleText.position.set(120, 22);
+    this.container.addChild(this.titleText);
+
+    const smallTextStyle = {
+      fontFamily: 'monospace',
+      fontSize: 8,
+      fill: colors.foreground,
+      align: 'center' as const,
+    };
+
+    this.hintText = new Text({
+      text: 'ENTER ADDS A KEY, DELETE KEEPS NEWEST',
+      style: new TextStyle(smallTextStyle),
+    });
+    this.hintText.anchor.set(0.5);
+    this.hintText.position.set(120, 44);
+    this.container.addChild(this.hintText);
+
+    this.bindingRows = BINDABLE_ACTIONS.map(([action, label], index) => {
+      const row = this.createBindingRow(action, label, 70 + index * 24, index, colors);
+      this.container.addChild(row);
+      return row;
+    });
+
+    this.statusText = new Text({
+      text: '',
+      style: new TextStyle({ ...smallTextStyle, wordWrap: true, wordWrapWidth: 200 }),
+    });
+    this.statusText.anchor.set(0.5);
+    this.statusText.position.set(120, 216);
+    this.container.addChild(this.statusText);
+
+    this.resetKeysButton = this.createButton(
+      'RESET DEFAULTS',
+      120,
+      244,
+      140,
+      RESET_KEYS_OPTION,
+      colors,
+      () => this.resetKeyMapping()
+    );
+    this.container.addChild(this.resetKeysButton);
+
+    this.touchLayoutButton = this.createButton(
+      'TOUCH LAYOUT',
+      66,
+      272,
+      100,
+      TOUCH_LAYOUT_OPTION,
+      colors,
+      () => this.onEditTouchControls?.()
+    );
+    this.container.addChild(this.touchLayoutButton);
+
+    this.gesturesButton = this.createButton(
+      'GESTURES',
+      174,
+      272,
+      100,
+      GESTURES_OPTION,
+      colors,
+      () => this.onCalibrateGestures?.()
+    );
+    this.container.addChild(this.gesturesButton);
+
+    this.doneButton = this.createButton('DONE', 120, 300, 100, DONE_OPTION, colors, () =>
+      this.onBack?.()
+    );
+    this.container.addChild(this.doneButton);
+
+    this.updateSelectionHighlight();
+  }
+
+  /**
+   * Create a row showing the keys bound to an action (click it to add a key)
+   */
+  private createBindingRow(
+    action: InputAction,
+    label: string,
+    y: number,
+    optionIndex: number,
+    colors: { foreground: number; background: number }
+  ): BindingRow {
+    const row = new Container() as BindingRow;
+    row.position.set(0, y);
+
+    const background = new Graphics();
+    row.addChild(background);
+
+    const textStyle = {
+      fontFamily: 'monospace',
+      fontSize: 10,
+      fill: colors.foreground,
+    };
+
+    const labelText = new Text({ text: label, style: new TextStyle(textStyle) });
+    labelText.anchor.set(0, 0.5);
+    labelText.position.set(28, 0);
+    row.addChild(labelText);
+
+    const keysText = new Text({ text: '', style: new TextStyle(textStyle) });
+    keysText.anchor.set(1, 0.5);
+    keysText.position.set(212, 0);
+    row.addChild(keysText);
+
+    // Make interactive
+    row.eventMode = 'static';
+    row.cursor = 'pointer';
+    row.hitArea = {
+      contains: (px: number, py: number) => px >= 20 && px <= 220 && py >= -10 && py <= 10,
+    };
+    row.on('pointerdown', () => {
+      this.selectedOptionIndex = optionIndex;
+      this.startKeyCapture(action);
+    });
+    row.on('pointerover', () => {
+      if (this.capturingAction === null) {
+        this.selectedOptionIndex = optionIndex;
+        this.updateSelectionHighlight();
+      }
+    });
+
+    row.background = background;
+    row.labelElement = labelText;
+    row.keysElement = keysText;
+    row.action = action;
+
+    return row;
+  }
+
+  /**
+   * Create a button that is selected as the given option index
+   */
+  private createButton(
+    text: string,
+    x: number,
+    y: number,
+    buttonWidth: number,
+    optionIndex: number,
+    colors: { foreground: number; background: number },
+    onClick: () => void
+  ): ButtonContainer {
+    const buttonContainer = new Container() as ButtonContainer;
+    buttonContainer.position.set(x, y);
+
+    const buttonHeight = 24;
+
+    // Button background
+    const bg = new Graphics();
+    bg.rect(-buttonWidth / 2, -buttonHeight / 2, buttonWidth, buttonHeight);
+    bg.fill({ color: colors.background });
+    bg.stroke({ color: colors.foreground, width: 2 });
+    buttonContainer.addChild(bg);
+
+    // Button text
+    const buttonText = new Text({
+      text,
+      style: new TextStyle({
+        fontFamily: 'monospace',
+        fontSize: 11,
+        fill: colors.foreground,
+        align: 'center',
+      }),
+    });
+    buttonText.anchor.set(0.5);
+    buttonContainer.addChild(buttonText);
+
+    // Make interactive
+    buttonContainer.eventMode = 'static';
+    buttonContainer.cursor = 'pointer';
+    buttonContainer.on('pointerdown', onClick);
+    buttonContainer.on('pointerover', () => {
+      this.selectedOptionIndex = optionIndex;
+      this.updateSelectionHighlight();
+    });
+
+    buttonContainer.background = bg;
+    buttonContainer.textElement = buttonText;
+    buttonContainer.optionIndex = optionIndex;
+    buttonContainer.buttonWidth = buttonWidth;
+
+    return buttonContainer;
+  }
+
+  /**
+   * Show a short message under the key rows (e.g. a key that is already used)
+   */
+  private showStatus(message: string): void {
+    if (this.statusText) {
+      this.statusText.text = message.toUpperCase();
+    }
+  }
+
+  /**
+   * Wait for the next key press and add it to an action
+   */
+  private startKeyCapture(action: InputAction): void {
+    this.capturingAction = action;
+    const label = BINDABLE_ACTIONS.find(([bindable]) => bindable === action)?.[1] ?? '';
+    this.showStatus(`Press a key for ${label} (Esc cancels)`);
+    this.updateSelectionHighlight();
+  }
+
+  /**
+   * Bind the key pressed while capturing (Escape cancels)
+   */
+  private captureKey(event: KeyboardEvent): void {
+    event.preventDefault();
+    if (event.repeat || this.capturingAction === null) {
+      return;
+    }
+
+    const action = this.capturingAction;
+    this.capturingAction = null;
+    this.showStatus('');
+
+    if (event.key !== 'Escape') {
+      const result = bindKey(this.keyMapping, event.key, action);
+      if (result.mapping) {
+        this.keyMapping = result.mapping;
+        this.onKeyMappingChange?.({ ...this.keyMapping });
+      } else {
+        const usedBy = this.keyMapping[normalizeKey(event.key)];
+        const label = BINDABLE_ACTIONS.find(([bindable]) => bindable === usedBy)?.[1] ?? '';
+        this.showStatus(`${result.error} by ${label}`);
+      }
+    }
+    this.updateSelectionHighlight();
+  }
+
+  /**
+   * Remove all but the newest key from the selected action
+   */
+  private clearSelectedKeys(): void {
+    const row = this.bindingRows[this.selectedOptionIndex];
+    if (!row?.action) {
+      return;
+    }
+
+    const result = clearKeys(this.keyMapping, row.action);
+    if (result.mapping) {
+      this.keyMapping = result.mapping;
+      this.onKeyMappingChange?.({ ...this.keyMapping });
+      const [newest] = getKeysForAction(this.keyMapping, row.action);
+      this.showStatus(`${row.labelElement?.text ?? ''} keeps only ${getKeyLabel(newest)}`);
+    } else {
+      this.showStatus(result.error);
+    }
+    this.updateSelectionHighlight();
+  }
+
+  /**
+   * Go back to the default key bindings
+   */
+  private resetKeyMapping(): void {
+    this.capturingAction = null;
+    this.keyMapping = { ...DEFAULT_KEY_MAPPING };
+    this.onKeyMappingChange?.({ ...this.keyMapping });
+    this.showStatus('Default keys restored');
+    this.updateSelectionHighlight();
+  }
+
+  /**
+   * Redraw the key binding rows from the key mapping
+   */
+  private updateBindingRows(): void {
+    const colors = this.lcdEffect.getPaletteColors();
+
+    this.bindingRows.forEach((row, index) => {
+      const isSelected = this.selectedOptionIndex === index;
+      const isCapturing = this.capturingAction !== null && this.capturingAction === row.action;
+
+      if (row.background) {
+        row.background.clear();
+        row.background.rect(20, -10, 200, 20);
+        row.background.fill({ color: colors.background });
+        row.background.stroke({
+          color: isSelected ? colors.accent : colors.foreground,
+          width: isSelected ? 2 : 1,
+        });
+      }
+      if (row.labelElement) {
+        row.labelElement.style.fill = isSelected ? colors.accent : colors.foreground;
+      }
+      if (row.keysElement && row.action) {
+        const keys = getKeysForAction(this.keyMapping, row.action).map(getKeyLabel);
+        row.keysElement.text = isCapturing ? '...' : keys.join(' ') || '-';
+        row.keysElement.style.fill = isCapturing ? colors.accent : colors.foreground;
+      }
+    });
+  }
+
+  /**
+   * Update selection highlight for keyboard navigation
+   */
+  private updateSelectionHighlight(): void {
+    const colors = this.lcdEffect.getPaletteColors();
+
+    this.updateBindingRows();
+
+    for (const button of this.getButtons()) {
+      if (!button || !button.background) continue;
+
+      const isSelected = this.selectedOptionIndex === button.optionIndex;
+      const width = button.buttonWidth ?? 100;
+      button.background.clear();
+      button.background.rect(-width / 2, -12, width, 24);
+      button.background.fill({ color: isSelected ? colors.accent : colors.background });
+      button.background.stroke({ color: colors.foreground, width: 2 });
+
+      if (button.textElement) {
+        button.textElement.style.fill = isSelected ? colors.background : colors.foreground;
+      }
+    }
+  }
+
+  /**
+   * Get the buttons below the key rows
+   */
+  private getButtons(): (ButtonContainer | null)[] {
+    return [this.resetKeysButton, this.touchLayoutButton, this.gesturesButton, this.doneButton];
+  }
+
+  /**
+   * Handle keyboard navigation
+   */
+  private handleKeyPress = (event: KeyboardEvent): void => {
+    if (this.capturingAction !== null) {
+      this.captureKey(event);
+      return;
+    }
+
+    switch (event.key) {
+      case 'ArrowUp':
+        event.preventDefault();
+        this.selectedOptionIndex = Math.max(0, this.selectedOptionIndex - 1);
+        this.updateSelectionHighlight();
+        break;
+      case 'ArrowDown':
+        event.preventDefault();
+        this.selectedOptionIndex = Math.min(DONE_OPTION, this.selectedOptionIndex + 1);
+        this.updateSelectionHighlight();
+        break;
+      case 'Delete':
+        event.preventDefault();
+        this.clearSelectedKeys();
+        break;
+      case 'Enter':
+      case ' ': {
+        event.preventDefault();
+        const row = this.bindingRows[this.selectedOptionIndex];
+        if (row?.action) {
+          this.startKeyCapture(row.action);
+        } else if (this.selectedOptionIndex === RESET_KEYS_OPTION) {
+          this.resetKeyMapping();
+        } else if (this.selectedOptionIndex === TOUCH_LAYOUT_OPTION) {
+          this.onEditTouchControls?.();
+        } else if (this.selectedOptionIndex === GESTURES_OPTION) {
+          this.onCalibrateGestures?.();
+        } else {
+          this.onBack?.();
+        }
+        break;
+      }
+      case 'Escape':
+        event.preventDefault();
+        this.onBack?.();
+        break;
+    }
+  };
+
+  /**
+   * Called when scene becomes active
+   */
+  override onEnter(): void {
+    super.onEnter();
+
+    // Start on the first key row
+    this.capturingAction = null;
+    this.selectedOptionIndex = 0;
+    this.showStatus('');
+    this.updateSelectionHighlight();
+
+    window.addEventListener('keydown', this.handleKeyPress);
+  }
+
+  /**
+   * Called when scene becomes inactive
+   */
+  override onExit(): void {
+    super.onExit();
+    window.removeEventListener('keydown', this.handleKeyPress);
+    this.capturingAction = null;
+  }
+
+  /**
+   * Update colors when palette changes
+   */
+  updatePalette(): void {
+    const colors = this.lcdEffect.getPaletteColors();
+
+    if (this.background) {
+      this.background.clear();
+      this.background.rect(0, 0, 240, 320);
+      this.background.fill({ color: colors.background });
+    }
+
+    for (const text of [this.titleText, this.hintText, this.statusText]) {
+      if (text) {
+        text.style.fill = colors.foreground;
+      }
+    }
+
+    this.updateSelectionHighlight();
+  }
+
+  /**
+   * Destroy the scene
+   */
+  override destroy(): void {
+    window.removeEventListener('keydown', this.handleKeyPress);
+
+    if (this.background) {
+      this.background.destroy();
+      this.background = null;
+    }
+
+    for (const text of [this.titleText, this.hintText, this.statusText]) {
+      text?.destroy();
+    }
+    this.titleText = null;
+    this.hintText = null;
+    this.statusText = null;
+
+    for (const row of this.bindingRows) {
+      row.destroy({ children: true });
+    }
+    this.bindingRows = [];
+    this.capturingAction = null;
+
+    for (const button of this.getButtons()) {
+      button?.destroy({ children: true });
+    }
+    this.resetKeysButton = null;
+    this.touchLayoutButton = null;
+    this.gesturesButton = null;
+    this.doneButton = null;
+
+    this.onBack = null;
+    this.onKeyMappingChange = null;
+    this.onEditTouchControls = null;
+    this.onCalibrateGestures = null;
+
+    super.destroy();
+  }
+}
+
+/**
+ * Extended Container interface for key binding rows
+ */
+interface BindingRow extends Container {
+  background?: Graphics;
+  labelElement?: Text;
+  keysElement?: Text;
+  action?: InputAction;
+}
+
+/**
+ * Extended Container interface for button references
+ */
+interface ButtonContainer extends Container {
+  background?: Graphics;
+  textElement?: Text;
+  optionIndex?: number;
+  buttonWidth?: number;
+}
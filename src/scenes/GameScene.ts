@@ -8,21 +8,36 @@
 
 import { Container, Graphics, Text, TextStyle, Sprite } from 'pixi.js';
 import { Scene } from './Scene';
-import { SceneType, InputAction, GameState } from '../types/game';
+import { SceneType, InputAction, GameState, GameMode } from '../types/game';
 import type { LCDEffect } from '../systems/LCDEffect';
 import type { AssetLoader } from '../utils/AssetLoader';
 import type { InputManager } from '../systems/InputManager';
+import type { InputState } from '../types/game';
 import type { CharacterConfig } from '../types/config';
-import { Character } from '../entities/Character';
-import { CrateManager } from '../systems/CrateManager';
-import { CraneManager } from '../systems/CraneManager';
-import { SpecialBlockManager } from '../systems/SpecialBlockManager';
-import { ScoreManager } from '../systems/ScoreManager';
-import { LevelManager } from '../systems/LevelManager';
+import type { ScoreManager, ScoreEvent } from '../systems/ScoreManager';
+import type { LevelManager } from '../systems/LevelManager';
+import type { CrateManager } from '../systems/CrateManager';
+import { SoundEffect } from '../systems/SoundEngine';
+import type { SoundEngine } from '../systems/SoundEngine';
+import { CharacterState } from '../entities/Character';
+import { GameSimulation } from '../systems/GameSimulation';
 import { CharacterUnlockManager } from '../systems/CharacterUnlockManager';
+import type { UnlockProgress } from '../systems/CharacterUnlockManager';
 import { GameStateMachine } from '../systems/GameStateMachine';
 import { DEFAULT_GRID_CONFIG, getGridLeftX, getGridRightX } from '../config/grid';
 import { getCharacterById } from '../config/characters';
+import { generateSeed } from '../utils/SeededRandom';
+import { CharacterView } from '../views/CharacterView';
+import type { CharacterTextureProvider } from '../views/CharacterView';
+import { CrateManagerView } from '../views/CrateManagerView';
+import { CraneManagerView } from '../views/CraneManagerView';
+import { SpecialBlockManagerView } from '../views/SpecialBlockManagerView';
+import type { CrateTextureProvider } from '../views/CrateView';
+import { ReplayRecorder } from '../systems/ReplayRecorder';
+import type { ReplayData } from '../systems/ReplayRecorder';
+import { ReplayPlayer } from '../systems/ReplayPlayer';
+import type { GameSnapshot } from '../systems/GameSnapshot';
+import type { LevelPack } from '../config/levelPack';
 
 // Game area constants
 const LOGICAL_WIDTH = 224; // 12 columns × 16px + 16px walls × 2 = 224px
@@ -36,17 +51,24 @@ const DITHER_PIXEL_SIZE = 2; // Size of each dither pixel
 // Minimum mobile touch target size (44x44px recommended by Apple/Google)
 const MIN_TOUCH_TARGET_SIZE = 44;
 
+// Save the run in progress every 5 seconds of play (in fixed-step ticks)
+const AUTOSAVE_INTERVAL_TICKS = 300;
+
+// How long the "CHAIN xN" banner stays up after a cascade clear (seconds)
+const CHAIN_DISPLAY_SECONDS = 1.2;
+
 export interface GameSceneCallbacks {
   onGameOver: (score: number, level: number, linesCleared?: number) => void;
   onLevelComplete: (level: number, score: number) => void;
   onQuitToMenu: () => void;
+  onAutoSave?: (snapshot: GameSnapshot) => void;
 }
 
 export class GameScene extends Scene {
   private lcdEffect: LCDEffect;
   private assetLoader: AssetLoader | null = null;
   private inputManager: InputManager | null = null;
-  private isMovementKeyPressed: boolean = false; // Track if movement key is actively pressed
+  private soundEngine: SoundEngine | null = null;
 
   // Layers for organization
   private backgroundLayer: Container;
@@ -58,24 +80,41 @@ export class GameScene extends Scene {
   private pauseLayer: Container;
   private mobileControlsLayer: Container;
 
-  // Game entities
-  private character: Character | null = null;
   private selectedCharacterConfig: CharacterConfig | null = null;
 
+  // Draw colored crates with colorblind glyphs
+  private crateGlyphs: boolean = false;
+
+  // Headless gameplay rules; the scene renders it and feeds it input
+  private simulation: GameSimulation;
+
+  // Views of the simulation entities (recreated per run)
+  private characterView: CharacterView | null = null;
+  private crateManagerView: CrateManagerView | null = null;
+  private craneManagerView: CraneManagerView | null = null;
+  private specialBlockManagerView: SpecialBlockManagerView | null = null;
+
   // Game systems
-  private crateManager: CrateManager | null = null;
-  private craneManager: CraneManager | null = null;
-  private specialBlockManager: SpecialBlockManager | null = null;
   private scoreManager: ScoreManager;
   private levelManager: LevelManager;
   private unlockManager: CharacterUnlockManager;
   private stateMachine: GameStateMachine;
 
+  // Special block activations already checked for unlocks
+  private checkedActivations: number = 0;
+
+  // Replay: recorder and optional playback (ticks come from the simulation)
+  private replayRecorder: ReplayRecorder;
+  private replayPlayer: ReplayPlayer | null = null;
+  private lastReplay: ReplayData | null = null;
+
   // HUD elements
   private scoreText: Text | null = null;
   private levelText: Text | null = null;
   private linesText: Text | null = null;
   private livesText: Text | null = null;
+  private chainText: Text | null = null;
+  private chainDisplayTimeLeft: number = 0;
   private superJumpIcon: Sprite | null = null;
   private helmetIcon: Sprite | null = null;
 
@@ -96,9 +135,6 @@ export class GameScene extends Scene {
   private keydownHandler: ((e: KeyboardEvent) => void) | null = null;
   private resizeHandler: (() => void) | null = null;
 
-  // Performance optimization: track if line check is needed
-  private pendingLineCheck: boolean = false;
-
   // Dithering graphics for spawn zone (need reference for palette updates)
   private ditheringGraphics: Graphics | null = null;
 
@@ -120,10 +156,17 @@ export class GameScene extends Scene {
     this.mobileControlsLayer = new Container();
 
     // Initialize systems
-    this.scoreManager = new ScoreManager();
-    this.levelManager = new LevelManager();
+    // Crane positioned below rail, top pixels touching rail bottom
+    // Layout: ceiling (8px) + rail (6px) + crane (28px) = 42px below CRANE_AREA_Y
+    this.simulation = new GameSimulation({
+      gridConfig: DEFAULT_GRID_CONFIG,
+      craneTopY: CRANE_AREA_Y + 8 + 6 + 28,
+    });
+    this.scoreManager = this.simulation.getScoreManager();
+    this.levelManager = this.simulation.getLevelManager();
     this.unlockManager = new CharacterUnlockManager();
     this.stateMachine = new GameStateMachine(GameState.Menu);
+    this.replayRecorder = new ReplayRecorder();
 
     // Set up event listeners
     this.setupEventListeners();
@@ -140,9 +183,29 @@ export class GameScene extends Scene {
    * Set the input manager
    */
   setInputManager(manager: InputManager): void {
+    if (this.inputManager) {
+      this.inputManager.removeActionListener(this.handleInputAction);
+    }
     this.inputManager = manager;
+    this.inputManager.onAction(this.handleInputAction);
   }
 
+  /**
+   * Set the sound engine that plays gameplay sound effects
+   */
+  setSoundEngine(engine: SoundEngine): void {
+    this.soundEngine = engine;
+  }
+
+  /**
+   * Record live input transitions for the replay of the current run
+   */
+  private handleInputAction = (action: InputAction, active: boolean): void => {
+    if (!this.replayPlayer && this.replayRecorder.isRecording()) {
+      this.replayRecorder.record(this.simulation.getTick(), action, active);
+    }
+  };
+
   /**
    * Set callbacks for game events
    */
@@ -167,6 +230,30 @@ export class GameScene extends Scene {
     this.unlockManager.restoreState(ids);
   }
 
+  /**
+   * Restore saved unlocks and progress for the unlock manager
+   */
+  setUnlockProgress(progress: UnlockProgress): void {
+    this.unlockManager.restoreProgress(progress);
+  }
+
+  /**
+   * Draw colored crates with a distinct glyph per color (accessibility option)
+   */
+  setCrateGlyphs(enabled: boolean): void {
+    if (this.crateGlyphs !== enabled) {
+      this.crateGlyphs = enabled;
+      this.crateManagerView?.refreshTextures();
+    }
+  }
+
+  /**
+   * Get unlocks and progress, including the run so far (for saving)
+   */
+  getUnlockProgress(): UnlockProgress {
+    return this.unlockManager.getProgress();
+  }
+
   /**
    * Create the scene content
    */
@@ -455,6 +542,23 @@ export class GameScene extends Scene {
     this.livesText.position.set(LOGICAL_WIDTH - 35, 5);
     this.hudLayer.addChild(this.livesText);
 
+    // Chain banner (top of the play area, hidden until a cascade)
+    this.chainText = new Text({
+      text: '',
+      style: new TextStyle({
+        fontFamily: 'monospace',
+        fontSize: 12,
+        fontWeight: 'bold',
+        fill: colors.foreground,
+        stroke: { color: colors.background, width: 2 },
+        align: 'center',
+      }),
+    });
+    this.chainText.anchor.set(0.5, 0);
+    this.chainText.position.set(LOGICAL_WIDTH / 2, CRANE_AREA_Y + 40);
+    this.chainText.visible = false;
+    this.hudLayer.addChild(this.chainText);
+
     // Special effect icons (below score)
     this.createEffectIcons(colors);
   }
@@ -746,13 +850,23 @@ export class GameScene extends Scene {
       this.updateHUDScore();
     });
 
+    this.scoreManager.on('chain', (event: ScoreEvent) => {
+      this.showChain(event.details?.chainDepth ?? 0);
+    });
+
+    this.scoreManager.on('lineClear', () => this.playSound(SoundEffect.LineClear));
+    this.scoreManager.on('match', () => this.playSound(SoundEffect.Match));
+    this.scoreManager.on('specialBlock', () => this.playSound(SoundEffect.SpecialPickup));
+
     // Level events
     this.levelManager.addListener('linesCleared', () => {
       this.updateHUDLines();
     });
 
+    // Bonus points are awarded by the simulation, which registered its listener first
     this.levelManager.addListener('levelComplete', (event) => {
-      this.handleLevelComplete(event.level, event.bonusPoints || 0);
+      this.playSound(SoundEffect.LevelComplete);
+      this.handleLevelComplete(event.level);
     });
 
     // State machine events
@@ -763,159 +877,247 @@ export class GameScene extends Scene {
 
   /**
    * Initialize game entities for a new game
+   * Pass a seed to replay an exact crate sequence; a fresh one is generated otherwise
    */
-  initializeGame(characterId: number, startLevel: number = 1): void {
-    // Set character config
-    this.setSelectedCharacter(characterId);
+  initializeGame(
+    characterId: number,
+    startLevel: number = 1,
+    mode: GameMode = GameMode.Classic,
+    seed: number = generateSeed()
+  ): void {
+    this.replayPlayer = null;
+    this.startRun(characterId, startLevel, seed, mode);
+  }
 
-    // Reset systems
-    this.scoreManager.reset();
-    this.levelManager.reset();
-    this.stateMachine.reset();
+  /**
+   * Start playback of a recorded run, feeding its inputs instead of live input
+   */
+  startReplay(replay: ReplayData): void {
+    this.replayPlayer = new ReplayPlayer(replay);
+    this.startRun(replay.characterId, replay.startLevel, replay.seed, replay.mode);
+  }
 
-    // Clear existing entities
-    this.clearGameEntities();
+  /**
+   * Resume a saved run from its snapshot
+   * Resumed runs are not recorded (a replay must start from the run's first tick)
+   * Returns false if the snapshot could not be restored
+   */
+  resumeFromSnapshot(snapshot: GameSnapshot): boolean {
+    this.replayPlayer = null;
+    this.lastReplay = null;
+    this.replayRecorder.stop();
+    this.setSelectedCharacter(snapshot.character.characterId);
 
-    // Create character
-    this.createCharacter();
+    this.stateMachine.reset();
+    this.clearGameEntities();
 
-    // Create game managers
-    this.createGameManagers();
+    if (!this.simulation.restoreSnapshot(snapshot)) {
+      this.isGameRunning = false;
+      return false;
+    }
 
-    // Start at selected level
-    this.levelManager.startLevel(startLevel);
+    this.checkedActivations = this.simulation.getSpecialBlocksActivated();
+    this.createViews();
+    this.syncViews();
     this.updateHUD();
 
-    // Initialize cranes for level
-    if (this.craneManager) {
-      this.craneManager.initializeCranes(this.levelManager.getCurrentCraneCount());
-      this.craneManager.setSpawnInterval(2000 / this.levelManager.getCurrentCrateSpeedMultiplier());
-
-      // Set crane textures - use inverted version for dark header (closed and open hooks)
-      if (this.assetLoader) {
-        const closedTexture = this.assetLoader.getInvertedCraneSprite(
-          this.lcdEffect.getCurrentPalette()
-        );
-        const openTexture = this.assetLoader.getInvertedCraneOpenSprite(
-          this.lcdEffect.getCurrentPalette()
-        );
-        if (closedTexture && openTexture) {
-          this.craneManager.setCraneTextures(closedTexture, openTexture);
-        }
+    this.stateMachine.transition(GameState.Playing);
+    this.isGameRunning = true;
 
-        // Set up crate texture callback for crane manager
-        this.craneManager.setCrateTextureCallback((type, color) => {
-          if (type === 'regular' && color) {
-            return this.assetLoader!.getColoredCrateSprite(
-              color,
-              this.lcdEffect.getCurrentPalette()
-            );
-          } else if (type === 'bomb') {
-            return this.assetLoader!.getBombCrateSprite(this.lcdEffect.getCurrentPalette());
-          } else {
-            return this.assetLoader!.getCrateSpriteByType(type, this.lcdEffect.getCurrentPalette());
-          }
-        });
-      }
+    // Saved while the level transition was showing - carry on with the next level
+    if (this.simulation.isLevelComplete()) {
+      this.advanceToNextLevel();
     }
 
-    // Transition to playing state
-    this.stateMachine.transition(GameState.Playing);
-    this.isGameRunning = true;
-    this.pendingLineCheck = false;
+    return true;
+  }
+
+  /**
+   * Capture the run in progress for saving (null when not playing or during a replay)
+   */
+  createSnapshot(): GameSnapshot | null {
+    if (!this.isGameRunning || this.replayPlayer) {
+      return null;
+    }
+
+    return this.simulation.createSnapshot();
+  }
+
+  /**
+   * Hand the current snapshot to the auto-save callback
+   */
+  private autoSave(): void {
+    const snapshot = this.createSnapshot();
+    if (snapshot && this.callbacks?.onAutoSave) {
+      this.callbacks.onAutoSave(snapshot);
+    }
   }
 
   /**
-   * Create the player character
+   * Set up a new run (live or replayed)
    */
-  private createCharacter(): void {
+  private startRun(characterId: number, startLevel: number, seed: number, mode: GameMode): void {
+    // Set character config
+    this.setSelectedCharacter(characterId);
     if (!this.selectedCharacterConfig) {
       this.selectedCharacterConfig = getCharacterById(1)!;
     }
 
-    this.character = new Character(this.selectedCharacterConfig);
+    // Start recording live runs; replays are never re-recorded
+    this.lastReplay = null;
+    this.replayRecorder.stop();
+    if (!this.replayPlayer) {
+      this.replayRecorder.start(
+        { seed, characterId, startLevel, mode },
+        this.inputManager?.getInputState()
+      );
+    }
 
-    // Set initial position (center-bottom of play area)
-    const gridLeft = getGridLeftX(DEFAULT_GRID_CONFIG);
-    const gridRight = getGridRightX(DEFAULT_GRID_CONFIG);
-    const centerX = (gridLeft + gridRight) / 2;
-    this.character.setPosition(centerX, GROUND_Y);
-    this.character.setOnGround(true);
+    this.stateMachine.reset();
 
-    // Set sprite texture using animation system
-    if (this.assetLoader) {
-      const frame = this.character.getCurrentAnimationFrame();
-      const texture = this.assetLoader.getCharacterAnimationSprite(
-        frame,
-        this.lcdEffect.getCurrentPalette()
-      );
-      if (texture) {
-        this.character.texture = texture;
-      }
+    // Clear existing views
+    this.clearGameEntities();
+
+    // Start the simulation (resets score and level) and create its views
+    this.simulation.start(this.selectedCharacterConfig, startLevel, seed, mode);
+    this.checkedActivations = 0;
+    this.createViews();
+    this.syncViews();
+    this.updateHUD();
+
+    // Transition to playing state
+    this.stateMachine.transition(GameState.Playing);
+    this.isGameRunning = true;
+  }
+
+  /**
+   * Create views for the simulation entities
+   */
+  private createViews(): void {
+    const character = this.simulation.getCharacter();
+    const crateManager = this.simulation.getCrateManager();
+    const craneManager = this.simulation.getCraneManager();
+    const specialBlockManager = this.simulation.getSpecialBlockManager();
+    if (!character || !crateManager || !craneManager || !specialBlockManager) {
+      return;
     }
 
-    this.characterLayer.addChild(this.character);
+    const crateTextures = this.getCrateTextureProvider();
+
+    this.crateManagerView = new CrateManagerView(crateManager, crateTextures);
+    this.crateLayer.addChild(this.crateManagerView);
+
+    this.craneManagerView = new CraneManagerView(craneManager, crateTextures);
+    this.gameLayer.addChild(this.craneManagerView);
+    this.applyCraneTextures();
+
+    this.specialBlockManagerView = new SpecialBlockManagerView(specialBlockManager);
+    this.uiLayer.addChild(this.specialBlockManagerView);
+
+    this.characterView = new CharacterView(character);
+    this.characterLayer.addChild(this.characterView);
+
+    this.addCrateSoundListeners(crateManager);
   }
 
   /**
-   * Create game managers
+   * Play sound effects for crate events (each run has a new crate manager)
    */
-  private createGameManagers(): void {
-    // Crate manager
-    this.crateManager = new CrateManager({
-      gridColumns: DEFAULT_GRID_CONFIG.columns,
-      gridRows: DEFAULT_GRID_CONFIG.rows,
-      cellWidth: DEFAULT_GRID_CONFIG.cellWidth,
-      cellHeight: DEFAULT_GRID_CONFIG.cellHeight,
-      groundY: GROUND_Y,
-    });
-    this.crateLayer.addChild(this.crateManager);
+  private addCrateSoundListeners(crateManager: CrateManager): void {
+    crateManager.addListener('crateReleased', () => this.playSound(SoundEffect.CraneRelease));
+    crateManager.addListener('crateLanded', () => this.playSound(SoundEffect.CrateLand));
+    crateManager.addListener('cratesPushed', () => this.playSound(SoundEffect.Push));
+    crateManager.addListener('bombTick', () => this.playSound(SoundEffect.BombTick));
+    crateManager.addListener('bombExploded', () => this.playSound(SoundEffect.Explosion));
+  }
 
-    // Crane manager - crane positioned below rail, top pixels touching rail bottom
-    // Layout: ceiling (8px) + rail (6px) + crane (28px) = 42px below CRANE_AREA_Y
-    // Crane bottom = CRANE_AREA_Y + 8 + 6 + 28 = 77
-    this.craneManager = new CraneManager({
-      gridConfig: DEFAULT_GRID_CONFIG,
-      craneTopY: CRANE_AREA_Y + 8 + 6 + 28,
-    });
-    this.gameLayer.addChild(this.craneManager);
+  /**
+   * Play a sound effect if a sound engine is set
+   */
+  private playSound(effect: SoundEffect): void {
+    this.soundEngine?.play(effect);
+  }
+
+  /**
+   * Get the crate texture lookup for the current palette
+   */
+  private getCrateTextureProvider(): CrateTextureProvider | null {
+    const assetLoader = this.assetLoader;
+    if (!assetLoader) {
+      return null;
+    }
 
-    // Special block manager
-    this.specialBlockManager = new SpecialBlockManager();
-    this.uiLayer.addChild(this.specialBlockManager);
+    return (type, color) => {
+      const palette = this.lcdEffect.getCurrentPalette();
+      if (type === 'regular' && color) {
+        return assetLoader.getColoredCrateSprite(color, palette, this.crateGlyphs);
+      } else if (type === 'bomb') {
+        return assetLoader.getBombCrateSprite(palette);
+      } else {
+        return assetLoader.getCrateSpriteByType(type, palette);
+      }
+    };
   }
 
   /**
-   * Clear all game entities
+   * Get the character animation texture lookup for the current palette
    */
-  private clearGameEntities(): void {
-    // Remove character
-    if (this.character) {
-      this.characterLayer.removeChild(this.character);
-      this.character.destroy();
-      this.character = null;
+  private getCharacterTextureProvider(): CharacterTextureProvider | null {
+    const assetLoader = this.assetLoader;
+    if (!assetLoader) {
+      return null;
     }
 
-    // Remove crate manager
-    if (this.crateManager) {
-      this.crateLayer.removeChild(this.crateManager);
-      this.crateManager.destroy();
-      this.crateManager = null;
+    return (frame) =>
+      assetLoader.getCharacterAnimationSprite(frame, this.lcdEffect.getCurrentPalette());
+  }
+
+  /**
+   * Set crane textures - use inverted version for dark header (closed and open hooks)
+   */
+  private applyCraneTextures(): void {
+    if (!this.craneManagerView || !this.assetLoader) {
+      return;
     }
 
-    // Remove crane manager
-    if (this.craneManager) {
-      this.gameLayer.removeChild(this.craneManager);
-      this.craneManager.destroy();
-      this.craneManager = null;
+    const palette = this.lcdEffect.getCurrentPalette();
+    const closedTexture = this.assetLoader.getInvertedCraneSprite(palette);
+    const openTexture = this.assetLoader.getInvertedCraneOpenSprite(palette);
+    if (closedTexture && openTexture) {
+      this.craneManagerView.setCraneTextures(closedTexture, openTexture);
     }
+  }
+
+  /**
+   * Sync all views with the simulation state
+   */
+  private syncViews(): void {
+    this.crateManagerView?.sync();
+    this.craneManagerView?.sync();
+    this.specialBlockManagerView?.sync();
+    this.characterView?.sync(this.getCharacterTextureProvider());
+  }
 
-    // Remove special block manager
-    if (this.specialBlockManager) {
-      this.uiLayer.removeChild(this.specialBlockManager);
-      this.specialBlockManager.destroy();
-      this.specialBlockManager = null;
+  /**
+   * Clear all game entity views
+   */
+  private clearGameEntities(): void {
+    for (const view of [
+      this.characterView,
+      this.crateManagerView,
+      this.craneManagerView,
+      this.specialBlockManagerView,
+    ]) {
+      if (view) {
+        view.parent?.removeChild(view);
+        view.destroy();
+      }
     }
+
+    this.characterView = null;
+    this.crateManagerView = null;
+    this.craneManagerView = null;
+    this.specialBlockManagerView = null;
   }
 
   /**
@@ -938,6 +1140,32 @@ export class GameScene extends Scene {
     }
   }
 
+  /**
+   * Show the "CHAIN xN" banner for a cascade clear
+   */
+  private showChain(chainDepth: number): void {
+    if (this.chainText) {
+      this.chainText.text = `CHAIN x${chainDepth}`;
+      this.chainText.visible = true;
+      this.chainText.alpha = 1;
+      this.chainDisplayTimeLeft = CHAIN_DISPLAY_SECONDS;
+    }
+  }
+
+  /**
+   * Fade out the chain banner once its display time runs out
+   */
+  private updateHUDChain(deltaTime: number): void {
+    if (!this.chainText || this.chainDisplayTimeLeft <= 0) {
+      return;
+    }
+
+    this.chainDisplayTimeLeft = Math.max(0, this.chainDisplayTimeLeft - deltaTime);
+    // Fade over the last third of the display time
+    this.chainText.alpha = Math.min(1, this.chainDisplayTimeLeft / (CHAIN_DISPLAY_SECONDS / 3));
+    this.chainText.visible = this.chainDisplayTimeLeft > 0;
+  }
+
   /**
    * Update level display
    */
@@ -962,8 +1190,9 @@ export class GameScene extends Scene {
    * Update lives display
    */
   private updateHUDLives(): void {
-    if (this.livesText && this.specialBlockManager) {
-      const lives = this.specialBlockManager.getExtraLives();
+    const specialBlockManager = this.simulation.getSpecialBlockManager();
+    if (this.livesText && specialBlockManager) {
+      const lives = specialBlockManager.getExtraLives();
       this.livesText.text = `♥${lives}`;
     }
   }
@@ -972,8 +1201,9 @@ export class GameScene extends Scene {
    * Update special effect icons
    */
   private updateHUDEffects(): void {
-    if (this.specialBlockManager) {
-      const state = this.specialBlockManager.getEffectState();
+    const specialBlockManager = this.simulation.getSpecialBlockManager();
+    if (specialBlockManager) {
+      const state = specialBlockManager.getEffectState();
 
       if (this.superJumpIcon) {
         (this.superJumpIcon as unknown as Graphics).visible = state.superJumpActive;
@@ -1005,12 +1235,8 @@ export class GameScene extends Scene {
   /**
    * Handle level complete
    */
-  private handleLevelComplete(level: number, bonusPoints: number): void {
-    // Award bonus points
-    this.scoreManager.addPoints(bonusPoints);
-
-    // Update highest level reached
-    this.scoreManager.setHighestLevelReached(level);
+  private handleLevelComplete(level: number): void {
+    this.recordRunProgress(level);
 
     // Notify callback
     if (this.callbacks?.onLevelComplete) {
@@ -1023,6 +1249,9 @@ export class GameScene extends Scene {
    */
   private handleGameOver(): void {
     this.isGameRunning = false;
+    this.playSound(SoundEffect.GameOver);
+    this.finishRecording();
+    this.recordRunProgress(this.levelManager.getCurrentLevel());
 
     if (this.callbacks?.onGameOver) {
       this.callbacks.onGameOver(
@@ -1033,12 +1262,27 @@ export class GameScene extends Scene {
     }
   }
 
+  /**
+   * Record the level and score reached with the current character
+   * (unlocks any characters earned by it; watching a replay earns nothing)
+   */
+  private recordRunProgress(level: number): void {
+    if (this.selectedCharacterConfig && !this.replayPlayer) {
+      this.unlockManager.recordRun(
+        this.selectedCharacterConfig.id,
+        level,
+        this.scoreManager.getScore()
+      );
+    }
+  }
+
   /**
    * Pause the game
    */
   pauseGame(): void {
     if (this.isGameRunning && this.stateMachine.getState() === GameState.Playing) {
       this.stateMachine.transition(GameState.Paused);
+      this.autoSave();
     }
   }
 
@@ -1055,7 +1299,10 @@ export class GameScene extends Scene {
    * Quit to main menu
    */
   quitToMenu(): void {
+    this.autoSave();
     this.isGameRunning = false;
+    this.finishRecording();
+    this.replayPlayer = null;
     this.hidePauseOverlay();
     this.stateMachine.transition(GameState.Menu);
 
@@ -1064,6 +1311,15 @@ export class GameScene extends Scene {
     }
   }
 
+  /**
+   * Stop recording the current run and keep its replay
+   */
+  private finishRecording(): void {
+    if (this.replayRecorder.isRecording()) {
+      this.lastReplay = this.replayRecorder.stop();
+    }
+  }
+
   /**
    * Show pause overlay
    */
@@ -1106,797 +1362,111 @@ export class GameScene extends Scene {
       return;
     }
 
-    // Process input
-    this.processInput(deltaTime);
-
-    // Update character
-    this.updateCharacter(deltaTime);
-
-    // Update cranes and spawn crates
-    this.updateCranes(deltaTime);
-
-    // Update crates (includes clearing animation updates)
-    this.updateCrates(deltaTime);
-
-    // Check collisions
-    this.checkCollisions();
-
-    // Update special block manager
-    if (this.specialBlockManager) {
-      this.specialBlockManager.update(deltaTime);
-    }
-
-    // Update HUD effects
-    this.updateHUDEffects();
-
-    // Check game over condition
-    this.checkGameOverCondition();
-  }
-
-  /**
-   * Process player input
-   */
-  private processInput(deltaTime: number): void {
-    if (!this.inputManager || !this.character) {
+    const inputState = this.getTickInputState();
+    if (!inputState) {
       return;
     }
 
-    const inputState = this.inputManager.getInputState();
-
-    // Movement
-    const movingLeft = inputState[InputAction.MoveLeft];
-    const movingRight = inputState[InputAction.MoveRight];
-
-    // Track if movement key is actively pressed (used for push detection)
-    this.isMovementKeyPressed = movingLeft || movingRight;
-
-    if (movingLeft) {
-      this.character.moveLeft(deltaTime);
-    }
-    if (movingRight) {
-      this.character.moveRight(deltaTime);
-    }
-
-    // If no horizontal movement input, stop moving (apply friction)
-    if (!movingLeft && !movingRight) {
-      this.character.stopMoving();
-    }
-
-    // Jump
-    if (inputState[InputAction.Jump]) {
-      this.character.jump();
-    }
-
-    // Pause
     if (inputState[InputAction.Pause]) {
       this.pauseGame();
     }
-  }
-
-  /**
-   * Update character physics and boundaries
-   */
-  private updateCharacter(deltaTime: number): void {
-    if (!this.character) {
-      return;
-    }
-
-    // Save ground state BEFORE resetting - used for friction calculation
-    this.character.saveGroundState();
-
-    // Reset onGround before collision checks - gravity will apply if not on a surface
-    // Only reset if not on the actual floor
-    if (this.character.y < GROUND_Y) {
-      this.character.setOnGround(false);
-    }
-
-    this.character.update(deltaTime);
-
-    // Keep character within bounds
-    const gridLeft = getGridLeftX(DEFAULT_GRID_CONFIG);
-    const gridRight = getGridRightX(DEFAULT_GRID_CONFIG);
-    const charWidth = this.character.width / 2;
-
-    if (this.character.x - charWidth < gridLeft) {
-      this.character.x = gridLeft + charWidth;
-    }
-    if (this.character.x + charWidth > gridRight) {
-      this.character.x = gridRight - charWidth;
-    }
-
-    // Check collision with crates - will re-set onGround if standing on a crate
-    this.checkCharacterCrateCollisions(deltaTime);
-
-    // Ground collision
-    if (this.character.y >= GROUND_Y) {
-      this.character.y = GROUND_Y;
-      this.character.setOnGround(true);
-    }
-
-    // Update character animation texture AFTER all collisions are resolved
-    // This ensures the state is stable when selecting animation frame
-    if (this.assetLoader) {
-      const frame = this.character.getCurrentAnimationFrame();
-      const texture = this.assetLoader.getCharacterAnimationSprite(
-        frame,
-        this.lcdEffect.getCurrentPalette()
-      );
-      if (texture) {
-        this.character.texture = texture;
-      }
-
-      // Handle idle looking direction - mirror sprite for left, normal for others
-      if (this.character.getState() === 'idle') {
-        if (this.character.isIdleLookingLeft()) {
-          this.character.scale.x = -Math.abs(this.character.scale.x);
-        } else {
-          // For idle_front, idle_up, idle_right - always face forward (no flip)
-          this.character.scale.x = Math.abs(this.character.scale.x);
-        }
-      }
-    }
-  }
-
-  /**
-   * Check and resolve character-crate collisions with push-on-move mechanics
-   */
-  private checkCharacterCrateCollisions(deltaTime: number): void {
-    if (!this.character || !this.crateManager) {
-      return;
-    }
-
-    // Reset pushing state at start - will be set if pushing happens
-    this.character.stopPushing();
-
-    // Track crates being actively pushed this frame
-    const activelyPushedCrates = new Set<import('../entities/Crate').Crate>();
-
-    const allCrates = this.crateManager.getAllCrates();
-    if (allCrates.length === 0) {
-      return;
-    }
-
-    // Track if character was blocked horizontally - stop processing more horizontal collisions
-    let horizontallyBlocked = false;
-
-    const charBounds = this.character.getCollisionBounds();
-    const charVelocity = this.character.getVelocity();
-
-    for (const crate of allCrates) {
-      const crateBounds = crate.getCollisionBounds();
-
-      // Check for overlap
-      // Use >= for bottom edge check to detect collision when standing exactly on top of a crate
-      // This prevents flickering between Idle and Falling states when character.y == crateBounds.y
-      const overlapX =
-        charBounds.x < crateBounds.x + crateBounds.width &&
-        charBounds.x + charBounds.width > crateBounds.x;
-      const overlapY =
-        charBounds.y < crateBounds.y + crateBounds.height &&
-        charBounds.y + charBounds.height >= crateBounds.y;
-
-      if (overlapX && overlapY) {
-        // Calculate overlap amounts
-        const charCenterX = charBounds.x + charBounds.width / 2;
-        const crateCenterX = crateBounds.x + crateBounds.width / 2;
-        const charCenterY = charBounds.y + charBounds.height / 2;
-        const crateCenterY = crateBounds.y + crateBounds.height / 2;
-
-        // Determine collision direction based on relative positions
-        const overlapLeft = charBounds.x + charBounds.width - crateBounds.x;
-        const overlapRight = crateBounds.x + crateBounds.width - charBounds.x;
-        const overlapTop = charBounds.y + charBounds.height - crateBounds.y;
-        const overlapBottom = crateBounds.y + crateBounds.height - charBounds.y;
-
-        const minOverlapX = Math.min(overlapLeft, overlapRight);
-        const minOverlapY = Math.min(overlapTop, overlapBottom);
-
-        // Determine which axis has less penetration
-        if (minOverlapY < minOverlapX) {
-          // Vertical collision
-          if (charCenterY < crateCenterY) {
-            // Character is above crate - land on top (only for landed crates)
-            if (crate.isLanded()) {
-              this.character.y = crateBounds.y;
-              this.character.setOnGround(true);
-              this.character.setVelocity({ y: 0 });
-            }
-          } else {
-            // Character is below crate - hit head (possible death from falling crate)
-            if (crate.isFalling()) {
-              // Only deadly if character is SUBSTANTIALLY under the crate (not just touching edge)
-              // Require at least 50% horizontal overlap to count as "under"
-              const horizontalOverlap =
-                Math.min(charBounds.x + charBounds.width, crateBounds.x + crateBounds.width) -
-                Math.max(charBounds.x, crateBounds.x);
-              const overlapRatio =
-                horizontalOverlap / Math.min(charBounds.width, crateBounds.width);
-
-              if (overlapRatio >= 0.5) {
-                // Character is truly under the falling crate
-                // Special blocks don't kill - they activate instead
-                if (crate.isSpecial()) {
-                  this.handleSpecialBlockCollision(crate);
-                  return;
-                }
-                // Regular crate falling on head - game over (unless helmet)
-                const survived = this.handleCrateFallingOnHead();
-                if (!survived) {
-                  return; // Game over
-                }
-                // Helmet saved us - push character aside so crate doesn't hit again
-                if (charCenterX < crateCenterX) {
-                  this.character.x = crateBounds.x - charBounds.width / 2 - 1;
-                } else {
-                  this.character.x = crateBounds.x + crateBounds.width + charBounds.width / 2 + 1;
-                }
-                continue; // Continue checking other crates
-              } else {
-                // Character is just touching the edge - push them aside instead
-                if (charCenterX < crateCenterX) {
-                  this.character.x = crateBounds.x - charBounds.width / 2 - 1;
-                } else {
-                  this.character.x = crateBounds.x + crateBounds.width + charBounds.width / 2 + 1;
-                }
-                continue; // Skip to next crate
-              }
-            }
-            this.character.y = crateBounds.y + crateBounds.height + charBounds.height;
-            this.character.setVelocity({ y: Math.max(0, charVelocity.y) });
-          }
-        } else {
-          // Horizontal collision - try to push crate
-
-          // Skip if already blocked by another crate (prevents passing through stacks)
-          if (horizontallyBlocked) {
-            continue;
-          }
-
-          const pushDirection = charCenterX < crateCenterX ? 1 : -1;
-
-          // Special crates can be picked up on horizontal collision (landed or falling)
-          if (crate.isSpecial()) {
-            this.handleSpecialBlockCollision(crate);
-            continue; // Skip to next crate - special crate was picked up
-          }
-
-          // Only try to push if character is moving towards the crate
-          // Only push if movement key is actively pressed AND moving towards crate
-          const isMovingTowardsCrate =
-            this.isMovementKeyPressed &&
-            ((pushDirection > 0 && charVelocity.x > 0) ||
-              (pushDirection < 0 && charVelocity.x < 0));
-
-          if (isMovingTowardsCrate) {
-            // Activate pushing animation when moving against crate
-            this.character.startPushing();
-
-            // Check if crate is already sliding or try to start pushing
-            const canPush = crate.isSliding() || this.tryPushCrate(crate, pushDirection);
-
-            if (canPush) {
-              // Move crate with character
-              const deltaX = charVelocity.x * deltaTime;
-              this.crateManager.moveSlidingCrate(crate, deltaX);
-              activelyPushedCrates.add(crate);
-
-              // Also track any stacked crates
-              const column = crate.getGridColumn();
-              let checkRow = crate.getGridRow() + 1;
-              while (checkRow < 15) {
-                const crateAbove = this.crateManager.getCrateAt(column, checkRow);
-                if (crateAbove && crateAbove.isSliding()) {
-                  this.crateManager.moveSlidingCrate(crateAbove, deltaX);
-                  activelyPushedCrates.add(crateAbove);
-                  checkRow++;
-                } else {
-                  break;
-                }
-              }
-            } else {
-              // Can't push - stop character at crate edge and mark as blocked
-              if (charCenterX < crateCenterX) {
-                this.character.x = crateBounds.x - charBounds.width / 2;
-              } else {
-                this.character.x = crateBounds.x + crateBounds.width + charBounds.width / 2;
-              }
-              this.character.setVelocity({ x: 0 });
-              horizontallyBlocked = true; // Prevent other crates from moving character
-            }
-          } else {
-            // Not moving towards crate - just stop and block
-            if (charCenterX < crateCenterX) {
-              this.character.x = crateBounds.x - charBounds.width / 2;
-            } else {
-              this.character.x = crateBounds.x + crateBounds.width + charBounds.width / 2;
-            }
-            horizontallyBlocked = true;
-          }
-        }
-      }
-    }
-
-    // Handle sliding crates that weren't actively pushed this frame
-    const slidingCrates = this.crateManager.getSlidingCrates();
-    for (const crate of slidingCrates) {
-      if (!activelyPushedCrates.has(crate)) {
-        // Start auto-slide if not already auto-sliding
-        if (!crate.isAutoSlidingToTarget()) {
-          crate.startAutoSlide();
-        }
-
-        // Check if auto-slide is complete
-        if (crate.hasReachedSlideTarget()) {
-          const oldX = crate.x;
-          const result = this.crateManager.completeAutoSlide(crate);
-
-          // Move character with crate
-          if (this.character) {
-            const deltaX = result.newX - oldX;
-            this.character.x += deltaX;
-          }
-        } else if (crate.isAutoSlidingToTarget() && this.character) {
-          // Crate is still auto-sliding - move character with it
-          // Character needs to maintain contact with crate
-          const charBounds = this.character.getCollisionBounds();
-          const crateBounds = crate.getCollisionBounds();
-          const direction = crate.getSlideDirection();
-
-          // Position character adjacent to crate
-          if (direction > 0) {
-            // Pushing right - character on left side
-            this.character.x = crateBounds.x - charBounds.width / 2;
-          } else {
-            // Pushing left - character on right side
-            this.character.x = crateBounds.x + crateBounds.width + charBounds.width / 2;
-          }
-        }
-      }
-    }
-  }
-
-  /**
-   * Try to push a crate in the given direction
-   * Returns true if push was successful
-   *
-   * Rule: Push from the LOWEST crate in the column that the character physically touches.
-   * "Physically touches" = has vertical overlap with character's collision bounds.
-   */
-  private tryPushCrate(crate: import('../entities/Crate').Crate, direction: number): boolean {
-    if (!this.character || !this.crateManager) {
-      return false;
-    }
-
-    // Don't allow push if crate just stopped (wait for match check)
-    if (!crate.canBePushed() && !crate.isFalling() && !crate.isSliding()) {
-      return false;
-    }
-
-    const pushStrength = this.character.getPushStrength();
-    const column = crate.getGridColumn();
-    const crateRow = crate.getGridRow();
-
-    // For falling crates, check if we can push them sideways
-    if (crate.isFalling()) {
-      return this.pushFallingCrate(crate, direction);
-    }
-
-    // Get character bounds for overlap checking
-    const charBounds = this.character.getCollisionBounds();
-
-    // Find the LOWEST crate in this column that the character physically touches
-    // This is where we start pushing from
-    let actualPushRow = crateRow;
-
-    for (let row = crateRow - 1; row >= 0; row--) {
-      const crateBelow = this.crateManager.getCrateAt(column, row);
-      if (!crateBelow) break; // No crate below - stop searching
-
-      // Check if character has vertical overlap with this crate
-      const crateBelowBounds = crateBelow.getCollisionBounds();
-      const hasVerticalOverlap =
-        charBounds.y < crateBelowBounds.y + crateBelowBounds.height &&
-        charBounds.y + charBounds.height > crateBelowBounds.y;
-
-      if (hasVerticalOverlap) {
-        actualPushRow = row; // Character touches this crate too - push from here
-      } else {
-        break; // Character doesn't touch this crate - stop searching
-      }
-    }
 
-    // Build the stack of crates to push (from actualPushRow upward)
-    const cratesToPush: import('../entities/Crate').Crate[] = [];
-    for (let row = actualPushRow; row < 15; row++) {
-      const crateAtRow = this.crateManager.getCrateAt(column, row);
-      if (crateAtRow) {
-        cratesToPush.push(crateAtRow);
-      } else {
-        break;
-      }
-    }
+    // Advance the gameplay rules by one fixed step
+    const levelWasComplete = this.simulation.isLevelComplete();
+    const wasOnGround = this.simulation.getCharacter()?.isOnGround() ?? false;
+    this.simulation.step(inputState, deltaTime);
 
-    // Check if stack is too heavy
-    if (cratesToPush.length > pushStrength) {
-      return false;
-    }
-
-    // Check if target column is free for all crates
-    const targetColumn = column + direction;
-    if (targetColumn < 0 || targetColumn >= DEFAULT_GRID_CONFIG.columns) {
-      return false;
-    }
-
-    // Check if there's space in target column for all crates
-    for (let i = 0; i < cratesToPush.length; i++) {
-      const targetRow = actualPushRow + i;
-      const existingCrate = this.crateManager.getCrateAt(targetColumn, targetRow);
-      if (existingCrate) {
-        return false; // Blocked
-      }
+    if (wasOnGround && this.simulation.getCharacter()?.getState() === CharacterState.Jumping) {
+      this.playSound(SoundEffect.Jump);
     }
 
-    // Push the crates
-    this.crateManager.pushCrates(cratesToPush, direction);
-    this.pendingLineCheck = true;
-
-    return true;
-  }
-
-  /**
-   * Push a falling crate sideways
-   */
-  private pushFallingCrate(crate: import('../entities/Crate').Crate, direction: number): boolean {
-    if (!this.crateManager) {
-      return false;
-    }
-
-    const currentColumn = crate.getGridColumn();
-    const targetColumn = currentColumn + direction;
-
-    // Check bounds
-    if (targetColumn < 0 || targetColumn >= DEFAULT_GRID_CONFIG.columns) {
-      return false;
-    }
-
-    // Check if there's a blocking crate in the target column at the same height or lower
-    const crateY = crate.y;
-    const crateSize = DEFAULT_GRID_CONFIG.cellWidth;
-
-    // Get the height of the stack in target column
-    const stackHeight = this.crateManager.getColumnHeight(targetColumn);
-    if (stackHeight > 0) {
-      const topOfStackY = this.crateManager.getRowTopY(stackHeight - 1);
-      // If the falling crate would collide with the stack, don't allow push
-      if (crateY >= topOfStackY - crateSize) {
-        return false;
-      }
-    }
-
-    // Check for other falling crates in the target column that would block
-    const fallingCrates = this.crateManager.getFallingCrates();
-    for (const other of fallingCrates) {
-      if (other === crate) continue;
-      if (other.getGridColumn() !== targetColumn) continue;
-
-      // Check if they would overlap horizontally after the push
-      const otherY = other.y;
-      if (Math.abs(crateY - otherY) < crateSize) {
-        return false;
-      }
-    }
-
-    // Move the falling crate to the new column
-    crate.setGridColumn(targetColumn);
-    const newX = this.crateManager.getColumnCenterX(targetColumn);
-    crate.setPosition(newX, crate.y);
-
-    return true;
-  }
-
-  /**
-   * Handle crate falling on character's head
-   * Returns true if player survived (helmet or extra life), false if game over
-   */
-  private handleCrateFallingOnHead(): boolean {
-    // Check for helmet protection first (single-use shield)
-    if (this.specialBlockManager?.consumeHelmet()) {
-      // Helmet saved us
-      return true;
-    }
-
-    // Check for extra lives
-    if (this.specialBlockManager?.consumeLife()) {
-      // Extra life saved us, update HUD
-      this.updateHUDLives();
-      return true;
-    }
-
-    // No protection left - game over
-    this.stateMachine.transition(GameState.GameOver);
-    return false;
-  }
-
-  /**
-   * Handle special block collision (activation when touched by falling block)
-   */
-  private handleSpecialBlockCollision(crate: import('../entities/Crate').Crate): void {
-    if (!this.character || !this.specialBlockManager || !this.crateManager) {
-      return;
-    }
-
-    // Activate the special block effect
-    const result = this.specialBlockManager.activateBlock(crate, this.character);
-
-    if (result?.activated) {
-      // Get pending score from special blocks
-      const pendingScore = this.specialBlockManager.getPendingScore();
-      if (pendingScore > 0) {
-        this.scoreManager.addSpecialBlockPoints();
-      }
-
-      // Remove the special block
-      this.crateManager.removeCrate(crate);
-    }
-  }
-
-  /**
-   * Update crane manager and spawn crates
-   */
-  private updateCranes(deltaTime: number): void {
-    if (!this.craneManager || !this.crateManager) {
-      return;
-    }
-
-    const drops = this.craneManager.update(deltaTime);
-
-    for (const drop of drops) {
-      if (drop.attachedCrate) {
-        // Use the crate that was attached to the crane (already has texture)
-        const crate = drop.attachedCrate;
-        const fallSpeed = this.levelManager.getCurrentFallSpeed();
-
-        // Update crate with correct fall speed and column
-        crate.setFallSpeed(fallSpeed);
-        crate.setGridColumn(drop.column);
+    // Draw the new state
+    this.syncViews();
 
-        // Position at drop point
-        crate.setPosition(drop.dropX, drop.dropY);
-
-        // Add to crate manager
-        this.crateManager.addExistingCrate(crate);
-
-        // Start falling
-        crate.startFalling();
-      }
-    }
-  }
+    // Update HUD lives, effects and chain banner
+    this.updateHUDLives();
+    this.updateHUDEffects();
+    this.updateHUDChain(deltaTime);
 
-  /**
-   * Update crate physics (optimized - animations handled by CrateManager)
-   */
-  private updateCrates(deltaTime: number): void {
-    if (!this.crateManager) {
-      return;
+    // Check for character unlocks based on score after special block pickups
+    const activations = this.simulation.getSpecialBlocksActivated();
+    if (activations !== this.checkedActivations) {
+      this.checkedActivations = activations;
+      this.unlockManager.checkAndUnlock({
+        level: this.levelManager.getCurrentLevel(),
+        score: this.scoreManager.getScore(),
+      });
     }
 
-    // Update crate manager (includes clearing animation and auto-removal)
-    this.crateManager.update(deltaTime);
-
-    // Check for bomb explosions
-    this.checkBombExplosions();
+    // Advance the replay duration to the simulation's tick index
+    this.replayRecorder.setTick(this.simulation.getTick());
 
-    // Check for line clears after crates land or after push
-    // Only check when no crates are sliding (wait for push to complete)
-    const slidingCrates = this.crateManager.getSlidingCrates();
-    const landedCrates = this.crateManager.getLandedCrates();
-
-    if (slidingCrates.length === 0 && (landedCrates.length > 0 || this.pendingLineCheck)) {
-      this.checkLineClears();
-      // Check for color matches (match-3 mechanics)
-      this.checkColorMatches();
-      this.pendingLineCheck = false;
-    }
-  }
-
-  /**
-   * Check for and process bomb explosions
-   */
-  private checkBombExplosions(): void {
-    if (!this.crateManager) {
+    if (this.simulation.isGameOver()) {
+      this.stateMachine.transition(GameState.GameOver);
       return;
     }
 
-    const result = this.crateManager.checkAndProcessBombs();
-
-    if (result.exploded) {
-      // Add points for explosion
-      this.scoreManager.addPoints(result.points);
-
-      // Check if character is in blast radius
-      if (this.character && result.clearedCrates.length > 0) {
-        this.checkCharacterInBlast(result.clearedCrates);
-      }
-
-      // Process gravity after explosion
-      this.crateManager.processGravity();
-
-      // Mark that we need to check for matches after gravity
-      this.pendingLineCheck = true;
-    }
-  }
-
-  /**
-   * Check if character is in the blast radius of exploded crates
-   */
-  private checkCharacterInBlast(explodedCrates: import('../entities/Crate').Crate[]): void {
-    if (!this.character || this.stateMachine.getState() === GameState.GameOver) {
-      return;
+    // Save between steps so a resumed run continues from a whole tick
+    const levelJustCompleted = !levelWasComplete && this.simulation.isLevelComplete();
+    if (levelJustCompleted || this.simulation.getTick() % AUTOSAVE_INTERVAL_TICKS === 0) {
+      this.autoSave();
     }
 
-    const charBounds = this.character.getCollisionBounds();
-    const blastRadius = DEFAULT_GRID_CONFIG.cellWidth; // 1 cell radius around each exploded crate
-
-    for (const crate of explodedCrates) {
-      const crateX = crate.x;
-      const crateY = crate.y;
-
-      // Calculate blast zone (3x3 cells around crate center)
-      const blastLeft = crateX - blastRadius - DEFAULT_GRID_CONFIG.cellWidth / 2;
-      const blastRight = crateX + blastRadius + DEFAULT_GRID_CONFIG.cellWidth / 2;
-      const blastTop = crateY - blastRadius - DEFAULT_GRID_CONFIG.cellHeight / 2;
-      const blastBottom = crateY + blastRadius + DEFAULT_GRID_CONFIG.cellHeight / 2;
-
-      // Check if character overlaps with blast zone
-      const charInBlast =
-        charBounds.x < blastRight &&
-        charBounds.x + charBounds.width > blastLeft &&
-        charBounds.y < blastBottom &&
-        charBounds.y + charBounds.height > blastTop;
-
-      if (charInBlast) {
-        // Character hit by explosion - try to survive
-        const survived = this.handleBombExplosionHit();
-        if (!survived) {
-          return; // Game over
-        }
-        // Only consume one life per explosion event
-        return;
-      }
+    // Freeze on the last recorded frame when playback runs out
+    if (this.replayPlayer?.isFinished()) {
+      this.pauseGame();
     }
   }
 
   /**
-   * Handle character hit by bomb explosion
-   * Returns true if survived, false if game over
-   * Note: Only extra lives protect from bomb explosions (helmet doesn't help)
+   * Get the input state for the current tick - recorded input during replay, live otherwise
    */
-  private handleBombExplosionHit(): boolean {
-    // Only extra lives protect from bomb explosions
-    if (this.specialBlockManager?.consumeLife()) {
-      this.updateHUDLives();
-      return true;
+  private getTickInputState(): InputState | null {
+    if (this.replayPlayer) {
+      const state = this.replayPlayer.getInputStateForTick(this.simulation.getTick());
+      // Pausing never affects the simulation, so recorded pauses are not replayed
+      state[InputAction.Pause] = false;
+      return state;
     }
 
-    // No extra lives - game over
-    this.stateMachine.transition(GameState.GameOver);
-    return false;
+    return this.inputManager ? this.inputManager.getInputState() : null;
   }
 
   /**
-   * Check for color matches (3/4/5 in a row)
+   * Set the level pack new runs are played with
    */
-  private checkColorMatches(): void {
-    if (!this.crateManager) {
-      return;
-    }
-
-    const result = this.crateManager.detectAndClearMatches();
-
-    if (result.matchesFound > 0) {
-      // Add points for matches
-      this.scoreManager.addPoints(result.points);
-
-      // Process gravity after clearing matches
-      this.crateManager.processGravity();
-
-      // Check for cascading matches (matches created by falling crates)
-      // This creates a chain reaction effect
-      this.pendingLineCheck = true;
-    }
+  setLevelPack(levelPack: LevelPack): void {
+    this.simulation.setLevelPack(levelPack);
   }
 
   /**
-   * Check line clears (optimized - no setTimeout, animation handled by Crate)
+   * Get the level pack runs are played with
    */
-  private checkLineClears(): void {
-    if (!this.crateManager) {
-      return;
-    }
-
-    const result = this.crateManager.clearCompleteRowsWithPoints();
-
-    if (result.linesCleared > 0) {
-      // Add score
-      this.scoreManager.addLineClearPoints(result.linesCleared);
-
-      // Update level progress
-      this.levelManager.addLinesCleared(result.linesCleared);
-
-      // Process gravity after clearing animation starts
-      // The crates will be removed automatically by CrateManager when animation completes
-      this.crateManager.processGravity();
-    }
+  getLevelPack(): LevelPack {
+    return this.levelManager.getLevelPack();
   }
 
   /**
-   * Check collisions between character and special blocks
+   * Get the game mode of the current run
    */
-  private checkCollisions(): void {
-    if (!this.character || !this.crateManager || !this.specialBlockManager) {
-      return;
-    }
-
-    const crates = this.crateManager.getAllCrates();
-    const result = this.specialBlockManager.checkAndActivateCollision(this.character, crates);
-
-    if (result?.activated) {
-      // Get pending score from special blocks
-      const pendingScore = this.specialBlockManager.getPendingScore();
-      if (pendingScore > 0) {
-        this.scoreManager.addSpecialBlockPoints();
-      }
-
-      // Check for character unlocks based on score
-      this.unlockManager.checkAndUnlock({
-        level: this.levelManager.getCurrentLevel(),
-        score: this.scoreManager.getScore(),
-      });
-    }
+  getGameMode(): GameMode {
+    return this.simulation.getMode();
   }
 
   /**
-   * Check game over condition
+   * Get the crate speed multiplier of the current level
    */
-  private checkGameOverCondition(): void {
-    if (!this.crateManager) {
-      return;
-    }
-
-    if (this.crateManager.hasReachedTop()) {
-      // Check for helmet protection first
-      if (this.specialBlockManager?.consumeHelmet()) {
-        // Helmet consumed, clear some crates from top
-        return;
-      }
-
-      // Check for extra lives
-      if (this.specialBlockManager?.consumeLife()) {
-        // Life consumed, update HUD and continue
-        this.updateHUDLives();
-        return;
-      }
-
-      // Game over - no lives remaining
-      this.stateMachine.transition(GameState.GameOver);
-    }
+  getCrateSpeedMultiplier(): number {
+    return this.levelManager.getCurrentCrateSpeedMultiplier();
   }
 
   /**
    * Advance to next level
    */
   advanceToNextLevel(): void {
-    if (this.levelManager.advanceToNextLevel()) {
+    if (this.simulation.advanceToNextLevel()) {
       this.updateHUDLevel();
       this.updateHUDLines();
-
-      // Update crane count and speed for new level
-      if (this.craneManager) {
-        this.craneManager.initializeCranes(this.levelManager.getCurrentCraneCount());
-        this.craneManager.setSpawnInterval(
-          2000 / this.levelManager.getCurrentCrateSpeedMultiplier()
-        );
-      }
     }
   }
 
@@ -1978,6 +1548,10 @@ export class GameScene extends Scene {
     if (this.livesText) {
       this.livesText.style.fill = colors.background;
     }
+    if (this.chainText) {
+      this.chainText.style.fill = colors.foreground;
+      this.chainText.style.stroke = { color: colors.background, width: 2 };
+    }
 
     // Recreate pause overlay with new colors
     const wasPauseVisible = this.isPauseVisible;
@@ -1992,29 +1566,14 @@ export class GameScene extends Scene {
     }
 
     // Update character sprite using animation system
-    if (this.character && this.assetLoader) {
-      const frame = this.character.getCurrentAnimationFrame();
-      const texture = this.assetLoader.getCharacterAnimationSprite(
-        frame,
-        this.lcdEffect.getCurrentPalette()
-      );
-      if (texture) {
-        this.character.texture = texture;
-      }
-    }
+    this.characterView?.sync(this.getCharacterTextureProvider());
 
     // Update crane textures to inverted version (closed and open hooks)
-    if (this.craneManager && this.assetLoader) {
-      const closedTexture = this.assetLoader.getInvertedCraneSprite(
-        this.lcdEffect.getCurrentPalette()
-      );
-      const openTexture = this.assetLoader.getInvertedCraneOpenSprite(
-        this.lcdEffect.getCurrentPalette()
-      );
-      if (closedTexture && openTexture) {
-        this.craneManager.setCraneTextures(closedTexture, openTexture);
-      }
-    }
+    this.applyCraneTextures();
+
+    // Update crate textures
+    this.crateManagerView?.refreshTextures();
+    this.craneManagerView?.refreshTextures();
   }
 
   /**
@@ -2038,6 +1597,34 @@ export class GameScene extends Scene {
     return this.levelManager.getCurrentLevel();
   }
 
+  /**
+   * Get the seed of the current run (for bug reports and shared challenges)
+   */
+  getSeed(): number {
+    return this.simulation.getSeed();
+  }
+
+  /**
+   * Get the replay of the current run, or of the last finished run
+   */
+  getReplay(): ReplayData | null {
+    return this.replayRecorder.getReplay() ?? this.lastReplay;
+  }
+
+  /**
+   * Check if a recorded run is being played back
+   */
+  isReplaying(): boolean {
+    return this.replayPlayer !== null;
+  }
+
+  /**
+   * Get the fixed-step tick index of the current run
+   */
+  getRunTick(): number {
+    return this.simulation.getTick();
+  }
+
   /**
    * Get unlocked character IDs
    */
@@ -2063,15 +1650,19 @@ export class GameScene extends Scene {
    * Reset the scene for reuse
    */
   reset(): void {
+    this.finishRecording();
+    this.replayPlayer = null;
     this.clearGameEntities();
-    this.scoreManager.reset();
-    this.levelManager.reset();
+    this.simulation.reset();
     this.unlockManager.reset();
     this.stateMachine.reset();
     this.isGameRunning = false;
     this.isPauseVisible = false;
-    this.pendingLineCheck = false;
     this.hidePauseOverlay();
+    this.chainDisplayTimeLeft = 0;
+    if (this.chainText) {
+      this.chainText.visible = false;
+    }
     this.updateHUD();
   }
 
@@ -5,16 +5,19 @@
 
 import { Graphics, Text, TextStyle } from 'pixi.js';
 import { Scene } from './Scene';
-import { SceneType } from '../types/game';
+import { SceneType, GameMode } from '../types/game';
 import type { LCDEffect } from '../systems/LCDEffect';
 import type { LevelConfig } from '../types/config';
-import { getLevelConfig, hasNextLevel } from '../config/levels';
+import { resolveLevelConfig, hasNextLevel, DEFAULT_LEVEL_PACK } from '../config/levels';
+import type { LevelPack } from '../config/levelPack';
 
 export interface LevelTransitionData {
   completedLevel: number;
   currentScore: number;
   bonusPoints: number;
   nextLevelConfig?: LevelConfig;
+  mode?: GameMode;
+  levelPack?: LevelPack;
 }
 
 export class LevelTransitionScene extends Scene {
@@ -50,9 +53,14 @@ export class LevelTransitionScene extends Scene {
   /**
    * Set level info (convenience method)
    */
-  setLevelInfo(level: number, score: number): void {
+  setLevelInfo(
+    level: number,
+    score: number,
+    mode: GameMode = GameMode.Classic,
+    levelPack: LevelPack = DEFAULT_LEVEL_PACK
+  ): void {
     const nextLevel = level + 1;
-    const nextLevelConfig = getLevelConfig(nextLevel);
+    const nextLevelConfig = resolveLevelConfig(nextLevel, mode, levelPack);
     const bonusPoints = level * 500;
 
     this.transitionData = {
@@ -60,6 +68,8 @@ export class LevelTransitionScene extends Scene {
       currentScore: score,
       bonusPoints: bonusPoints,
       nextLevelConfig: nextLevelConfig,
+      mode,
+      levelPack,
     };
     this.updateDisplay();
   }
@@ -221,7 +231,8 @@ export class LevelTransitionScene extends Scene {
 
     // Update button text based on whether there's a next level
     if (this.continueButtonText) {
-      if (hasNextLevel(this.transitionData.completedLevel)) {
+      const { completedLevel, mode, levelPack } = this.transitionData;
+      if (hasNextLevel(completedLevel, mode, levelPack)) {
         this.continueButtonText.text = 'CONTINUE';
       } else {
         this.continueButtonText.text = 'FINISH';
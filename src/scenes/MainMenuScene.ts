@@ -1,16 +1,43 @@
 /**
  * Main Menu Scene
- * Displays game title and four menu options: Play Game, High Scores, Character Select, Settings
+ * Displays game title, the active profile and menu options: Continue (when a saved run
+ * exists), Play Game, Characters, High Scores, Settings
  * Applies LCD aesthetic with current color palette
  */
 
 import { Graphics, Text, TextStyle, Container } from 'pixi.js';
 import { Scene } from './Scene';
-import { SceneType } from '../types/game';
+import { SceneType, GameMode } from '../types/game';
 import type { LCDEffect } from '../systems/LCDEffect';
 import { GameStorage } from '../systems/GameStorage';
 
-export type MainMenuAction = 'playGame' | 'highScores' | 'settings';
+export type MainMenuAction =
+  | 'continue'
+  | 'playGame'
+  | 'characters'
+  | 'highScores'
+  | 'settings'
+  | 'profiles';
+
+/**
+ * Level select options: classic runs from a start level, or endless mode
+ */
+const LEVEL_SELECT_OPTIONS: { text: string; startLevel: number; mode: GameMode }[] = [
+  { text: 'LEVEL 1', startLevel: 1, mode: GameMode.Classic },
+  { text: 'LEVEL 3', startLevel: 3, mode: GameMode.Classic },
+  { text: 'LEVEL 5', startLevel: 5, mode: GameMode.Classic },
+  { text: 'ENDLESS', startLevel: 1, mode: GameMode.Endless },
+];
+
+/**
+ * Level select modal size
+ */
+const LEVEL_SELECT_BOX = { width: 180, height: 210 };
+
+/**
+ * High scores modal size
+ */
+const HIGH_SCORES_BOX = { width: 200, height: 236 };
 
 export class MainMenuScene extends Scene {
   private lcdEffect: LCDEffect;
@@ -20,11 +47,15 @@ export class MainMenuScene extends Scene {
   private titleText: Text | null = null;
   private subtitleText: Text | null = null;
   private studioText: Text | null = null;
+  private profileText: Text | null = null;
+  private buttonLayer: Container | null = null;
   private buttons: ButtonContainer[] = [];
+  private buttonActions: MainMenuAction[] = [];
   private selectedIndex: number = 0;
 
   // High scores modal
   private highScoresModal: Container | null = null;
+  private highScoresMode: GameMode = GameMode.Classic;
   private isModalVisible: boolean = false;
 
   // Level select modal
@@ -34,7 +65,7 @@ export class MainMenuScene extends Scene {
 
   // Callbacks
   private onAction: ((action: MainMenuAction) => void) | null = null;
-  private onStartGame: ((startLevel: number) => void) | null = null;
+  private onStartGame: ((startLevel: number, mode: GameMode) => void) | null = null;
 
   constructor(lcdEffect: LCDEffect) {
     super(SceneType.MainMenu);
@@ -49,9 +80,9 @@ export class MainMenuScene extends Scene {
   }
 
   /**
-   * Set the callback for starting a game with a specific level
+   * Set the callback for starting a game with a specific level and game mode
    */
-  setOnStartGame(callback: (startLevel: number) => void): void {
+  setOnStartGame(callback: (startLevel: number, mode: GameMode) => void): void {
     this.onStartGame = callback;
   }
 
@@ -117,35 +148,79 @@ export class MainMenuScene extends Scene {
     this.studioText.alpha = 0.6;
     this.container.addChild(this.studioText);
 
+    // Active profile (click or Escape to switch)
+    this.profileText = new Text({
+      text: '',
+      style: new TextStyle({
+        fontFamily: 'monospace',
+        fontSize: 9,
+        fill: colors.foreground,
+        align: 'center',
+      }),
+    });
+    this.profileText.anchor.set(0.5);
+    this.profileText.position.set(120, 112);
+    this.profileText.eventMode = 'static';
+    this.profileText.cursor = 'pointer';
+    this.profileText.on('pointerdown', () => this.handleAction('profiles'));
+    this.container.addChild(this.profileText);
+
     // Create menu buttons
+    this.buttonLayer = new Container();
+    this.container.addChild(this.buttonLayer);
+    this.createMenuButtons(colors);
+
+    // Create high scores modal (hidden by default)
+    this.highScoresModal = this.createHighScoresModal(colors);
+    this.highScoresModal.visible = false;
+    this.container.addChild(this.highScoresModal);
+
+    // Create level select modal (hidden by default)
+    this.levelSelectModal = this.createLevelSelectModal(colors);
+    this.levelSelectModal.visible = false;
+    this.container.addChild(this.levelSelectModal);
+
+    this.updateButtonHighlight();
+  }
+
+  /**
+   * Create the menu buttons (Continue is only offered when a saved run exists)
+   */
+  private createMenuButtons(colors: {
+    foreground: number;
+    background: number;
+    accent: number;
+  }): void {
+    const buttonLayer = this.buttonLayer;
+    if (!buttonLayer) return;
+
+    this.buttons.forEach((button) => {
+      button.destroy({ children: true });
+    });
+    this.buttons = [];
+
     const buttonLabels: { text: string; action: MainMenuAction }[] = [
       { text: 'PLAY GAME', action: 'playGame' },
+      { text: 'CHARACTERS', action: 'characters' },
       { text: 'HIGH SCORES', action: 'highScores' },
       { text: 'SETTINGS', action: 'settings' },
     ];
+    if (GameStorage.hasSavedGame()) {
+      buttonLabels.unshift({ text: 'CONTINUE', action: 'continue' });
+    }
+    this.buttonActions = buttonLabels.map((btn) => btn.action);
 
     const startY = 140;
-    const buttonSpacing = 40;
+    // Tighter spacing when CONTINUE adds a fifth button
+    const buttonSpacing = buttonLabels.length > 4 ? 36 : 40;
 
     buttonLabels.forEach((btn, index) => {
       const button = this.createButton(btn.text, 120, startY + index * buttonSpacing, colors, () =>
         this.handleAction(btn.action)
       );
-      this.container.addChild(button);
+      buttonLayer.addChild(button);
       this.buttons.push(button);
     });
-
-    // Create high scores modal (hidden by default)
-    this.highScoresModal = this.createHighScoresModal(colors);
-    this.highScoresModal.visible = false;
-    this.container.addChild(this.highScoresModal);
-
-    // Create level select modal (hidden by default)
-    this.levelSelectModal = this.createLevelSelectModal(colors);
-    this.levelSelectModal.visible = false;
-    this.container.addChild(this.levelSelectModal);
-
-    this.updateButtonHighlight();
   }
 
   /**
@@ -224,8 +299,8 @@ export class MainMenuScene extends Scene {
 
     // Modal box - larger to fit scores
     const modalBox = new Graphics();
-    const boxWidth = 200;
-    const boxHeight = 220;
+    const boxWidth = HIGH_SCORES_BOX.width;
+    const boxHeight = HIGH_SCORES_BOX.height;
     const boxX = (240 - boxWidth) / 2;
     const boxY = (320 - boxHeight) / 2;
 
@@ -249,9 +324,26 @@ export class MainMenuScene extends Scene {
     title.position.set(120, boxY + 20);
     modal.addChild(title);
 
+    // Game mode toggle (each mode has its own table)
+    const modeText = new Text({
+      text: '',
+      style: new TextStyle({
+        fontFamily: 'monospace',
+        fontSize: 10,
+        fill: colors.foreground,
+        align: 'center',
+      }),
+    });
+    modeText.anchor.set(0.5);
+    modeText.position.set(120, boxY + 36);
+    modeText.eventMode = 'static';
+    modeText.cursor = 'pointer';
+    modeText.on('pointerdown', () => this.toggleHighScoresMode());
+    modal.addChild(modeText);
+
     // Scores list container
     const scoresContainer = new Container();
-    scoresContainer.position.set(boxX + 10, boxY + 40);
+    scoresContainer.position.set(boxX + 10, boxY + 50);
     modal.addChild(scoresContainer);
 
     // Back button
@@ -284,6 +376,7 @@ export class MainMenuScene extends Scene {
     // Store references for palette updates
     (modal as HighScoresModal).modalBox = modalBox;
     (modal as HighScoresModal).titleText = title;
+    (modal as HighScoresModal).modeText = modeText;
     (modal as HighScoresModal).scoresContainer = scoresContainer;
     (modal as HighScoresModal).backButton = backButton;
     (modal as HighScoresModal).backBg = backBg;
@@ -304,10 +397,16 @@ export class MainMenuScene extends Scene {
 
     const colors = this.lcdEffect.getPaletteColors();
 
+    if (modal.modeText) {
+      const modeName = this.highScoresMode === GameMode.Endless ? 'ENDLESS' : 'CLASSIC';
+      modal.modeText.text = `< ${modeName} >`;
+      modal.modeText.style.fill = colors.foreground;
+    }
+
     // Clear existing scores
     container.removeChildren();
 
-    const highScores = GameStorage.getHighScores();
+    const highScores = GameStorage.getHighScores(this.highScoresMode);
 
     if (highScores.length === 0) {
       // Show "No scores yet" message
@@ -361,6 +460,15 @@ export class MainMenuScene extends Scene {
     }
   }
 
+  /**
+   * Switch the high scores modal between the classic and endless tables
+   */
+  private toggleHighScoresMode(): void {
+    this.highScoresMode =
+      this.highScoresMode === GameMode.Classic ? GameMode.Endless : GameMode.Classic;
+    this.updateHighScoresDisplay();
+  }
+
   /**
    * Create the level select modal
    */
@@ -380,8 +488,8 @@ export class MainMenuScene extends Scene {
 
     // Modal box
     const modalBox = new Graphics();
-    const boxWidth = 180;
-    const boxHeight = 180;
+    const boxWidth = LEVEL_SELECT_BOX.width;
+    const boxHeight = LEVEL_SELECT_BOX.height;
     const boxX = (240 - boxWidth) / 2;
     const boxY = (320 - boxHeight) / 2;
 
@@ -406,19 +514,18 @@ export class MainMenuScene extends Scene {
     modal.addChild(title);
 
     // Level buttons
-    const levels = [1, 3, 5];
     const buttonStartY = boxY + 55;
-    const buttonSpacing = 35;
+    const buttonSpacing = 32;
 
     this.levelButtons = [];
 
-    levels.forEach((level, index) => {
+    LEVEL_SELECT_OPTIONS.forEach((option, index) => {
       const button = this.createLevelButton(
-        `LEVEL ${level}`,
+        option.text,
         120,
         buttonStartY + index * buttonSpacing,
         colors,
-        () => this.startGameWithLevel(level)
+        () => this.startGameWithLevel(option.startLevel, option.mode)
       );
       modal.addChild(button);
       this.levelButtons.push(button);
@@ -426,7 +533,7 @@ export class MainMenuScene extends Scene {
 
     // Back button
     const backButton = new Container();
-    backButton.position.set(120, boxY + 160);
+    backButton.position.set(120, boxY + boxHeight - 20);
 
     const backBg = new Graphics();
     backBg.rect(-40, -10, 80, 20);
@@ -560,12 +667,12 @@ export class MainMenuScene extends Scene {
   }
 
   /**
-   * Start game with selected level
+   * Start game with selected level and game mode
    */
-  private startGameWithLevel(level: number): void {
+  private startGameWithLevel(level: number, mode: GameMode): void {
     this.hideLevelSelectModal();
     if (this.onStartGame) {
-      this.onStartGame(level);
+      this.onStartGame(level, mode);
     }
   }
 
@@ -574,6 +681,7 @@ export class MainMenuScene extends Scene {
    */
   private showHighScoresModal(): void {
     if (this.highScoresModal) {
+      this.highScoresMode = GameMode.Classic;
       this.updateHighScoresDisplay();
       this.highScoresModal.visible = true;
       this.isModalVisible = true;
@@ -662,8 +770,8 @@ export class MainMenuScene extends Scene {
         case 'Enter':
         case ' ': {
           event.preventDefault();
-          const levels = [1, 3, 5];
-          this.startGameWithLevel(levels[this.selectedLevelIndex]);
+          const option = LEVEL_SELECT_OPTIONS[this.selectedLevelIndex];
+          this.startGameWithLevel(option.startLevel, option.mode);
           break;
         }
       }
@@ -675,6 +783,9 @@ export class MainMenuScene extends Scene {
       if (event.key === 'Escape' || event.key === 'Enter' || event.key === ' ') {
         event.preventDefault();
         this.hideHighScoresModal();
+      } else if (event.key === 'ArrowLeft' || event.key === 'ArrowRight') {
+        event.preventDefault();
+        this.toggleHighScoresMode();
       }
       return;
     }
@@ -695,6 +806,10 @@ export class MainMenuScene extends Scene {
         event.preventDefault();
         this.activateSelectedButton();
         break;
+      case 'Escape':
+        event.preventDefault();
+        this.handleAction('profiles');
+        break;
     }
   };
 
@@ -702,8 +817,7 @@ export class MainMenuScene extends Scene {
    * Activate the currently selected button
    */
   private activateSelectedButton(): void {
-    const actions: MainMenuAction[] = ['playGame', 'highScores', 'settings'];
-    this.handleAction(actions[this.selectedIndex]);
+    this.handleAction(this.buttonActions[this.selectedIndex]);
   }
 
   /**
@@ -711,6 +825,14 @@ export class MainMenuScene extends Scene {
    */
   override onEnter(): void {
     super.onEnter();
+
+    // A run may have been saved or finished since the menu was last shown
+    this.createMenuButtons(this.lcdEffect.getPaletteColors());
+
+    if (this.profileText) {
+      this.profileText.text = `PLAYER: ${GameStorage.getActiveProfile().name}`;
+    }
+
     this.selectedIndex = 0;
     this.isModalVisible = false;
     if (this.highScoresModal) {
@@ -751,6 +873,10 @@ export class MainMenuScene extends Scene {
       this.subtitleText.style.fill = colors.foreground;
     }
 
+    if (this.profileText) {
+      this.profileText.style.fill = colors.foreground;
+    }
+
     if (this.studioText) {
       this.studioText.style.fill = colors.foreground;
     }
@@ -774,8 +900,8 @@ export class MainMenuScene extends Scene {
 
     if (modal.modalBox) {
       modal.modalBox.clear();
-      const boxWidth = 180;
-      const boxHeight = 180;
+      const boxWidth = LEVEL_SELECT_BOX.width;
+      const boxHeight = LEVEL_SELECT_BOX.height;
       const boxX = (240 - boxWidth) / 2;
       const boxY = (320 - boxHeight) / 2;
       modal.modalBox.rect(boxX, boxY, boxWidth, boxHeight);
@@ -816,8 +942,8 @@ export class MainMenuScene extends Scene {
 
     if (modal.modalBox) {
       modal.modalBox.clear();
-      const boxWidth = 200;
-      const boxHeight = 220;
+      const boxWidth = HIGH_SCORES_BOX.width;
+      const boxHeight = HIGH_SCORES_BOX.height;
       const boxX = (240 - boxWidth) / 2;
       const boxY = (320 - boxHeight) / 2;
       modal.modalBox.rect(boxX, boxY, boxWidth, boxHeight);
@@ -881,6 +1007,11 @@ export class MainMenuScene extends Scene {
       this.subtitleText = null;
     }
 
+    if (this.profileText) {
+      this.profileText.destroy();
+      this.profileText = null;
+    }
+
     this.buttons.forEach((button) => {
       button.destroy({ children: true });
     });
@@ -918,6 +1049,7 @@ interface ButtonContainer extends Container {
 interface HighScoresModal extends Container {
   modalBox?: Graphics;
   titleText?: Text;
+  modeText?: Text;
   scoresContainer?: Container;
   backButton?: Container;
   backBg?: Graphics;
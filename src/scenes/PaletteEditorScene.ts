@@ -0,0 +1,637 @@
+/**
+ * Palette Editor Scene
+ * Opened from Settings on a custom palette: red, green and blue sliders for each
+ * of its colors with a live preview, and a button to delete it. Edits are only
+ * previewed while a slider moves and saved when the drag ends or the editor closes.
+ */
+
+import { Graphics, Text, TextStyle, Container } from 'pixi.js';
+import type { FederatedPointerEvent } from 'pixi.js';
+import { Scene } from './Scene';
+import { SceneType } from '../types/game';
+import type { LCDEffect } from '../systems/LCDEffect';
+import { PALETTE_COLOR_KEYS, isCustomPalette, samePaletteColors } from '../config/palettes';
+import type { PaletteColors, PaletteDefinition } from '../config/palettes';
+import { PalettePreview } from '../views/PalettePreview';
+
+// Color channel sliders (track offset and width) and keyboard step
+const CHANNEL_TRACK_X = 10;
+const CHANNEL_TRACK_WIDTH = 46;
+const CHANNEL_STEP = 17; // 15 steps from 0 to 255
+
+// Color channels: label and bit shift in 0xRRGGBB
+const COLOR_CHANNELS: [string, number][] = [
+  ['R', 16],
+  ['G', 8],
+  ['B', 0],
+];
+
+// Names of the editable palette colors
+const PALETTE_COLOR_LABELS: Record<keyof PaletteColors, string> = {
+  background: 'BACKGROUND',
+  foreground: 'FOREGROUND',
+  accent: 'ACCENT',
+  glow: 'GLOW',
+};
+
+// Option indices (0-11 are the color channels, three per color)
+const DELETE_OPTION = 12;
+const DONE_OPTION = 13;
+
+export class PaletteEditorScene extends Scene {
+  private lcdEffect: LCDEffect;
+
+  // UI elements
+  private background: Graphics | null = null;
+  private titleText: Text | null = null;
+  private paletteNameText: Text | null = null;
+  private preview: PalettePreview | null = null;
+  private colorRows: ColorRow[] = [];
+  private channelSliders: ChannelSlider[] = [];
+  private deleteButton: ButtonContainer | null = null;
+  private doneButton: ButtonContainer | null = null;
+
+  // 0-11 = red/green/blue of each color, 12 = delete, 13 = done
+  private selectedOptionIndex: number = 0;
+
+  // Slider being dragged with the pointer
+  private draggedChannel: ChannelSlider | null = null;
+
+  // Callbacks
+  private onBack: (() => void) | null = null;
+  private onCustomPalettesChange: ((palettes: PaletteDefinition[]) => void) | null = null;
+  private onPaletteDeleted: ((name: string) => void) | null = null;
+
+  constructor(lcdEffect: LCDEffect) {
+    super(SceneType.PaletteEditor);
+    this.lcdEffect = lcdEffect;
+  }
+
+  /**
+   * Set the callback for when done is pressed
+   */
+  setOnBack(callback: () => void): void {
+    this.onBack = callback;
+  }
+
+  /**
+   * Set the callback for when the custom palettes are edited or one is deleted
+   */
+  setOnCustomPalettesChange(callback: (palettes: PaletteDefinition[]) => void): void {
+    this.onCustomPalettesChange = callback;
+  }
+
+  /**
+   * Set the callback for when the edited palette is deleted
+   */
+  setOnPaletteDeleted(callback: (name: string) => void): void {
+    this.onPaletteDeleted = callback;
+  }
+
+  /**
+   * Create the scene content
+   */
+  protected async onCreate(): Promise<void> {
+    const colors = this.lcdEffect.getPaletteColors();
+
+    // Create background
+    this.background = new Graphics();
+    this.background.rect(0, 0, 240, 320);
+    this.background.fill({ color: colors.background });
+    this.container.addChild(this.background);
+
+    this.titleText = new Text({
+      text: 'EDIT PALETTE',
+      style: new TextStyle({
+        fontFamily: 'monospace',
+        fontSize: 18,
+        fill: colors.foreground,
+        align: 'center',
+        fontWeight: 'bold',
+      }),
+    });
+    this.titleText.anchor.set(0.5);
+    this.titleText.position.set(120, 22);
+    this.container.addChild(this.titleText);
+
+    this.paletteNameText = new Text({
+      text: '',
+      style: new TextStyle({
+        fontFamily: 'monospace',
+        fontSize: 10,
+        fill: colors.foreground,
+        align: 'center',
+      }),
+    });
+    this.paletteNameText.anchor.set(0.5);
+    this.paletteNameText.position.set(120, 40);
+    this.container.addChild(this.paletteNameText);
+
+    this.preview = new PalettePreview(colors);
+    this.preview.position.set(120, 86);
+    this.container.addChild(this.preview);
+
+    PALETTE_COLOR_KEYS.forEach((key, colorIndex) => {
+      const y = 134 + colorIndex * 36;
+      const row = this.createColorRow(key, y, colors);
+      this.container.addChild(row);
+      this.colorRows.push(row);
+
+      COLOR_CHANNELS.forEach(([label, shift], channelIndex) => {
+        const slider = this.createChannelSlider(
+          label,
+          key,
+          shift,
+          28 + channelIndex * 64,
+          y + 16,
+          colorIndex * COLOR_CHANNELS.length + channelIndex,
+          colors
+        );
+        this.container.addChild(slider);
+        this.channelSliders.push(slider);
+      });
+    });
+
+    this.deleteButton = this.createButton('DELETE', 70, 294, 90, DELETE_OPTION, colors, () =>
+      this.deletePalette()
+    );
+    this.container.addChild(this.deleteButton);
+
+    this.doneButton = this.createButton('DONE', 170, 294, 90, DONE_OPTION, colors, () =>
+      this.onBack?.()
+    );
+    this.container.addChild(this.doneButton);
+
+    this.updateSelectionHighlight();
+  }
+
+  /**
+   * Create a row naming a palette color, with a swatch and its hex value
+   */
+  private createColorRow(
+    key: keyof PaletteColors,
+    y: number,
+    colors: { foreground: number }
+  ): ColorRow {
+    const row = new Container() as ColorRow;
+    row.position.set(0, y);
+
+    const textStyle = {
+      fontFamily: 'monospace',
+      fontSize: 10,
+      fill: colors.foreground,
+    };
+
+    const labelText = new Text({
+      text: PALETTE_COLOR_LABELS[key],
+      style: new TextStyle(textStyle),
+    });
+    labelText.anchor.set(0, 0.5);
+    labelText.position.set(28, 0);
+    row.addChild(labelText);
+
+    const swatch = new Graphics();
+    row.addChild(swatch);
+
+    const hexText = new Text({ text: '', style: new TextStyle(textStyle) });
+    hexText.anchor.set(1, 0.5);
+    hexText.position.set(212, 0);
+    row.addChild(hexText);
+
+    row.labelElement = labelText;
+    row.swatch = swatch;
+    row.hexElement = hexText;
+    row.colorKey = key;
+
+    return row;
+  }
+
+  /**
+   * Create a slider for one channel of a palette color (drag or click the track to set it)
+   */
+  private createChannelSlider(
+    label: string,
+    key: keyof PaletteColors,
+    shift: number,
+    x: number,
+    y: number,
+    optionIndex: number,
+    colors: { foreground: number }
+  ): ChannelSlider {
+    const slider = new Container() as ChannelSlider;
+    slider.position.set(x, y);
+
+    const labelText = new Text({
+      text: label,
+      style: new TextStyle({ fontFamily: 'monospace', fontSize: 10, fill: colors.foreground }),
+    });
+    labelText.anchor.set(0, 0.5);
+    slider.addChild(labelText);
+
+    const track = new Graphics();
+    slider.addChild(track);
+
+    // Make interactive
+    slider.eventMode = 'static';
+    slider.cursor = 'pointer';
+    slider.hitArea = {
+      contains: (px: number, py: number) =>
+        px >= -4 && px <= CHANNEL_TRACK_X + CHANNEL_TRACK_WIDTH + 4 && py >= -8 && py <= 8,
+    };
+    slider.on('pointerdown', (event: FederatedPointerEvent) => {
+      this.selectedOptionIndex = optionIndex;
+      this.draggedChannel = slider;
+      this.setChannelFromPointer(slider, event);
+    });
+    slider.on('pointermove', (event: FederatedPointerEvent) => {
+      if (this.draggedChannel === slider) {
+        this.setChannelFromPointer(slider, event);
+      }
+    });
+    const endDrag = () => {
+      if (this.draggedChannel === slider) {
+        this.draggedChannel = null;
+        this.applyPaletteEdit();
+      }
+    };
+    slider.on('pointerup', endDrag);
+    slider.on('pointerupoutside', endDrag);
+    slider.on('pointerover', () => {
+      this.selectedOptionIndex = optionIndex;
+      this.updateSelectionHighlight();
+    });
+
+    slider.track = track;
+    slider.labelElement = labelText;
+    slider.optionIndex = optionIndex;
+    slider.colorKey = key;
+    slider.shift = shift;
+
+    return slider;
+  }
+
+  /**
+   * Create a button that is selected as the given option index
+   */
+  private createButton(
+    text: string,
+    x: number,
+    y: number,
+    buttonWidth: number,
+    optionIndex: number,
+    colors: { foreground: number; background: number },
+    onClick: () => void
+  ): ButtonContainer {
+    const buttonContainer = new Container() as ButtonContainer;
+    buttonContainer.position.set(x, y);
+
+    const buttonHeight = 24;
+
+    // Button background
+    const bg = new Graphics();
+    bg.rect(-buttonWidth / 2, -buttonHeight / 2, buttonWidth, buttonHeight);
+    bg.fill({ color: colors.background });
+    bg.stroke({ color: colors.foreground, width: 2 });
+    buttonContainer.addChild(bg);
+
+    // Button text
+    const buttonText = new Text({
+      text,
+      style: new TextStyle({
+        fontFamily: 'monospace',
+        fontSize: 11,
+        fill: colors.foreground,
+        align: 'center',
+      }),
+    });
+    buttonText.anchor.set(0.5);
+    buttonContainer.addChild(buttonText);
+
+    // Make interactive
+    buttonContainer.eventMode = 'static';
+    buttonContainer.cursor = 'pointer';
+    buttonContainer.on('pointerdown', onClick);
+    buttonContainer.on('pointerover', () => {
+      this.selectedOptionIndex = optionIndex;
+      this.updateSelectionHighlight();
+    });
+
+    buttonContainer.background = bg;
+    buttonContainer.textElement = buttonText;
+    buttonContainer.optionIndex = optionIndex;
+    buttonContainer.buttonWidth = buttonWidth;
+
+    return buttonContainer;
+  }
+
+  /**
+   * Set a color channel from where the pointer is on its track
+   */
+  private setChannelFromPointer(slider: ChannelSlider, event: FederatedPointerEvent): void {
+    const x = event.getLocalPosition(slider).x;
+    this.setChannel(slider, ((x - CHANNEL_TRACK_X) / CHANNEL_TRACK_WIDTH) * 255);
+  }
+
+  /**
+   * Set a channel of the edited palette (snapped to the slider steps)
+   * The new colors are only previewed until applyPaletteEdit() - a drag would
+   * otherwise regenerate every sprite and save on each step
+   */
+  private setChannel(slider: ChannelSlider, value: number): void {
+    const key = slider.colorKey!;
+    const shift = slider.shift!;
+    const snapped = Math.min(
+      Math.round(Math.min(Math.max(value, 0), 255) / CHANNEL_STEP) * CHANNEL_STEP,
+      255
+    );
+    const colors = this.lcdEffect.getPaletteColors();
+    const newColor = (colors[key] & ~(0xff << shift)) | (snapped << shift);
+
+    if (newColor !== colors[key]) {
+      this.lcdEffect.previewPaletteColors({ ...colors, [key]: newColor });
+      this.updatePalette();
+    }
+    this.updateSelectionHighlight();
+  }
+
+  /**
+   * Step a color channel up or down with the keyboard
+   */
+  private stepChannel(slider: ChannelSlider, direction: 1 | -1): void {
+    const value = (this.lcdEffect.getPaletteColors()[slider.colorKey!] >> slider.shift!) & 0xff;
+    this.setChannel(slider, value + direction * CHANNEL_STEP);
+  }
+
+  /**
+   * Get the player's custom palettes
+   */
+  private getCustomPalettes(): PaletteDefinition[] {
+    return this.lcdEffect.getPalettes().filter((palette) => isCustomPalette(palette.id));
+  }
+
+  /**
+   * Apply new custom palettes and report them (for saving)
+   */
+  private saveCustomPalettes(palettes: PaletteDefinition[]): void {
+    this.lcdEffect.setCustomPalettes(palettes);
+    this.onCustomPalettesChange?.(palettes);
+  }
+
+  /**
+   * Save the previewed colors into the edited palette (regenerates its sprites)
+   */
+  private applyPaletteEdit(): void {
+    const palette = this.lcdEffect.getCurrentPalette();
+    const colors = this.lcdEffect.getPaletteColors();
+    const customPalettes = this.getCustomPalettes();
+    const edited = customPalettes.find((custom) => custom.id === palette);
+
+    if (edited && !samePaletteColors(edited.colors, colors)) {
+      this.saveCustomPalettes(
+        customPalettes.map((custom) => (custom === edited ? { ...custom, colors } : custom))
+      );
+    }
+  }
+
+  /**
+   * Delete the edited palette (switches back to Blue)
+   */
+  private deletePalette(): void {
+    const palette = this.lcdEffect.getCurrentPalette();
+    const name = this.lcdEffect.getPaletteName(palette);
+    this.saveCustomPalettes(this.getCustomPalettes().filter((custom) => custom.id !== palette));
+    this.onPaletteDeleted?.(name);
+  }
+
+  /**
+   * Redraw the color rows and channel sliders from the current palette
+   */
+  private updateColorRows(): void {
+    const colors = this.lcdEffect.getPaletteColors();
+
+    for (const row of this.colorRows) {
+      const color = colors[row.colorKey!];
+      if (row.labelElement) {
+        row.labelElement.style.fill = colors.foreground;
+      }
+      if (row.swatch) {
+        row.swatch.clear();
+        row.swatch.rect(150, -6, 16, 12);
+        row.swatch.fill({ color });
+        row.swatch.stroke({ color: colors.foreground, width: 1 });
+      }
+      if (row.hexElement) {
+        row.hexElement.text = `#${color.toString(16).padStart(6, '0').toUpperCase()}`;
+        row.hexElement.style.fill = colors.foreground;
+      }
+    }
+
+    for (const slider of this.channelSliders) {
+      const value = ((colors[slider.colorKey!] >> slider.shift!) & 0xff) / 255;
+      const isSelected = this.selectedOptionIndex === slider.optionIndex;
+      const handleX = CHANNEL_TRACK_X + CHANNEL_TRACK_WIDTH * value;
+
+      if (slider.track) {
+        slider.track.clear();
+        slider.track.rect(CHANNEL_TRACK_X, -3, CHANNEL_TRACK_WIDTH, 6);
+        slider.track.fill({ color: colors.background });
+        slider.track.stroke({
+          color: isSelected ? colors.accent : colors.foreground,
+          width: isSelected ? 2 : 1,
+        });
+        slider.track.rect(CHANNEL_TRACK_X, -3, CHANNEL_TRACK_WIDTH * value, 6);
+        slider.track.fill({ color: colors.foreground });
+        slider.track.rect(handleX - 2, -6, 4, 12);
+        slider.track.fill({ color: isSelected ? colors.accent : colors.foreground });
+      }
+      if (slider.labelElement) {
+        slider.labelElement.style.fill = isSelected ? colors.accent : colors.foreground;
+      }
+    }
+  }
+
+  /**
+   * Update selection highlight for keyboard navigation
+   */
+  private updateSelectionHighlight(): void {
+    const colors = this.lcdEffect.getPaletteColors();
+
+    this.updateColorRows();
+
+    for (const button of [this.deleteButton, this.doneButton]) {
+      if (!button || !button.background) continue;
+
+      const isSelected = this.selectedOptionIndex === button.optionIndex;
+      const width = button.buttonWidth ?? 100;
+      button.background.clear();
+      button.background.rect(-width / 2, -12, width, 24);
+      button.background.fill({ color: isSelected ? colors.accent : colors.background });
+      button.background.stroke({ color: colors.foreground, width: 2 });
+
+      if (button.textElement) {
+        button.textElement.style.fill = isSelected ? colors.background : colors.foreground;
+      }
+    }
+  }
+
+  /**
+   * Handle keyboard navigation
+   */
+  private handleKeyPress = (event: KeyboardEvent): void => {
+    switch (event.key) {
+      case 'ArrowUp':
+        event.preventDefault();
+        this.selectedOptionIndex = Math.max(0, this.selectedOptionIndex - 1);
+        this.updateSelectionHighlight();
+        break;
+      case 'ArrowDown':
+        event.preventDefault();
+        this.selectedOptionIndex = Math.min(DONE_OPTION, this.selectedOptionIndex + 1);
+        this.updateSelectionHighlight();
+        break;
+      case 'ArrowLeft':
+      case 'ArrowRight': {
+        const slider = this.channelSliders[this.selectedOptionIndex];
+        if (slider) {
+          event.preventDefault();
+          this.stepChannel(slider, event.key === 'ArrowLeft' ? -1 : 1);
+        }
+        break;
+      }
+      case 'Enter':
+      case ' ':
+        event.preventDefault();
+        if (this.selectedOptionIndex === DELETE_OPTION) {
+          this.deletePalette();
+        } else if (this.selectedOptionIndex === DONE_OPTION) {
+          this.onBack?.();
+        }
+        break;
+      case 'Escape':
+        event.preventDefault();
+        this.onBack?.();
+        break;
+    }
+  };
+
+  /**
+   * Called when scene becomes active
+   */
+  override onEnter(): void {
+    super.onEnter();
+
+    // Start on the first channel of the background color
+    this.selectedOptionIndex = 0;
+    this.updatePalette();
+
+    window.addEventListener('keydown', this.handleKeyPress);
+  }
+
+  /**
+   * Called when scene becomes inactive (saves colors still being previewed)
+   */
+  override onExit(): void {
+    super.onExit();
+    window.removeEventListener('keydown', this.handleKeyPress);
+    this.draggedChannel = null;
+    this.applyPaletteEdit();
+  }
+
+  /**
+   * Update colors when palette changes
+   */
+  updatePalette(): void {
+    const colors = this.lcdEffect.getPaletteColors();
+
+    if (this.background) {
+      this.background.clear();
+      this.background.rect(0, 0, 240, 320);
+      this.background.fill({ color: colors.background });
+    }
+
+    if (this.titleText) {
+      this.titleText.style.fill = colors.foreground;
+    }
+
+    if (this.paletteNameText) {
+      this.paletteNameText.text = this.lcdEffect.getPaletteName(this.lcdEffect.getCurrentPalette());
+      this.paletteNameText.style.fill = colors.foreground;
+    }
+
+    this.preview?.setColors(colors);
+
+    this.updateSelectionHighlight();
+  }
+
+  /**
+   * Destroy the scene
+   */
+  override destroy(): void {
+    window.removeEventListener('keydown', this.handleKeyPress);
+
+    if (this.background) {
+      this.background.destroy();
+      this.background = null;
+    }
+
+    this.titleText?.destroy();
+    this.paletteNameText?.destroy();
+    this.titleText = null;
+    this.paletteNameText = null;
+
+    if (this.preview) {
+      this.preview.destroy({ children: true });
+      this.preview = null;
+    }
+
+    for (const element of [...this.colorRows, ...this.channelSliders]) {
+      element.destroy({ children: true });
+    }
+    this.colorRows = [];
+    this.channelSliders = [];
+    this.draggedChannel = null;
+
+    for (const button of [this.deleteButton, this.doneButton]) {
+      button?.destroy({ children: true });
+    }
+    this.deleteButton = null;
+    this.doneButton = null;
+
+    this.onBack = null;
+    this.onCustomPalettesChange = null;
+    this.onPaletteDeleted = null;
+
+    super.destroy();
+  }
+}
+
+/**
+ * Extended Container interface for color rows
+ */
+interface ColorRow extends Container {
+  labelElement?: Text;
+  swatch?: Graphics;
+  hexElement?: Text;
+  colorKey?: keyof PaletteColors;
+}
+
+/**
+ * Extended Container interface for channel sliders
+ */
+interface ChannelSlider extends Container {
+  track?: Graphics;
+  labelElement?: Text;
+  optionIndex?: number;
+  colorKey?: keyof PaletteColors;
+  shift?: number; // Bit shift of the channel in 0xRRGGBB
+}
+
+/**
+ * Extended Container interface for button references
+ */
+interface ButtonContainer extends Container {
+  background?: Graphics;
+  textElement?: Text;
+  optionIndex?: number;
+  buttonWidth?: number;
+}
@@ -0,0 +1,460 @@
+/**
+ * Profile Select Scene
+ * Shown before the main menu: lists the local player profiles so everyone sharing
+ * a device keeps their own scores, unlocks and settings. Profiles are created,
+ * renamed and deleted here.
+ */
+
+import { Graphics, Text, TextStyle, Container } from 'pixi.js';
+import { Scene } from './Scene';
+import { SceneType } from '../types/game';
+import type { LCDEffect } from '../systems/LCDEffect';
+import { MAX_PROFILES } from '../systems/GameStorage';
+import type { ProfileSummary } from '../systems/GameStorage';
+
+// Profile list layout
+const ROW_START_Y = 80;
+const ROW_SPACING = 30;
+const ROW_WIDTH = 180;
+const ROW_HEIGHT = 24;
+
+/**
+ * What choosing a profile does
+ */
+type ProfileSelectMode = 'play' | 'rename' | 'delete';
+
+const MODE_HINTS: Record<ProfileSelectMode, string> = {
+  play: 'CHOOSE YOUR PROFILE',
+  rename: 'CHOOSE A PROFILE TO RENAME',
+  delete: 'CHOOSE A PROFILE TO DELETE',
+};
+
+export class ProfileSelectScene extends Scene {
+  private lcdEffect: LCDEffect;
+
+  // UI elements
+  private background: Graphics | null = null;
+  private titleText: Text | null = null;
+  private hintText: Text | null = null;
+  private rowLayer: Container | null = null;
+  private rows: ButtonContainer[] = [];
+  private renameButton: ButtonContainer | null = null;
+  private deleteButton: ButtonContainer | null = null;
+
+  // State
+  private profiles: ProfileSummary[] = [];
+  private selectedIndex: number = 0;
+  private mode: ProfileSelectMode = 'play';
+
+  // Callbacks
+  private onProfileSelected: ((profileId: number) => void) | null = null;
+  private onCreateProfile: (() => void) | null = null;
+  private onRenameProfile: ((profileId: number) => void) | null = null;
+  private onDeleteProfile: ((profileId: number) => void) | null = null;
+
+  constructor(lcdEffect: LCDEffect) {
+    super(SceneType.ProfileSelect);
+    this.lcdEffect = lcdEffect;
+  }
+
+  /**
+   * Set the callback for when a profile is chosen to play
+   */
+  setOnProfileSelected(callback: (profileId: number) => void): void {
+    this.onProfileSelected = callback;
+  }
+
+  /**
+   * Set the callback for when NEW PROFILE is chosen
+   */
+  setOnCreateProfile(callback: () => void): void {
+    this.onCreateProfile = callback;
+  }
+
+  /**
+   * Set the callback for when a profile is chosen to rename
+   */
+  setOnRenameProfile(callback: (profileId: number) => void): void {
+    this.onRenameProfile = callback;
+  }
+
+  /**
+   * Set the callback for when a profile is chosen to delete
+   */
+  setOnDeleteProfile(callback: (profileId: number) => void): void {
+    this.onDeleteProfile = callback;
+  }
+
+  /**
+   * Set the profiles to list and which one to highlight
+   */
+  setProfiles(profiles: ProfileSummary[], highlightedProfileId: number): void {
+    this.profiles = profiles.map((profile) => ({ ...profile }));
+    this.selectedIndex = Math.max(
+      0,
+      this.profiles.findIndex((profile) => profile.id === highlightedProfileId)
+    );
+    this.setMode('play');
+    this.createRows(this.lcdEffect.getPaletteColors());
+    this.updateHighlight();
+  }
+
+  /**
+   * Show a message in place of the hint (e.g. why a name was rejected)
+   */
+  showMessage(message: string): void {
+    if (this.hintText) {
+      this.hintText.text = message.toUpperCase();
+    }
+  }
+
+  /**
+   * Create the scene content
+   */
+  protected async onCreate(): Promise<void> {
+    const colors = this.lcdEffect.getPaletteColors();
+
+    // Create background
+    this.background = new Graphics();
+    this.background.rect(0, 0, 240, 320);
+    this.background.fill({ color: colors.background });
+    this.container.addChild(this.background);
+
+    // Title
+    this.titleText = new Text({
+      text: 'PROFILES',
+      style: new TextStyle({
+        fontFamily: 'monospace',
+        fontSize: 18,
+        fill: colors.foreground,
+        align: 'center',
+        fontWeight: 'bold',
+      }),
+    });
+    this.titleText.anchor.set(0.5);
+    this.titleText.position.set(120, 30);
+    this.container.addChild(this.titleText);
+
+    // Hint / message line
+    this.hintText = new Text({
+      text: MODE_HINTS.play,
+      style: new TextStyle({
+        fontFamily: 'monospace',
+        fontSize: 8,
+        fill: colors.foreground,
+        align: 'center',
+      }),
+    });
+    this.hintText.anchor.set(0.5);
+    this.hintText.position.set(120, 54);
+    this.container.addChild(this.hintText);
+
+    // Profile rows
+    this.rowLayer = new Container();
+    this.container.addChild(this.rowLayer);
+    this.createRows(colors);
+
+    // Rename and delete switch what choosing a profile does
+    this.renameButton = this.createButton('RENAME', 70, 296, 90, colors);
+    this.renameButton.on('pointerdown', () => this.toggleMode('rename'));
+    this.container.addChild(this.renameButton);
+
+    this.deleteButton = this.createButton('DELETE', 170, 296, 90, colors);
+    this.deleteButton.on('pointerdown', () => this.toggleMode('delete'));
+    this.container.addChild(this.deleteButton);
+
+    this.updateHighlight();
+  }
+
+  /**
+   * Create a row per profile, plus NEW PROFILE while there is room for one
+   */
+  private createRows(colors: { foreground: number; background: number; accent: number }): void {
+    const rowLayer = this.rowLayer;
+    if (!rowLayer) return;
+
+    this.rows.forEach((row) => row.destroy({ children: true }));
+    this.rows = [];
+
+    const labels = this.profiles.map((profile) => profile.name);
+    if (this.profiles.length < MAX_PROFILES) {
+      labels.push('+ NEW PROFILE');
+    }
+
+    labels.forEach((label, index) => {
+      const row = this.createButton(
+        label,
+        120,
+        ROW_START_Y + index * ROW_SPACING,
+        ROW_WIDTH,
+        colors
+      );
+      const profile = this.profiles[index];
+      if (profile) {
+        // Names on the left, best scores on the right
+        row.textElement!.anchor.set(0, 0.5);
+        row.textElement!.position.set(-ROW_WIDTH / 2 + 8, 0);
+
+        const scoreText = new Text({
+          text: String(profile.bestScore),
+          style: new TextStyle({
+            fontFamily: 'monospace',
+            fontSize: 10,
+            fill: colors.foreground,
+            align: 'right',
+          }),
+        });
+        scoreText.anchor.set(1, 0.5);
+        scoreText.position.set(ROW_WIDTH / 2 - 8, 0);
+        row.addChild(scoreText);
+        row.scoreText = scoreText;
+      }
+
+      row.on('pointerover', () => {
+        this.selectedIndex = index;
+        this.updateHighlight();
+      });
+      row.on('pointerdown', () => this.activateRow(index));
+      rowLayer.addChild(row);
+      this.rows.push(row);
+    });
+  }
+
+  /**
+   * Create a pixel-art styled button
+   */
+  private createButton(
+    text: string,
+    x: number,
+    y: number,
+    buttonWidth: number,
+    colors: { foreground: number; background: number; accent: number }
+  ): ButtonContainer {
+    const buttonContainer = new Container() as ButtonContainer;
+    buttonContainer.position.set(x, y);
+
+    // Button background
+    const bg = new Graphics();
+    bg.rect(-buttonWidth / 2, -ROW_HEIGHT / 2, buttonWidth, ROW_HEIGHT);
+    bg.fill({ color: colors.background });
+    bg.stroke({ color: colors.foreground, width: 2 });
+    buttonContainer.addChild(bg);
+
+    // Button text
+    const buttonText = new Text({
+      text,
+      style: new TextStyle({
+        fontFamily: 'monospace',
+        fontSize: 11,
+        fill: colors.foreground,
+        align: 'center',
+      }),
+    });
+    buttonText.anchor.set(0.5);
+    buttonContainer.addChild(buttonText);
+
+    // Make interactive
+    buttonContainer.eventMode = 'static';
+    buttonContainer.cursor = 'pointer';
+
+    buttonContainer.background = bg;
+    buttonContainer.textElement = buttonText;
+    buttonContainer.buttonWidth = buttonWidth;
+
+    return buttonContainer;
+  }
+
+  /**
+   * Choose a row: play, rename or delete its profile, or create a new one
+   */
+  private activateRow(index: number): void {
+    const profile = this.profiles[index];
+
+    if (!profile) {
+      if (this.mode === 'play') {
+        this.onCreateProfile?.();
+      }
+      return;
+    }
+
+    const mode = this.mode;
+    this.setMode('play');
+    switch (mode) {
+      case 'play':
+        this.onProfileSelected?.(profile.id);
+        break;
+      case 'rename':
+        this.onRenameProfile?.(profile.id);
+        break;
+      case 'delete':
+        this.onDeleteProfile?.(profile.id);
+        break;
+    }
+  }
+
+  /**
+   * Switch to rename or delete mode, or back to play mode if it is already on
+   */
+  private toggleMode(mode: ProfileSelectMode): void {
+    if (mode === 'delete' && this.mode !== 'delete' && this.profiles.length <= 1) {
+      this.showMessage("CAN'T DELETE THE ONLY PROFILE");
+      return;
+    }
+    this.setMode(this.mode === mode ? 'play' : mode);
+    this.updateHighlight();
+  }
+
+  private setMode(mode: ProfileSelectMode): void {
+    this.mode = mode;
+    this.showMessage(MODE_HINTS[mode]);
+  }
+
+  /**
+   * Highlight the selected row and the button of the current mode
+   */
+  private updateHighlight(): void {
+    const colors = this.lcdEffect.getPaletteColors();
+
+    const buttons: [ButtonContainer | null, boolean][] = [
+      ...this.rows.map((row, index): [ButtonContainer, boolean] => [
+        row,
+        index === this.selectedIndex,
+      ]),
+      [this.renameButton, this.mode === 'rename'],
+      [this.deleteButton, this.mode === 'delete'],
+    ];
+
+    for (const [button, isSelected] of buttons) {
+      if (!button || !button.background) continue;
+
+      const width = button.buttonWidth ?? ROW_WIDTH;
+      button.background.clear();
+      button.background.rect(-width / 2, -ROW_HEIGHT / 2, width, ROW_HEIGHT);
+      button.background.fill({ color: isSelected ? colors.accent : colors.background });
+      button.background.stroke({ color: colors.foreground, width: 2 });
+
+      const textColor = isSelected ? colors.background : colors.foreground;
+      if (button.textElement) {
+        button.textElement.style.fill = textColor;
+      }
+      if (button.scoreText) {
+        button.scoreText.style.fill = textColor;
+      }
+    }
+
+    // NEW PROFILE can only be chosen in play mode
+    const newProfileRow = this.rows[this.profiles.length];
+    if (newProfileRow) {
+      newProfileRow.alpha = this.mode === 'play' ? 1 : 0.4;
+    }
+  }
+
+  /**
+   * Handle keyboard navigation
+   */
+  private handleKeyPress = (event: KeyboardEvent): void => {
+    switch (event.key) {
+      case 'ArrowUp':
+        event.preventDefault();
+        this.selectedIndex = Math.max(0, this.selectedIndex - 1);
+        this.updateHighlight();
+        break;
+      case 'ArrowDown':
+        event.preventDefault();
+        this.selectedIndex = Math.min(this.rows.length - 1, this.selectedIndex + 1);
+        this.updateHighlight();
+        break;
+      case 'Enter':
+      case ' ':
+        event.preventDefault();
+        this.activateRow(this.selectedIndex);
+        break;
+      case 'r':
+      case 'R':
+        event.preventDefault();
+        this.toggleMode('rename');
+        break;
+      case 'Delete':
+      case 'Backspace':
+        event.preventDefault();
+        this.toggleMode('delete');
+        break;
+      case 'Escape':
+        event.preventDefault();
+        this.setMode('play');
+        this.updateHighlight();
+        break;
+    }
+  };
+
+  /**
+   * Called when scene becomes active
+   */
+  override onEnter(): void {
+    super.onEnter();
+    window.addEventListener('keydown', this.handleKeyPress);
+  }
+
+  /**
+   * Called when scene becomes inactive
+   */
+  override onExit(): void {
+    super.onExit();
+    window.removeEventListener('keydown', this.handleKeyPress);
+  }
+
+  /**
+   * Update colors when palette changes
+   */
+  updatePalette(): void {
+    const colors = this.lcdEffect.getPaletteColors();
+
+    if (this.background) {
+      this.background.clear();
+      this.background.rect(0, 0, 240, 320);
+      this.background.fill({ color: colors.background });
+    }
+
+    if (this.titleText) {
+      this.titleText.style.fill = colors.foreground;
+    }
+
+    if (this.hintText) {
+      this.hintText.style.fill = colors.foreground;
+    }
+
+    this.updateHighlight();
+  }
+
+  /**
+   * Destroy the scene
+   */
+  override destroy(): void {
+    window.removeEventListener('keydown', this.handleKeyPress);
+
+    this.rows = [];
+    this.rowLayer = null;
+    this.background = null;
+    this.titleText = null;
+    this.hintText = null;
+    this.renameButton = null;
+    this.deleteButton = null;
+
+    this.onProfileSelected = null;
+    this.onCreateProfile = null;
+    this.onRenameProfile = null;
+    this.onDeleteProfile = null;
+
+    super.destroy();
+  }
+}
+
+/**
+ * Extended Container interface for button references
+ */
+interface ButtonContainer extends Container {
+  background?: Graphics;
+  textElement?: Text;
+  scoreText?: Text;
+  buttonWidth?: number;
+}
@@ -1,14 +1,45 @@
 /**
  * Settings Scene
- * Allows users to toggle between Blue and Amber LCD palettes
- * Provides visual preview of palette selection
+ * Allows users to pick an LCD palette (a preset or one of their own), turn on
+ * colorblind crate glyphs and LCD ghosting and set the audio mix
+ * Provides visual preview of palette selection, export/import of save codes and
+ * opens the controls and palette editor scenes
  */
 
 import { Graphics, Text, TextStyle, Container } from 'pixi.js';
+import type { FederatedPointerEvent } from 'pixi.js';
 import { Scene } from './Scene';
 import { SceneType } from '../types/game';
-import { LCDEffect, ColorPalette } from '../systems/LCDEffect';
-import { SPRITE_DEFINITIONS } from '../utils/SpriteGenerator';
+import { LCDEffect } from '../systems/LCDEffect';
+import { MAX_CUSTOM_PALETTES, createCustomPalette, isCustomPalette } from '../config/palettes';
+import type { ColorPalette, PaletteDefinition } from '../config/palettes';
+import {
+  DEFAULT_GHOSTING_SETTINGS,
+  GHOSTING_INTENSITY_STEP,
+  MIN_GHOSTING_INTENSITY,
+} from '../config/ghosting';
+import type { GhostingSettings } from '../config/ghosting';
+import type { AudioSettings } from '../systems/GameStorage';
+import { PalettePreview } from '../views/PalettePreview';
+
+type VolumeSetting = 'masterVolume' | 'musicVolume' | 'sfxVolume';
+
+// Volume slider layout (scene coordinates) and keyboard step
+const SLIDER_TRACK_X = 90;
+const SLIDER_TRACK_WIDTH = 100;
+const VOLUME_STEP = 0.1;
+
+// Option indices
+const PALETTE_OPTION = 0;
+const EDIT_PALETTE_OPTION = 1;
+const GLYPHS_OPTION = 2;
+const GHOSTING_OPTION = 3;
+const FIRST_VOLUME_OPTION = 4;
+const MUTE_OPTION = 7;
+const CONTROLS_OPTION = 8;
+const EXPORT_OPTION = 9;
+const IMPORT_OPTION = 10;
+const BACK_OPTION = 11;
 
 export class SettingsScene extends Scene {
   private lcdEffect: LCDEffect;
@@ -17,18 +48,50 @@ export class SettingsScene extends Scene {
   private background: Graphics | null = null;
   private titleText: Text | null = null;
   private paletteLabel: Text | null = null;
-  private blueOption: ToggleOption | null = null;
-  private amberOption: ToggleOption | null = null;
-  private previewBox: Graphics | null = null;
-  private previewCharacter: Graphics | null = null;
-  private previewCrate: Graphics | null = null;
-  private previewFloor: Graphics | null = null;
+  private paletteButton: ButtonContainer | null = null;
+  private editPaletteButton: ButtonContainer | null = null;
+  private glyphsOption: ToggleOption | null = null;
+  private ghostingButton: ButtonContainer | null = null;
+  private volumeSliders: SliderContainer[] = [];
+  private muteOption: ToggleOption | null = null;
+  private preview: PalettePreview | null = null;
+  private controlsButton: ButtonContainer | null = null;
+  private exportButton: ButtonContainer | null = null;
+  private importButton: ButtonContainer | null = null;
   private backButton: ButtonContainer | null = null;
+  private statusText: Text | null = null;
 
-  private selectedOptionIndex: number = 0; // 0 = blue, 1 = amber, 2 = back
+  // 0 = palette, 1 = edit palette, 2 = color glyphs, 3 = ghosting,
+  // 4-6 = master/music/sfx volume, 7 = mute when hidden, 8 = controls, 9 = export,
+  // 10 = import, 11 = back
+  private selectedOptionIndex: number = 0;
+
+  // Colorblind glyphs drawn on colored crates
+  private crateGlyphs: boolean = false;
+
+  // LCD ghosting filter
+  private ghostingSettings: GhostingSettings = { ...DEFAULT_GHOSTING_SETTINGS };
+
+  private audioSettings: AudioSettings = {
+    masterVolume: 1,
+    musicVolume: 0.5,
+    sfxVolume: 1,
+    muteWhenHidden: true,
+  };
+
+  // Slider being dragged with the pointer
+  private draggedSlider: SliderContainer | null = null;
 
   // Callbacks
   private onBack: (() => void) | null = null;
+  private onExportSave: (() => void) | null = null;
+  private onImportSave: (() => void) | null = null;
+  private onAudioSettingsChange: ((settings: AudioSettings) => void) | null = null;
+  private onOpenControls: (() => void) | null = null;
+  private onEditPalette: (() => void) | null = null;
+  private onCrateGlyphsChange: ((enabled: boolean) => void) | null = null;
+  private onGhostingChange: ((settings: GhostingSettings) => void) | null = null;
+  private onCustomPalettesChange: ((palettes: PaletteDefinition[]) => void) | null = null;
 
   constructor(lcdEffect: LCDEffect) {
     super(SceneType.Settings);
@@ -42,6 +105,96 @@ export class SettingsScene extends Scene {
     this.onBack = callback;
   }
 
+  /**
+   * Set the callback for when export save is pressed
+   */
+  setOnExportSave(callback: () => void): void {
+    this.onExportSave = callback;
+  }
+
+  /**
+   * Set the callback for when import save is pressed
+   */
+  setOnImportSave(callback: () => void): void {
+    this.onImportSave = callback;
+  }
+
+  /**
+   * Set the callback for when a volume or the mute option changes
+   */
+  setOnAudioSettingsChange(callback: (settings: AudioSettings) => void): void {
+    this.onAudioSettingsChange = callback;
+  }
+
+  /**
+   * Set the callback for when the controls page is opened
+   */
+  setOnOpenControls(callback: () => void): void {
+    this.onOpenControls = callback;
+  }
+
+  /**
+   * Set the callback for when the palette editor is opened (the current palette
+   * is a custom palette by then)
+   */
+  setOnEditPalette(callback: () => void): void {
+    this.onEditPalette = callback;
+  }
+
+  /**
+   * Set the callback for when the color glyphs option is toggled
+   */
+  setOnCrateGlyphsChange(callback: (enabled: boolean) => void): void {
+    this.onCrateGlyphsChange = callback;
+  }
+
+  /**
+   * Set the callback for when ghosting is turned on or off or its intensity changes
+   */
+  setOnGhostingChange(callback: (settings: GhostingSettings) => void): void {
+    this.onGhostingChange = callback;
+  }
+
+  /**
+   * Set the callback for when custom palettes are made, edited or deleted
+   */
+  setOnCustomPalettesChange(callback: (palettes: PaletteDefinition[]) => void): void {
+    this.onCustomPalettesChange = callback;
+  }
+
+  /**
+   * Show the stored color glyphs option
+   */
+  setCrateGlyphs(enabled: boolean): void {
+    this.crateGlyphs = enabled;
+    this.updateToggleStates();
+  }
+
+  /**
+   * Show the stored ghosting settings
+   */
+  setGhostingSettings(settings: GhostingSettings): void {
+    this.ghostingSettings = { ...settings };
+    this.updateToggleStates();
+  }
+
+  /**
+   * Show the stored audio settings
+   */
+  setAudioSettings(settings: AudioSettings): void {
+    this.audioSettings = { ...settings };
+    this.updateAudioControls();
+  }
+
+  /**
+   * Show a short message under the preview (e.g. the result of an import)
+   */
+  showStatus(message: string): void {
+    if (this.statusText) {
+      this.statusText.text = message.toUpperCase();
+    }
+  }
+
   /**
    * Create the scene content
    */
@@ -68,7 +221,7 @@ export class SettingsScene extends Scene {
       style: titleStyle,
     });
     this.titleText.anchor.set(0.5);
-    this.titleText.position.set(120, 40);
+    this.titleText.position.set(120, 22);
     this.container.addChild(this.titleText);
 
     // Palette section label
@@ -84,35 +237,118 @@ export class SettingsScene extends Scene {
       style: labelStyle,
     });
     this.paletteLabel.anchor.set(0.5);
-    this.paletteLabel.position.set(120, 80);
+    this.paletteLabel.position.set(120, 42);
     this.container.addChild(this.paletteLabel);
 
-    // Create palette toggle options
-    const isBlueSelected = this.lcdEffect.getCurrentPalette() === ColorPalette.Blue;
+    // Palette picker (click an arrow to cycle) and editor button, left of the preview
+    this.paletteButton = this.createButton('', 70, 62, 124, PALETTE_OPTION, colors, (event) => {
+      this.cyclePalette(event.getLocalPosition(this.paletteButton!).x < 0 ? -1 : 1);
+    });
+    this.container.addChild(this.paletteButton);
+
+    this.editPaletteButton = this.createButton('', 70, 90, 124, EDIT_PALETTE_OPTION, colors, () =>
+      this.openPaletteEditor()
+    );
+    this.container.addChild(this.editPaletteButton);
+
+    this.glyphsOption = this.createToggleOption(
+      'COLOR GLYPHS',
+      70,
+      118,
+      this.crateGlyphs,
+      colors,
+      () => {
+        this.selectedOptionIndex = GLYPHS_OPTION;
+        this.toggleCrateGlyphs();
+      }
+    );
+    this.container.addChild(this.glyphsOption);
 
-    this.blueOption = this.createToggleOption('BLUE', 120, 115, isBlueSelected, colors, () => {
-      this.selectPalette(ColorPalette.Blue);
+    // Ghosting picker (click an arrow to step the intensity, off below the lowest)
+    this.ghostingButton = this.createButton('', 120, 150, 160, GHOSTING_OPTION, colors, (event) => {
+      this.stepGhosting(event.getLocalPosition(this.ghostingButton!).x < 0 ? -1 : 1);
+    });
+    this.container.addChild(this.ghostingButton);
+
+    // Preview of the palette beside the picker
+    this.preview = new PalettePreview(colors);
+    this.preview.position.set(190, 88);
+    this.container.addChild(this.preview);
+
+    // Create audio mixer sliders and the mute option
+    const sliders: [string, VolumeSetting][] = [
+      ['MASTER', 'masterVolume'],
+      ['MUSIC', 'musicVolume'],
+      ['SFX', 'sfxVolume'],
+    ];
+    this.volumeSliders = sliders.map(([label, setting], index) => {
+      const slider = this.createSlider(
+        label,
+        setting,
+        184 + index * 20,
+        FIRST_VOLUME_OPTION + index,
+        colors
+      );
+      this.container.addChild(slider);
+      return slider;
     });
-    this.container.addChild(this.blueOption);
 
-    this.amberOption = this.createToggleOption('AMBER', 120, 155, !isBlueSelected, colors, () => {
-      this.selectPalette(ColorPalette.Amber);
+    this.muteOption = this.createToggleOption(
+      'MUTE WHEN HIDDEN',
+      120,
+      244,
+      this.audioSettings.muteWhenHidden,
+      colors,
+      () => {
+        this.selectedOptionIndex = MUTE_OPTION;
+        this.toggleMuteWhenHidden();
+      }
+    );
+    this.container.addChild(this.muteOption);
+
+    // Status line for save transfer results
+    this.statusText = new Text({
+      text: '',
+      style: new TextStyle({
+        fontFamily: 'monospace',
+        fontSize: 8,
+        fill: colors.foreground,
+        align: 'center',
+        wordWrap: true,
+        wordWrapWidth: 220,
+      }),
     });
-    this.container.addChild(this.amberOption);
+    this.statusText.anchor.set(0.5);
+    this.statusText.position.set(120, 260);
+    this.container.addChild(this.statusText);
+
+    // Create controls and save transfer buttons
+    this.controlsButton = this.createButton('CONTROLS', 50, 280, 64, CONTROLS_OPTION, colors, () =>
+      this.onOpenControls?.()
+    );
+    this.container.addChild(this.controlsButton);
+
+    this.exportButton = this.createButton('EXPORT', 120, 280, 64, EXPORT_OPTION, colors, () => {
+      this.onExportSave?.();
+    });
+    this.container.addChild(this.exportButton);
 
-    // Create preview box
-    this.createPreviewBox(colors);
+    this.importButton = this.createButton('IMPORT', 190, 280, 64, IMPORT_OPTION, colors, () => {
+      this.onImportSave?.();
+    });
+    this.container.addChild(this.importButton);
 
     // Create back button
-    this.backButton = this.createBackButton(120, 285, colors, () => {
+    this.backButton = this.createButton('BACK', 120, 306, 100, BACK_OPTION, colors, () => {
       if (this.onBack) {
         this.onBack();
       }
     });
     this.container.addChild(this.backButton);
 
-    // Set initial selection based on current palette
-    this.selectedOptionIndex = isBlueSelected ? 0 : 1;
+    // Start with the palette picker selected
+    this.selectedOptionIndex = PALETTE_OPTION;
+    this.updateToggleStates();
     this.updateSelectionHighlight();
   }
 
@@ -161,7 +397,7 @@ export class SettingsScene extends Scene {
     optionContainer.eventMode = 'static';
     optionContainer.cursor = 'pointer';
     optionContainer.hitArea = {
-      contains: (px: number, py: number) => px >= -80 && px <= 80 && py >= -15 && py <= 15,
+      contains: (px: number, py: number) => px >= -80 && px <= 80 && py >= -10 && py <= 10,
     };
     optionContainer.on('pointerdown', onClick);
 
@@ -175,167 +411,246 @@ export class SettingsScene extends Scene {
   }
 
   /**
-   * Create a preview box showing palette colors
+   * Create a volume slider (drag or click the track to set it)
    */
-  private createPreviewBox(colors: {
-    foreground: number;
-    background: number;
-    accent: number;
-    glow: number;
-  }): void {
-    // Preview container
-    const previewContainer = new Container();
-    previewContainer.position.set(120, 220);
+  private createSlider(
+    label: string,
+    setting: VolumeSetting,
+    y: number,
+    optionIndex: number,
+    colors: { foreground: number; background: number; accent: number }
+  ): SliderContainer {
+    const slider = new Container() as SliderContainer;
+    slider.position.set(0, y);
 
-    // Preview box background
-    this.previewBox = new Graphics();
-    this.previewBox.rect(-80, -35, 160, 70);
-    this.previewBox.fill({ color: colors.background });
-    this.previewBox.stroke({ color: colors.foreground, width: 2 });
-    previewContainer.addChild(this.previewBox);
+    const textStyle = {
+      fontFamily: 'monospace',
+      fontSize: 10,
+      fill: colors.foreground,
+    };
 
-    // Preview label
-    const previewLabel = new Text({
-      text: 'PREVIEW',
-      style: new TextStyle({
-        fontFamily: 'monospace',
-        fontSize: 8,
-        fill: colors.foreground,
-        align: 'center',
-      }),
+    const labelText = new Text({ text: label, style: new TextStyle(textStyle) });
+    labelText.anchor.set(0, 0.5);
+    labelText.position.set(30, 0);
+    slider.addChild(labelText);
+
+    const track = new Graphics();
+    slider.addChild(track);
+
+    const valueText = new Text({ text: '', style: new TextStyle(textStyle) });
+    valueText.anchor.set(1, 0.5);
+    valueText.position.set(224, 0);
+    slider.addChild(valueText);
+
+    // Make interactive
+    slider.eventMode = 'static';
+    slider.cursor = 'pointer';
+    slider.hitArea = {
+      contains: (px: number, py: number) => px >= 20 && px <= 230 && py >= -9 && py <= 9,
+    };
+    slider.on('pointerdown', (event: FederatedPointerEvent) => {
+      this.selectedOptionIndex = optionIndex;
+      this.draggedSlider = slider;
+      this.setVolumeFromPointer(slider, event);
     });
-    previewLabel.anchor.set(0.5);
-    previewLabel.position.set(0, -28);
-    previewContainer.addChild(previewLabel);
-
-    // Preview floor (fragment under character and crate)
-    this.previewFloor = new Graphics();
-    this.drawPreviewFloor(colors.foreground);
-    previewContainer.addChild(this.previewFloor);
-
-    // Preview character (using actual sprite data)
-    this.previewCharacter = new Graphics();
-    this.drawPreviewCharacter(colors.foreground);
-    previewContainer.addChild(this.previewCharacter);
-
-    // Preview crate
-    this.previewCrate = new Graphics();
-    this.drawPreviewCrate(colors.foreground);
-    previewContainer.addChild(this.previewCrate);
-
-    this.container.addChild(previewContainer);
-  }
-
-  /**
-   * Draw floor fragment preview using actual sprite data
-   */
-  private drawPreviewFloor(color: number): void {
-    if (!this.previewFloor) return;
-
-    this.previewFloor.clear();
-
-    const floorPixels = SPRITE_DEFINITIONS.floorTile.pixels;
-    const pixelSize = 2;
-    const tileWidth = 8 * pixelSize; // 16px per tile
-    const floorY = 10; // Floor top position
-
-    // Draw 4 floor tiles (64px width, enough for character + crate)
-    const startX = -32; // Center the floor
-    for (let tile = 0; tile < 4; tile++) {
-      const tileOffsetX = startX + tile * tileWidth;
-      for (let y = 0; y < floorPixels.length; y++) {
-        for (let x = 0; x < floorPixels[y].length; x++) {
-          if (floorPixels[y][x] === 1) {
-            this.previewFloor.rect(
-              tileOffsetX + x * pixelSize,
-              floorY + y * pixelSize,
-              pixelSize,
-              pixelSize
-            );
-            this.previewFloor.fill({ color });
-          }
-        }
+    slider.on('pointermove', (event: FederatedPointerEvent) => {
+      if (this.draggedSlider === slider) {
+        this.setVolumeFromPointer(slider, event);
       }
-    }
+    });
+    const endDrag = () => {
+      this.draggedSlider = null;
+    };
+    slider.on('pointerup', endDrag);
+    slider.on('pointerupoutside', endDrag);
+    slider.on('pointerover', () => {
+      this.selectedOptionIndex = optionIndex;
+      this.updateSelectionHighlight();
+    });
+
+    slider.track = track;
+    slider.labelElement = labelText;
+    slider.valueElement = valueText;
+    slider.optionIndex = optionIndex;
+    slider.setting = setting;
+
+    return slider;
   }
 
   /**
-   * Draw character preview using actual sprite data (idle_front - looking at camera)
+   * Set a slider's volume from where the pointer is on its track
    */
-  private drawPreviewCharacter(color: number): void {
-    if (!this.previewCharacter) return;
+  private setVolumeFromPointer(slider: SliderContainer, event: FederatedPointerEvent): void {
+    const x = event.getLocalPosition(slider).x;
+    this.setVolume(slider.setting!, (x - SLIDER_TRACK_X) / SLIDER_TRACK_WIDTH);
+  }
 
-    this.previewCharacter.clear();
+  /**
+   * Set a volume (snapped to the slider steps) and report the change
+   */
+  private setVolume(setting: VolumeSetting, volume: number): void {
+    const snapped = Math.round(Math.min(Math.max(volume, 0), 1) / VOLUME_STEP) * VOLUME_STEP;
+    const rounded = Math.round(snapped * 100) / 100;
+    if (rounded !== this.audioSettings[setting]) {
+      this.audioSettings[setting] = rounded;
+      this.onAudioSettingsChange?.({ ...this.audioSettings });
+    }
+    this.updateSelectionHighlight();
+  }
 
-    const charPixels = SPRITE_DEFINITIONS.characterAnimations.idle_front.pixels;
-    const pixelSize = 2;
-    const charHeight = charPixels.length * pixelSize; // 32px
-    const floorY = 10;
+  /**
+   * Turn the colorblind crate glyphs on or off and report the change
+   */
+  private toggleCrateGlyphs(): void {
+    this.crateGlyphs = !this.crateGlyphs;
+    this.onCrateGlyphsChange?.(this.crateGlyphs);
+    this.updateToggleStates();
+    this.updateSelectionHighlight();
+  }
 
-    // Position character standing on floor, left side
-    const charX = -24;
-    const charY = floorY - charHeight;
+  /**
+   * Turn ghosting on or off (keeping its intensity) and report the change
+   */
+  private toggleGhosting(): void {
+    this.changeGhosting({ ...this.ghostingSettings, enabled: !this.ghostingSettings.enabled });
+  }
 
-    for (let y = 0; y < charPixels.length; y++) {
-      for (let x = 0; x < charPixels[y].length; x++) {
-        if (charPixels[y][x] === 1) {
-          this.previewCharacter.rect(
-            charX + x * pixelSize,
-            charY + y * pixelSize,
-            pixelSize,
-            pixelSize
-          );
-          this.previewCharacter.fill({ color });
-        }
+  /**
+   * Step the ghosting intensity; stepping down from the lowest turns it off
+   * and stepping up while off turns it on at the lowest
+   */
+  private stepGhosting(direction: 1 | -1): void {
+    const { enabled, intensity } = this.ghostingSettings;
+    if (!enabled) {
+      if (direction > 0) {
+        this.changeGhosting({ enabled: true, intensity: MIN_GHOSTING_INTENSITY });
       }
+      return;
     }
+
+    // Round to the step (avoids 0.30000000000000004)
+    const stepped = Math.round((intensity + direction * GHOSTING_INTENSITY_STEP) * 10) / 10;
+    this.changeGhosting(
+      stepped < MIN_GHOSTING_INTENSITY
+        ? { enabled: false, intensity }
+        : { enabled: true, intensity: Math.min(stepped, 1) }
+    );
   }
 
   /**
-   * Draw crate preview using actual sprite data
+   * Apply new ghosting settings, redraw and report them
    */
-  private drawPreviewCrate(color: number): void {
-    if (!this.previewCrate) return;
+  private changeGhosting(settings: GhostingSettings): void {
+    this.selectedOptionIndex = GHOSTING_OPTION;
+    this.ghostingSettings = settings;
+    this.onGhostingChange?.({ ...settings });
+    this.updateToggleStates();
+    this.updateSelectionHighlight();
+  }
+
+  /**
+   * Turn muting while the tab is hidden on or off
+   */
+  private toggleMuteWhenHidden(): void {
+    this.audioSettings.muteWhenHidden = !this.audioSettings.muteWhenHidden;
+    this.onAudioSettingsChange?.({ ...this.audioSettings });
+    this.updateSelectionHighlight();
+  }
+
+  /**
+   * Redraw the volume sliders and the mute option from the audio settings
+   */
+  private updateAudioControls(): void {
+    const colors = this.lcdEffect.getPaletteColors();
 
-    this.previewCrate.clear();
+    for (const slider of this.volumeSliders) {
+      const volume = this.audioSettings[slider.setting!];
+      const isSelected = this.selectedOptionIndex === slider.optionIndex;
+      const handleX = SLIDER_TRACK_X + SLIDER_TRACK_WIDTH * volume;
+
+      if (slider.track) {
+        slider.track.clear();
+        slider.track.rect(SLIDER_TRACK_X, -3, SLIDER_TRACK_WIDTH, 6);
+        slider.track.fill({ color: colors.background });
+        slider.track.stroke({
+          color: isSelected ? colors.accent : colors.foreground,
+          width: isSelected ? 2 : 1,
+        });
+        slider.track.rect(SLIDER_TRACK_X, -3, SLIDER_TRACK_WIDTH * volume, 6);
+        slider.track.fill({ color: colors.foreground });
+        slider.track.rect(handleX - 2, -7, 4, 14);
+        slider.track.fill({ color: isSelected ? colors.accent : colors.foreground });
+      }
+      if (slider.labelElement) {
+        slider.labelElement.style.fill = isSelected ? colors.accent : colors.foreground;
+      }
+      if (slider.valueElement) {
+        slider.valueElement.text = `${Math.round(volume * 100)}%`;
+        slider.valueElement.style.fill = colors.foreground;
+      }
+    }
 
-    const cratePixels = SPRITE_DEFINITIONS.crate.pixels;
-    const pixelSize = 2;
-    const crateHeight = cratePixels.length * pixelSize; // 16px
-    const floorY = 10;
+    if (this.muteOption?.radioFill) {
+      this.muteOption.isSelected = this.audioSettings.muteWhenHidden;
+      this.muteOption.radioFill.clear();
+      this.muteOption.radioFill.circle(-60, 0, 5);
+      this.muteOption.radioFill.fill({
+        color: this.audioSettings.muteWhenHidden ? colors.accent : colors.background,
+      });
+    }
+  }
 
-    // Position crate next to character on floor
-    const crateX = 8;
-    const crateY = floorY - crateHeight;
+  /**
+   * Get the player's custom palettes
+   */
+  private getCustomPalettes(): PaletteDefinition[] {
+    return this.lcdEffect.getPalettes().filter((palette) => isCustomPalette(palette.id));
+  }
 
-    for (let y = 0; y < cratePixels.length; y++) {
-      for (let x = 0; x < cratePixels[y].length; x++) {
-        if (cratePixels[y][x] === 1) {
-          this.previewCrate.rect(
-            crateX + x * pixelSize,
-            crateY + y * pixelSize,
-            pixelSize,
-            pixelSize
-          );
-          this.previewCrate.fill({ color });
-        }
+  /**
+   * Apply new custom palettes and report them (for saving)
+   */
+  private saveCustomPalettes(palettes: PaletteDefinition[]): void {
+    this.lcdEffect.setCustomPalettes(palettes);
+    this.onCustomPalettesChange?.(palettes);
+  }
+
+  /**
+   * Edit the current palette (a preset is copied into a new custom palette first)
+   */
+  private openPaletteEditor(): void {
+    if (!isCustomPalette(this.lcdEffect.getCurrentPalette())) {
+      const palette = createCustomPalette(
+        this.getCustomPalettes(),
+        this.lcdEffect.getPaletteColors()
+      );
+      if (!palette) {
+        this.showStatus(`Up to ${MAX_CUSTOM_PALETTES} custom palettes, delete one first`);
+        return;
       }
+      this.saveCustomPalettes([...this.getCustomPalettes(), palette]);
+      this.lcdEffect.setPalette(palette.id);
     }
+
+    this.showStatus('');
+    this.onEditPalette?.();
   }
 
   /**
-   * Create back button
+   * Create a button that is selected as the given option index
    */
-  private createBackButton(
+  private createButton(
+    text: string,
     x: number,
     y: number,
+    buttonWidth: number,
+    optionIndex: number,
     colors: { foreground: number; background: number; accent: number },
-    onClick: () => void
+    onClick: (event: FederatedPointerEvent) => void
   ): ButtonContainer {
     const buttonContainer = new Container() as ButtonContainer;
     buttonContainer.position.set(x, y);
 
-    const buttonWidth = 100;
     const buttonHeight = 24;
 
     // Button background
@@ -347,7 +662,7 @@ export class SettingsScene extends Scene {
 
     // Button text
     const buttonText = new Text({
-      text: 'BACK',
+      text,
       style: new TextStyle({
         fontFamily: 'monospace',
         fontSize: 11,
@@ -363,12 +678,14 @@ export class SettingsScene extends Scene {
     buttonContainer.cursor = 'pointer';
     buttonContainer.on('pointerdown', onClick);
     buttonContainer.on('pointerover', () => {
-      this.selectedOptionIndex = 2;
+      this.selectedOptionIndex = optionIndex;
       this.updateSelectionHighlight();
     });
 
     buttonContainer.background = bg;
     buttonContainer.textElement = buttonText;
+    buttonContainer.optionIndex = optionIndex;
+    buttonContainer.buttonWidth = buttonWidth;
 
     return buttonContainer;
   }
@@ -378,33 +695,52 @@ export class SettingsScene extends Scene {
    */
   private selectPalette(palette: ColorPalette): void {
     this.lcdEffect.setPalette(palette);
-    this.selectedOptionIndex = palette === ColorPalette.Blue ? 0 : 1;
+    this.selectedOptionIndex = PALETTE_OPTION;
     this.updateToggleStates();
     this.updatePalette();
   }
 
   /**
-   * Update toggle states based on current palette
+   * Select the next or previous palette (presets, then custom palettes)
+   */
+  private cyclePalette(direction: 1 | -1): void {
+    const palettes = this.lcdEffect.getPalettes();
+    const index = palettes.findIndex(({ id }) => id === this.lcdEffect.getCurrentPalette());
+    this.selectPalette(palettes[(index + direction + palettes.length) % palettes.length].id);
+  }
+
+  /**
+   * Update the palette picker and editor labels, the glyphs option state and
+   * the ghosting picker
    */
   private updateToggleStates(): void {
-    const isBlue = this.lcdEffect.getCurrentPalette() === ColorPalette.Blue;
+    const currentPalette = this.lcdEffect.getCurrentPalette();
     const colors = this.lcdEffect.getPaletteColors();
+    const name = this.lcdEffect.getPaletteName(currentPalette);
 
-    if (this.blueOption) {
-      this.blueOption.isSelected = isBlue;
-      if (this.blueOption.radioFill) {
-        this.blueOption.radioFill.clear();
-        this.blueOption.radioFill.circle(-60, 0, 5);
-        this.blueOption.radioFill.fill({ color: isBlue ? colors.accent : colors.background });
-      }
+    if (this.paletteButton?.textElement) {
+      this.paletteButton.textElement.text = `< ${name} >`;
+    }
+    if (this.editPaletteButton?.textElement) {
+      this.editPaletteButton.textElement.text = isCustomPalette(currentPalette)
+        ? 'EDIT'
+        : 'CUSTOMIZE';
+    }
+    if (this.ghostingButton?.textElement) {
+      const { enabled, intensity } = this.ghostingSettings;
+      this.ghostingButton.textElement.text = enabled
+        ? `< GHOSTING ${Math.round(intensity * 100)}% >`
+        : '< GHOSTING OFF >';
     }
 
-    if (this.amberOption) {
-      this.amberOption.isSelected = !isBlue;
-      if (this.amberOption.radioFill) {
-        this.amberOption.radioFill.clear();
-        this.amberOption.radioFill.circle(-60, 0, 5);
-        this.amberOption.radioFill.fill({ color: !isBlue ? colors.accent : colors.background });
+    if (this.glyphsOption) {
+      this.glyphsOption.isSelected = this.crateGlyphs;
+      if (this.glyphsOption.radioFill) {
+        this.glyphsOption.radioFill.clear();
+        this.glyphsOption.radioFill.circle(-60, 0, 5);
+        this.glyphsOption.radioFill.fill({
+          color: this.crateGlyphs ? colors.accent : colors.background,
+        });
       }
     }
   }
@@ -415,42 +751,63 @@ export class SettingsScene extends Scene {
   private updateSelectionHighlight(): void {
     const colors = this.lcdEffect.getPaletteColors();
 
-    // Update blue option highlight
-    if (this.blueOption && this.blueOption.radioBg) {
-      this.blueOption.radioBg.clear();
-      this.blueOption.radioBg.circle(-60, 0, 10);
-      this.blueOption.radioBg.fill({ color: colors.background });
-      this.blueOption.radioBg.stroke({
-        color: this.selectedOptionIndex === 0 ? colors.accent : colors.foreground,
-        width: this.selectedOptionIndex === 0 ? 3 : 2,
+    // Update glyphs option highlight
+    if (this.glyphsOption && this.glyphsOption.radioBg) {
+      this.glyphsOption.radioBg.clear();
+      this.glyphsOption.radioBg.circle(-60, 0, 10);
+      this.glyphsOption.radioBg.fill({ color: colors.background });
+      this.glyphsOption.radioBg.stroke({
+        color: this.selectedOptionIndex === GLYPHS_OPTION ? colors.accent : colors.foreground,
+        width: this.selectedOptionIndex === GLYPHS_OPTION ? 3 : 2,
       });
     }
 
-    // Update amber option highlight
-    if (this.amberOption && this.amberOption.radioBg) {
-      this.amberOption.radioBg.clear();
-      this.amberOption.radioBg.circle(-60, 0, 10);
-      this.amberOption.radioBg.fill({ color: colors.background });
-      this.amberOption.radioBg.stroke({
-        color: this.selectedOptionIndex === 1 ? colors.accent : colors.foreground,
-        width: this.selectedOptionIndex === 1 ? 3 : 2,
+    // Update mute option highlight
+    if (this.muteOption && this.muteOption.radioBg) {
+      this.muteOption.radioBg.clear();
+      this.muteOption.radioBg.circle(-60, 0, 10);
+      this.muteOption.radioBg.fill({ color: colors.background });
+      this.muteOption.radioBg.stroke({
+        color: this.selectedOptionIndex === MUTE_OPTION ? colors.accent : colors.foreground,
+        width: this.selectedOptionIndex === MUTE_OPTION ? 3 : 2,
       });
     }
 
-    // Update back button highlight
-    if (this.backButton && this.backButton.background) {
-      const isSelected = this.selectedOptionIndex === 2;
-      this.backButton.background.clear();
-      this.backButton.background.rect(-50, -12, 100, 24);
-      this.backButton.background.fill({ color: isSelected ? colors.accent : colors.background });
-      this.backButton.background.stroke({ color: colors.foreground, width: 2 });
+    // Update slider highlights
+    this.updateAudioControls();
+
+    // Update button highlights
+    for (const button of this.getButtons()) {
+      if (!button || !button.background) continue;
 
-      if (this.backButton.textElement) {
-        this.backButton.textElement.style.fill = isSelected ? colors.background : colors.foreground;
+      const isSelected = this.selectedOptionIndex === button.optionIndex;
+      const width = button.buttonWidth ?? 100;
+      button.background.clear();
+      button.background.rect(-width / 2, -12, width, 24);
+      button.background.fill({ color: isSelected ? colors.accent : colors.background });
+      button.background.stroke({ color: colors.foreground, width: 2 });
+
+      if (button.textElement) {
+        button.textElement.style.fill = isSelected ? colors.background : colors.foreground;
       }
     }
   }
 
+  /**
+   * Get the buttons of the scene
+   */
+  private getButtons(): (ButtonContainer | null)[] {
+    return [
+      this.paletteButton,
+      this.editPaletteButton,
+      this.ghostingButton,
+      this.controlsButton,
+      this.exportButton,
+      this.importButton,
+      this.backButton,
+    ];
+  }
+
   /**
    * Handle keyboard navigation
    */
@@ -463,9 +820,31 @@ export class SettingsScene extends Scene {
         break;
       case 'ArrowDown':
         event.preventDefault();
-        this.selectedOptionIndex = Math.min(2, this.selectedOptionIndex + 1);
+        this.selectedOptionIndex = Math.min(BACK_OPTION, this.selectedOptionIndex + 1);
         this.updateSelectionHighlight();
         break;
+      case 'ArrowLeft':
+      case 'ArrowRight': {
+        if (this.selectedOptionIndex === PALETTE_OPTION) {
+          event.preventDefault();
+          this.cyclePalette(event.key === 'ArrowLeft' ? -1 : 1);
+          break;
+        }
+        if (this.selectedOptionIndex === GHOSTING_OPTION) {
+          event.preventDefault();
+          this.stepGhosting(event.key === 'ArrowLeft' ? -1 : 1);
+          break;
+        }
+        const slider = this.volumeSliders.find(
+          (volumeSlider) => volumeSlider.optionIndex === this.selectedOptionIndex
+        );
+        if (slider) {
+          event.preventDefault();
+          const step = event.key === 'ArrowLeft' ? -VOLUME_STEP : VOLUME_STEP;
+          this.setVolume(slider.setting!, this.audioSettings[slider.setting!] + step);
+        }
+        break;
+      }
       case 'Enter':
       case ' ':
         event.preventDefault();
@@ -485,13 +864,31 @@ export class SettingsScene extends Scene {
    */
   private activateSelection(): void {
     switch (this.selectedOptionIndex) {
-      case 0:
-        this.selectPalette(ColorPalette.Blue);
+      case PALETTE_OPTION:
+        this.cyclePalette(1);
+        break;
+      case EDIT_PALETTE_OPTION:
+        this.openPaletteEditor();
+        break;
+      case GLYPHS_OPTION:
+        this.toggleCrateGlyphs();
+        break;
+      case GHOSTING_OPTION:
+        this.toggleGhosting();
+        break;
+      case MUTE_OPTION:
+        this.toggleMuteWhenHidden();
+        break;
+      case CONTROLS_OPTION:
+        this.onOpenControls?.();
+        break;
+      case EXPORT_OPTION:
+        this.onExportSave?.();
         break;
-      case 1:
-        this.selectPalette(ColorPalette.Amber);
+      case IMPORT_OPTION:
+        this.onImportSave?.();
         break;
-      case 2:
+      case BACK_OPTION:
         if (this.onBack) {
           this.onBack();
         }
@@ -505,9 +902,9 @@ export class SettingsScene extends Scene {
   override onEnter(): void {
     super.onEnter();
 
-    // Set initial selection based on current palette
-    const isBlue = this.lcdEffect.getCurrentPalette() === ColorPalette.Blue;
-    this.selectedOptionIndex = isBlue ? 0 : 1;
+    // Keeps the selection, so coming back from the controls or the palette
+    // editor lands on the option that opened them (reset() starts over)
+    this.draggedSlider = null;
     this.updateToggleStates();
     this.updateSelectionHighlight();
 
@@ -542,45 +939,20 @@ export class SettingsScene extends Scene {
       this.paletteLabel.style.fill = colors.foreground;
     }
 
-    // Update toggle options
-    if (this.blueOption) {
-      if (this.blueOption.radioBg) {
-        this.blueOption.radioBg.clear();
-        this.blueOption.radioBg.circle(-60, 0, 10);
-        this.blueOption.radioBg.fill({ color: colors.background });
-        this.blueOption.radioBg.stroke({ color: colors.foreground, width: 2 });
-      }
-      if (this.blueOption.textElement) {
-        this.blueOption.textElement.style.fill = colors.foreground;
-      }
+    if (this.statusText) {
+      this.statusText.style.fill = colors.foreground;
     }
 
-    if (this.amberOption) {
-      if (this.amberOption.radioBg) {
-        this.amberOption.radioBg.clear();
-        this.amberOption.radioBg.circle(-60, 0, 10);
-        this.amberOption.radioBg.fill({ color: colors.background });
-        this.amberOption.radioBg.stroke({ color: colors.foreground, width: 2 });
-      }
-      if (this.amberOption.textElement) {
-        this.amberOption.textElement.style.fill = colors.foreground;
+    // Update toggle options (their rings are redrawn with the selection highlight)
+    for (const option of [this.glyphsOption, this.muteOption]) {
+      if (option?.textElement) {
+        option.textElement.style.fill = colors.foreground;
       }
     }
 
     this.updateToggleStates();
 
-    // Update preview box
-    if (this.previewBox) {
-      this.previewBox.clear();
-      this.previewBox.rect(-80, -35, 160, 70);
-      this.previewBox.fill({ color: colors.background });
-      this.previewBox.stroke({ color: colors.foreground, width: 2 });
-    }
-
-    // Update preview elements
-    this.drawPreviewFloor(colors.foreground);
-    this.drawPreviewCharacter(colors.foreground);
-    this.drawPreviewCrate(colors.foreground);
+    this.preview?.setColors(colors);
 
     this.updateSelectionHighlight();
   }
@@ -589,8 +961,8 @@ export class SettingsScene extends Scene {
    * Reset the scene
    */
   reset(): void {
-    const isBlue = this.lcdEffect.getCurrentPalette() === ColorPalette.Blue;
-    this.selectedOptionIndex = isBlue ? 0 : 1;
+    this.selectedOptionIndex = PALETTE_OPTION;
+    this.showStatus('');
     this.updateToggleStates();
     this.updateSelectionHighlight();
   }
@@ -616,42 +988,51 @@ export class SettingsScene extends Scene {
       this.paletteLabel = null;
     }
 
-    if (this.blueOption) {
-      this.blueOption.destroy({ children: true });
-      this.blueOption = null;
+    if (this.glyphsOption) {
+      this.glyphsOption.destroy({ children: true });
+      this.glyphsOption = null;
     }
 
-    if (this.amberOption) {
-      this.amberOption.destroy({ children: true });
-      this.amberOption = null;
+    for (const slider of this.volumeSliders) {
+      slider.destroy({ children: true });
     }
+    this.volumeSliders = [];
+    this.draggedSlider = null;
 
-    if (this.previewBox) {
-      this.previewBox.destroy();
-      this.previewBox = null;
+    if (this.muteOption) {
+      this.muteOption.destroy({ children: true });
+      this.muteOption = null;
     }
 
-    if (this.previewCharacter) {
-      this.previewCharacter.destroy();
-      this.previewCharacter = null;
+    if (this.preview) {
+      this.preview.destroy({ children: true });
+      this.preview = null;
     }
 
-    if (this.previewCrate) {
-      this.previewCrate.destroy();
-      this.previewCrate = null;
+    if (this.statusText) {
+      this.statusText.destroy();
+      this.statusText = null;
     }
 
-    if (this.previewFloor) {
-      this.previewFloor.destroy();
-      this.previewFloor = null;
-    }
-
-    if (this.backButton) {
-      this.backButton.destroy({ children: true });
-      this.backButton = null;
+    for (const button of this.getButtons()) {
+      button?.destroy({ children: true });
     }
+    this.paletteButton = null;
+    this.editPaletteButton = null;
+    this.controlsButton = null;
+    this.exportButton = null;
+    this.importButton = null;
+    this.backButton = null;
 
     this.onBack = null;
+    this.onExportSave = null;
+    this.onImportSave = null;
+    this.onAudioSettingsChange = null;
+    this.onOpenControls = null;
+    this.onEditPalette = null;
+    this.onCrateGlyphsChange = null;
+    this.onGhostingChange = null;
+    this.onCustomPalettesChange = null;
 
     super.destroy();
   }
@@ -667,10 +1048,23 @@ interface ToggleOption extends Container {
   isSelected?: boolean;
 }
 
+/**
+ * Extended Container interface for volume sliders
+ */
+interface SliderContainer extends Container {
+  track?: Graphics;
+  labelElement?: Text;
+  valueElement?: Text;
+  optionIndex?: number;
+  setting?: VolumeSetting;
+}
+
 /**
  * Extended Container interface for button references
  */
 interface ButtonContainer extends Container {
   background?: Graphics;
   textElement?: Text;
+  optionIndex?: number;
+  buttonWidth?: number;
 }
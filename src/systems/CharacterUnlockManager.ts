@@ -1,6 +1,7 @@
 /**
  * Character Unlock Manager
- * Manages character unlock tracking within a game session
+ * Manages character unlock tracking and the progress behind it (highest level
+ * reached per character, best score), which is saved between sessions
  */
 
 import { EventEmitter } from 'pixi.js';
@@ -19,14 +20,27 @@ export interface UnlockEvent {
   value: number;
 }
 
+/**
+ * Unlock progress (serializable, saved between sessions)
+ */
+export interface UnlockProgress {
+  unlockedCharacterIds: number[];
+  highestLevelByCharacter: Record<number, number>; // Highest level reached with each character
+  bestScore: number; // Best single-run score, towards score-based unlocks
+}
+
 export class CharacterUnlockManager extends EventEmitter {
   private unlockedCharacterIds: number[];
   private notifiedUnlocks: Set<number>;
+  private highestLevelByCharacter: Record<number, number>;
+  private bestScore: number;
 
   constructor() {
     super();
     this.unlockedCharacterIds = getInitialUnlockedIds();
     this.notifiedUnlocks = new Set(this.unlockedCharacterIds);
+    this.highestLevelByCharacter = {};
+    this.bestScore = 0;
   }
 
   /**
@@ -77,6 +91,34 @@ export class CharacterUnlockManager extends EventEmitter {
     return newlyUnlocked;
   }
 
+  /**
+   * Record how far a run got, then unlock any characters it earned
+   * Returns array of newly unlocked characters
+   */
+  recordRun(characterId: number, level: number, score: number): CharacterConfig[] {
+    this.highestLevelByCharacter[characterId] = Math.max(
+      this.highestLevelByCharacter[characterId] ?? 0,
+      level
+    );
+    this.bestScore = Math.max(this.bestScore, score);
+
+    return this.checkAndUnlock({ level, score });
+  }
+
+  /**
+   * Get the highest level reached with a character (0 if never played)
+   */
+  getHighestLevel(characterId: number): number {
+    return this.highestLevelByCharacter[characterId] ?? 0;
+  }
+
+  /**
+   * Get the best single-run score
+   */
+  getBestScore(): number {
+    return this.bestScore;
+  }
+
   /**
    * Manually unlock a character (for testing or special scenarios)
    */
@@ -148,6 +190,8 @@ export class CharacterUnlockManager extends EventEmitter {
   reset(): void {
     this.unlockedCharacterIds = getInitialUnlockedIds();
     this.notifiedUnlocks = new Set(this.unlockedCharacterIds);
+    this.highestLevelByCharacter = {};
+    this.bestScore = 0;
   }
 
   /**
@@ -158,6 +202,36 @@ export class CharacterUnlockManager extends EventEmitter {
     this.notifiedUnlocks = new Set(unlockedIds);
   }
 
+  /**
+   * Get unlocks and the progress behind them (for saving between sessions)
+   */
+  getProgress(): UnlockProgress {
+    return {
+      unlockedCharacterIds: [...this.unlockedCharacterIds],
+      highestLevelByCharacter: { ...this.highestLevelByCharacter },
+      bestScore: this.bestScore,
+    };
+  }
+
+  /**
+   * Restore saved unlocks and progress
+   * Also grants (without notifying) anything the saved progress already earned,
+   * e.g. after unlock criteria were lowered
+   */
+  restoreProgress(progress: UnlockProgress): void {
+    const unlockedIds = [
+      ...new Set([...getInitialUnlockedIds(), ...progress.unlockedCharacterIds]),
+    ];
+    this.highestLevelByCharacter = { ...progress.highestLevelByCharacter };
+    this.bestScore = progress.bestScore;
+
+    const earned = getNewlyUnlockedCharacters(unlockedIds, {
+      level: Math.max(0, ...Object.values(this.highestLevelByCharacter)),
+      score: this.bestScore,
+    });
+    this.restoreState([...unlockedIds, ...earned.map((character) => character.id)]);
+  }
+
   /**
    * Get unlock progress summary
    */
@@ -2,19 +2,27 @@
  * Crane Manager System
  * Manages crane movement, crate dropping, and special block spawning
  * Cranes move horizontally carrying crates, then release them
+ * Pure model (no rendering) - drawn by CraneManagerView
  */
 
-import { Container, Texture } from 'pixi.js';
 import { Crane } from '../entities/Crane';
-import type { CraneConfig } from '../entities/Crane';
+import type { CraneConfig, CraneSnapshot } from '../entities/Crane';
 import { Crate } from '../entities/Crate';
-import { CrateType, CRATE_COLORS, type CrateColor } from '../types/entities';
+import type { CrateSnapshot } from '../entities/Crate';
+import type { CrateType, CrateColor } from '../types/entities';
 import type { GridConfig } from '../config/grid';
 import { getGridLeftX } from '../config/grid';
+import { DEFAULT_SPECIAL_BLOCK_RATE, DEFAULT_BOMB_RATE } from '../config/levels';
+import { createSpawnTable } from '../config/spawnTable';
+import type { SpawnTable } from '../types/config';
+import { CrateSpawner } from './CrateSpawner';
+import type { SpawnGuaranteeProgress } from './CrateSpawner';
+import { SeededRandom } from '../utils/SeededRandom';
 
 export interface CraneManagerConfig {
   gridConfig: GridConfig;
   craneTopY: number;
+  random?: SeededRandom; // Gameplay RNG; a randomly seeded one is created if omitted
 }
 
 export interface CrateDropInfo {
@@ -33,18 +41,16 @@ export interface AttachedCrateInfo {
 }
 
 /**
- * Special block spawn rate configuration
- * 5-10% chance for special blocks
+ * Serializable crane state (for mid-game save and resume)
  */
-const SPECIAL_BLOCK_SPAWN_RATE = {
-  min: 0.05, // 5%
-  max: 0.1, // 10%
-};
-
-/**
- * Bomb spawn rate - rare (2-3% chance)
- */
-const BOMB_SPAWN_RATE = 0.025; // 2.5%
+export interface CraneManagerSnapshot {
+  spawnTimer: number;
+  spawnInterval: number;
+  crateIdCounter: number;
+  cranes: CraneSnapshot[];
+  attachedCrates: { craneId: number; crate: CrateSnapshot }[];
+  spawnGuarantees?: SpawnGuaranteeProgress[];
+}
 
 /**
  * Default crane dimensions
@@ -57,30 +63,31 @@ const DEFAULT_CRANE_HEIGHT = 28; // 14 pixels * 2 scale
  */
 const DEFAULT_SPAWN_INTERVAL = 2000; // 2 seconds
 
-export class CraneManager extends Container {
+export class CraneManager {
   private config: CraneManagerConfig;
   private cranes: Crane[];
   private spawnTimer: number;
   private spawnInterval: number;
+  private crateSpawner: CrateSpawner;
   private gridLeftX: number;
+  private random: SeededRandom;
 
   // Track crates attached to each crane (by crane ID)
   private attachedCrates: Map<number, Crate>;
   private attachedCrateInfo: Map<number, AttachedCrateInfo>;
 
-  // Callback to create crate textures
-  private crateTextureCallback: ((type: CrateType, color?: CrateColor) => Texture | null) | null =
-    null;
-
   // Crate ID counter
   private crateIdCounter: number = 0;
 
   constructor(config: CraneManagerConfig) {
-    super();
     this.config = config;
     this.cranes = [];
     this.spawnTimer = 0;
     this.spawnInterval = DEFAULT_SPAWN_INTERVAL;
+    this.crateSpawner = new CrateSpawner(
+      createSpawnTable(DEFAULT_SPECIAL_BLOCK_RATE, DEFAULT_BOMB_RATE)
+    );
+    this.random = config.random ?? new SeededRandom();
 
     // Use centralized grid left position
     this.gridLeftX = getGridLeftX(config.gridConfig);
@@ -90,13 +97,6 @@ export class CraneManager extends Container {
     this.attachedCrateInfo = new Map();
   }
 
-  /**
-   * Set the callback for creating crate textures
-   */
-  setCrateTextureCallback(callback: (type: CrateType, color?: CrateColor) => Texture | null): void {
-    this.crateTextureCallback = callback;
-  }
-
   /**
    * Initialize cranes for a level
    */
@@ -114,11 +114,11 @@ export class CraneManager extends Container {
         cellWidth: this.config.gridConfig.cellWidth,
         gridLeftX: this.gridLeftX,
         gridColumns: this.config.gridConfig.columns,
+        random: this.random,
       };
 
       const crane = new Crane(craneConfig);
       this.cranes.push(crane);
-      this.addChild(crane);
     }
 
     // Reset spawn timer
@@ -129,10 +129,6 @@ export class CraneManager extends Container {
    * Clear all cranes
    */
   private clearCranes(): void {
-    for (const crane of this.cranes) {
-      this.removeChild(crane);
-      crane.destroy();
-    }
     this.cranes = [];
   }
 
@@ -150,6 +146,27 @@ export class CraneManager extends Container {
     return this.spawnInterval;
   }
 
+  /**
+   * Set the weighted table deciding the type and color of each dropped crate
+   */
+  setSpawnTable(table: SpawnTable): void {
+    this.crateSpawner.setTable(table);
+  }
+
+  /**
+   * Get the current spawn table
+   */
+  getSpawnTable(): SpawnTable {
+    return this.crateSpawner.getTable();
+  }
+
+  /**
+   * Get the gameplay random number generator
+   */
+  getRandom(): SeededRandom {
+    return this.random;
+  }
+
   /**
    * Update the crane manager
    * Returns an array of crate drop info for crates that should be released
@@ -169,13 +186,13 @@ export class CraneManager extends Container {
       const idleCranes = this.cranes.filter((c) => c.isIdle() && c.isActive());
       if (idleCranes.length > 0) {
         // Select random idle crane
-        const crane = idleCranes[Math.floor(Math.random() * idleCranes.length)];
+        const crane = this.random.pick(idleCranes);
 
         // Select random column
-        const targetColumn = Math.floor(Math.random() * this.config.gridConfig.columns);
+        const targetColumn = this.random.nextInt(this.config.gridConfig.columns);
 
         // Determine crate type and color
-        const { crateType, crateColor } = this.determineSpawnTypeAndColor();
+        const { crateType, crateColor } = this.crateSpawner.select(this.random);
 
         // Create attached crate
         this.createAttachedCrate(crane, crateType, crateColor);
@@ -217,7 +234,6 @@ export class CraneManager extends Container {
           });
 
           // Remove from attached tracking (crate will be managed by CrateManager now)
-          this.removeChild(crate);
           this.attachedCrates.delete(craneId);
           this.attachedCrateInfo.delete(craneId);
         }
@@ -240,21 +256,9 @@ export class CraneManager extends Container {
       color: crateColor,
     });
 
-    // Set texture if callback is available
-    if (this.crateTextureCallback) {
-      const texture = this.crateTextureCallback(crateType, crateColor);
-      if (texture) {
-        crate.texture = texture;
-      }
-    }
-
     // Position at crane's attachment point
     const attachPos = crane.getCrateAttachPosition();
     crate.setPosition(attachPos.x, attachPos.y);
-    crate.visible = true;
-
-    // Add to this container (will be visible with crane)
-    this.addChild(crate);
 
     // Track attached crate
     this.attachedCrates.set(crane.getId(), crate);
@@ -262,43 +266,10 @@ export class CraneManager extends Container {
   }
 
   /**
-   * Determine what type and color of crate to spawn
-   * - 2.5% chance for bomb
-   * - 5-10% chance for special blocks
-   * - Remaining chance for regular crates with random color
+   * Get the crates currently carried by cranes
    */
-  private determineSpawnTypeAndColor(): { crateType: CrateType; crateColor?: CrateColor } {
-    const random = Math.random();
-
-    // Check for bomb first (rare)
-    if (random < BOMB_SPAWN_RATE) {
-      return { crateType: CrateType.Bomb };
-    }
-
-    // Check for special blocks
-    const spawnRate = (SPECIAL_BLOCK_SPAWN_RATE.min + SPECIAL_BLOCK_SPAWN_RATE.max) / 2;
-    if (random < BOMB_SPAWN_RATE + spawnRate) {
-      return { crateType: this.selectRandomSpecialType() };
-    }
-
-    // Regular crate with random color
-    const crateColor = this.selectRandomColor();
-    return { crateType: CrateType.Regular, crateColor };
-  }
-
-  /**
-   * Select a random special block type
-   */
-  private selectRandomSpecialType(): CrateType {
-    const specialTypes = [CrateType.ExtraPoints, CrateType.SuperJump, CrateType.Helmet];
-    return specialTypes[Math.floor(Math.random() * specialTypes.length)];
-  }
-
-  /**
-   * Select a random color for regular crates
-   */
-  private selectRandomColor(): CrateColor {
-    return CRATE_COLORS[Math.floor(Math.random() * CRATE_COLORS.length)];
+  getAttachedCrates(): Crate[] {
+    return [...this.attachedCrates.values()];
   }
 
   /**
@@ -344,46 +315,67 @@ export class CraneManager extends Container {
   }
 
   /**
-   * Reset the crane manager
+   * Capture cranes, spawn timing and the crates they carry
    */
-  reset(): void {
-    this.spawnTimer = 0;
+  getSnapshot(): CraneManagerSnapshot {
+    return {
+      spawnTimer: this.spawnTimer,
+      spawnInterval: this.spawnInterval,
+      crateIdCounter: this.crateIdCounter,
+      cranes: this.cranes.map((crane) => crane.getSnapshot()),
+      attachedCrates: [...this.attachedCrates].map(([craneId, crate]) => ({
+        craneId,
+        crate: crate.getSnapshot(),
+      })),
+      spawnGuarantees: this.crateSpawner.getProgress(),
+    };
+  }
+
+  /**
+   * Replace cranes and carried crates with a snapshot
+   */
+  restoreSnapshot(snapshot: CraneManagerSnapshot): void {
+    this.initializeCranes(snapshot.cranes.length);
+    this.cranes.forEach((crane, i) => crane.restoreSnapshot(snapshot.cranes[i]));
 
-    // Clear attached crates
-    for (const crate of this.attachedCrates.values()) {
-      this.removeChild(crate);
-      crate.destroy();
-    }
     this.attachedCrates.clear();
     this.attachedCrateInfo.clear();
-
-    for (const crane of this.cranes) {
-      crane.reset();
+    for (const { craneId, crate: crateSnapshot } of snapshot.attachedCrates) {
+      const crate = Crate.fromSnapshot(crateSnapshot);
+      this.attachedCrates.set(craneId, crate);
+      this.attachedCrateInfo.set(craneId, {
+        crateType: crate.getCrateType(),
+        crateColor: crate.getColor() ?? undefined,
+      });
     }
+
+    this.spawnTimer = snapshot.spawnTimer;
+    this.spawnInterval = snapshot.spawnInterval;
+    this.crateIdCounter = snapshot.crateIdCounter;
   }
 
   /**
-   * Destroy the crane manager and all cranes
+   * Restore the spawn table's guarantee progress from a snapshot
+   * Call after the level's spawn table has been set
    */
-  destroy(): void {
-    // Clear attached crates
-    for (const crate of this.attachedCrates.values()) {
-      crate.destroy();
+  restoreSpawnProgress(snapshot: CraneManagerSnapshot): void {
+    if (snapshot.spawnGuarantees) {
+      this.crateSpawner.restoreProgress(snapshot.spawnGuarantees);
     }
-    this.attachedCrates.clear();
-    this.attachedCrateInfo.clear();
-
-    this.clearCranes();
-    super.destroy();
   }
 
   /**
-   * Set both closed and open textures for all cranes
+   * Reset the crane manager
    */
-  setCraneTextures(closedTexture: Texture, openTexture: Texture): void {
+  reset(): void {
+    this.spawnTimer = 0;
+
+    // Clear attached crates
+    this.attachedCrates.clear();
+    this.attachedCrateInfo.clear();
+
     for (const crane of this.cranes) {
-      crane.setTexture(closedTexture);
-      crane.setOpenTexture(openTexture);
+      crane.reset();
     }
   }
 }
@@ -2,14 +2,16 @@
  * Crate Manager System
  * Manages crate physics, stacking, collision detection, and line clearing
  * Optimized for performance with efficient collision detection
+ * Pure model (no rendering) - drawn by CrateManagerView
  */
 
-import { Container } from 'pixi.js';
 import { Crate } from '../entities/Crate';
+import type { CrateSnapshot } from '../entities/Crate';
 import { CrateType, type CrateColor } from '../types/entities';
 import type { Character } from '../entities/Character';
 import { getGridLeftX } from '../config/grid';
 import { MatchDetector } from './MatchDetector';
+import { SeededRandom } from '../utils/SeededRandom';
 
 export interface CrateManagerConfig {
   gridColumns: number;
@@ -17,6 +19,7 @@ export interface CrateManagerConfig {
   cellWidth: number;
   cellHeight: number;
   groundY: number;
+  random?: SeededRandom; // Gameplay RNG; a randomly seeded one is created if omitted
 }
 
 export interface CollisionResult {
@@ -44,6 +47,30 @@ export interface BombExplosionResult {
   clearedCrates: Crate[];
 }
 
+export type CrateEventType =
+  | 'crateReleased'
+  | 'crateLanded'
+  | 'cratesPushed'
+  | 'bombTick'
+  | 'bombExploded';
+
+export interface CrateEvent {
+  type: CrateEventType;
+  crate: Crate;
+}
+
+type CrateEventListener = (event: CrateEvent) => void;
+
+/**
+ * Serializable crate grid state (for mid-game save and resume)
+ * Grid cells reference crates by ID
+ */
+export interface CrateManagerSnapshot {
+  crateIdCounter: number;
+  crates: CrateSnapshot[];
+  grid: (string | null)[][];
+}
+
 /**
  * Point values for line clears
  */
@@ -54,7 +81,7 @@ const LINE_CLEAR_POINTS = {
   quadruple: 800,
 };
 
-export class CrateManager extends Container {
+export class CrateManager {
   private config: CrateManagerConfig;
   private crates: Crate[];
   private grid: (Crate | null)[][];
@@ -68,11 +95,16 @@ export class CrateManager extends Container {
   // Match detector for match-3 mechanics
   private matchDetector: MatchDetector;
 
+  // Shared gameplay RNG
+  private random: SeededRandom;
+
+  private listeners: Map<CrateEventType, CrateEventListener[]> = new Map();
+
   constructor(config: CrateManagerConfig) {
-    super();
     this.config = config;
     this.crates = [];
     this.crateIdCounter = 0;
+    this.random = config.random ?? new SeededRandom();
 
     // Initialize empty grid
     this.grid = Array.from({ length: config.gridRows }, () =>
@@ -140,7 +172,6 @@ export class CrateManager extends Container {
     crate.setPosition(this.getColumnCenterX(column), 0);
 
     this.crates.push(crate);
-    this.addChild(crate);
 
     return crate;
   }
@@ -150,7 +181,7 @@ export class CrateManager extends Container {
    */
   addExistingCrate(crate: Crate): void {
     this.crates.push(crate);
-    this.addChild(crate);
+    this.emitEvent({ type: 'crateReleased', crate });
   }
 
   /**
@@ -212,6 +243,8 @@ export class CrateManager extends Container {
     if (crate.isBomb()) {
       crate.startBombTimer();
     }
+
+    this.emitEvent({ type: 'crateLanded', crate });
   }
 
   /**
@@ -233,9 +266,6 @@ export class CrateManager extends Container {
       this.crates.splice(index, 1);
     }
 
-    // Remove from display
-    this.removeChild(crate);
-
     // Return to pool instead of destroying
     this.returnCrateToPool(crate);
   }
@@ -247,7 +277,6 @@ export class CrateManager extends Container {
     const column = crate.getGridColumn();
     const crateY = crate.y;
     const crateBottomY = crateY; // Anchor is at bottom
-    const crateHeight = this.config.crateSize;
 
     // Check ground collision first (most common)
     if (crateBottomY >= this.config.groundY) {
@@ -274,38 +303,16 @@ export class CrateManager extends Container {
       }
     }
 
-    // Check collision with other falling crates in the same column
-    for (const other of this.crates) {
-      if (other === crate) continue;
-      if (other.getGridColumn() !== column) continue;
-      if (!other.isFalling()) continue;
-
-      // Check if this crate is above the other and they overlap
-      const otherTopY = other.y - crateHeight;
-      if (crateBottomY >= otherTopY && crate.y < other.y) {
-        // This crate landed on top of the other falling crate
-        // The lower crate will handle its own landing, so we stop this one just above
-        const landingY = otherTopY;
-        const landingRow = Math.max(0, Math.floor((this.config.groundY - landingY) / crateHeight));
-        return {
-          collidedWithGround: false,
-          collidedWithCrate: true,
-          landingRow: Math.min(landingRow, this.config.gridRows - 1),
-          landingY: landingY,
-        };
-      }
-    }
-
     // Check collision with sliding crates in the same column
     for (const other of this.crates) {
       if (other === crate) continue;
       if (!other.isSliding()) continue;
 
       // Check if sliding crate is in or moving through this column
-      const otherColumn = Math.round((other.x - this.config.leftMargin) / this.config.crateSize);
+      const otherColumn = Math.floor((other.x - this.gameAreaLeft) / this.config.cellWidth);
       if (otherColumn !== column) continue;
 
-      const otherTopY = other.y - crateHeight;
+      const otherTopY = other.y - this.config.cellHeight;
       if (crateBottomY >= otherTopY) {
         const landingRow = other.getGridRow() + 1;
         if (landingRow < this.config.gridRows) {
@@ -327,6 +334,25 @@ export class CrateManager extends Container {
     };
   }
 
+  /**
+   * Keep a falling crate resting on top of another falling crate in the same column
+   * (the lower crate handles the landing; the upper one rides on it until then)
+   */
+  private stayAboveFallingCrates(crate: Crate): void {
+    const column = crate.getGridColumn();
+
+    for (const other of this.crates) {
+      if (other === crate) continue;
+      if (other.getGridColumn() !== column) continue;
+      if (!other.isFalling()) continue;
+
+      const otherTopY = other.y - this.config.cellHeight;
+      if (crate.y >= otherTopY && crate.y < other.y) {
+        crate.setPosition(crate.x, otherTopY);
+      }
+    }
+  }
+
   /**
    * Get all crates that have no support below them
    */
@@ -440,7 +466,7 @@ export class CrateManager extends Container {
   }
 
   /**
-   * Detect and clear color matches (3+ in a row)
+   * Detect and clear color matches (3+ in a row, L/T/plus shapes and 2x2 squares)
    * Returns points awarded and crates cleared
    */
   detectAndClearMatches(): MatchClearResult {
@@ -525,6 +551,8 @@ export class CrateManager extends Container {
         clearedCrates.push(bomb);
         this.grid[row][col] = null;
       }
+
+      this.emitEvent({ type: 'bombExploded', crate: bomb });
     }
 
     return {
@@ -544,8 +572,10 @@ export class CrateManager extends Container {
   /**
    * Process gravity for unsupported crates after line clear
    * Immediately moves crates to their new positions (no animation)
+   * Returns true if any crate fell
    */
-  processGravity(): void {
+  processGravity(): boolean {
+    let anyMoved = false;
     // Keep processing until no crates move (handle cascading)
     let moved = true;
     while (moved) {
@@ -570,10 +600,13 @@ export class CrateManager extends Container {
             crate.land(this.getRowBottomY(targetRow));
 
             moved = true;
+            anyMoved = true;
           }
         }
       }
     }
+
+    return anyMoved;
   }
 
   /**
@@ -699,6 +732,10 @@ export class CrateManager extends Container {
         crate.startBeingPushed(direction, targetX);
       }
     }
+
+    if (sortedCrates.length > 0) {
+      this.emitEvent({ type: 'cratesPushed', crate: sortedCrates[sortedCrates.length - 1] });
+    }
   }
 
   /**
@@ -884,6 +921,7 @@ export class CrateManager extends Container {
     for (const crate of this.crates) {
       if (crate.isFalling()) {
         crate.update(deltaTime);
+        this.stayAboveFallingCrates(crate);
 
         // Check for collision
         const collision = this.checkCollisions(crate);
@@ -909,7 +947,17 @@ export class CrateManager extends Container {
         crate.update(deltaTime);
       } else if (crate.isLanded()) {
         // Update landed crates (for bomb timer updates)
+        const secondsLeft = crate.getBombSecondsLeft();
         crate.update(deltaTime);
+
+        // One tick per second of the fuse; the last second ends in the explosion
+        if (
+          crate.isBombTicking() &&
+          !crate.shouldExplode() &&
+          crate.getBombSecondsLeft() < secondsLeft
+        ) {
+          this.emitEvent({ type: 'bombTick', crate });
+        }
       }
     }
 
@@ -986,13 +1034,49 @@ export class CrateManager extends Container {
     return { ...this.config };
   }
 
+  /**
+   * Get the gameplay random number generator
+   */
+  getRandom(): SeededRandom {
+    return this.random;
+  }
+
+  /**
+   * Capture all crates and the grid occupancy
+   */
+  getSnapshot(): CrateManagerSnapshot {
+    return {
+      crateIdCounter: this.crateIdCounter,
+      crates: this.crates.map((crate) => crate.getSnapshot()),
+      grid: this.grid.map((row) => row.map((crate) => (crate ? crate.getId() : null))),
+    };
+  }
+
+  /**
+   * Replace all crates and the grid with a snapshot
+   */
+  restoreSnapshot(snapshot: CrateManagerSnapshot): void {
+    this.reset();
+
+    this.crates = snapshot.crates.map((crateSnapshot) => Crate.fromSnapshot(crateSnapshot));
+    const cratesById = new Map(this.crates.map((crate) => [crate.getId(), crate]));
+
+    for (let row = 0; row < this.config.gridRows; row++) {
+      for (let column = 0; column < this.config.gridColumns; column++) {
+        const id = snapshot.grid[row]?.[column];
+        this.grid[row][column] = id ? (cratesById.get(id) ?? null) : null;
+      }
+    }
+
+    this.crateIdCounter = snapshot.crateIdCounter;
+  }
+
   /**
    * Reset the crate manager
    */
   reset(): void {
     // Return all crates to pool instead of destroying
     for (const crate of this.crates) {
-      this.removeChild(crate);
       this.returnCrateToPool(crate);
     }
     this.crates = [];
@@ -1005,6 +1089,45 @@ export class CrateManager extends Container {
     this.crateIdCounter = 0;
   }
 
+  /**
+   * Add an event listener
+   */
+  addListener(eventType: CrateEventType, listener: CrateEventListener): void {
+    if (!this.listeners.has(eventType)) {
+      this.listeners.set(eventType, []);
+    }
+    this.listeners.get(eventType)!.push(listener);
+  }
+
+  /**
+   * Remove an event listener
+   */
+  removeListener(eventType: CrateEventType, listener: CrateEventListener): void {
+    const eventListeners = this.listeners.get(eventType);
+    if (eventListeners) {
+      const index = eventListeners.indexOf(listener);
+      if (index !== -1) {
+        eventListeners.splice(index, 1);
+      }
+    }
+  }
+
+  /**
+   * Emit an event to all listeners
+   */
+  private emitEvent(event: CrateEvent): void {
+    const eventListeners = this.listeners.get(event.type);
+    if (eventListeners) {
+      for (const listener of eventListeners) {
+        try {
+          listener(event);
+        } catch (error) {
+          console.error(`Error in crate event listener for ${event.type}:`, error);
+        }
+      }
+    }
+  }
+
   /**
    * Get the number of crates currently in the game
    */
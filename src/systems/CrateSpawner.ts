@@ -0,0 +1,147 @@
+/**
+ * Crate Spawner
+ * Decides the type and color of each crate a crane drops, from the level's
+ * weighted spawn table, and keeps track of the table's guarantees
+ */
+
+import { CrateType, CRATE_COLORS, type CrateColor } from '../types/entities';
+import { CRATE_TYPES } from '../config/spawnTable';
+import type { SpawnTable } from '../types/config';
+import type { SeededRandom } from '../utils/SeededRandom';
+
+/**
+ * Pick a key from a weight map with a single random draw
+ * Returns undefined if no key has a weight above zero
+ */
+function pickWeighted<K extends string>(
+  keys: readonly K[],
+  weights: Partial<Record<K, number>>,
+  random: SeededRandom
+): K | undefined {
+  const candidates = keys.filter((key) => (weights[key] ?? 0) > 0);
+  if (candidates.length === 0) {
+    return undefined;
+  }
+
+  const total = candidates.reduce((sum, key) => sum + weights[key]!, 0);
+  let roll = random.next() * total;
+  for (const key of candidates) {
+    roll -= weights[key]!;
+    if (roll < 0) {
+      return key;
+    }
+  }
+  return candidates[candidates.length - 1];
+}
+
+/**
+ * Progress of each guarantee through its current block of crates
+ */
+export interface SpawnGuaranteeProgress {
+  spawned: number; // Crates of the guaranteed type dropped in this block
+  dropped: number; // Crates dropped in this block
+}
+
+/**
+ * Picks crate types and colors from a spawn table, enforcing its guarantees
+ */
+export class CrateSpawner {
+  private table: SpawnTable;
+  private progress: SpawnGuaranteeProgress[];
+
+  constructor(table: SpawnTable) {
+    this.table = table;
+    this.progress = this.createProgress();
+  }
+
+  /**
+   * Switch to a new table (guarantee progress starts over)
+   */
+  setTable(table: SpawnTable): void {
+    this.table = table;
+    this.progress = this.createProgress();
+  }
+
+  /**
+   * Get the current table
+   */
+  getTable(): SpawnTable {
+    return this.table;
+  }
+
+  /**
+   * Pick the type (and color, for regular crates) of the next crate
+   */
+  select(random: SeededRandom): { crateType: CrateType; crateColor?: CrateColor } {
+    const crateType =
+      this.findDueGuarantee() ??
+      pickWeighted(CRATE_TYPES, this.table.types, random) ??
+      CrateType.Regular;
+
+    this.recordDrop(crateType);
+
+    if (crateType !== CrateType.Regular) {
+      return { crateType };
+    }
+
+    const crateColor = this.table.colors
+      ? (pickWeighted(CRATE_COLORS, this.table.colors, random) ?? random.pick(CRATE_COLORS))
+      : random.pick(CRATE_COLORS);
+    return { crateType, crateColor };
+  }
+
+  /**
+   * Get guarantee progress (for snapshots)
+   */
+  getProgress(): SpawnGuaranteeProgress[] {
+    return this.progress.map((entry) => ({ ...entry }));
+  }
+
+  /**
+   * Restore guarantee progress from a snapshot
+   * Ignored if it does not match the current table's guarantees
+   */
+  restoreProgress(progress: SpawnGuaranteeProgress[]): void {
+    if (progress.length === this.progress.length) {
+      this.progress = progress.map((entry) => ({ ...entry }));
+    }
+  }
+
+  /**
+   * Find a guarantee whose block is about to end without enough crates of its type
+   */
+  private findDueGuarantee(): CrateType | undefined {
+    const guarantees = this.table.guarantees ?? [];
+    for (let i = 0; i < guarantees.length; i++) {
+      const { type, count, per } = guarantees[i];
+      const { spawned, dropped } = this.progress[i];
+      const missing = count - spawned;
+      if (missing > 0 && per - dropped <= missing) {
+        return type;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Count a dropped crate towards every guarantee's block
+   */
+  private recordDrop(crateType: CrateType): void {
+    const guarantees = this.table.guarantees ?? [];
+    guarantees.forEach((guarantee, i) => {
+      const entry = this.progress[i];
+      entry.dropped++;
+      if (crateType === guarantee.type) {
+        entry.spawned++;
+      }
+      if (entry.dropped >= guarantee.per) {
+        entry.dropped = 0;
+        entry.spawned = 0;
+      }
+    });
+  }
+
+  private createProgress(): SpawnGuaranteeProgress[] {
+    return (this.table.guarantees ?? []).map(() => ({ spawned: 0, dropped: 0 }));
+  }
+}
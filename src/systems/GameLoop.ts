@@ -16,16 +16,20 @@ export class GameLoop {
 
   private readonly targetFPS: number = 60;
   private readonly fixedTimeStep: number = 1000 / 60; // 16.67ms for 60 FPS
+  private readonly maxFrameTime: number = 250; // Clamp long stalls (e.g. hidden tab) to avoid catch-up spirals
   private accumulator: number = 0;
   private lastTime: number = 0;
   private isPaused: boolean = false;
+  private tickCount: number = 0;
+  private boundTick: () => void;
 
   constructor(app: Application) {
     this.app = app;
     this.ticker = this.app.ticker;
     this.ticker.maxFPS = this.targetFPS;
 
-    this.ticker.add(this.tick.bind(this));
+    this.boundTick = this.tick.bind(this);
+    this.ticker.add(this.boundTick);
   }
 
   /**
@@ -37,7 +41,7 @@ export class GameLoop {
     }
 
     const currentTime = performance.now();
-    const deltaTime = currentTime - this.lastTime;
+    const deltaTime = Math.min(currentTime - this.lastTime, this.maxFrameTime);
     this.lastTime = currentTime;
 
     // Accumulate time for fixed timestep updates
@@ -47,6 +51,7 @@ export class GameLoop {
     while (this.accumulator >= this.fixedTimeStep) {
       this.update(this.fixedTimeStep / 1000); // Convert to seconds
       this.accumulator -= this.fixedTimeStep;
+      this.tickCount++;
     }
 
     // Render with interpolation factor if needed
@@ -154,6 +159,20 @@ export class GameLoop {
     return this.isPaused;
   }
 
+  /**
+   * Get the number of fixed-step updates executed since the loop was created
+   */
+  getTickCount(): number {
+    return this.tickCount;
+  }
+
+  /**
+   * Get the fixed timestep in seconds
+   */
+  getFixedTimeStep(): number {
+    return this.fixedTimeStep / 1000;
+  }
+
   /**
    * Get current FPS
    */
@@ -173,7 +192,7 @@ export class GameLoop {
    * Destroy the game loop
    */
   destroy(): void {
-    this.ticker.remove(this.tick.bind(this));
+    this.ticker.remove(this.boundTick);
     this.clearCallbacks();
   }
 }
@@ -0,0 +1,1202 @@
+/**
+ * Game Simulation
+ * Headless simulation core: runs the complete gameplay rules (character physics,
+ * cranes, crate grid, pushing, matches, bombs, special blocks, scoring and levels)
+ * without a renderer. GameScene drives one instance and syncs its views from it;
+ * balancing and regression tools can run thousands of games in Node.
+ *
+ * Everything time-dependent runs on simulation time, so a run is fully determined
+ * by its seed, character, start level, game mode and per-tick input.
+ */
+
+import { Character } from '../entities/Character';
+import type { Crate } from '../entities/Crate';
+import { CrateManager } from './CrateManager';
+import { CraneManager } from './CraneManager';
+import { SpecialBlockManager } from './SpecialBlockManager';
+import { ScoreManager } from './ScoreManager';
+import { LevelManager } from './LevelManager';
+import { InputAction, GameMode } from '../types/game';
+import type { InputState } from '../types/game';
+import type { CharacterConfig } from '../types/config';
+import type { GridConfig } from '../config/grid';
+import type { LevelPack } from '../config/levelPack';
+import { DEFAULT_GRID_CONFIG, getGridLeftX, getGridRightX } from '../config/grid';
+import { getCharacterById } from '../config/characters';
+import { SeededRandom, generateSeed } from '../utils/SeededRandom';
+import { GAME_SNAPSHOT_VERSION } from './GameSnapshot';
+import type { GameSnapshot } from './GameSnapshot';
+
+/**
+ * Crane bottom Y in the default layout (ceiling + rail + crane below the HUD)
+ */
+export const DEFAULT_CRANE_TOP_Y = 77;
+
+/**
+ * Fixed simulation step used by runSimulation (seconds)
+ */
+const FIXED_TIME_STEP = 1 / 60;
+
+export interface GameSimulationConfig {
+  gridConfig?: GridConfig;
+  craneTopY?: number;
+  levelPack?: LevelPack; // Levels to play (default: the bundled pack)
+}
+
+export class GameSimulation {
+  private gridConfig: GridConfig;
+  private craneTopY: number;
+  private random: SeededRandom;
+  private scoreManager: ScoreManager;
+  private levelManager: LevelManager;
+
+  // Per-run entities and systems (recreated on start)
+  private character: Character | null = null;
+  private crateManager: CrateManager | null = null;
+  private craneManager: CraneManager | null = null;
+  private specialBlockManager: SpecialBlockManager | null = null;
+
+  // Run state
+  private tick: number = 0;
+  private elapsedMs: number = 0;
+  private running: boolean = false;
+  private gameOver: boolean = false;
+  private levelComplete: boolean = false;
+  private specialBlocksActivated: number = 0;
+
+  // Track if movement key is actively pressed (used for push detection)
+  private isMovementKeyPressed: boolean = false;
+
+  // Performance optimization: track if line check is needed
+  private pendingLineCheck: boolean = false;
+
+  constructor(config: GameSimulationConfig = {}) {
+    this.gridConfig = config.gridConfig ?? DEFAULT_GRID_CONFIG;
+    this.craneTopY = config.craneTopY ?? DEFAULT_CRANE_TOP_Y;
+    this.random = new SeededRandom();
+    this.scoreManager = new ScoreManager();
+    this.levelManager = new LevelManager(config.levelPack);
+
+    this.levelManager.addListener('levelComplete', (event) => {
+      this.handleLevelComplete(event.level, event.bonusPoints || 0);
+    });
+  }
+
+  /**
+   * Start a new run
+   * Pass a seed to replay an exact crate sequence; a fresh one is generated otherwise
+   */
+  start(
+    characterConfig: CharacterConfig,
+    startLevel: number = 1,
+    seed: number = generateSeed(),
+    mode: GameMode = GameMode.Classic
+  ): void {
+    this.random.reseed(seed);
+    this.createRun(characterConfig);
+    this.levelManager.setMode(mode);
+
+    // Character starts at the center-bottom of the play area
+    const centerX = (getGridLeftX(this.gridConfig) + getGridRightX(this.gridConfig)) / 2;
+    this.character!.setPosition(centerX, this.gridConfig.groundY);
+    this.character!.setOnGround(true);
+
+    this.levelManager.startLevel(startLevel);
+    this.setUpCranesForLevel();
+
+    this.running = true;
+  }
+
+  /**
+   * Resume a run from a snapshot
+   * Returns false if the snapshot references an unknown character or level
+   */
+  restoreSnapshot(snapshot: GameSnapshot): boolean {
+    const characterConfig = getCharacterById(snapshot.character.characterId);
+    if (!characterConfig) {
+      return false;
+    }
+
+    this.random.reseed(snapshot.seed);
+    this.createRun(characterConfig);
+
+    if (!this.levelManager.restoreState(snapshot.level)) {
+      this.reset();
+      return false;
+    }
+
+    this.random.setState(snapshot.randomState);
+    this.tick = snapshot.tick;
+    this.elapsedMs = snapshot.elapsedMs;
+    this.specialBlocksActivated = snapshot.specialBlocksActivated;
+    this.pendingLineCheck = snapshot.pendingLineCheck;
+    this.levelComplete = snapshot.levelComplete;
+
+    this.character!.restoreSnapshot(snapshot.character);
+    this.crateManager!.restoreSnapshot(snapshot.crates);
+    this.craneManager!.restoreSnapshot(snapshot.cranes);
+    this.craneManager!.setSpawnTable(this.levelManager.getCurrentSpawnTable());
+    this.craneManager!.restoreSpawnProgress(snapshot.cranes);
+    this.specialBlockManager!.restoreEffectState(snapshot.effects);
+    this.scoreManager.restoreSessionStats(snapshot.score);
+    this.scoreManager.restoreChainDepth(snapshot.chainDepth);
+
+    this.running = true;
+    return true;
+  }
+
+  /**
+   * Capture the complete state of the current run (null if no run is in progress)
+   */
+  createSnapshot(): GameSnapshot | null {
+    if (
+      !this.isRunning() ||
+      !this.character ||
+      !this.crateManager ||
+      !this.craneManager ||
+      !this.specialBlockManager
+    ) {
+      return null;
+    }
+
+    return {
+      version: GAME_SNAPSHOT_VERSION,
+      savedAt: new Date().toISOString(),
+      seed: this.random.getSeed(),
+      randomState: this.random.getState(),
+      tick: this.tick,
+      elapsedMs: this.elapsedMs,
+      specialBlocksActivated: this.specialBlocksActivated,
+      pendingLineCheck: this.pendingLineCheck,
+      levelComplete: this.levelComplete,
+      character: this.character.getSnapshot(),
+      crates: this.crateManager.getSnapshot(),
+      cranes: this.craneManager.getSnapshot(),
+      effects: this.specialBlockManager.getEffectState(),
+      score: this.scoreManager.getSessionStats(),
+      chainDepth: this.scoreManager.getChainDepth(),
+      level: this.levelManager.getState(),
+    };
+  }
+
+  /**
+   * Reset run state and create fresh entities and systems for a run
+   */
+  private createRun(characterConfig: CharacterConfig): void {
+    this.tick = 0;
+    this.elapsedMs = 0;
+    this.gameOver = false;
+    this.levelComplete = false;
+    this.specialBlocksActivated = 0;
+    this.isMovementKeyPressed = false;
+    this.pendingLineCheck = false;
+
+    this.scoreManager.reset();
+    this.levelManager.reset();
+
+    const clock = () => this.elapsedMs;
+
+    this.character = new Character(characterConfig, clock);
+
+    this.crateManager = new CrateManager({
+      gridColumns: this.gridConfig.columns,
+      gridRows: this.gridConfig.rows,
+      cellWidth: this.gridConfig.cellWidth,
+      cellHeight: this.gridConfig.cellHeight,
+      groundY: this.gridConfig.groundY,
+      random: this.random,
+    });
+
+    this.craneManager = new CraneManager({
+      gridConfig: this.gridConfig,
+      craneTopY: this.craneTopY,
+      random: this.random,
+    });
+
+    this.specialBlockManager = new SpecialBlockManager({ clock });
+  }
+
+  /**
+   * Stop the current run
+   */
+  stop(): void {
+    this.running = false;
+  }
+
+  /**
+   * Configure crane count, drop rate and spawn table for the current level
+   */
+  private setUpCranesForLevel(): void {
+    if (!this.craneManager) {
+      return;
+    }
+
+    this.craneManager.initializeCranes(this.levelManager.getCurrentCraneCount());
+    this.craneManager.setSpawnInterval(this.levelManager.getCurrentSpawnInterval());
+    this.craneManager.setSpawnTable(this.levelManager.getCurrentSpawnTable());
+  }
+
+  /**
+   * Set the level pack used by runs started from now on
+   */
+  setLevelPack(levelPack: LevelPack): void {
+    this.levelManager.setLevelPack(levelPack);
+  }
+
+  /**
+   * Get the game mode of the current run
+   */
+  getMode(): GameMode {
+    return this.levelManager.getMode();
+  }
+
+  /**
+   * Advance one simulation step with the given input
+   */
+  step(input: InputState, deltaTime: number): void {
+    if (!this.running || this.gameOver) {
+      return;
+    }
+
+    this.elapsedMs += deltaTime * 1000;
+
+    this.processInput(input, deltaTime);
+    this.updateCharacter(deltaTime);
+    this.updateCranes(deltaTime);
+    this.updateCrates(deltaTime);
+    this.checkCollisions();
+
+    if (this.specialBlockManager) {
+      this.specialBlockManager.update(deltaTime);
+    }
+
+    this.checkGameOverCondition();
+
+    this.tick++;
+  }
+
+  /**
+   * Apply player input to the character
+   */
+  private processInput(input: InputState, deltaTime: number): void {
+    if (!this.character) {
+      return;
+    }
+
+    const movingLeft = input[InputAction.MoveLeft];
+    const movingRight = input[InputAction.MoveRight];
+
+    this.isMovementKeyPressed = movingLeft || movingRight;
+
+    if (movingLeft) {
+      this.character.moveLeft(deltaTime);
+    }
+    if (movingRight) {
+      this.character.moveRight(deltaTime);
+    }
+
+    // If no horizontal movement input, stop moving (apply friction)
+    if (!movingLeft && !movingRight) {
+      this.character.stopMoving();
+    }
+
+    // Holding jump keeps re-pressing it; a press released in the air still jumps on landing
+    if (input[InputAction.Jump]) {
+      this.character.jump();
+    } else {
+      this.character.applyBufferedJump();
+    }
+  }
+
+  /**
+   * Update character physics and boundaries
+   */
+  private updateCharacter(deltaTime: number): void {
+    if (!this.character) {
+      return;
+    }
+
+    const groundY = this.gridConfig.groundY;
+
+    // Save ground state BEFORE resetting - used for friction calculation
+    this.character.saveGroundState();
+
+    // Reset onGround before collision checks - gravity will apply if not on a surface
+    // Only reset if not on the actual floor
+    if (this.character.y < groundY) {
+      this.character.setOnGround(false);
+    }
+
+    this.character.update(deltaTime);
+
+    // Keep character within bounds
+    const gridLeft = getGridLeftX(this.gridConfig);
+    const gridRight = getGridRightX(this.gridConfig);
+    const charWidth = this.character.width / 2;
+
+    if (this.character.x - charWidth < gridLeft) {
+      this.character.x = gridLeft + charWidth;
+    }
+    if (this.character.x + charWidth > gridRight) {
+      this.character.x = gridRight - charWidth;
+    }
+
+    // Check collision with crates - will re-set onGround if standing on a crate
+    this.checkCharacterCrateCollisions(deltaTime);
+
+    // Ground collision
+    if (this.character.y >= groundY) {
+      this.character.y = groundY;
+      this.character.setOnGround(true);
+    }
+  }
+
+  /**
+   * Check and resolve character-crate collisions with push-on-move mechanics
+   */
+  private checkCharacterCrateCollisions(deltaTime: number): void {
+    if (!this.character || !this.crateManager) {
+      return;
+    }
+
+    // Reset pushing state at start - will be set if pushing happens
+    this.character.stopPushing();
+
+    // Track crates being actively pushed this frame
+    const activelyPushedCrates = new Set<Crate>();
+
+    const allCrates = this.crateManager.getAllCrates();
+    if (allCrates.length === 0) {
+      return;
+    }
+
+    // Track if character was blocked horizontally - stop processing more horizontal collisions
+    let horizontallyBlocked = false;
+
+    const charBounds = this.character.getCollisionBounds();
+    const charVelocity = this.character.getVelocity();
+
+    for (const crate of allCrates) {
+      const crateBounds = crate.getCollisionBounds();
+
+      // Check for overlap
+      // Use >= for bottom edge check to detect collision when standing exactly on top of a crate
+      // This prevents flickering between Idle and Falling states when character.y == crateBounds.y
+      const overlapX =
+        charBounds.x < crateBounds.x + crateBounds.width &&
+        charBounds.x + charBounds.width > crateBounds.x;
+      const overlapY =
+        charBounds.y < crateBounds.y + crateBounds.height &&
+        charBounds.y + charBounds.height >= crateBounds.y;
+
+      if (overlapX && overlapY) {
+        // Calculate overlap amounts
+        const charCenterX = charBounds.x + charBounds.width / 2;
+        const crateCenterX = crateBounds.x + crateBounds.width / 2;
+        const charCenterY = charBounds.y + charBounds.height / 2;
+        const crateCenterY = crateBounds.y + crateBounds.height / 2;
+
+        // Determine collision direction based on relative positions
+        const overlapLeft = charBounds.x + charBounds.width - crateBounds.x;
+        const overlapRight = crateBounds.x + crateBounds.width - charBounds.x;
+        const overlapTop = charBounds.y + charBounds.height - crateBounds.y;
+        const overlapBottom = crateBounds.y + crateBounds.height - charBounds.y;
+
+        const minOverlapX = Math.min(overlapLeft, overlapRight);
+        const minOverlapY = Math.min(overlapTop, overlapBottom);
+
+        // Determine which axis has less penetration
+        if (minOverlapY < minOverlapX) {
+          // Vertical collision
+          if (charCenterY < crateCenterY) {
+            // Character is above crate - land on top (only for landed crates)
+            if (crate.isLanded()) {
+              this.character.y = crateBounds.y;
+              this.character.setOnGround(true);
+              this.character.setVelocity({ y: 0 });
+            }
+          } else {
+            // Character is below crate - hit head (possible death from falling crate)
+            if (crate.isFalling()) {
+              // Only deadly if character is SUBSTANTIALLY under the crate (not just touching edge)
+              // Require at least 50% horizontal overlap to count as "under"
+              const horizontalOverlap =
+                Math.min(charBounds.x + charBounds.width, crateBounds.x + crateBounds.width) -
+                Math.max(charBounds.x, crateBounds.x);
+              const overlapRatio =
+                horizontalOverlap / Math.min(charBounds.width, crateBounds.width);
+
+              if (overlapRatio >= 0.5) {
+                // Character is truly under the falling crate
+                // Special blocks don't kill - they activate instead
+                if (crate.isSpecial()) {
+                  this.handleSpecialBlockCollision(crate);
+                  return;
+                }
+                // Regular crate falling on head - game over (unless helmet)
+                const survived = this.handleCrateFallingOnHead();
+                if (!survived) {
+                  return; // Game over
+                }
+                // Helmet saved us - push character aside so crate doesn't hit again
+                if (charCenterX < crateCenterX) {
+                  this.character.x = crateBounds.x - charBounds.width / 2 - 1;
+                } else {
+                  this.character.x = crateBounds.x + crateBounds.width + charBounds.width / 2 + 1;
+                }
+                continue; // Continue checking other crates
+              } else {
+                // Character is just touching the edge - push them aside instead
+                if (charCenterX < crateCenterX) {
+                  this.character.x = crateBounds.x - charBounds.width / 2 - 1;
+                } else {
+                  this.character.x = crateBounds.x + crateBounds.width + charBounds.width / 2 + 1;
+                }
+                continue; // Skip to next crate
+              }
+            }
+            this.character.y = crateBounds.y + crateBounds.height + charBounds.height;
+            this.character.setVelocity({ y: Math.max(0, charVelocity.y) });
+          }
+        } else {
+          // Horizontal collision - try to push crate
+
+          // Skip if already blocked by another crate (prevents passing through stacks)
+          if (horizontallyBlocked) {
+            continue;
+          }
+
+          const pushDirection = charCenterX < crateCenterX ? 1 : -1;
+
+          // Special crates can be picked up on horizontal collision (landed or falling)
+          if (crate.isSpecial()) {
+            this.handleSpecialBlockCollision(crate);
+            continue; // Skip to next crate - special crate was picked up
+          }
+
+          // Only try to push if character is moving towards the crate
+          // Only push if movement key is actively pressed AND moving towards crate
+          const isMovingTowardsCrate =
+            this.isMovementKeyPressed &&
+            ((pushDirection > 0 && charVelocity.x > 0) ||
+              (pushDirection < 0 && charVelocity.x < 0));
+
+          if (isMovingTowardsCrate) {
+            // Activate pushing animation when moving against crate
+            this.character.startPushing();
+
+            // Check if crate is already sliding or try to start pushing
+            const canPush = crate.isSliding() || this.tryPushCrate(crate, pushDirection);
+
+            if (canPush) {
+              // Move crate with character
+              const deltaX = charVelocity.x * deltaTime;
+              this.crateManager.moveSlidingCrate(crate, deltaX);
+              activelyPushedCrates.add(crate);
+
+              // Also track any stacked crates
+              const column = crate.getGridColumn();
+              let checkRow = crate.getGridRow() + 1;
+              while (checkRow < this.gridConfig.rows) {
+                const crateAbove = this.crateManager.getCrateAt(column, checkRow);
+                if (crateAbove && crateAbove.isSliding()) {
+                  this.crateManager.moveSlidingCrate(crateAbove, deltaX);
+                  activelyPushedCrates.add(crateAbove);
+                  checkRow++;
+                } else {
+                  break;
+                }
+              }
+            } else {
+              // Can't push - stop character at crate edge and mark as blocked
+              if (charCenterX < crateCenterX) {
+                this.character.x = crateBounds.x - charBounds.width / 2;
+              } else {
+                this.character.x = crateBounds.x + crateBounds.width + charBounds.width / 2;
+              }
+              this.character.setVelocity({ x: 0 });
+              horizontallyBlocked = true; // Prevent other crates from moving character
+            }
+          } else {
+            // Not moving towards crate - just stop and block
+            if (charCenterX < crateCenterX) {
+              this.character.x = crateBounds.x - charBounds.width / 2;
+            } else {
+              this.character.x = crateBounds.x + crateBounds.width + charBounds.width / 2;
+            }
+            horizontallyBlocked = true;
+          }
+        }
+      }
+    }
+
+    // Handle sliding crates that weren't actively pushed this frame
+    const slidingCrates = this.crateManager.getSlidingCrates();
+    for (const crate of slidingCrates) {
+      if (!activelyPushedCrates.has(crate)) {
+        // Start auto-slide if not already auto-sliding
+        if (!crate.isAutoSlidingToTarget()) {
+          crate.startAutoSlide();
+        }
+
+        // Check if auto-slide is complete
+        if (crate.hasReachedSlideTarget()) {
+          const oldX = crate.x;
+          const result = this.crateManager.completeAutoSlide(crate);
+
+          // Move character with crate
+          this.character.x += result.newX - oldX;
+        } else if (crate.isAutoSlidingToTarget()) {
+          // Crate is still auto-sliding - move character with it
+          // Character needs to maintain contact with crate
+          const charBounds = this.character.getCollisionBounds();
+          const crateBounds = crate.getCollisionBounds();
+          const direction = crate.getSlideDirection();
+
+          // Position character adjacent to crate
+          if (direction > 0) {
+            // Pushing right - character on left side
+            this.character.x = crateBounds.x - charBounds.width / 2;
+          } else {
+            // Pushing left - character on right side
+            this.character.x = crateBounds.x + crateBounds.width + charBounds.width / 2;
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Try to push a crate in the given direction
+   * Returns true if push was successful
+   *
+   * Rule: Push from the LOWEST crate in the column that the character physically touches.
+   * "Physically touches" = has vertical overlap with character's collision bounds.
+   */
+  private tryPushCrate(crate: Crate, direction: number): boolean {
+    if (!this.character || !this.crateManager) {
+      return false;
+    }
+
+    // Don't allow push if crate just stopped (wait for match check)
+    if (!crate.canBePushed() && !crate.isFalling() && !crate.isSliding()) {
+      return false;
+    }
+
+    const pushStrength = this.character.getPushStrength();
+    const column = crate.getGridColumn();
+    const crateRow = crate.getGridRow();
+
+    // For falling crates, check if we can push them sideways
+    if (crate.isFalling()) {
+      return this.pushFallingCrate(crate, direction);
+    }
+
+    // Get character bounds for overlap checking
+    const charBounds = this.character.getCollisionBounds();
+
+    // Find the LOWEST crate in this column that the character physically touches
+    // This is where we start pushing from
+    let actualPushRow = crateRow;
+
+    for (let row = crateRow - 1; row >= 0; row--) {
+      const crateBelow = this.crateManager.getCrateAt(column, row);
+      if (!crateBelow) break; // No crate below - stop searching
+
+      // Check if character has vertical overlap with this crate
+      const crateBelowBounds = crateBelow.getCollisionBounds();
+      const hasVerticalOverlap =
+        charBounds.y < crateBelowBounds.y + crateBelowBounds.height &&
+        charBounds.y + charBounds.height > crateBelowBounds.y;
+
+      if (hasVerticalOverlap) {
+        actualPushRow = row; // Character touches this crate too - push from here
+      } else {
+        break; // Character doesn't touch this crate - stop searching
+      }
+    }
+
+    // Build the stack of crates to push (from actualPushRow upward)
+    const cratesToPush: Crate[] = [];
+    for (let row = actualPushRow; row < this.gridConfig.rows; row++) {
+      const crateAtRow = this.crateManager.getCrateAt(column, row);
+      if (crateAtRow) {
+        cratesToPush.push(crateAtRow);
+      } else {
+        break;
+      }
+    }
+
+    // Check if stack is too heavy
+    if (cratesToPush.length > pushStrength) {
+      return false;
+    }
+
+    // Check if target column is free for all crates
+    const targetColumn = column + direction;
+    if (targetColumn < 0 || targetColumn >= this.gridConfig.columns) {
+      return false;
+    }
+
+    // Check if there's space in target column for all crates
+    for (let i = 0; i < cratesToPush.length; i++) {
+      const targetRow = actualPushRow + i;
+      const existingCrate = this.crateManager.getCrateAt(targetColumn, targetRow);
+      if (existingCrate) {
+        return false; // Blocked
+      }
+    }
+
+    // Push the crates
+    this.crateManager.pushCrates(cratesToPush, direction);
+    this.pendingLineCheck = true;
+
+    return true;
+  }
+
+  /**
+   * Push a falling crate sideways
+   */
+  private pushFallingCrate(crate: Crate, direction: number): boolean {
+    if (!this.crateManager) {
+      return false;
+    }
+
+    const currentColumn = crate.getGridColumn();
+    const targetColumn = currentColumn + direction;
+
+    // Check bounds
+    if (targetColumn < 0 || targetColumn >= this.gridConfig.columns) {
+      return false;
+    }
+
+    // Check if there's a blocking crate in the target column at the same height or lower
+    const crateY = crate.y;
+    const crateSize = this.gridConfig.cellWidth;
+
+    // Get the height of the stack in target column
+    const stackHeight = this.crateManager.getColumnHeight(targetColumn);
+    if (stackHeight > 0) {
+      const topOfStackY = this.crateManager.getRowTopY(stackHeight - 1);
+      // If the falling crate would collide with the stack, don't allow push
+      if (crateY >= topOfStackY - crateSize) {
+        return false;
+      }
+    }
+
+    // Check for other falling crates in the target column that would block
+    const fallingCrates = this.crateManager.getFallingCrates();
+    for (const other of fallingCrates) {
+      if (other === crate) continue;
+      if (other.getGridColumn() !== targetColumn) continue;
+
+      // Check if they would overlap horizontally after the push
+      if (Math.abs(crateY - other.y) < crateSize) {
+        return false;
+      }
+    }
+
+    // Move the falling crate to the new column
+    crate.setGridColumn(targetColumn);
+    crate.setPosition(this.crateManager.getColumnCenterX(targetColumn), crate.y);
+
+    return true;
+  }
+
+  /**
+   * Handle crate falling on character's head
+   * Returns true if player survived (helmet or extra life), false if game over
+   */
+  private handleCrateFallingOnHead(): boolean {
+    // Check for helmet protection first (single-use shield)
+    if (this.specialBlockManager?.consumeHelmet()) {
+      return true;
+    }
+
+    // Check for extra lives
+    if (this.specialBlockManager?.consumeLife()) {
+      return true;
+    }
+
+    // No protection left - game over
+    this.endGame();
+    return false;
+  }
+
+  /**
+   * Handle special block collision (activation when touched by falling block)
+   */
+  private handleSpecialBlockCollision(crate: Crate): void {
+    if (!this.character || !this.specialBlockManager || !this.crateManager) {
+      return;
+    }
+
+    // Activate the special block effect
+    const result = this.specialBlockManager.activateBlock(crate, this.character);
+
+    if (result?.activated) {
+      this.specialBlocksActivated++;
+
+      // Get pending score from special blocks
+      const pendingScore = this.specialBlockManager.getPendingScore();
+      if (pendingScore > 0) {
+        this.scoreManager.addSpecialBlockPoints();
+      }
+
+      // Remove the special block
+      this.crateManager.removeCrate(crate);
+    }
+  }
+
+  /**
+   * Update crane manager and release dropped crates into the grid
+   */
+  private updateCranes(deltaTime: number): void {
+    if (!this.craneManager || !this.crateManager) {
+      return;
+    }
+
+    const drops = this.craneManager.update(deltaTime);
+
+    for (const drop of drops) {
+      if (drop.attachedCrate) {
+        const crate = drop.attachedCrate;
+
+        // Update crate with correct fall speed and column
+        crate.setFallSpeed(this.levelManager.getCurrentFallSpeed());
+        crate.setGridColumn(drop.column);
+
+        // Position at drop point
+        crate.setPosition(drop.dropX, drop.dropY);
+
+        this.crateManager.addExistingCrate(crate);
+        crate.startFalling();
+      }
+    }
+  }
+
+  /**
+   * Update crate physics, bombs, line clears and matches
+   */
+  private updateCrates(deltaTime: number): void {
+    if (!this.crateManager) {
+      return;
+    }
+
+    // Update crate manager (includes clearing animation and auto-removal)
+    this.crateManager.update(deltaTime);
+
+    this.checkBombExplosions();
+
+    // Check for line clears after crates land or after push
+    // Only check when no crates are sliding (wait for push to complete)
+    const slidingCrates = this.crateManager.getSlidingCrates();
+    const landedCrates = this.crateManager.getLandedCrates();
+
+    if (slidingCrates.length === 0 && (landedCrates.length > 0 || this.pendingLineCheck)) {
+      const lines = this.checkLineClears();
+      // Check for color matches (match-3 mechanics)
+      const matches = this.checkColorMatches();
+      this.pendingLineCheck = false;
+
+      // A pass that clears nothing ends any cascade in progress
+      if (lines.linesCleared === 0 && matches.matchesFound === 0) {
+        this.scoreManager.endChain();
+        return;
+      }
+
+      // Rows and matches cleared in the same pass are one step of the cascade
+      this.scoreManager.advanceChain();
+      this.scoreManager.addLineClearPoints(lines.linesCleared);
+      this.levelManager.addLinesCleared(lines.linesCleared);
+      this.scoreManager.addMatchPoints(matches.points);
+
+      // The cascade only continues if something fell (and so could form a new match)
+      if (!lines.cratesFell && !matches.cratesFell) {
+        this.scoreManager.endChain();
+      }
+    }
+  }
+
+  /**
+   * Check for and process bomb explosions
+   */
+  private checkBombExplosions(): void {
+    if (!this.crateManager) {
+      return;
+    }
+
+    const result = this.crateManager.checkAndProcessBombs();
+
+    if (result.exploded) {
+      this.scoreManager.addPoints(result.points);
+
+      // Check if character is in blast radius
+      if (this.character && result.clearedCrates.length > 0) {
+        this.checkCharacterInBlast(result.clearedCrates);
+      }
+
+      // Process gravity after explosion, then check for matches
+      this.crateManager.processGravity();
+      this.pendingLineCheck = true;
+    }
+  }
+
+  /**
+   * Check if character is in the blast radius of exploded crates
+   */
+  private checkCharacterInBlast(explodedCrates: Crate[]): void {
+    if (!this.character || this.gameOver) {
+      return;
+    }
+
+    const charBounds = this.character.getCollisionBounds();
+    const { cellWidth, cellHeight } = this.gridConfig;
+    const blastRadius = cellWidth; // 1 cell radius around each exploded crate
+
+    for (const crate of explodedCrates) {
+      // Calculate blast zone (3x3 cells around crate center)
+      const blastLeft = crate.x - blastRadius - cellWidth / 2;
+      const blastRight = crate.x + blastRadius + cellWidth / 2;
+      const blastTop = crate.y - blastRadius - cellHeight / 2;
+      const blastBottom = crate.y + blastRadius + cellHeight / 2;
+
+      const charInBlast =
+        charBounds.x < blastRight &&
+        charBounds.x + charBounds.width > blastLeft &&
+        charBounds.y < blastBottom &&
+        charBounds.y + charBounds.height > blastTop;
+
+      if (charInBlast) {
+        // Only consume one life per explosion event
+        this.handleBombExplosionHit();
+        return;
+      }
+    }
+  }
+
+  /**
+   * Handle character hit by bomb explosion
+   * Returns true if survived, false if game over
+   * Note: Only extra lives protect from bomb explosions (helmet doesn't help)
+   */
+  private handleBombExplosionHit(): boolean {
+    if (this.specialBlockManager?.consumeLife()) {
+      return true;
+    }
+
+    this.endGame();
+    return false;
+  }
+
+  /**
+   * Check for color matches (3/4/5 in a row) and drop crates into the gaps
+   * Scored by updateCrates() with the rest of the pass
+   */
+  private checkColorMatches(): { matchesFound: number; points: number; cratesFell: boolean } {
+    if (!this.crateManager) {
+      return { matchesFound: 0, points: 0, cratesFell: false };
+    }
+
+    const result = this.crateManager.detectAndClearMatches();
+
+    if (result.matchesFound === 0) {
+      return { matchesFound: 0, points: 0, cratesFell: false };
+    }
+
+    // Process gravity after clearing matches and check for cascading matches
+    const cratesFell = this.crateManager.processGravity();
+    this.pendingLineCheck = true;
+    return { matchesFound: result.matchesFound, points: result.points, cratesFell };
+  }
+
+  /**
+   * Check line clears and drop crates into the gaps
+   * Scored by updateCrates() with the rest of the pass
+   */
+  private checkLineClears(): { linesCleared: number; cratesFell: boolean } {
+    if (!this.crateManager) {
+      return { linesCleared: 0, cratesFell: false };
+    }
+
+    const result = this.crateManager.clearCompleteRowsWithPoints();
+
+    if (result.linesCleared === 0) {
+      return { linesCleared: 0, cratesFell: false };
+    }
+
+    // The crates will be removed automatically by CrateManager when animation completes
+    const cratesFell = this.crateManager.processGravity();
+    return { linesCleared: result.linesCleared, cratesFell };
+  }
+
+  /**
+   * Check collisions between character and landed special blocks
+   */
+  private checkCollisions(): void {
+    if (!this.character || !this.crateManager || !this.specialBlockManager) {
+      return;
+    }
+
+    const crates = this.crateManager.getAllCrates();
+    const result = this.specialBlockManager.checkAndActivateCollision(this.character, crates);
+
+    if (result?.activated) {
+      this.specialBlocksActivated++;
+
+      const pendingScore = this.specialBlockManager.getPendingScore();
+      if (pendingScore > 0) {
+        this.scoreManager.addSpecialBlockPoints();
+      }
+    }
+  }
+
+  /**
+   * Check game over condition (stack reached the top)
+   */
+  private checkGameOverCondition(): void {
+    if (!this.crateManager || this.gameOver) {
+      return;
+    }
+
+    if (this.crateManager.hasReachedTop()) {
+      // Helmet or extra life keeps the game going
+      if (this.specialBlockManager?.consumeHelmet()) {
+        return;
+      }
+      if (this.specialBlockManager?.consumeLife()) {
+        return;
+      }
+
+      this.endGame();
+    }
+  }
+
+  /**
+   * End the run
+   */
+  private endGame(): void {
+    this.gameOver = true;
+  }
+
+  /**
+   * Handle level complete - award bonus and wait for advanceToNextLevel
+   */
+  private handleLevelComplete(level: number, bonusPoints: number): void {
+    this.scoreManager.addPoints(bonusPoints);
+    this.scoreManager.setHighestLevelReached(level);
+    this.levelComplete = true;
+  }
+
+  /**
+   * Advance to the next level (after level complete)
+   * Returns false if there is no next level
+   */
+  advanceToNextLevel(): boolean {
+    if (!this.levelManager.advanceToNextLevel()) {
+      return false;
+    }
+
+    this.levelComplete = false;
+    this.setUpCranesForLevel();
+    return true;
+  }
+
+  /**
+   * Check if a run is in progress (started and not over)
+   */
+  isRunning(): boolean {
+    return this.running && !this.gameOver;
+  }
+
+  /**
+   * Check if the run has ended
+   */
+  isGameOver(): boolean {
+    return this.gameOver;
+  }
+
+  /**
+   * Check if the current level was completed and is waiting to advance
+   */
+  isLevelComplete(): boolean {
+    return this.levelComplete;
+  }
+
+  /**
+   * Get the number of steps simulated in the current run
+   */
+  getTick(): number {
+    return this.tick;
+  }
+
+  /**
+   * Get simulated time of the current run in milliseconds
+   */
+  getElapsedTime(): number {
+    return this.elapsedMs;
+  }
+
+  /**
+   * Get the number of special blocks activated in the current run
+   */
+  getSpecialBlocksActivated(): number {
+    return this.specialBlocksActivated;
+  }
+
+  /**
+   * Get the seed of the current run
+   */
+  getSeed(): number {
+    return this.random.getSeed();
+  }
+
+  /**
+   * Get the gameplay random number generator
+   */
+  getRandom(): SeededRandom {
+    return this.random;
+  }
+
+  /**
+   * Get the player character
+   */
+  getCharacter(): Character | null {
+    return this.character;
+  }
+
+  /**
+   * Get the crate manager
+   */
+  getCrateManager(): CrateManager | null {
+    return this.crateManager;
+  }
+
+  /**
+   * Get the crane manager
+   */
+  getCraneManager(): CraneManager | null {
+    return this.craneManager;
+  }
+
+  /**
+   * Get the special block manager
+   */
+  getSpecialBlockManager(): SpecialBlockManager | null {
+    return this.specialBlockManager;
+  }
+
+  /**
+   * Get the score manager
+   */
+  getScoreManager(): ScoreManager {
+    return this.scoreManager;
+  }
+
+  /**
+   * Get the level manager
+   */
+  getLevelManager(): LevelManager {
+    return this.levelManager;
+  }
+
+  /**
+   * Reset the simulation (drops the current run)
+   */
+  reset(): void {
+    this.running = false;
+    this.gameOver = false;
+    this.levelComplete = false;
+    this.tick = 0;
+    this.elapsedMs = 0;
+    this.specialBlocksActivated = 0;
+    this.pendingLineCheck = false;
+    this.isMovementKeyPressed = false;
+    this.character = null;
+    this.crateManager = null;
+    this.craneManager = null;
+    this.specialBlockManager = null;
+    this.scoreManager.reset();
+    this.levelManager.reset();
+  }
+}
+
+/**
+ * Options for a complete headless run
+ */
+export interface SimulationRunOptions {
+  characterId?: number;
+  startLevel?: number;
+  seed?: number;
+  mode?: GameMode;
+  levelPack?: LevelPack;
+  maxTicks: number;
+  // Input for each tick (defaults to no input)
+  getInput?: (tick: number, simulation: GameSimulation) => InputState;
+}
+
+/**
+ * Summary of a finished headless run
+ */
+export interface SimulationRunResult {
+  seed: number;
+  characterId: number;
+  score: number;
+  level: number;
+  linesCleared: number;
+  specialBlocksActivated: number;
+  ticks: number;
+  gameOver: boolean;
+}
+
+const IDLE_INPUT: InputState = {
+  [InputAction.MoveLeft]: false,
+  [InputAction.MoveRight]: false,
+  [InputAction.Jump]: false,
+  [InputAction.Pause]: false,
+  [InputAction.Confirm]: false,
+  [InputAction.Back]: false,
+};
+
+/**
+ * Run a complete game headlessly at a fixed 60 Hz step until game over or maxTicks
+ * Levels advance automatically as soon as they are completed
+ */
+export function runSimulation(options: SimulationRunOptions): SimulationRunResult {
+  const characterId = options.characterId ?? 1;
+  const characterConfig = getCharacterById(characterId);
+  if (!characterConfig) {
+    throw new Error(`Unknown character: ${characterId}`);
+  }
+
+  const simulation = new GameSimulation({ levelPack: options.levelPack });
+  simulation.start(
+    characterConfig,
+    options.startLevel ?? 1,
+    options.seed ?? generateSeed(),
+    options.mode ?? GameMode.Classic
+  );
+
+  while (simulation.isRunning() && simulation.getTick() < options.maxTicks) {
+    const input = options.getInput
+      ? options.getInput(simulation.getTick(), simulation)
+      : IDLE_INPUT;
+    simulation.step(input, FIXED_TIME_STEP);
+
+    if (simulation.isLevelComplete() && !simulation.advanceToNextLevel()) {
+      break; // Final level cleared
+    }
+  }
+
+  const scoreManager = simulation.getScoreManager();
+  return {
+    seed: simulation.getSeed(),
+    characterId,
+    score: scoreManager.getScore(),
+    level: simulation.getLevelManager().getCurrentLevel(),
+    linesCleared: scoreManager.getTotalLinesCleared(),
+    specialBlocksActivated: simulation.getSpecialBlocksActivated(),
+    ticks: simulation.getTick(),
+    gameOver: simulation.isGameOver(),
+  };
+}
@@ -0,0 +1,189 @@
+/**
+ * Game Snapshot
+ * Complete serializable state of a run in progress (crate grid, cranes and their
+ * crates, character, special effects, score, level and RNG state) so a game can
+ * be saved mid-run and resumed exactly where it left off
+ */
+
+import type { CharacterSnapshot } from '../entities/Character';
+import { CharacterState } from '../entities/Character';
+import type { CrateSnapshot } from '../entities/Crate';
+import { CrateState } from '../entities/Crate';
+import type { CraneSnapshot } from '../entities/Crane';
+import { CraneState } from '../entities/Crane';
+import type { CrateManagerSnapshot } from './CrateManager';
+import type { CraneManagerSnapshot } from './CraneManager';
+import type { SpecialEffectState } from './SpecialBlockManager';
+import type { SessionStats } from './ScoreManager';
+import type { LevelState } from './LevelManager';
+import { CrateType } from '../types/entities';
+import type { Velocity } from '../types/entities';
+import { GameMode } from '../types/game';
+import { isObject } from '../utils/Validation';
+
+/**
+ * Current snapshot format version (bump when the format changes)
+ */
+export const GAME_SNAPSHOT_VERSION = 1;
+
+export interface GameSnapshot {
+  version: number;
+  savedAt: string; // ISO date string
+  seed: number;
+  randomState: number;
+  tick: number;
+  elapsedMs: number;
+  specialBlocksActivated: number;
+  pendingLineCheck: boolean;
+  levelComplete: boolean;
+  character: CharacterSnapshot;
+  crates: CrateManagerSnapshot;
+  cranes: CraneManagerSnapshot;
+  effects: SpecialEffectState;
+  score: SessionStats;
+  chainDepth: number; // Cascade in progress when saved (0 if none)
+  level: LevelState;
+}
+
+const CRATE_STATES = Object.values(CrateState) as string[];
+const CRATE_TYPES = Object.values(CrateType) as string[];
+const CRANE_STATES = Object.values(CraneState) as string[];
+const CHARACTER_STATES = Object.values(CharacterState) as string[];
+const GAME_MODES = Object.values(GameMode) as string[];
+
+function isVelocity(value: unknown): value is Velocity {
+  return isObject(value) && typeof value.x === 'number' && typeof value.y === 'number';
+}
+
+function isCharacterSnapshot(value: unknown): value is CharacterSnapshot {
+  return (
+    isObject(value) &&
+    typeof value.characterId === 'number' &&
+    CHARACTER_STATES.includes(value.state as string) &&
+    typeof value.x === 'number' &&
+    typeof value.y === 'number' &&
+    isVelocity(value.velocity) &&
+    typeof value.jumpBufferTimer === 'number' &&
+    typeof value.coyoteTimer === 'number'
+  );
+}
+
+function isCrateSnapshot(value: unknown): value is CrateSnapshot {
+  return (
+    isObject(value) &&
+    typeof value.id === 'string' &&
+    CRATE_TYPES.includes(value.type as string) &&
+    CRATE_STATES.includes(value.state as string) &&
+    typeof value.x === 'number' &&
+    typeof value.y === 'number' &&
+    isVelocity(value.velocity)
+  );
+}
+
+// Grid rows of crate ids (null for an empty cell)
+function isCrateGrid(value: unknown): value is (string | null)[][] {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (row) => Array.isArray(row) && row.every((cell) => cell === null || typeof cell === 'string')
+    )
+  );
+}
+
+function isCraneSnapshot(value: unknown): value is CraneSnapshot {
+  return (
+    isObject(value) &&
+    CRANE_STATES.includes(value.state as string) &&
+    typeof value.x === 'number' &&
+    typeof value.targetColumn === 'number'
+  );
+}
+
+function isLevelState(value: unknown): value is LevelState {
+  return (
+    isObject(value) &&
+    typeof value.currentLevel === 'number' &&
+    typeof value.linesCleared === 'number' &&
+    typeof value.isComplete === 'boolean' &&
+    GAME_MODES.includes(value.mode as string)
+  );
+}
+
+/**
+ * Serialize a snapshot to a JSON string
+ */
+export function serializeGameSnapshot(snapshot: GameSnapshot): string {
+  return JSON.stringify(snapshot);
+}
+
+/**
+ * Parse and validate a serialized snapshot
+ * Returns null if the data is malformed or from an unsupported version
+ */
+export function parseGameSnapshot(json: string): GameSnapshot | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return null;
+  }
+
+  if (!isObject(data)) return null;
+  const snapshot = data as Partial<GameSnapshot>;
+
+  if (snapshot.version !== GAME_SNAPSHOT_VERSION) return null;
+  if (typeof snapshot.seed !== 'number') return null;
+  if (typeof snapshot.randomState !== 'number') return null;
+  if (typeof snapshot.tick !== 'number') return null;
+  if (typeof snapshot.elapsedMs !== 'number') return null;
+  if (typeof snapshot.chainDepth !== 'number') return null;
+
+  const { character, crates, cranes, effects, score, level } = snapshot;
+
+  if (!isCharacterSnapshot(character)) return null;
+
+  if (
+    !isObject(crates) ||
+    !Array.isArray(crates.crates) ||
+    !isCrateGrid(crates.grid) ||
+    !crates.crates.every(isCrateSnapshot)
+  ) {
+    return null;
+  }
+
+  if (
+    !isObject(cranes) ||
+    !Array.isArray(cranes.cranes) ||
+    !Array.isArray(cranes.attachedCrates) ||
+    !cranes.cranes.every(isCraneSnapshot) ||
+    !cranes.attachedCrates.every(
+      (attached) => typeof attached?.craneId === 'number' && isCrateSnapshot(attached.crate)
+    )
+  ) {
+    return null;
+  }
+
+  if (!isObject(effects) || typeof effects.extraLives !== 'number') return null;
+  if (!isObject(score) || typeof score.score !== 'number') return null;
+  if (!isLevelState(level)) return null;
+
+  return {
+    version: snapshot.version,
+    savedAt: typeof snapshot.savedAt === 'string' ? snapshot.savedAt : '',
+    seed: snapshot.seed,
+    randomState: snapshot.randomState,
+    tick: snapshot.tick,
+    elapsedMs: snapshot.elapsedMs,
+    specialBlocksActivated:
+      typeof snapshot.specialBlocksActivated === 'number' ? snapshot.specialBlocksActivated : 0,
+    pendingLineCheck: snapshot.pendingLineCheck === true,
+    levelComplete: snapshot.levelComplete === true,
+    character,
+    crates,
+    cranes,
+    effects,
+    score,
+    chainDepth: snapshot.chainDepth,
+    level,
+  };
+}
@@ -1,18 +1,69 @@
 /**
  * Game Storage System
- * Manages persistent storage for high scores and game settings using cookies
+ * Manages named player profiles, each with its own high scores (one table per
+ * game mode), settings, character unlock progress and mid-game save, and merges
+ * save data transferred from other devices. Data is cached in memory and written
+ * through to a pluggable storage backend, so reads stay synchronous even when the
+ * backend (IndexedDB) is not.
  */
 
-import { getCookie, setCookie, areCookiesEnabled } from '../utils/CookieStorage';
+import { getCookie, deleteCookie } from '../utils/CookieStorage';
+import { MemoryStorageBackend, openStorageBackend } from '../utils/StorageBackend';
+import type { StorageBackend } from '../utils/StorageBackend';
 import { ColorPalette } from './LCDEffect';
-
-// Cookie keys
+import { GameMode, InputAction } from '../types/game';
+import { serializeGameSnapshot, parseGameSnapshot } from './GameSnapshot';
+import type { GameSnapshot } from './GameSnapshot';
+import type { UnlockProgress } from './CharacterUnlockManager';
+import { DEFAULT_KEY_MAPPING, normalizeKey } from './KeyboardInput';
+import type { KeyMapping } from './KeyboardInput';
+import type { SaveTransferData } from './SaveTransfer';
+import { readVirtualControllerSettings } from '../config/virtualController';
+import type { VirtualControllerSettings } from '../config/virtualController';
+import { readGestureThresholds } from '../config/gestures';
+import type { GestureThresholds } from '../config/gestures';
+import { readGhostingSettings } from '../config/ghosting';
+import type { GhostingSettings } from '../config/ghosting';
+import { getCharacterById, getInitialUnlockedIds } from '../config/characters';
+import { readCustomPalettes } from '../config/palettes';
+import type { PaletteDefinition } from '../config/palettes';
+import { clamp, isFiniteNumber, isObject } from '../utils/Validation';
+
+// Storage keys (each profile's saved run is stored under its own key)
+const STORAGE_DATA = 'stackattack_data';
+const STORAGE_SAVED_GAME = 'stackattack_savedgame';
+
+// Cookies used before the storage backends (imported once, then deleted)
 const COOKIE_HIGH_SCORES = 'stackattack_highscores';
+const COOKIE_ENDLESS_HIGH_SCORES = 'stackattack_endless_highscores';
 const COOKIE_SETTINGS = 'stackattack_settings';
+const COOKIE_UNLOCK_PROGRESS = 'stackattack_progress';
+
+/**
+ * Version of the stored data layout (bump and add a migration when it changes)
+ * Version 0 is the cookie storage used before the storage backends, version 1
+ * held a single player's data before profiles
+ */
+export const STORAGE_SCHEMA_VERSION = 2;
 
 // Maximum number of high scores to store
 const MAX_HIGH_SCORES = 10;
 
+/**
+ * Maximum number of profiles (all fit on the profile picker)
+ */
+export const MAX_PROFILES = 6;
+
+/**
+ * Maximum profile name length (fits the LCD)
+ */
+export const MAX_PROFILE_NAME_LENGTH = 10;
+
+/**
+ * Name of the profile created on first start (and holding data from before profiles)
+ */
+const DEFAULT_PROFILE_NAME = 'PLAYER 1';
+
 /**
  * High score entry
  */
@@ -30,8 +81,47 @@ export interface GameSettings {
   palette: ColorPalette;
   selectedCharacterId: number;
   soundEnabled?: boolean;
+  masterVolume?: number; // 0 to 1
+  musicVolume?: number; // 0 to 1
+  sfxVolume?: number; // 0 to 1
+  muteWhenHidden?: boolean;
+  keyMapping?: KeyMapping;
+  gestureThresholds?: GestureThresholds;
+  crateGlyphs?: boolean; // Colorblind glyphs on colored crates
+  customPalettes?: PaletteDefinition[]; // Made in the palette editor
+  ghosting?: GhostingSettings; // LCD ghosting filter
 }
 
+/**
+ * Settings carried by save codes; the key bindings, gesture calibration and
+ * audio mix belong to the device and are never exported or imported (the touch
+ * layout is stored per device, outside the settings)
+ */
+const PORTABLE_SETTINGS: (keyof GameSettings)[] = [
+  'palette',
+  'selectedCharacterId',
+  'crateGlyphs',
+  'customPalettes',
+  'ghosting',
+];
+
+/**
+ * Audio mixer settings (volumes from 0 to 1)
+ */
+export interface AudioSettings {
+  masterVolume: number;
+  musicVolume: number;
+  sfxVolume: number;
+  muteWhenHidden: boolean;
+}
+
+const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  masterVolume: 1,
+  musicVolume: 0.5,
+  sfxVolume: 1,
+  muteWhenHidden: true,
+};
+
 /**
  * Default settings
  */
@@ -39,48 +129,457 @@ const DEFAULT_SETTINGS: GameSettings = {
   palette: ColorPalette.Blue,
   selectedCharacterId: 1,
   soundEnabled: true,
+  ...DEFAULT_AUDIO_SETTINGS,
+};
+
+/**
+ * Cookie that held the high score table for a game mode
+ */
+const HIGH_SCORE_COOKIES: Record<GameMode, string> = {
+  [GameMode.Classic]: COOKIE_HIGH_SCORES,
+  [GameMode.Endless]: COOKIE_ENDLESS_HIGH_SCORES,
 };
 
+/**
+ * Profile shown on the profile picker
+ */
+export interface ProfileSummary {
+  id: number;
+  name: string;
+  bestScore: number;
+}
+
+/**
+ * A player's profile and everything saved for them
+ */
+interface StoredProfile {
+  id: number;
+  name: string;
+  highScores: Record<GameMode, HighScoreEntry[]>;
+  settings: GameSettings;
+  unlockProgress: Partial<UnlockProgress> | null;
+}
+
+/**
+ * Everything stored under STORAGE_DATA
+ */
+interface StoredData {
+  schemaVersion: number;
+  profiles: StoredProfile[];
+  activeProfileId: number;
+  virtualController: VirtualControllerSettings | null; // Per device, so shared by all profiles
+}
+
+type RawStoredData = Record<string, unknown>;
+
+/**
+ * Migration from schema version 0: read the legacy cookies
+ */
+function importLegacyCookies(): RawStoredData {
+  const highScores: Record<string, unknown> = {};
+  for (const mode of Object.values(GameMode) as GameMode[]) {
+    highScores[mode] = getCookie<unknown>(HIGH_SCORE_COOKIES[mode], []);
+  }
+
+  return {
+    schemaVersion: 1,
+    highScores,
+    settings: getCookie<unknown>(COOKIE_SETTINGS, null),
+    unlockProgress: getCookie<unknown>(COOKIE_UNLOCK_PROGRESS, null),
+  };
+}
+
+/**
+ * Delete the legacy cookies once their data is safely stored elsewhere
+ */
+function deleteLegacyCookies(): void {
+  for (const name of [
+    ...Object.values(HIGH_SCORE_COOKIES),
+    COOKIE_SETTINGS,
+    COOKIE_UNLOCK_PROGRESS,
+  ]) {
+    deleteCookie(name);
+  }
+}
+
+/**
+ * Migration from schema version 1: the single player's data becomes the first profile
+ */
+function moveDataIntoProfile(data: RawStoredData): RawStoredData {
+  return {
+    schemaVersion: 2,
+    activeProfileId: 1,
+    profiles: [
+      {
+        id: 1,
+        name: DEFAULT_PROFILE_NAME,
+        highScores: data.highScores,
+        settings: data.settings,
+        unlockProgress: data.unlockProgress,
+      },
+    ],
+  };
+}
+
+/**
+ * Upgrades from each schema version to the next, indexed by the version they upgrade from
+ */
+const SCHEMA_MIGRATIONS: ((data: RawStoredData) => RawStoredData)[] = [
+  importLegacyCookies,
+  moveDataIntoProfile,
+];
+
+function isHighScoreEntry(value: unknown): value is HighScoreEntry {
+  return (
+    isObject(value) &&
+    typeof value.score === 'number' &&
+    typeof value.level === 'number' &&
+    typeof value.date === 'string'
+  );
+}
+
+/**
+ * Build a profile from stored data, dropping malformed values
+ */
+function normalizeProfile(id: number, name: string, data: RawStoredData): StoredProfile {
+  const highScores = {} as Record<GameMode, HighScoreEntry[]>;
+  for (const mode of Object.values(GameMode) as GameMode[]) {
+    const scores = isObject(data.highScores) ? data.highScores[mode] : undefined;
+    highScores[mode] = Array.isArray(scores) ? scores.filter(isHighScoreEntry) : [];
+  }
+
+  return {
+    id,
+    name,
+    highScores,
+    settings: { ...DEFAULT_SETTINGS, ...(isObject(data.settings) ? data.settings : {}) },
+    unlockProgress: isObject(data.unlockProgress) ? data.unlockProgress : null,
+  };
+}
+
+/**
+ * Build stored data from the current schema version, dropping malformed values
+ * There is always at least one profile, and the active profile always exists
+ */
+function normalizeStoredData(data: RawStoredData): StoredData {
+  const profiles: StoredProfile[] = [];
+  for (const profile of Array.isArray(data.profiles) ? data.profiles : []) {
+    if (
+      isObject(profile) &&
+      Number.isInteger(profile.id) &&
+      typeof profile.name === 'string' &&
+      !profiles.some((other) => other.id === profile.id)
+    ) {
+      profiles.push(normalizeProfile(profile.id as number, profile.name, profile));
+    }
+  }
+  if (profiles.length === 0) {
+    profiles.push(normalizeProfile(1, DEFAULT_PROFILE_NAME, {}));
+  }
+
+  const activeProfile = profiles.find((profile) => profile.id === data.activeProfileId);
+  return {
+    schemaVersion: STORAGE_SCHEMA_VERSION,
+    profiles,
+    activeProfileId: (activeProfile ?? profiles[0]).id,
+    virtualController: isObject(data.virtualController)
+      ? readVirtualControllerSettings(data.virtualController)
+      : null,
+  };
+}
+
+function createDefaultData(): StoredData {
+  return normalizeStoredData({});
+}
+
+/**
+ * Get the settings that save codes carry (see PORTABLE_SETTINGS), leaving out
+ * any that are not set
+ */
+function getPortableSettings(settings: GameSettings): GameSettings {
+  return Object.fromEntries(
+    PORTABLE_SETTINGS.filter((key) => settings[key] !== undefined).map((key) => [
+      key,
+      settings[key],
+    ])
+  ) as unknown as GameSettings;
+}
+
+/**
+ * Read a stored volume, clamped to 0-1 (the fallback if it is not a number)
+ */
+function readVolume(value: unknown, fallback: number): number {
+  return isFiniteNumber(value) ? clamp(value, 0, 1) : fallback;
+}
+
+/**
+ * Read stored key bindings, dropping entries that are not keys mapped to actions
+ * (null if nothing usable is left)
+ */
+function readKeyMapping(value: unknown): KeyMapping | null {
+  if (!isObject(value)) {
+    return null;
+  }
+
+  const actions: unknown[] = Object.values(InputAction);
+  const mapping: KeyMapping = {};
+  for (const [key, action] of Object.entries(value)) {
+    if (key !== '' && actions.includes(action)) {
+      mapping[normalizeKey(key)] = action as InputAction;
+    }
+  }
+  return Object.keys(mapping).length > 0 ? mapping : null;
+}
+
+/**
+ * Clean up a profile name: trimmed, single-spaced and upper case
+ * Returns null if nothing is left or it is too long
+ */
+function cleanProfileName(name: string): string | null {
+  const cleaned = name.trim().replace(/\s+/g, ' ').toUpperCase();
+  return cleaned.length > 0 && cleaned.length <= MAX_PROFILE_NAME_LENGTH ? cleaned : null;
+}
+
+/**
+ * Key of a profile's saved run
+ */
+function getSavedGameKey(profileId: number): string {
+  return `${STORAGE_SAVED_GAME}_${profileId}`;
+}
+
+/**
+ * Read a profile's unlock progress, dropping unknown characters and malformed values
+ */
+function readUnlockProgress(profile: StoredProfile): UnlockProgress {
+  const saved = profile.unlockProgress;
+  const isCharacterId = (id: unknown): id is number =>
+    Number.isInteger(id) && getCharacterById(id as number) !== undefined;
+
+  const unlockedCharacterIds = Array.isArray(saved?.unlockedCharacterIds)
+    ? saved.unlockedCharacterIds.filter(isCharacterId)
+    : [];
+
+  const highestLevelByCharacter: Record<number, number> = {};
+  if (typeof saved?.highestLevelByCharacter === 'object' && saved.highestLevelByCharacter) {
+    for (const [id, level] of Object.entries(saved.highestLevelByCharacter)) {
+      if (isCharacterId(Number(id)) && Number.isInteger(level) && level > 0) {
+        highestLevelByCharacter[Number(id)] = level;
+      }
+    }
+  }
+
+  const bestScore =
+    typeof saved?.bestScore === 'number' && saved.bestScore > 0 ? saved.bestScore : 0;
+
+  return {
+    unlockedCharacterIds: [...new Set([...getInitialUnlockedIds(), ...unlockedCharacterIds])],
+    highestLevelByCharacter,
+    bestScore,
+  };
+}
+
+/**
+ * Parse stored data JSON (version 0 if missing or unreadable)
+ */
+function parseStoredData(json: string | null): RawStoredData {
+  if (json) {
+    try {
+      const data: unknown = JSON.parse(json);
+      if (isObject(data) && Number.isInteger(data.schemaVersion)) {
+        return data;
+      }
+    } catch {
+      // Unreadable - start over from version 0
+    }
+  }
+  return { schemaVersion: 0 };
+}
+
 /**
  * GameStorage singleton for managing persistent game data
  */
 class GameStorageClass {
-  private cookiesEnabled: boolean;
+  private backend: StorageBackend = new MemoryStorageBackend();
+  private data: StoredData = createDefaultData();
+  private savedGames = new Map<number, string>();
 
-  constructor() {
-    this.cookiesEnabled = areCookiesEnabled();
-    if (!this.cookiesEnabled) {
-      console.warn('Cookies are disabled. Game progress will not be saved.');
+  /**
+   * Load stored data from a backend (the best available one by default)
+   * Older data is migrated to the current schema; until this finishes, data is
+   * only kept in memory
+   */
+  async initialize(backend?: StorageBackend): Promise<void> {
+    this.backend = backend ?? (await openStorageBackend());
+    if (!this.backend.persistent) {
+      console.warn('Persistent storage is unavailable. Game progress will not be saved.');
+    }
+
+    let raw = parseStoredData(await this.readItem(STORAGE_DATA));
+    const storedVersion = raw.schemaVersion as number;
+
+    if (storedVersion > STORAGE_SCHEMA_VERSION) {
+      // Saved by a newer version of the game - leave it untouched
+      console.warn(
+        `Stored data has unknown schema version ${storedVersion}; it will not be changed.`
+      );
+      this.backend = new MemoryStorageBackend();
+      raw = {};
+    }
+
+    for (let version = storedVersion; version < STORAGE_SCHEMA_VERSION; version++) {
+      raw = SCHEMA_MIGRATIONS[version](raw);
+    }
+
+    this.data = normalizeStoredData(raw);
+
+    this.savedGames.clear();
+    for (const profile of this.data.profiles) {
+      const savedGame = await this.readItem(getSavedGameKey(profile.id));
+      if (savedGame) {
+        this.savedGames.set(profile.id, savedGame);
+      }
+    }
+
+    if (storedVersion < 2) {
+      // Before profiles there was a single saved run - it belongs to the first profile
+      const savedGame = await this.readItem(STORAGE_SAVED_GAME);
+      if (savedGame) {
+        this.savedGames.set(this.data.activeProfileId, savedGame);
+        await this.backend.setItem(getSavedGameKey(this.data.activeProfileId), savedGame);
+        await this.backend.removeItem(STORAGE_SAVED_GAME);
+      }
+    }
+
+    if (storedVersion < STORAGE_SCHEMA_VERSION) {
+      const stored = await this.writeData();
+      if (storedVersion === 0 && stored && this.backend.persistent) {
+        deleteLegacyCookies();
+      }
     }
   }
 
   /**
-   * Check if storage is available
+   * Check if data is kept after the page closes
    */
   isAvailable(): boolean {
-    return this.cookiesEnabled;
+    return this.backend.persistent;
+  }
+
+  /**
+   * Get the name of the storage backend in use
+   */
+  getBackendName(): string {
+    return this.backend.name;
+  }
+
+  // ============ PROFILES ============
+
+  /**
+   * Get every profile, in creation order
+   */
+  getProfiles(): ProfileSummary[] {
+    return this.data.profiles.map((profile) => this.summarizeProfile(profile));
+  }
+
+  /**
+   * Get the profile whose data is currently read and saved
+   */
+  getActiveProfile(): ProfileSummary {
+    return this.summarizeProfile(this.getActiveStoredProfile());
+  }
+
+  /**
+   * Create a profile with default settings and no progress
+   * Returns its id, or null if the name is empty, too long or taken, or there
+   * are already MAX_PROFILES profiles
+   */
+  createProfile(name: string): number | null {
+    const cleaned = cleanProfileName(name);
+    if (!cleaned || this.isProfileNameTaken(cleaned) || this.data.profiles.length >= MAX_PROFILES) {
+      return null;
+    }
+
+    const id = Math.max(...this.data.profiles.map((profile) => profile.id)) + 1;
+    this.data.profiles.push(normalizeProfile(id, cleaned, {}));
+    this.persist();
+    return id;
+  }
+
+  /**
+   * Rename a profile
+   * Returns false if the profile does not exist or the name is empty, too long or taken
+   */
+  renameProfile(id: number, name: string): boolean {
+    const profile = this.data.profiles.find((p) => p.id === id);
+    const cleaned = cleanProfileName(name);
+    if (!profile || !cleaned || this.isProfileNameTaken(cleaned, id)) {
+      return false;
+    }
+
+    profile.name = cleaned;
+    this.persist();
+    return true;
+  }
+
+  /**
+   * Delete a profile and its saved run
+   * The first remaining profile becomes active if the active one is deleted
+   * Returns false if the profile does not exist or is the only one left
+   */
+  deleteProfile(id: number): boolean {
+    const index = this.data.profiles.findIndex((profile) => profile.id === id);
+    if (index === -1 || this.data.profiles.length <= 1) {
+      return false;
+    }
+
+    this.data.profiles.splice(index, 1);
+    if (this.data.activeProfileId === id) {
+      this.data.activeProfileId = this.data.profiles[0].id;
+    }
+    this.persist();
+    this.removeSavedGame(id);
+    return true;
+  }
+
+  /**
+   * Make a profile active (all other data calls then use it)
+   * Returns false if the profile does not exist
+   */
+  switchProfile(id: number): boolean {
+    if (!this.data.profiles.some((profile) => profile.id === id)) {
+      return false;
+    }
+
+    this.data.activeProfileId = id;
+    this.persist();
+    return true;
   }
 
   // ============ HIGH SCORES ============
 
   /**
-   * Get all high scores sorted by score descending
+   * Get all high scores for a game mode sorted by score descending
    */
-  getHighScores(): HighScoreEntry[] {
-    const scores = getCookie<HighScoreEntry[]>(COOKIE_HIGH_SCORES, []);
+  getHighScores(mode: GameMode = GameMode.Classic): HighScoreEntry[] {
+    const scores = this.getActiveStoredProfile().highScores[mode].map((entry) => ({ ...entry }));
     return scores.sort((a, b) => b.score - a.score);
   }
 
   /**
-   * Add a new high score if it qualifies
+   * Add a new high score to a game mode's table if it qualifies
    * Returns true if score was added to the leaderboard
    */
-  addHighScore(score: number, level: number, linesCleared?: number): boolean {
-    if (!this.cookiesEnabled || score <= 0) {
+  addHighScore(
+    score: number,
+    level: number,
+    linesCleared?: number,
+    mode: GameMode = GameMode.Classic
+  ): boolean {
+    if (score <= 0) {
       return false;
     }
 
-    const scores = this.getHighScores();
+    const scores = this.getHighScores(mode);
 
     // Check if score qualifies for the leaderboard
     if (scores.length >= MAX_HIGH_SCORES && score <= scores[scores.length - 1].score) {
@@ -99,9 +598,8 @@ class GameStorageClass {
 
     // Sort and trim to max size
     scores.sort((a, b) => b.score - a.score);
-    const trimmedScores = scores.slice(0, MAX_HIGH_SCORES);
-
-    setCookie(COOKIE_HIGH_SCORES, trimmedScores);
+    this.getActiveStoredProfile().highScores[mode] = scores.slice(0, MAX_HIGH_SCORES);
+    this.persist();
 
     return true;
   }
@@ -109,8 +607,8 @@ class GameStorageClass {
   /**
    * Check if a score qualifies for the high score list
    */
-  isHighScore(score: number): boolean {
-    const scores = this.getHighScores();
+  isHighScore(score: number, mode: GameMode = GameMode.Classic): boolean {
+    const scores = this.getHighScores(mode);
     if (scores.length < MAX_HIGH_SCORES) {
       return score > 0;
     }
@@ -120,25 +618,29 @@ class GameStorageClass {
   /**
    * Get the highest score ever achieved
    */
-  getBestScore(): number {
-    const scores = this.getHighScores();
+  getBestScore(mode: GameMode = GameMode.Classic): number {
+    const scores = this.getHighScores(mode);
     return scores.length > 0 ? scores[0].score : 0;
   }
 
   /**
    * Get the highest level ever reached
    */
-  getBestLevel(): number {
-    const scores = this.getHighScores();
+  getBestLevel(mode: GameMode = GameMode.Classic): number {
+    const scores = this.getHighScores(mode);
     if (scores.length === 0) return 0;
     return Math.max(...scores.map((s) => s.level));
   }
 
   /**
-   * Clear all high scores
+   * Clear the high scores of one game mode, or of all modes
    */
-  clearHighScores(): void {
-    setCookie(COOKIE_HIGH_SCORES, []);
+  clearHighScores(mode?: GameMode): void {
+    const modes = mode ? [mode] : (Object.values(GameMode) as GameMode[]);
+    for (const m of modes) {
+      this.getActiveStoredProfile().highScores[m] = [];
+    }
+    this.persist();
   }
 
   // ============ SETTINGS ============
@@ -147,20 +649,18 @@ class GameStorageClass {
    * Get game settings
    */
   getSettings(): GameSettings {
-    return getCookie<GameSettings>(COOKIE_SETTINGS, DEFAULT_SETTINGS);
+    return { ...this.getActiveStoredProfile().settings };
   }
 
   /**
    * Save game settings
    */
   saveSettings(settings: Partial<GameSettings>): void {
-    if (!this.cookiesEnabled) {
-      return;
-    }
-
-    const currentSettings = this.getSettings();
-    const newSettings = { ...currentSettings, ...settings };
-    setCookie(COOKIE_SETTINGS, newSettings);
+    this.getActiveStoredProfile().settings = {
+      ...this.getActiveStoredProfile().settings,
+      ...settings,
+    };
+    this.persist();
   }
 
   /**
@@ -177,6 +677,20 @@ class GameStorageClass {
     this.saveSettings({ palette });
   }
 
+  /**
+   * Get the custom palettes made in the palette editor
+   */
+  getCustomPalettes(): PaletteDefinition[] {
+    return readCustomPalettes(this.getSettings().customPalettes);
+  }
+
+  /**
+   * Save the custom palettes
+   */
+  saveCustomPalettes(palettes: PaletteDefinition[]): void {
+    this.saveSettings({ customPalettes: readCustomPalettes(palettes) });
+  }
+
   /**
    * Get selected character ID
    */
@@ -191,19 +705,300 @@ class GameStorageClass {
     this.saveSettings({ selectedCharacterId: characterId });
   }
 
+  /**
+   * Check if sound effects are turned on (on unless turned off)
+   */
+  isSoundEnabled(): boolean {
+    return this.getSettings().soundEnabled ?? true;
+  }
+
+  /**
+   * Get the audio mixer settings (missing or malformed values fall back to the defaults)
+   */
+  getAudioSettings(): AudioSettings {
+    const settings = this.getSettings();
+    return {
+      masterVolume: readVolume(settings.masterVolume, DEFAULT_AUDIO_SETTINGS.masterVolume),
+      musicVolume: readVolume(settings.musicVolume, DEFAULT_AUDIO_SETTINGS.musicVolume),
+      sfxVolume: readVolume(settings.sfxVolume, DEFAULT_AUDIO_SETTINGS.sfxVolume),
+      muteWhenHidden:
+        typeof settings.muteWhenHidden === 'boolean'
+          ? settings.muteWhenHidden
+          : DEFAULT_AUDIO_SETTINGS.muteWhenHidden,
+    };
+  }
+
+  /**
+   * Get the key bindings (the defaults until the player rebinds a key)
+   */
+  getKeyMapping(): KeyMapping {
+    return readKeyMapping(this.getSettings().keyMapping) ?? { ...DEFAULT_KEY_MAPPING };
+  }
+
+  /**
+   * Save the key bindings
+   */
+  saveKeyMapping(mapping: KeyMapping): void {
+    this.saveSettings({ keyMapping: mapping });
+  }
+
+  /**
+   * Get the touch gesture thresholds (the defaults until the player calibrates them)
+   */
+  getGestureThresholds(): GestureThresholds {
+    return readGestureThresholds(this.getSettings().gestureThresholds);
+  }
+
+  /**
+   * Save the touch gesture thresholds
+   */
+  saveGestureThresholds(thresholds: GestureThresholds): void {
+    this.saveSettings({ gestureThresholds: readGestureThresholds(thresholds) });
+  }
+
+  /**
+   * Check if colored crates are drawn with colorblind glyphs
+   */
+  getCrateGlyphs(): boolean {
+    return this.getSettings().crateGlyphs === true;
+  }
+
+  /**
+   * Save the colorblind crate glyphs option
+   */
+  saveCrateGlyphs(enabled: boolean): void {
+    this.saveSettings({ crateGlyphs: enabled });
+  }
+
+  /**
+   * Get the LCD ghosting settings (off until the player turns it on)
+   */
+  getGhostingSettings(): GhostingSettings {
+    return readGhostingSettings(this.getSettings().ghosting);
+  }
+
+  /**
+   * Save the LCD ghosting settings
+   */
+  saveGhostingSettings(settings: GhostingSettings): void {
+    this.saveSettings({ ghosting: readGhostingSettings(settings) });
+  }
+
+  /**
+   * Get the touch controls layout of this device (the defaults until it is edited)
+   */
+  getVirtualControllerSettings(): VirtualControllerSettings {
+    return readVirtualControllerSettings(this.data.virtualController);
+  }
+
+  /**
+   * Save the touch controls layout of this device
+   */
+  saveVirtualControllerSettings(settings: VirtualControllerSettings): void {
+    this.data.virtualController = readVirtualControllerSettings(settings);
+    this.persist();
+  }
+
   /**
    * Reset all settings to defaults
    */
   resetSettings(): void {
-    setCookie(COOKIE_SETTINGS, DEFAULT_SETTINGS);
+    this.getActiveStoredProfile().settings = { ...DEFAULT_SETTINGS };
+    this.persist();
+  }
+
+  // ============ UNLOCK PROGRESS ============
+
+  /**
+   * Get saved character unlocks and progress
+   * Unknown characters and malformed values are dropped
+   */
+  getUnlockProgress(): UnlockProgress {
+    return readUnlockProgress(this.getActiveStoredProfile());
+  }
+
+  /**
+   * Save character unlocks and progress
+   */
+  saveUnlockProgress(progress: UnlockProgress): void {
+    this.getActiveStoredProfile().unlockProgress = structuredClone(progress);
+    this.persist();
+  }
+
+  /**
+   * Forget all unlocks and progress (back to the starting characters)
+   */
+  clearUnlockProgress(): void {
+    this.getActiveStoredProfile().unlockProgress = null;
+    this.persist();
+  }
+
+  // ============ SAVE TRANSFER ============
+
+  /**
+   * Get everything a save code carries to another device
+   */
+  getTransferData(): SaveTransferData {
+    const highScores = {} as Record<GameMode, HighScoreEntry[]>;
+    for (const mode of Object.values(GameMode) as GameMode[]) {
+      highScores[mode] = this.getHighScores(mode);
+    }
+    return {
+      highScores,
+      settings: getPortableSettings(this.getSettings()),
+      unlockProgress: this.getUnlockProgress(),
+    };
+  }
+
+  /**
+   * Merge save data from another device: high score tables are combined, unlocks
+   * and stats keep the best of both, and the imported portable settings replace the
+   * current ones (this device keeps its key bindings, gestures and audio mix)
+   */
+  importTransferData(data: SaveTransferData): void {
+    for (const mode of Object.values(GameMode) as GameMode[]) {
+      const scores = [...this.getHighScores(mode), ...data.highScores[mode]];
+      const unique = scores.filter(
+        (entry, i) =>
+          scores.findIndex(
+            (other) =>
+              other.score === entry.score &&
+              other.level === entry.level &&
+              other.date === entry.date
+          ) === i
+      );
+      unique.sort((a, b) => b.score - a.score);
+      this.getActiveStoredProfile().highScores[mode] = unique.slice(0, MAX_HIGH_SCORES);
+    }
+
+    this.getActiveStoredProfile().settings = {
+      ...this.getActiveStoredProfile().settings,
+      ...getPortableSettings(data.settings),
+    };
+
+    const current = this.getUnlockProgress();
+    const incoming = data.unlockProgress;
+    const highestLevelByCharacter = { ...current.highestLevelByCharacter };
+    for (const [id, level] of Object.entries(incoming.highestLevelByCharacter)) {
+      highestLevelByCharacter[Number(id)] = Math.max(
+        highestLevelByCharacter[Number(id)] ?? 0,
+        level
+      );
+    }
+    this.getActiveStoredProfile().unlockProgress = {
+      unlockedCharacterIds: [
+        ...new Set([...current.unlockedCharacterIds, ...incoming.unlockedCharacterIds]),
+      ],
+      highestLevelByCharacter,
+      bestScore: Math.max(current.bestScore, incoming.bestScore),
+    };
+
+    this.persist();
+  }
+
+  // ============ SAVED GAME ============
+
+  /**
+   * Save a snapshot of the run in progress (replaces any previous save)
+   */
+  saveGame(snapshot: GameSnapshot): void {
+    const json = serializeGameSnapshot(snapshot);
+    const id = this.data.activeProfileId;
+    this.savedGames.set(id, json);
+    this.backend
+      .setItem(getSavedGameKey(id), json)
+      .catch((error) => console.warn('Could not save the game in progress:', error));
+  }
+
+  /**
+   * Load the saved run (null if there is none or it is unreadable)
+   */
+  loadSavedGame(): GameSnapshot | null {
+    const json = this.savedGames.get(this.data.activeProfileId);
+    return json ? parseGameSnapshot(json) : null;
+  }
+
+  /**
+   * Check if a run can be continued
+   */
+  hasSavedGame(): boolean {
+    return this.loadSavedGame() !== null;
   }
 
   /**
-   * Clear all stored data
+   * Delete the saved run
+   */
+  clearSavedGame(): void {
+    this.removeSavedGame(this.data.activeProfileId);
+  }
+
+  /**
+   * Clear all stored data (every profile)
    */
   clearAll(): void {
-    this.clearHighScores();
-    this.resetSettings();
+    for (const profile of this.data.profiles) {
+      this.removeSavedGame(profile.id);
+    }
+    this.data = createDefaultData();
+    this.persist();
+  }
+
+  /**
+   * Get the stored data of the active profile
+   */
+  private getActiveStoredProfile(): StoredProfile {
+    return this.data.profiles.find((profile) => profile.id === this.data.activeProfileId)!;
+  }
+
+  private summarizeProfile(profile: StoredProfile): ProfileSummary {
+    return {
+      id: profile.id,
+      name: profile.name,
+      bestScore: readUnlockProgress(profile).bestScore,
+    };
+  }
+
+  private isProfileNameTaken(name: string, exceptId?: number): boolean {
+    return this.data.profiles.some((profile) => profile.name === name && profile.id !== exceptId);
+  }
+
+  private removeSavedGame(profileId: number): void {
+    this.savedGames.delete(profileId);
+    this.backend
+      .removeItem(getSavedGameKey(profileId))
+      .catch((error) => console.warn('Could not delete the saved game:', error));
+  }
+
+  /**
+   * Write the cached data through to the backend in the background
+   */
+  private persist(): void {
+    void this.writeData();
+  }
+
+  /**
+   * Write the cached data to the backend
+   * Returns false if it could not be stored
+   */
+  private async writeData(): Promise<boolean> {
+    try {
+      await this.backend.setItem(STORAGE_DATA, JSON.stringify(this.data));
+      return true;
+    } catch (error) {
+      console.warn('Could not save game data:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Read a value from the backend (null if missing or the backend fails)
+   */
+  private async readItem(key: string): Promise<string | null> {
+    try {
+      return await this.backend.getItem(key);
+    } catch {
+      return null;
+    }
   }
 }
 
@@ -0,0 +1,243 @@
+/**
+ * Gamepad Input Handler
+ * Polls the Gamepad API once per game tick and maps the d-pad, left stick and
+ * face buttons of every connected controller to game actions
+ */
+
+import type { InputAction } from '../types/game';
+import { InputAction as InputActionEnum } from '../types/game';
+
+export type ButtonMapping = Record<number, InputAction>;
+export type ActionStateListener = (action: InputAction, active: boolean) => void;
+export type GamepadConnectionListener = (index: number, connected: boolean) => void;
+
+/**
+ * Button layout of the "standard" gamepad mapping (Xbox names, PlayStation in brackets)
+ */
+export const GamepadButton = {
+  A: 0, // Cross
+  B: 1, // Circle
+  X: 2, // Square
+  Y: 3, // Triangle
+  Select: 8, // Share
+  Start: 9, // Options
+  DpadUp: 12,
+  DpadDown: 13,
+  DpadLeft: 14,
+  DpadRight: 15,
+} as const;
+
+/**
+ * Stick travel (0-1) ignored around the center, so worn sticks don't drift
+ */
+export const STICK_DEADZONE = 0.25;
+
+/**
+ * Stick travel past the deadzone (0-1) needed to count as a direction
+ */
+const STICK_DIRECTION_THRESHOLD = 0.5;
+
+/**
+ * Read a stick with a radial deadzone, rescaled so movement starts from 0 at its edge
+ */
+export function applyStickDeadzone(
+  x: number,
+  y: number,
+  deadzone: number = STICK_DEADZONE
+): { x: number; y: number } {
+  const magnitude = Math.hypot(x, y);
+  if (magnitude <= deadzone) {
+    return { x: 0, y: 0 };
+  }
+
+  const scale = Math.min(1, (magnitude - deadzone) / (1 - deadzone)) / magnitude;
+  return { x: x * scale, y: y * scale };
+}
+
+export class GamepadInput {
+  private buttonMapping: ButtonMapping;
+  private getGamepads: () => readonly (Gamepad | null)[];
+  private activeActions: Set<InputAction> = new Set();
+  private listeners: ActionStateListener[] = [];
+  private connectionListeners: GamepadConnectionListener[] = [];
+  private isInitialized: boolean = false;
+
+  /**
+   * @param getGamepads - Gamepad source (defaults to navigator.getGamepads)
+   */
+  constructor(getGamepads?: () => readonly (Gamepad | null)[]) {
+    this.getGamepads = getGamepads ?? (() => navigator.getGamepads?.() ?? []);
+
+    // Default button mappings
+    this.buttonMapping = {
+      [GamepadButton.A]: InputActionEnum.Jump,
+      [GamepadButton.X]: InputActionEnum.Jump,
+      [GamepadButton.DpadUp]: InputActionEnum.Jump,
+      [GamepadButton.DpadLeft]: InputActionEnum.MoveLeft,
+      [GamepadButton.DpadRight]: InputActionEnum.MoveRight,
+      [GamepadButton.B]: InputActionEnum.Back,
+      [GamepadButton.Select]: InputActionEnum.Back,
+      [GamepadButton.Y]: InputActionEnum.Confirm,
+      [GamepadButton.Start]: InputActionEnum.Pause,
+    };
+  }
+
+  /**
+   * Initialize gamepad connection listeners
+   */
+  initialize(): void {
+    if (this.isInitialized) {
+      return;
+    }
+
+    window.addEventListener('gamepadconnected', this.handleConnected);
+    window.addEventListener('gamepaddisconnected', this.handleDisconnected);
+    this.isInitialized = true;
+  }
+
+  /**
+   * Handle a controller being plugged in (or first used)
+   */
+  private handleConnected = (event: GamepadEvent): void => {
+    this.notifyConnectionListeners(event.gamepad.index, true);
+  };
+
+  /**
+   * Handle a controller being unplugged
+   */
+  private handleDisconnected = (event: GamepadEvent): void => {
+    this.notifyConnectionListeners(event.gamepad.index, false);
+    // Release anything the controller was holding
+    this.poll();
+  };
+
+  /**
+   * Read all connected controllers and report actions that started or stopped
+   */
+  poll(): void {
+    const actions = new Set<InputAction>();
+
+    for (const gamepad of this.getGamepads()) {
+      if (!gamepad || !gamepad.connected) {
+        continue;
+      }
+
+      gamepad.buttons.forEach((button, index) => {
+        const action = this.buttonMapping[index];
+        if (action && button.pressed) {
+          actions.add(action);
+        }
+      });
+
+      const stick = applyStickDeadzone(gamepad.axes[0] ?? 0, gamepad.axes[1] ?? 0);
+      if (stick.x <= -STICK_DIRECTION_THRESHOLD) {
+        actions.add(InputActionEnum.MoveLeft);
+      } else if (stick.x >= STICK_DIRECTION_THRESHOLD) {
+        actions.add(InputActionEnum.MoveRight);
+      }
+      // Stick up jumps (screen-space y points down)
+      if (stick.y <= -STICK_DIRECTION_THRESHOLD) {
+        actions.add(InputActionEnum.Jump);
+      }
+    }
+
+    for (const action of this.activeActions) {
+      if (!actions.has(action)) {
+        this.notifyListeners(action, false);
+      }
+    }
+    for (const action of actions) {
+      if (!this.activeActions.has(action)) {
+        this.notifyListeners(action, true);
+      }
+    }
+    this.activeActions = actions;
+  }
+
+  /**
+   * Check if any controller is connected
+   */
+  hasGamepad(): boolean {
+    return this.getGamepads().some((gamepad) => gamepad?.connected);
+  }
+
+  /**
+   * Check if an action is held on any controller
+   */
+  isActionActive(action: InputAction): boolean {
+    return this.activeActions.has(action);
+  }
+
+  /**
+   * Add a listener for action state changes
+   */
+  addListener(listener: ActionStateListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Remove a listener
+   */
+  removeListener(listener: ActionStateListener): void {
+    const index = this.listeners.indexOf(listener);
+    if (index !== -1) {
+      this.listeners.splice(index, 1);
+    }
+  }
+
+  /**
+   * Add a listener for controllers being connected or disconnected
+   */
+  onConnectionChange(listener: GamepadConnectionListener): void {
+    this.connectionListeners.push(listener);
+  }
+
+  /**
+   * Notify all listeners of an action state change
+   */
+  private notifyListeners(action: InputAction, active: boolean): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(action, active);
+      } catch (error) {
+        console.error('Error in gamepad input listener:', error);
+      }
+    });
+  }
+
+  /**
+   * Notify connection listeners
+   */
+  private notifyConnectionListeners(index: number, connected: boolean): void {
+    this.connectionListeners.forEach((listener) => {
+      try {
+        listener(index, connected);
+      } catch (error) {
+        console.error('Error in gamepad connection listener:', error);
+      }
+    });
+  }
+
+  /**
+   * Clear all held actions (without notifying)
+   */
+  clearStates(): void {
+    this.activeActions.clear();
+  }
+
+  /**
+   * Destroy the gamepad input handler
+   */
+  destroy(): void {
+    if (!this.isInitialized) {
+      return;
+    }
+
+    window.removeEventListener('gamepadconnected', this.handleConnected);
+    window.removeEventListener('gamepaddisconnected', this.handleDisconnected);
+    this.clearStates();
+    this.listeners = [];
+    this.connectionListeners = [];
+    this.isInitialized = false;
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * Gesture Calibration
+ * Touch sensitivity screen drawn as an HTML overlay. Players try swipes, drags
+ * and two-finger taps on a test pad and step the gesture thresholds until the
+ * gestures they make are the ones recognized.
+ */
+
+import {
+  DEFAULT_GESTURE_THRESHOLDS,
+  GESTURE_THRESHOLD_RANGES,
+  readGestureThresholds,
+} from '../config/gestures';
+import type { GestureThresholds } from '../config/gestures';
+import type { TouchGesture } from './GestureRecognizer';
+
+const THRESHOLD_LABELS: Record<keyof GestureThresholds, (value: number) => string> = {
+  minDistance: (value) => `SWIPE LENGTH ${value}PX`,
+  minVelocity: (value) => `SWIPE SPEED ${value.toFixed(2)}`,
+  maxDuration: (value) => `SWIPE TIME ${value}MS`,
+  dragDistance: (value) => `DRAG START ${value}PX`,
+};
+
+const TEST_PAD_PROMPT = 'SWIPE, DRAG SIDEWAYS OR TAP WITH TWO FINGERS HERE';
+
+export class GestureCalibration {
+  private root: HTMLElement;
+  private thresholds: GestureThresholds = { ...DEFAULT_GESTURE_THRESHOLDS };
+  private testPad: HTMLElement | null = null;
+
+  // Calibration state (null when closed)
+  private onChange: ((thresholds: GestureThresholds) => void) | null = null;
+
+  /**
+   * @param root - Element the screen is drawn in (covers the screen)
+   */
+  constructor(root: HTMLElement) {
+    this.root = root;
+    this.root.hidden = true;
+    this.root.addEventListener('keydown', this.handleKeyDown);
+  }
+
+  /**
+   * Show the screen with the player's thresholds. Every change is reported
+   * until close() (or DONE)
+   */
+  open(thresholds: GestureThresholds, onChange: (thresholds: GestureThresholds) => void): void {
+    this.thresholds = readGestureThresholds(thresholds);
+    this.onChange = onChange;
+    this.render();
+    this.root.hidden = false;
+    this.root.querySelector<HTMLElement>('.gesture-calibration-done')?.focus();
+  }
+
+  /**
+   * Close the screen
+   */
+  close(): void {
+    this.onChange = null;
+    this.testPad = null;
+    this.root.hidden = true;
+    this.root.replaceChildren();
+  }
+
+  /**
+   * Check if the screen is open
+   */
+  isOpen(): boolean {
+    return this.onChange !== null;
+  }
+
+  /**
+   * Show a gesture recognized with the current thresholds on the test pad
+   */
+  showGesture(gesture: TouchGesture): void {
+    if (this.testPad) {
+      this.testPad.textContent = describeGesture(gesture);
+    }
+  }
+
+  /**
+   * Get the thresholds being calibrated
+   */
+  getThresholds(): GestureThresholds {
+    return { ...this.thresholds };
+  }
+
+  /**
+   * Draw the panel: test pad, a row per threshold, reset and done
+   */
+  private render(): void {
+    const panel = document.createElement('div');
+    panel.className = 'gesture-calibration-panel';
+    panel.setAttribute('role', 'dialog');
+    panel.setAttribute('aria-modal', 'true');
+
+    const title = document.createElement('h2');
+    title.className = 'gesture-calibration-title';
+    title.textContent = 'TOUCH SENSITIVITY';
+    panel.appendChild(title);
+
+    this.testPad = document.createElement('div');
+    this.testPad.className = 'gesture-calibration-pad';
+    this.testPad.setAttribute('role', 'status');
+    this.testPad.textContent = TEST_PAD_PROMPT;
+    panel.appendChild(this.testPad);
+
+    for (const key of Object.keys(THRESHOLD_LABELS) as (keyof GestureThresholds)[]) {
+      const row = this.createRow(panel);
+      this.addButton(row, '-', () => this.step(key, -1));
+      const value = document.createElement('span');
+      value.className = 'gesture-calibration-value';
+      value.textContent = THRESHOLD_LABELS[key](this.thresholds[key]);
+      row.appendChild(value);
+      this.addButton(row, '+', () => this.step(key, 1));
+    }
+
+    const row = this.createRow(panel);
+    this.addButton(row, 'RESET', () => this.change({ ...DEFAULT_GESTURE_THRESHOLDS }));
+    this.addButton(row, 'DONE', () => this.close()).classList.add('gesture-calibration-done');
+
+    this.root.replaceChildren(panel);
+  }
+
+  /**
+   * Add a row to the panel
+   */
+  private createRow(panel: HTMLElement): HTMLElement {
+    const row = document.createElement('div');
+    row.className = 'gesture-calibration-row';
+    panel.appendChild(row);
+    return row;
+  }
+
+  /**
+   * Add a button to a row
+   */
+  private addButton(row: HTMLElement, text: string, onClick: () => void): HTMLElement {
+    const button = document.createElement('button');
+    button.className = 'gesture-calibration-btn';
+    button.textContent = text;
+    button.addEventListener('click', onClick);
+    row.appendChild(button);
+    return button;
+  }
+
+  /**
+   * Step a threshold up or down, staying in its range
+   */
+  private step(key: keyof GestureThresholds, direction: 1 | -1): void {
+    const { step } = GESTURE_THRESHOLD_RANGES[key];
+    // Round to the step (avoids 0.35000000000000003)
+    const value = Math.round((this.thresholds[key] + direction * step) / step) * step;
+    this.change({ ...this.thresholds, [key]: Number(value.toFixed(2)) });
+  }
+
+  /**
+   * Apply new thresholds, redraw and report them
+   */
+  private change(thresholds: GestureThresholds): void {
+    this.thresholds = readGestureThresholds(thresholds);
+    this.render();
+    this.onChange?.(this.getThresholds());
+  }
+
+  /**
+   * Keep key presses away from the scene underneath
+   */
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    event.stopPropagation();
+    if (event.key === 'Escape') {
+      this.close();
+    }
+  };
+
+  /**
+   * Remove the screen
+   */
+  destroy(): void {
+    this.close();
+    this.root.removeEventListener('keydown', this.handleKeyDown);
+  }
+}
+
+/**
+ * Describe a recognized gesture and what it does in the swipe layout
+ */
+function describeGesture(gesture: TouchGesture): string {
+  switch (gesture.type) {
+    case 'swipe':
+      return gesture.direction === 'down'
+        ? 'SWIPE DOWN'
+        : `SWIPE ${gesture.direction.toUpperCase()} - ${gesture.direction === 'up' ? 'JUMP' : 'STEP'}`;
+    case 'drag':
+      return `DRAG ${gesture.direction.toUpperCase()} - HOLD MOVE`;
+    case 'twoFingerTap':
+      return 'TWO-FINGER TAP - JUMP';
+  }
+}
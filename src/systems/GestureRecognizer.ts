@@ -1,11 +1,26 @@
 /**
  * Gesture Recognizer
- * Detects directional swipes with velocity thresholds
+ * Detects directional swipes with velocity thresholds, sideways drags (for
+ * hold-to-move) and two-finger taps
  */
 
 import type { TouchPoint } from './TouchInput';
+import { DEFAULT_GESTURE_THRESHOLDS } from '../config/gestures';
+import type { GestureThresholds } from '../config/gestures';
 
 export type SwipeDirection = 'left' | 'right' | 'up' | 'down';
+export type DragDirection = 'left' | 'right';
+
+/**
+ * Any recognized gesture (reported to the calibration screen)
+ */
+export type TouchGesture =
+  | { type: 'swipe'; direction: SwipeDirection }
+  | { type: 'drag'; direction: DragDirection }
+  | { type: 'twoFingerTap' };
+
+// Longest a two-finger tap may take, and the most its fingers may land apart (ms)
+const TWO_FINGER_TAP_TIME = 250;
 
 export interface SwipeGesture {
   direction: SwipeDirection;
@@ -20,9 +35,10 @@ export class GestureRecognizer {
   private swipeListeners: SwipeListener[] = [];
 
   // Gesture detection thresholds
-  private readonly minSwipeDistance: number = 30; // pixels
-  private readonly minSwipeVelocity: number = 0.3; // pixels per millisecond
-  private readonly maxSwipeDuration: number = 300; // milliseconds
+  private minSwipeDistance: number = DEFAULT_GESTURE_THRESHOLDS.minDistance; // pixels
+  private minSwipeVelocity: number = DEFAULT_GESTURE_THRESHOLDS.minVelocity; // pixels per millisecond
+  private maxSwipeDuration: number = DEFAULT_GESTURE_THRESHOLDS.maxDuration; // milliseconds
+  private dragDistance: number = DEFAULT_GESTURE_THRESHOLDS.dragDistance; // pixels
 
   /**
    * Analyze a touch point and detect if it's a swipe gesture
@@ -101,6 +117,40 @@ export class GestureRecognizer {
     return this.getSwipeDirection(deltaX, deltaY);
   }
 
+  /**
+   * Check if a touch is dragged far enough sideways to hold a move
+   * (back inside the drag distance releases it)
+   */
+  recognizeDrag(touchPoint: TouchPoint): DragDirection | null {
+    const deltaX = touchPoint.currentX - touchPoint.startX;
+    const deltaY = touchPoint.currentY - touchPoint.startY;
+
+    if (Math.abs(deltaX) < this.dragDistance || Math.abs(deltaX) <= Math.abs(deltaY)) {
+      return null;
+    }
+
+    return deltaX > 0 ? 'right' : 'left';
+  }
+
+  /**
+   * Check if a lifted touch and another finger still down make a two-finger tap
+   */
+  recognizeTwoFingerTap(touchPoint: TouchPoint, otherTouches: TouchPoint[]): boolean {
+    const now = performance.now();
+    const isTap = (touch: TouchPoint) =>
+      now - touch.startTime <= TWO_FINGER_TAP_TIME &&
+      Math.hypot(touch.currentX - touch.startX, touch.currentY - touch.startY) <
+        this.minSwipeDistance;
+
+    return (
+      isTap(touchPoint) &&
+      otherTouches.some(
+        (other) =>
+          isTap(other) && Math.abs(other.startTime - touchPoint.startTime) <= TWO_FINGER_TAP_TIME
+      )
+    );
+  }
+
   /**
    * Add a swipe listener
    */
@@ -141,34 +191,30 @@ export class GestureRecognizer {
   /**
    * Set custom thresholds for gesture detection
    */
-  setThresholds(options: {
-    minDistance?: number;
-    minVelocity?: number;
-    maxDuration?: number;
-  }): void {
+  setThresholds(options: Partial<GestureThresholds>): void {
     if (options.minDistance !== undefined) {
-      (this as any).minSwipeDistance = options.minDistance;
+      this.minSwipeDistance = options.minDistance;
     }
     if (options.minVelocity !== undefined) {
-      (this as any).minSwipeVelocity = options.minVelocity;
+      this.minSwipeVelocity = options.minVelocity;
     }
     if (options.maxDuration !== undefined) {
-      (this as any).maxSwipeDuration = options.maxDuration;
+      this.maxSwipeDuration = options.maxDuration;
+    }
+    if (options.dragDistance !== undefined) {
+      this.dragDistance = options.dragDistance;
     }
   }
 
   /**
    * Get current thresholds
    */
-  getThresholds(): {
-    minDistance: number;
-    minVelocity: number;
-    maxDuration: number;
-  } {
+  getThresholds(): GestureThresholds {
     return {
       minDistance: this.minSwipeDistance,
       minVelocity: this.minSwipeVelocity,
       maxDuration: this.maxSwipeDuration,
+      dragDistance: this.dragDistance,
     };
   }
 }
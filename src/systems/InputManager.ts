@@ -8,30 +8,53 @@ import { InputAction } from '../types/game';
 import type { InputState } from '../types/game';
 import { KeyboardInput } from './KeyboardInput';
 import { TouchInput } from './TouchInput';
+import { GamepadInput } from './GamepadInput';
 import type { TouchPoint } from './TouchInput';
 import { GestureRecognizer } from './GestureRecognizer';
-import type { SwipeDirection, SwipeGesture } from './GestureRecognizer';
+import type {
+  DragDirection,
+  SwipeDirection,
+  SwipeGesture,
+  TouchGesture,
+} from './GestureRecognizer';
 
 export type InputActionListener = (action: InputAction, active: boolean) => void;
 export type SwipeDirectionListener = (direction: SwipeDirection) => void;
+export type TouchGestureListener = (gesture: TouchGesture) => void;
+
+// Moves held by dragging a finger sideways
+const DRAG_ACTIONS: [InputAction, DragDirection][] = [
+  [InputAction.MoveLeft, 'left'],
+  [InputAction.MoveRight, 'right'],
+];
 
 export class InputManager {
   private keyboardInput: KeyboardInput;
   private touchInput: TouchInput;
+  private gamepadInput: GamepadInput;
   private gestureRecognizer: GestureRecognizer;
 
   private inputState: InputState;
   private actionListeners: InputActionListener[] = [];
   private swipeListeners: SwipeDirectionListener[] = [];
+  private gestureListeners: TouchGestureListener[] = [];
 
   // Track touch buttons (for UI button overlays)
   private touchButtonStates: Map<InputAction, boolean> = new Map();
 
+  // Track touches dragged sideways (hold-to-move) and the moves they hold
+  private dragDirections: Map<number, DragDirection> = new Map();
+  private dragActions: Set<InputAction> = new Set();
+
+  // Whether gestures move and jump (off when on-screen controls handle it)
+  private swipeActionsEnabled: boolean = true;
+
   private isInitialized: boolean = false;
 
   constructor() {
     this.keyboardInput = new KeyboardInput();
     this.touchInput = new TouchInput();
+    this.gamepadInput = new GamepadInput();
     this.gestureRecognizer = new GestureRecognizer();
 
     // Initialize input state
@@ -59,8 +82,13 @@ export class InputManager {
 
     // Initialize touch input
     this.touchInput.initialize();
+    this.touchInput.onTouchMove(this.handleTouchMove);
     this.touchInput.onTouchEnd(this.handleTouchEnd);
 
+    // Initialize gamepad input (polled by update())
+    this.gamepadInput.initialize();
+    this.gamepadInput.addListener(this.handleGamepadAction);
+
     // Initialize gesture recognizer
     this.gestureRecognizer.onSwipe(this.handleSwipeGesture);
 
@@ -74,18 +102,94 @@ export class InputManager {
     this.setActionState(action, active);
   };
 
+  /**
+   * Handle gamepad action events
+   */
+  private handleGamepadAction = (action: InputAction, active: boolean): void => {
+    this.setActionState(action, active);
+  };
+
+  /**
+   * Poll input sources that have no events (gamepads) - call once per game tick
+   */
+  update(): void {
+    if (this.isInitialized) {
+      this.gamepadInput.poll();
+    }
+  }
+
+  /**
+   * Handle touch move events: a sideways drag holds a move until the finger
+   * lifts or comes back
+   */
+  private handleTouchMove = (touchPoint: TouchPoint): void => {
+    const direction = this.gestureRecognizer.recognizeDrag(touchPoint);
+    if (direction === (this.dragDirections.get(touchPoint.id) ?? null)) {
+      return;
+    }
+
+    if (direction) {
+      this.dragDirections.set(touchPoint.id, direction);
+      this.notifyGestureListeners({ type: 'drag', direction });
+    } else {
+      this.dragDirections.delete(touchPoint.id);
+    }
+    this.updateDragActions();
+  };
+
   /**
    * Handle touch end events for gesture recognition
    */
   private handleTouchEnd = (touchPoint: TouchPoint): void => {
+    if (this.dragDirections.delete(touchPoint.id)) {
+      this.updateDragActions();
+    }
+
     const gesture = this.gestureRecognizer.recognizeSwipe(touchPoint);
 
     if (gesture) {
-      // Swipe detected - map to actions
-      this.mapSwipeToAction(gesture);
+      this.notifyGestureListeners({ type: 'swipe', direction: gesture.direction });
+      if (this.swipeActionsEnabled) {
+        // Swipe detected - map to actions
+        this.mapSwipeToAction(gesture);
+      }
+      return;
+    }
+
+    // The finger lifted with another still down
+    const otherTouches = this.touchInput
+      .getActiveTouches()
+      .filter((touch) => touch.id !== touchPoint.id);
+    if (this.gestureRecognizer.recognizeTwoFingerTap(touchPoint, otherTouches)) {
+      this.notifyGestureListeners({ type: 'twoFingerTap' });
+      if (this.swipeActionsEnabled) {
+        this.triggerTemporaryAction(InputAction.Jump);
+      }
     }
   };
 
+  /**
+   * Hold or release the moves of touches being dragged
+   */
+  private updateDragActions(): void {
+    const directions = [...this.dragDirections.values()];
+
+    for (const [action, direction] of DRAG_ACTIONS) {
+      const held = this.swipeActionsEnabled && directions.includes(direction);
+      if (held === this.dragActions.has(action)) {
+        continue;
+      }
+
+      if (held) {
+        this.dragActions.add(action);
+      } else {
+        this.dragActions.delete(action);
+      }
+      // On-screen buttons may still hold the move
+      this.setActionState(action, held || (this.touchButtonStates.get(action) ?? false));
+    }
+  }
+
   /**
    * Handle swipe gesture events
    */
@@ -234,6 +338,45 @@ export class InputManager {
     this.notifySwipeListeners(direction);
   }
 
+  /**
+   * Turn swipe, drag and two-finger tap actions on or off (swipe and gesture
+   * listeners are still notified)
+   */
+  setSwipeActionsEnabled(enabled: boolean): void {
+    this.swipeActionsEnabled = enabled;
+    this.updateDragActions();
+  }
+
+  /**
+   * Add a listener for every recognized touch gesture
+   */
+  onGesture(listener: TouchGestureListener): void {
+    this.gestureListeners.push(listener);
+  }
+
+  /**
+   * Remove a gesture listener
+   */
+  removeGestureListener(listener: TouchGestureListener): void {
+    const index = this.gestureListeners.indexOf(listener);
+    if (index !== -1) {
+      this.gestureListeners.splice(index, 1);
+    }
+  }
+
+  /**
+   * Notify gesture listeners
+   */
+  private notifyGestureListeners(gesture: TouchGesture): void {
+    this.gestureListeners.forEach((listener) => {
+      try {
+        listener(gesture);
+      } catch (error) {
+        console.error('Error in gesture listener:', error);
+      }
+    });
+  }
+
   /**
    * Clear all input states
    */
@@ -242,6 +385,8 @@ export class InputManager {
       this.inputState[key as InputAction] = false;
     });
     this.touchButtonStates.clear();
+    this.dragDirections.clear();
+    this.dragActions.clear();
   }
 
   /**
@@ -254,11 +399,13 @@ export class InputManager {
 
     this.keyboardInput.destroy();
     this.touchInput.destroy();
+    this.gamepadInput.destroy();
     this.gestureRecognizer.clearListeners();
 
     this.clearStates();
     this.actionListeners = [];
     this.swipeListeners = [];
+    this.gestureListeners = [];
     this.isInitialized = false;
   }
 
@@ -283,6 +430,13 @@ export class InputManager {
     return this.touchInput;
   }
 
+  /**
+   * Get gamepad input system (for advanced usage)
+   */
+  getGamepadInput(): GamepadInput {
+    return this.gamepadInput;
+  }
+
   /**
    * Get gesture recognizer (for advanced usage)
    */
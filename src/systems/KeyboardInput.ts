@@ -6,9 +6,116 @@
 import type { InputAction } from '../types/game';
 import { InputAction as InputActionEnum } from '../types/game';
 
+/**
+ * Keys (KeyboardEvent.key values, letters in lower case) and the actions they trigger
+ * An action can have several keys; a key triggers one action
+ */
 export type KeyMapping = Record<string, InputAction>;
 export type ActionStateListener = (action: InputAction, active: boolean) => void;
 
+/**
+ * Result of binding or clearing keys: the new mapping, or why it was refused
+ */
+export type KeyBindingResult =
+  | { mapping: KeyMapping; error: null }
+  | { mapping: null; error: string };
+
+/**
+ * Most keys an action can have (binding another replaces the first listed)
+ */
+export const MAX_KEYS_PER_ACTION = 3;
+
+/**
+ * Default key mappings
+ */
+export const DEFAULT_KEY_MAPPING: Readonly<KeyMapping> = {
+  ArrowLeft: InputActionEnum.MoveLeft,
+  a: InputActionEnum.MoveLeft,
+
+  ArrowRight: InputActionEnum.MoveRight,
+  d: InputActionEnum.MoveRight,
+
+  ArrowUp: InputActionEnum.Jump,
+  w: InputActionEnum.Jump,
+  ' ': InputActionEnum.Jump, // Spacebar
+
+  Escape: InputActionEnum.Pause,
+  p: InputActionEnum.Pause,
+
+  Enter: InputActionEnum.Confirm,
+
+  Backspace: InputActionEnum.Back,
+};
+
+// Display names for keys whose KeyboardEvent.key value is not what is printed on them
+const KEY_LABELS: Record<string, string> = {
+  ' ': 'SPACE',
+  ArrowLeft: 'LEFT',
+  ArrowRight: 'RIGHT',
+  ArrowUp: 'UP',
+  ArrowDown: 'DOWN',
+  Escape: 'ESC',
+  Backspace: 'BKSP',
+  Delete: 'DEL',
+  Control: 'CTRL',
+};
+
+/**
+ * Normalize a KeyboardEvent.key value so letters work with and without Shift
+ */
+export function normalizeKey(key: string): string {
+  return key.length === 1 ? key.toLowerCase() : key;
+}
+
+/**
+ * Get a short upper case name for a key (e.g. SPACE, LEFT, Q)
+ */
+export function getKeyLabel(key: string): string {
+  return (KEY_LABELS[key] ?? key).toUpperCase();
+}
+
+/**
+ * Get the keys bound to an action, in binding order
+ */
+export function getKeysForAction(mapping: KeyMapping, action: InputAction): string[] {
+  return Object.keys(mapping).filter((key) => mapping[key] === action);
+}
+
+/**
+ * Add a key to an action (refused if the key already belongs to another action)
+ */
+export function bindKey(mapping: KeyMapping, key: string, action: InputAction): KeyBindingResult {
+  const normalized = normalizeKey(key);
+  const current = mapping[normalized];
+  if (current !== undefined && current !== action) {
+    return { mapping: null, error: `${getKeyLabel(normalized)} is already used` };
+  }
+
+  const updated = { ...mapping, [normalized]: action };
+  const keys = getKeysForAction(updated, action);
+  if (keys.length > MAX_KEYS_PER_ACTION) {
+    delete updated[keys[0]];
+  }
+  return { mapping: updated, error: null };
+}
+
+/**
+ * Remove all but the newest key from an action (refused if it has no other key,
+ * so every action can still be triggered)
+ */
+export function clearKeys(mapping: KeyMapping, action: InputAction): KeyBindingResult {
+  const keys = getKeysForAction(mapping, action);
+  if (keys.length <= 1) {
+    return { mapping: null, error: 'Every action needs a key' };
+  }
+
+  const updated = { ...mapping };
+  for (const key of keys.slice(0, -1)) {
+    delete updated[key];
+  }
+  return { mapping: updated, error: null };
+}
+
 export class KeyboardInput {
   private keyMapping: KeyMapping;
   private keyStates: Map<string, boolean> = new Map();
@@ -16,29 +123,7 @@ export class KeyboardInput {
   private isInitialized: boolean = false;
 
   constructor() {
-    // Default key mappings
-    this.keyMapping = {
-      ArrowLeft: InputActionEnum.MoveLeft,
-      a: InputActionEnum.MoveLeft,
-      A: InputActionEnum.MoveLeft,
-
-      ArrowRight: InputActionEnum.MoveRight,
-      d: InputActionEnum.MoveRight,
-      D: InputActionEnum.MoveRight,
-
-      ArrowUp: InputActionEnum.Jump,
-      w: InputActionEnum.Jump,
-      W: InputActionEnum.Jump,
-      ' ': InputActionEnum.Jump, // Spacebar
-
-      Escape: InputActionEnum.Pause,
-      p: InputActionEnum.Pause,
-      P: InputActionEnum.Pause,
-
-      Enter: InputActionEnum.Confirm,
-
-      Backspace: InputActionEnum.Back,
-    };
+    this.keyMapping = { ...DEFAULT_KEY_MAPPING };
   }
 
   /**
@@ -58,15 +143,16 @@ export class KeyboardInput {
    * Handle keydown events
    */
   private handleKeyDown = (event: KeyboardEvent): void => {
-    const action = this.keyMapping[event.key];
+    const key = normalizeKey(event.key);
+    const action = this.keyMapping[key];
 
     if (action) {
       // Prevent default browser behavior for game keys
       event.preventDefault();
 
       // Only trigger if key wasn't already pressed (prevent key repeat)
-      if (!this.keyStates.get(event.key)) {
-        this.keyStates.set(event.key, true);
+      if (!this.keyStates.get(key)) {
+        this.keyStates.set(key, true);
         this.notifyListeners(action, true);
       }
     }
@@ -76,11 +162,12 @@ export class KeyboardInput {
    * Handle keyup events
    */
   private handleKeyUp = (event: KeyboardEvent): void => {
-    const action = this.keyMapping[event.key];
+    const key = normalizeKey(event.key);
+    const action = this.keyMapping[key];
 
     if (action) {
       event.preventDefault();
-      this.keyStates.set(event.key, false);
+      this.keyStates.set(key, false);
       this.notifyListeners(action, false);
     }
   };
@@ -89,14 +176,29 @@ export class KeyboardInput {
    * Check if a specific key is currently pressed
    */
   isKeyPressed(key: string): boolean {
-    return this.keyStates.get(key) || false;
+    return this.keyStates.get(normalizeKey(key)) || false;
   }
 
   /**
    * Get the action mapped to a specific key
    */
   getActionForKey(key: string): InputAction | undefined {
-    return this.keyMapping[key];
+    return this.keyMapping[normalizeKey(key)];
+  }
+
+  /**
+   * Get a copy of the current key mappings
+   */
+  getKeyMapping(): KeyMapping {
+    return { ...this.keyMapping };
+  }
+
+  /**
+   * Replace the key mappings (e.g. with the player's saved bindings)
+   */
+  setKeyMapping(mapping: KeyMapping): void {
+    this.keyMapping = { ...mapping };
+    this.clearStates();
   }
 
   /**
@@ -1,49 +1,96 @@
 /**
  * LCDEffect - Manages LCD backlight effect and color palettes
  *
- * Provides Blue and Amber color palettes with pronounced backlight glow effect
- * to simulate authentic Siemens LCD screen aesthetic.
+ * Provides the preset palettes (Blue and Amber with pronounced backlight glow
+ * effect to simulate authentic Siemens LCD screen aesthetic, High Contrast with
+ * no glow for low-vision players, and more) and the player's custom palettes.
  */
 
 import { Graphics } from 'pixi.js';
 import EventEmitter from 'eventemitter3';
+import {
+  ColorPalette,
+  PRESET_PALETTES,
+  isCustomPalette,
+  samePaletteColors,
+} from '../config/palettes';
+import type { PaletteColors, PaletteDefinition } from '../config/palettes';
 
-export type ColorPalette = 'blue' | 'amber';
-export const ColorPalette = {
-  Blue: 'blue' as ColorPalette,
-  Amber: 'amber' as ColorPalette,
-};
-
-export interface PaletteColors {
-  background: number;
-  foreground: number;
-  accent: number;
-  glow: number;
-}
-
-// Blue LCD palette - authentic backlit LCD style (bright cyan background, dark pixels)
-const BLUE_PALETTE: PaletteColors = {
-  background: 0x6eb8d4, // Cyan/turquoise backlit LCD background (like Siemens)
-  foreground: 0x0a1018, // Near-black for game elements
-  accent: 0x3a5a6a, // Dark gray-blue for mid-tones
-  glow: 0x8ed0e8, // Lighter cyan for center glow
-};
-
-// Amber LCD palette - Siemens A50 style orange LCD
-const AMBER_PALETTE: PaletteColors = {
-  background: 0xe8621f, // Siemens A50 orange LCD background
-  foreground: 0x1a1810, // Near-black for game elements
-  accent: 0xb84a18, // Darker orange for mid-tones
-  glow: 0xf58040, // Lighter orange for center glow
-};
+export { ColorPalette } from '../config/palettes';
+export type { PaletteColors, PaletteDefinition } from '../config/palettes';
 
 export class LCDEffect extends EventEmitter {
   private currentPalette: ColorPalette;
   private glowLayer: Graphics | null = null;
 
-  constructor(initialPalette: ColorPalette = ColorPalette.Blue) {
+  // Colors shown in place of the current palette's own while it is being edited
+  private previewColors: PaletteColors | null = null;
+
+  // Presets first, then custom palettes
+  private palettes: Map<ColorPalette, PaletteDefinition> = new Map(
+    PRESET_PALETTES.map((palette) => [palette.id, palette])
+  );
+
+  /**
+   * @param initialPalette - Starting palette (Blue if it is not known)
+   * @param customPalettes - The player's custom palettes
+   */
+  constructor(
+    initialPalette: ColorPalette = ColorPalette.Blue,
+    customPalettes: PaletteDefinition[] = []
+  ) {
     super();
-    this.currentPalette = initialPalette;
+    for (const palette of customPalettes) {
+      this.palettes.set(palette.id, palette);
+    }
+    this.currentPalette = this.palettes.has(initialPalette) ? initialPalette : ColorPalette.Blue;
+  }
+
+  /**
+   * Get every palette that can be picked (presets, then custom palettes)
+   */
+  getPalettes(): PaletteDefinition[] {
+    return [...this.palettes.values()];
+  }
+
+  /**
+   * Check if a palette can be picked
+   */
+  hasPalette(palette: ColorPalette): boolean {
+    return this.palettes.has(palette);
+  }
+
+  /**
+   * Get the name shown for a palette
+   */
+  getPaletteName(palette: ColorPalette): string {
+    return this.palettes.get(palette)?.name ?? '';
+  }
+
+  /**
+   * Replace the custom palettes (e.g. after editing or switching profiles)
+   * Emits 'palettesChanged', then 'paletteChanged' if the current palette was
+   * edited or removed (removing it switches to Blue)
+   */
+  setCustomPalettes(customPalettes: PaletteDefinition[]): void {
+    const previousColors = this.getColorsForPalette(this.currentPalette);
+    this.previewColors = null;
+
+    for (const palette of [...this.palettes.keys()]) {
+      if (isCustomPalette(palette)) {
+        this.palettes.delete(palette);
+      }
+    }
+    for (const palette of customPalettes) {
+      this.palettes.set(palette.id, palette);
+    }
+    this.emit('palettesChanged', this.getPalettes());
+
+    if (!this.palettes.has(this.currentPalette)) {
+      this.setPalette(ColorPalette.Blue);
+    } else if (!samePaletteColors(previousColors, this.getPaletteColors())) {
+      this.emit('paletteChanged', this.currentPalette);
+    }
   }
 
   /**
@@ -59,22 +106,33 @@ export class LCDEffect extends EventEmitter {
   setPalette(palette: ColorPalette): void {
     if (this.currentPalette !== palette) {
       this.currentPalette = palette;
+      this.previewColors = null;
       this.emit('paletteChanged', palette);
     }
   }
 
   /**
-   * Get the colors for the current palette
+   * Show other colors for the current palette without changing it (e.g. while a
+   * palette editor slider is dragged); null goes back to the palette's own colors
+   * Emits 'palettePreview' - nothing is saved and no sprites are regenerated
+   */
+  previewPaletteColors(colors: PaletteColors | null): void {
+    this.previewColors = colors;
+    this.emit('palettePreview', this.getPaletteColors());
+  }
+
+  /**
+   * Get the colors for the current palette (the previewed colors while there are some)
    */
   getPaletteColors(): PaletteColors {
-    return this.currentPalette === ColorPalette.Blue ? BLUE_PALETTE : AMBER_PALETTE;
+    return this.previewColors ?? this.getColorsForPalette(this.currentPalette);
   }
 
   /**
    * Get colors for a specific palette
    */
   getColorsForPalette(palette: ColorPalette): PaletteColors {
-    return palette === ColorPalette.Blue ? BLUE_PALETTE : AMBER_PALETTE;
+    return (this.palettes.get(palette) ?? PRESET_PALETTES[0]).colors;
   }
 
   /**
@@ -96,6 +154,9 @@ export class LCDEffect extends EventEmitter {
     const colors = this.getPaletteColors();
     this.glowLayer.clear();
 
+    // High contrast keeps the background flat so edges stay as bright as the center
+    if (this.currentPalette === ColorPalette.HighContrast) return;
+
     // Create vignette effect - darker edges simulate uneven LCD backlight
     // Outer dark ring
     this.glowLayer.rect(0, 0, width, height);
@@ -0,0 +1,165 @@
+/**
+ * LCDGhosting - Post-process filter that smears the screen like a slow LCD
+ *
+ * Each frame the screen is drawn into a small render texture with the previous
+ * frame blended over it, so pixels fade out over a few frames instead of
+ * vanishing, and a copy offset by a pixel is multiplied on top as the shadow
+ * the pixels cast on the backlight. Work is done at the logical resolution
+ * (at most 2x) in two passes, which keeps it cheap on mid-range phones.
+ */
+
+import { Container, RenderTexture, Sprite, Texture, UPDATE_PRIORITY } from 'pixi.js';
+import type { Application } from 'pixi.js';
+import {
+  DEFAULT_GHOSTING_SETTINGS,
+  getGhostingDecay,
+  getGhostingShadowAlpha,
+  readGhostingSettings,
+} from '../config/ghosting';
+import type { GhostingSettings } from '../config/ghosting';
+
+const MAX_RESOLUTION = 2;
+const FRAME_MS = 1000 / 60; // Decay is given per 60 FPS frame
+const SHADOW_OFFSET = 1; // Pixels right and down
+
+export class LCDGhosting {
+  private app: Application;
+  private source: Container;
+  private width: number;
+  private height: number;
+  private settings: GhostingSettings = { ...DEFAULT_GHOSTING_SETTINGS };
+
+  // Current and previous frame (only while enabled)
+  private frames: [RenderTexture, RenderTexture] | null = null;
+  private hasHistory: boolean = false;
+
+  // Previous frame, drawn over the new one
+  private history: Sprite = new Sprite();
+
+  // Shown in place of the source
+  private view: Container = new Container();
+  private screen: Sprite = new Sprite();
+  private shadow: Sprite = new Sprite();
+
+  /**
+   * @param app - Application whose stage shows the source
+   * @param source - Container with everything on the LCD (hidden while drawing the effect)
+   * @param width - Logical screen width
+   * @param height - Logical screen height
+   */
+  constructor(app: Application, source: Container, width: number, height: number) {
+    this.app = app;
+    this.source = source;
+    this.width = width;
+    this.height = height;
+
+    // The source is drawn on its own every frame
+    this.source.enableRenderGroup();
+
+    this.shadow.position.set(SHADOW_OFFSET, SHADOW_OFFSET);
+    this.shadow.blendMode = 'multiply';
+    this.view.addChild(this.screen, this.shadow);
+    this.view.visible = false;
+
+    // Show the source again once the frame is on screen (it takes pointer events)
+    this.app.ticker.add(this.showSource, this, UPDATE_PRIORITY.UTILITY);
+  }
+
+  /**
+   * Get the container to add to the stage, right above the source
+   */
+  getView(): Container {
+    return this.view;
+  }
+
+  /**
+   * Get the ghosting settings
+   */
+  getSettings(): GhostingSettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * Turn the effect on or off and set its intensity
+   */
+  setSettings(settings: GhostingSettings): void {
+    this.settings = readGhostingSettings(settings);
+    this.shadow.alpha = getGhostingShadowAlpha(this.settings.intensity);
+
+    if (this.settings.enabled && !this.frames) {
+      const options = {
+        width: this.width,
+        height: this.height,
+        resolution: Math.min(this.app.renderer.resolution, MAX_RESOLUTION),
+        scaleMode: 'nearest' as const,
+      };
+      this.frames = [RenderTexture.create(options), RenderTexture.create(options)];
+      this.hasHistory = false;
+    } else if (!this.settings.enabled) {
+      this.releaseFrames();
+    }
+    this.view.visible = this.settings.enabled;
+  }
+
+  /**
+   * Draw this frame's effect (call after the scenes update, before the stage renders)
+   */
+  update(): void {
+    if (!this.frames) {
+      return;
+    }
+
+    const [current, previous] = this.frames;
+    const renderer = this.app.renderer;
+    renderer.render({ container: this.source, target: current, clear: true });
+
+    if (this.hasHistory) {
+      // Keep the same smear at lower frame rates
+      const frames = this.app.ticker.deltaMS / FRAME_MS;
+      this.history.texture = previous;
+      this.history.alpha = Math.pow(getGhostingDecay(this.settings.intensity), frames);
+      renderer.render({ container: this.history, target: current, clear: false });
+    }
+
+    this.screen.texture = current;
+    this.shadow.texture = current;
+    this.frames = [previous, current];
+    this.hasHistory = true;
+
+    // The view stands in for the source this frame
+    this.source.renderable = false;
+  }
+
+  /**
+   * Let the source render and take pointer events between frames
+   */
+  private showSource(): void {
+    this.source.renderable = true;
+  }
+
+  /**
+   * Free the frame textures
+   */
+  private releaseFrames(): void {
+    if (!this.frames) {
+      return;
+    }
+    this.screen.texture = Texture.EMPTY;
+    this.shadow.texture = Texture.EMPTY;
+    this.history.texture = Texture.EMPTY;
+    this.frames[0].destroy(true);
+    this.frames[1].destroy(true);
+    this.frames = null;
+    this.source.renderable = true;
+  }
+
+  /**
+   * Remove the effect
+   */
+  destroy(): void {
+    this.app.ticker.remove(this.showSource, this);
+    this.releaseFrames();
+    this.history.destroy();
+    this.view.destroy({ children: true });
+  }
+}
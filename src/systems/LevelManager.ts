@@ -1,16 +1,25 @@
 /**
  * Level Manager System
- * Manages level loading, tracking, and progression
+ * Manages level loading, tracking, and progression for a level pack
  */
 
 import type { LevelConfig } from '../types/config';
+import { GameMode } from '../types/game';
 import {
-  getLevelConfig,
+  resolveLevelConfig,
   getLevelFallSpeed,
+  getLevelSpawnInterval,
   hasNextLevel,
   getMaxLevel,
-  getLevelUnlockRewards,
+  BASE_FALL_SPEED,
+  DEFAULT_LEVEL_PACK,
+  BASE_SPAWN_INTERVAL,
+  DEFAULT_SPECIAL_BLOCK_RATE,
+  DEFAULT_BOMB_RATE,
 } from '../config/levels';
+import type { LevelPack } from '../config/levelPack';
+import { createSpawnTable } from '../config/spawnTable';
+import type { SpawnTable } from '../types/config';
 
 /**
  * Level completion bonus multiplier
@@ -22,6 +31,7 @@ export interface LevelState {
   currentLevel: number;
   linesCleared: number;
   isComplete: boolean;
+  mode: GameMode;
 }
 
 export type LevelEventType = 'levelStart' | 'levelComplete' | 'linesCleared';
@@ -40,20 +50,52 @@ export class LevelManager {
   private currentLevel: number;
   private linesCleared: number;
   private currentConfig: LevelConfig | undefined;
+  private mode: GameMode;
+  private levelPack: LevelPack;
   private listeners: Map<LevelEventType, LevelEventListener[]>;
 
-  constructor() {
+  constructor(levelPack: LevelPack = DEFAULT_LEVEL_PACK) {
     this.currentLevel = 0;
     this.linesCleared = 0;
     this.currentConfig = undefined;
+    this.mode = GameMode.Classic;
+    this.levelPack = levelPack;
     this.listeners = new Map();
   }
 
+  /**
+   * Set the level pack levels are loaded from (takes effect from the next level started)
+   */
+  setLevelPack(levelPack: LevelPack): void {
+    this.levelPack = levelPack;
+  }
+
+  /**
+   * Get the level pack levels are loaded from
+   */
+  getLevelPack(): LevelPack {
+    return this.levelPack;
+  }
+
+  /**
+   * Set the game mode (takes effect from the next level started)
+   */
+  setMode(mode: GameMode): void {
+    this.mode = mode;
+  }
+
+  /**
+   * Get the game mode
+   */
+  getMode(): GameMode {
+    return this.mode;
+  }
+
   /**
    * Start a specific level
    */
   startLevel(levelNumber: number): boolean {
-    const config = getLevelConfig(levelNumber);
+    const config = resolveLevelConfig(levelNumber, this.mode, this.levelPack);
     if (!config) {
       console.warn(`Level ${levelNumber} not found`);
       return false;
@@ -165,7 +207,7 @@ export class LevelManager {
    * Returns true if successfully advanced, false if no next level
    */
   advanceToNextLevel(): boolean {
-    if (!hasNextLevel(this.currentLevel)) {
+    if (!hasNextLevel(this.currentLevel, this.mode, this.levelPack)) {
       return false;
     }
 
@@ -176,14 +218,49 @@ export class LevelManager {
    * Check if there is a next level available
    */
   hasNextLevel(): boolean {
-    return hasNextLevel(this.currentLevel);
+    return hasNextLevel(this.currentLevel, this.mode, this.levelPack);
   }
 
   /**
    * Get the fall speed for the current level in pixels per second
    */
   getCurrentFallSpeed(): number {
-    return getLevelFallSpeed(this.currentLevel);
+    if (this.currentConfig) {
+      return BASE_FALL_SPEED * this.currentConfig.crateSpeed;
+    }
+    return getLevelFallSpeed(this.currentLevel, this.mode, this.levelPack);
+  }
+
+  /**
+   * Get the time between crane drops for the current level in milliseconds
+   */
+  getCurrentSpawnInterval(): number {
+    return this.currentConfig ? getLevelSpawnInterval(this.currentConfig) : BASE_SPAWN_INTERVAL;
+  }
+
+  /**
+   * Get the special block chance per drop for the current level
+   */
+  getCurrentSpecialBlockRate(): number {
+    return this.currentConfig?.specialBlockRate ?? DEFAULT_SPECIAL_BLOCK_RATE;
+  }
+
+  /**
+   * Get the bomb chance per drop for the current level
+   */
+  getCurrentBombRate(): number {
+    return this.currentConfig?.bombRate ?? DEFAULT_BOMB_RATE;
+  }
+
+  /**
+   * Get the spawn table for the current level
+   * Levels without their own table get one built from their special block and bomb rates
+   */
+  getCurrentSpawnTable(): SpawnTable {
+    return (
+      this.currentConfig?.spawnTable ??
+      createSpawnTable(this.getCurrentSpecialBlockRate(), this.getCurrentBombRate())
+    );
   }
 
   /**
@@ -204,14 +281,14 @@ export class LevelManager {
    * Get the maximum level number
    */
   getMaxLevel(): number {
-    return getMaxLevel();
+    return getMaxLevel(this.levelPack);
   }
 
   /**
    * Get unlock rewards for the current level
    */
   getCurrentLevelUnlockRewards(): number[] {
-    return getLevelUnlockRewards(this.currentLevel);
+    return [...(this.currentConfig?.unlockCharacterIds ?? [])];
   }
 
   /**
@@ -264,6 +341,23 @@ export class LevelManager {
     }
   }
 
+  /**
+   * Restore level progress from a saved state without emitting events
+   * Returns false if the level does not exist
+   */
+  restoreState(state: LevelState): boolean {
+    const config = resolveLevelConfig(state.currentLevel, state.mode, this.levelPack);
+    if (!config) {
+      return false;
+    }
+
+    this.mode = state.mode;
+    this.currentLevel = state.currentLevel;
+    this.currentConfig = config;
+    this.linesCleared = state.linesCleared;
+    return true;
+  }
+
   /**
    * Reset the level manager
    */
@@ -271,6 +365,7 @@ export class LevelManager {
     this.currentLevel = 0;
     this.linesCleared = 0;
     this.currentConfig = undefined;
+    this.mode = GameMode.Classic;
   }
 
   /**
@@ -289,6 +384,7 @@ export class LevelManager {
       currentLevel: this.currentLevel,
       linesCleared: this.linesCleared,
       isComplete: this.isLevelComplete(),
+      mode: this.mode,
     };
   }
 }
@@ -1,16 +1,31 @@
 /**
  * Match Detector System
  * Detects 3/4/5 in a row matches (horizontal and vertical) for match-3 mechanics
+ * Crossing runs of one color are detected as a single L, T or plus shape, and
+ * 2x2 blocks of one color as squares
+ * Rainbow crates are wildcards that match any color
  *
  * Points:
  * - 3 in a row: 50 points
  * - 4 in a row: 100 points
  * - 5 in a row: 500 points
+ * - L / T / plus: points of its lines + 100 / 150 / 250 per crossing
+ * - 2x2 square: 150 points
  */
 
 import type { Crate } from '../entities/Crate';
 import type { CrateColor } from '../types/entities';
-import { CrateType } from '../types/entities';
+import { CrateType, CRATE_COLORS } from '../types/entities';
+
+export const MatchShape = {
+  Line: 'line',
+  L: 'l',
+  T: 't',
+  Plus: 'plus',
+  Square: 'square',
+} as const;
+
+export type MatchShape = (typeof MatchShape)[keyof typeof MatchShape];
 
 export interface MatchResult {
   matches: Match[];
@@ -20,8 +35,9 @@ export interface MatchResult {
 
 export interface Match {
   crates: Crate[];
-  length: number;
-  direction: 'horizontal' | 'vertical';
+  length: number; // Number of crates in the match
+  direction: 'horizontal' | 'vertical' | null; // null for shapes spanning both directions
+  shape: MatchShape;
   points: number;
 }
 
@@ -32,6 +48,26 @@ const MATCH_POINTS = {
   5: 500,
 } as const;
 
+/**
+ * Bonus for each crossing of two runs, by the shape the crossing forms
+ * (added to the points of the runs themselves)
+ */
+export const SHAPE_BONUS_POINTS = {
+  [MatchShape.L]: 100,
+  [MatchShape.T]: 150,
+  [MatchShape.Plus]: 250,
+} as const;
+
+/**
+ * Points for a 2x2 square of one color
+ */
+export const SQUARE_MATCH_POINTS = 150;
+
+type CrossingShape = keyof typeof SHAPE_BONUS_POINTS;
+
+// Highest ranked crossing names the shape of a group of crossing runs
+const CROSSING_RANK: CrossingShape[] = [MatchShape.L, MatchShape.T, MatchShape.Plus];
+
 export class MatchDetector {
   private gridColumns: number;
   private gridRows: number;
@@ -47,18 +83,17 @@ export class MatchDetector {
    * @returns MatchResult containing all matches and total points
    */
   detectMatches(grid: (Crate | null)[][]): MatchResult {
-    const matches: Match[] = [];
-    const matchedCrates = new Set<Crate>();
+    const runs = [...this.detectHorizontalMatches(grid), ...this.detectVerticalMatches(grid)];
+    const matches = this.combineCrossingRuns(runs);
 
-    // Detect horizontal matches
-    const horizontalMatches = this.detectHorizontalMatches(grid);
-    matches.push(...horizontalMatches);
-    horizontalMatches.forEach((m) => m.crates.forEach((c) => matchedCrates.add(c)));
+    const matchedCrates = new Set<Crate>();
+    matches.forEach((m) => m.crates.forEach((c) => matchedCrates.add(c)));
 
-    // Detect vertical matches
-    const verticalMatches = this.detectVerticalMatches(grid);
-    matches.push(...verticalMatches);
-    verticalMatches.forEach((m) => m.crates.forEach((c) => matchedCrates.add(c)));
+    // Squares only count where no line or shape already claimed their crates
+    for (const square of this.detectSquareMatches(grid, matchedCrates)) {
+      matches.push(square);
+      square.crates.forEach((c) => matchedCrates.add(c));
+    }
 
     // Calculate total points
     const totalPoints = matches.reduce((sum, match) => sum + match.points, 0);
@@ -70,6 +105,120 @@ export class MatchDetector {
     };
   }
 
+  /**
+   * Merge horizontal and vertical runs that cross at a crate of a shared color
+   * into single L, T or plus shaped matches
+   */
+  private combineCrossingRuns(runs: Match[]): Match[] {
+    // Union-find over runs, keyed by index
+    const parent = runs.map((_, i) => i);
+    const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+    const crossings: { run: number; shape: CrossingShape }[] = [];
+
+    for (let i = 0; i < runs.length; i++) {
+      for (let j = i + 1; j < runs.length; j++) {
+        const shape = this.getCrossingShape(runs[i], runs[j]);
+        if (shape) {
+          parent[find(j)] = find(i);
+          crossings.push({ run: i, shape });
+        }
+      }
+    }
+
+    const groups = new Map<number, number[]>();
+    runs.forEach((_, i) => {
+      const root = find(i);
+      groups.set(root, [...(groups.get(root) ?? []), i]);
+    });
+
+    const matches: Match[] = [];
+    for (const [root, members] of groups) {
+      if (members.length === 1) {
+        matches.push(runs[root]);
+        continue;
+      }
+
+      const groupCrossings = crossings.filter((crossing) => find(crossing.run) === root);
+      const crates = Array.from(new Set(members.flatMap((i) => runs[i].crates)));
+      const shape = groupCrossings.reduce<CrossingShape>(
+        (best, crossing) =>
+          CROSSING_RANK.indexOf(crossing.shape) > CROSSING_RANK.indexOf(best)
+            ? crossing.shape
+            : best,
+        MatchShape.L
+      );
+      const points =
+        members.reduce((sum, i) => sum + runs[i].points, 0) +
+        groupCrossings.reduce((sum, crossing) => sum + SHAPE_BONUS_POINTS[crossing.shape], 0);
+
+      matches.push({ crates, length: crates.length, direction: null, shape, points });
+    }
+
+    return matches;
+  }
+
+  /**
+   * Get the shape two runs form where they cross (null if they don't cross)
+   * Runs cross when they run in different directions, share a crate and share a color
+   */
+  private getCrossingShape(a: Match, b: Match): CrossingShape | null {
+    if (a.direction === b.direction) return null;
+
+    const shared = a.crates.find((crate) => b.crates.includes(crate));
+    if (!shared) return null;
+    if (this.getSharedColors([...a.crates, ...b.crates]).length === 0) return null;
+
+    const isEnd = (run: Match) =>
+      run.crates[0] === shared || run.crates[run.crates.length - 1] === shared;
+    const ends = Number(isEnd(a)) + Number(isEnd(b));
+    return ends === 2 ? MatchShape.L : ends === 1 ? MatchShape.T : MatchShape.Plus;
+  }
+
+  /**
+   * Detect 2x2 squares of one color, skipping crates already matched
+   */
+  private detectSquareMatches(grid: (Crate | null)[][], matchedCrates: Set<Crate>): Match[] {
+    const squares: Match[] = [];
+    const claimed = new Set(matchedCrates);
+
+    for (let row = 0; row < this.gridRows - 1; row++) {
+      for (let col = 0; col < this.gridColumns - 1; col++) {
+        const cells = [
+          grid[row]?.[col],
+          grid[row]?.[col + 1],
+          grid[row + 1]?.[col],
+          grid[row + 1]?.[col + 1],
+        ];
+        if (cells.some((crate) => !crate || claimed.has(crate))) continue;
+
+        const crates = cells as Crate[];
+        if (this.getSharedColors(crates).length === 0) continue;
+
+        crates.forEach((crate) => claimed.add(crate));
+        squares.push({
+          crates,
+          length: crates.length,
+          direction: null,
+          shape: MatchShape.Square,
+          points: SQUARE_MATCH_POINTS,
+        });
+      }
+    }
+
+    return squares;
+  }
+
+  /**
+   * Get the colors every given crate can match as (empty if they have none in common)
+   */
+  private getSharedColors(crates: Crate[]): readonly CrateColor[] {
+    return crates.reduce<readonly CrateColor[]>(
+      (colors, crate) =>
+        colors.filter((color) => this.getCrateColorsForMatching(crate).includes(color)),
+      CRATE_COLORS
+    );
+  }
+
   /**
    * Detect horizontal matches (3+ in a row)
    */
@@ -77,38 +226,8 @@ export class MatchDetector {
     const matches: Match[] = [];
 
     for (let row = 0; row < this.gridRows; row++) {
-      let currentColor: CrateColor | null = null;
-      const currentMatch: Crate[] = [];
-
-      for (let col = 0; col <= this.gridColumns; col++) {
-        const crate = col < this.gridColumns ? grid[row]?.[col] : null;
-        const crateColor = this.getCrateColorForMatching(crate);
-
-        if (crateColor && crateColor === currentColor) {
-          // Continue match
-          currentMatch.push(crate!);
-        } else {
-          // End of potential match
-          if (currentMatch.length >= 3) {
-            const points = this.getPointsForMatch(currentMatch.length);
-            matches.push({
-              crates: [...currentMatch],
-              length: currentMatch.length,
-              direction: 'horizontal',
-              points,
-            });
-          }
-
-          // Start new potential match
-          currentMatch.length = 0;
-          if (crateColor && crate) {
-            currentMatch.push(crate);
-            currentColor = crateColor;
-          } else {
-            currentColor = null;
-          }
-        }
-      }
+      const line = Array.from({ length: this.gridColumns }, (_, col) => grid[row]?.[col] ?? null);
+      matches.push(...this.detectLineMatches(line, 'horizontal'));
     }
 
     return matches;
@@ -121,58 +240,76 @@ export class MatchDetector {
     const matches: Match[] = [];
 
     for (let col = 0; col < this.gridColumns; col++) {
-      let currentColor: CrateColor | null = null;
-      const currentMatch: Crate[] = [];
-
-      for (let row = 0; row <= this.gridRows; row++) {
-        const crate = row < this.gridRows ? grid[row]?.[col] : null;
-        const crateColor = this.getCrateColorForMatching(crate);
-
-        if (crateColor && crateColor === currentColor) {
-          // Continue match
-          currentMatch.push(crate!);
-        } else {
-          // End of potential match
-          if (currentMatch.length >= 3) {
-            const points = this.getPointsForMatch(currentMatch.length);
-            matches.push({
-              crates: [...currentMatch],
-              length: currentMatch.length,
-              direction: 'vertical',
-              points,
-            });
-          }
+      const line = Array.from({ length: this.gridRows }, (_, row) => grid[row]?.[col] ?? null);
+      matches.push(...this.detectLineMatches(line, 'vertical'));
+    }
+
+    return matches;
+  }
 
-          // Start new potential match
-          currentMatch.length = 0;
-          if (crateColor && crate) {
-            currentMatch.push(crate);
-            currentColor = crateColor;
-          } else {
-            currentColor = null;
+  /**
+   * Detect runs of 3+ crates sharing a color in one row or column
+   * Rainbow crates extend a run of any color, so a rainbow crate can join two runs
+   * of different colors at once
+   */
+  private detectLineMatches(line: (Crate | null)[], direction: 'horizontal' | 'vertical'): Match[] {
+    const runs: { start: number; end: number }[] = [];
+
+    for (const color of CRATE_COLORS) {
+      let start = 0;
+      for (let i = 0; i <= line.length; i++) {
+        const continues =
+          i < line.length && this.getCrateColorsForMatching(line[i]).includes(color);
+        if (!continues) {
+          if (i - start >= 3) {
+            runs.push({ start, end: i });
           }
+          start = i + 1;
         }
       }
     }
 
-    return matches;
+    // Longest runs first; drop runs inside a longer one (e.g. rainbow-only stretches,
+    // which count for every color)
+    runs.sort((a, b) => b.end - b.start - (a.end - a.start) || a.start - b.start);
+    const kept: { start: number; end: number }[] = [];
+    for (const run of runs) {
+      if (!kept.some((other) => other.start <= run.start && run.end <= other.end)) {
+        kept.push(run);
+      }
+    }
+    kept.sort((a, b) => a.start - b.start);
+
+    return kept.map(({ start, end }) => {
+      const crates = line.slice(start, end) as Crate[];
+      return {
+        crates,
+        length: crates.length,
+        direction,
+        shape: MatchShape.Line,
+        points: this.getPointsForMatch(crates.length),
+      };
+    });
   }
 
   /**
-   * Get the color of a crate for matching purposes
-   * Only regular crates participate in matching
+   * Get the colors a crate can match as
+   * Regular crates match their own color, rainbow crates match every color
    */
-  private getCrateColorForMatching(crate: Crate | null): CrateColor | null {
-    if (!crate) return null;
+  private getCrateColorsForMatching(crate: Crate | null): readonly CrateColor[] {
+    if (!crate) return [];
 
     // Only landed crates participate in matching
     // Sliding crates must stop first before being matched
-    if (!crate.isLanded()) return null;
-    if (crate.getCrateType() !== CrateType.Regular) return null;
-    if (crate.isClearing()) return null;
-    if (crate.isExploding()) return null;
+    if (!crate.isLanded()) return [];
+    if (crate.isClearing()) return [];
+    if (crate.isExploding()) return [];
+
+    if (crate.getCrateType() === CrateType.Rainbow) return CRATE_COLORS;
+    if (crate.getCrateType() !== CrateType.Regular) return [];
 
-    return crate.getColor();
+    const color = crate.getColor();
+    return color ? [color] : [];
   }
 
   /**
@@ -0,0 +1,362 @@
+/**
+ * Music Sequencer
+ * Plays looping chiptune songs written in a compact tracker-style text format:
+ *
+ *   # Comments start with a hash (after a space, so sharps like C#5 are notes)
+ *   tempo 140                       beats per minute
+ *   rows 4                          rows per beat (optional, default 4)
+ *   channel lead square 0.5         name, square or noise, volume
+ *   channel drums noise 0.3 decay   notes fade out instead of holding
+ *   pattern intro
+ *   lead  C-5 ... E-5 ... G-5 ... --- ...
+ *   drums C-4 ... C-7 ... C-4 ... C-7 ...
+ *   order intro intro
+ *
+ * Each pattern row holds a note (C-5, C#5), "..." to keep the previous note
+ * sounding, or "---" for silence. A song has one or two channels.
+ */
+
+import { SoundChannel } from './SoundEngine';
+import type { SoundNote, SoundEngine } from './SoundEngine';
+
+/**
+ * A note in a track, measured in rows
+ */
+export interface SongNote {
+  row: number;
+  length: number;
+  frequency: number;
+}
+
+/**
+ * The notes one channel plays over the whole song
+ */
+export interface SongTrack {
+  name: string;
+  channel: SoundChannel;
+  volume: number;
+  decay: boolean;
+  notes: SongNote[];
+}
+
+/**
+ * A parsed song, ready to play
+ */
+export interface Song {
+  tempo: number;
+  rowsPerBeat: number;
+  /** Song length in rows (the song loops after this) */
+  length: number;
+  tracks: SongTrack[];
+}
+
+/**
+ * Result of parsing a song: the song, or why the text was rejected
+ */
+export type SongParseResult = { song: Song; error: null } | { song: null; error: string };
+
+/**
+ * Where the sequencer sends notes
+ */
+export type MusicOutput = Pick<SoundEngine, 'playMusic'>;
+
+export const MAX_SONG_CHANNELS = 2;
+
+const DEFAULT_ROWS_PER_BEAT = 4;
+
+const HOLD_TOKEN = '...';
+const OFF_TOKEN = '---';
+
+const NOTE_PATTERN = /^([A-G])([-#])(\d)$/;
+const SEMITONES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+// Noise channel notes clock the noise generator at a multiple of the note's pitch
+const NOISE_CLOCK_SCALE = 8;
+
+// How far ahead of the current position notes are handed to the output (seconds)
+const LOOKAHEAD_SECONDS = 0.1;
+
+// A pattern cell: a frequency, or whether to hold the previous note or go silent
+type Cell = number | 'hold' | 'off';
+
+/**
+ * Get the frequency of a tracker note like C-5 or F#3 (null if not a note)
+ */
+export function parseNoteFrequency(token: string): number | null {
+  const match = NOTE_PATTERN.exec(token);
+  if (!match) {
+    return null;
+  }
+
+  const sharp = match[2] === '#' ? 1 : 0;
+  const midiNote = (Number(match[3]) + 1) * 12 + SEMITONES[match[1]] + sharp;
+  return 440 * Math.pow(2, (midiNote - 69) / 12);
+}
+
+/**
+ * Turn a channel's cells into notes (held notes are cut off at the end of the song)
+ */
+function cellsToNotes(cells: Cell[]): SongNote[] {
+  const notes: SongNote[] = [];
+  let current: SongNote | null = null;
+
+  cells.forEach((cell, row) => {
+    if (cell === 'hold') {
+      if (current) {
+        current.length++;
+      }
+    } else if (cell === 'off') {
+      current = null;
+    } else {
+      current = { row, length: 1, frequency: cell };
+      notes.push(current);
+    }
+  });
+
+  return notes;
+}
+
+/**
+ * Parse a song from tracker text
+ */
+export function parseSong(text: string): SongParseResult {
+  let tempo = 0;
+  let rowsPerBeat = DEFAULT_ROWS_PER_BEAT;
+  const channels: Omit<SongTrack, 'notes'>[] = [];
+  const patterns = new Map<string, Map<string, Cell[]>>();
+  let currentPattern: Map<string, Cell[]> | null = null;
+  let order: string[] = [];
+
+  const lines = text.split('\n');
+  for (let index = 0; index < lines.length; index++) {
+    const words = lines[index]
+      .replace(/(^|\s)#.*/, '')
+      .trim()
+      .split(/\s+/);
+    const [keyword, ...args] = words;
+    const fail = (message: string): SongParseResult => ({
+      song: null,
+      error: `Line ${index + 1}: ${message}`,
+    });
+
+    if (keyword === '') {
+      continue;
+    }
+
+    if (keyword === 'tempo' || keyword === 'rows') {
+      const value = Number(args[0]);
+      if (args.length !== 1 || !Number.isInteger(value) || value <= 0) {
+        return fail(`${keyword} must be a whole number above 0`);
+      }
+      if (keyword === 'tempo') {
+        tempo = value;
+      } else {
+        rowsPerBeat = value;
+      }
+    } else if (keyword === 'channel') {
+      const [name, type, volumeText, envelope] = args;
+      const volume = Number(volumeText);
+      if (!name || (type !== SoundChannel.Square && type !== SoundChannel.Noise)) {
+        return fail('channel needs a name and a type (square or noise)');
+      }
+      if (!(volume > 0 && volume <= 1)) {
+        return fail('channel volume must be between 0 and 1');
+      }
+      if (envelope !== undefined && envelope !== 'decay') {
+        return fail(`unknown channel option "${envelope}"`);
+      }
+      if (channels.some((channel) => channel.name === name)) {
+        return fail(`channel "${name}" is already defined`);
+      }
+      if (channels.length === MAX_SONG_CHANNELS) {
+        return fail(`a song can have at most ${MAX_SONG_CHANNELS} channels`);
+      }
+      channels.push({ name, channel: type, volume, decay: envelope === 'decay' });
+    } else if (keyword === 'pattern') {
+      if (args.length !== 1) {
+        return fail('pattern needs a name');
+      }
+      currentPattern = new Map();
+      patterns.set(args[0], currentPattern);
+    } else if (keyword === 'order') {
+      const missing = args.find((name) => !patterns.has(name));
+      if (missing !== undefined) {
+        return fail(`unknown pattern "${missing}"`);
+      }
+      order = args;
+    } else if (channels.some((channel) => channel.name === keyword)) {
+      if (!currentPattern) {
+        return fail('channel rows must follow a pattern line');
+      }
+
+      const cells: Cell[] = [];
+      for (const token of args) {
+        const frequency = parseNoteFrequency(token);
+        if (token === HOLD_TOKEN || token === OFF_TOKEN) {
+          cells.push(token === HOLD_TOKEN ? 'hold' : 'off');
+        } else if (frequency !== null) {
+          cells.push(frequency);
+        } else {
+          return fail(`"${token}" is not a note`);
+        }
+      }
+
+      const rowCount = currentPattern.values().next().value?.length ?? cells.length;
+      if (cells.length === 0 || cells.length !== rowCount) {
+        return fail('every channel in a pattern needs the same number of rows');
+      }
+      currentPattern.set(keyword, cells);
+    } else {
+      return fail(`unknown keyword "${keyword}"`);
+    }
+  }
+
+  if (tempo === 0) {
+    return { song: null, error: 'Song has no tempo' };
+  }
+  if (channels.length === 0) {
+    return { song: null, error: 'Song has no channels' };
+  }
+  if (order.length === 0) {
+    return { song: null, error: 'Song has no pattern order' };
+  }
+
+  // Lay the patterns out end to end; channels missing from a pattern rest through it
+  let length = 0;
+  const cellsByChannel = channels.map((): Cell[] => []);
+  for (const name of order) {
+    const pattern = patterns.get(name)!;
+    const rows = pattern.values().next().value?.length ?? 0;
+    channels.forEach((channel, index) => {
+      const cells = pattern.get(channel.name) ?? Array.from({ length: rows }, (): Cell => 'off');
+      cellsByChannel[index].push(...cells);
+    });
+    length += rows;
+  }
+
+  if (length === 0) {
+    return { song: null, error: 'Song has no rows' };
+  }
+
+  return {
+    song: {
+      tempo,
+      rowsPerBeat,
+      length,
+      tracks: channels.map((channel, index) => ({
+        ...channel,
+        notes: cellsToNotes(cellsByChannel[index]),
+      })),
+    },
+    error: null,
+  };
+}
+
+/**
+ * MusicSequencer loops a song, handing its notes to the sound engine a little ahead
+ * of time. It only advances when update() is called and not paused, so the in-game
+ * pause holds the song where it is.
+ */
+export class MusicSequencer {
+  private output: MusicOutput;
+  private song: Song | null = null;
+  private tempoScale: number = 1;
+  private paused: boolean = false;
+
+  // Playback position and the next row to schedule, in rows from the song start
+  private position: number = 0;
+  private nextRow: number = 0;
+
+  constructor(output: MusicOutput) {
+    this.output = output;
+  }
+
+  /**
+   * Start a song from the beginning (keeps playing if it is already the current song)
+   * Pass null to stop the music
+   */
+  play(song: Song | null): void {
+    if (song === this.song) {
+      return;
+    }
+
+    this.song = song;
+    this.position = 0;
+    this.nextRow = 0;
+  }
+
+  /**
+   * Get the song being played (null if stopped)
+   */
+  getSong(): Song | null {
+    return this.song;
+  }
+
+  /**
+   * Speed the song up or slow it down (1 = the song's own tempo)
+   */
+  setTempoScale(scale: number): void {
+    this.tempoScale = scale;
+  }
+
+  /**
+   * Hold the song at its current position (resuming carries on from there)
+   */
+  setPaused(paused: boolean): void {
+    this.paused = paused;
+  }
+
+  /**
+   * Check if playback is held
+   */
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Advance playback and send the notes that are about to start
+   */
+  update(deltaTime: number): void {
+    const song = this.song;
+    if (!song || this.paused) {
+      return;
+    }
+
+    const rowsPerSecond = (song.tempo / 60) * song.rowsPerBeat * this.tempoScale;
+    this.position += deltaTime * rowsPerSecond;
+
+    const notes: SoundNote[] = [];
+    while (this.nextRow < this.position + LOOKAHEAD_SECONDS * rowsPerSecond) {
+      const row = this.nextRow % song.length;
+      const start = Math.max(0, (this.nextRow - this.position) / rowsPerSecond);
+
+      for (const track of song.tracks) {
+        for (const note of track.notes) {
+          if (note.row !== row) {
+            continue;
+          }
+          const scale = track.channel === SoundChannel.Noise ? NOISE_CLOCK_SCALE : 1;
+          notes.push({
+            channel: track.channel,
+            start,
+            duration: note.length / rowsPerSecond,
+            frequency: note.frequency * scale,
+            volume: track.volume,
+            decay: track.decay,
+          });
+        }
+      }
+      this.nextRow++;
+    }
+
+    // Keep the counters small on long loops
+    if (this.position >= song.length && this.nextRow >= song.length) {
+      this.position -= song.length;
+      this.nextRow -= song.length;
+    }
+
+    if (notes.length > 0) {
+      this.output.playMusic(notes);
+    }
+  }
+}
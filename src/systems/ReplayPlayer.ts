@@ -0,0 +1,86 @@
+/**
+ * Replay Player
+ * Feeds recorded input transitions back to the game in place of live input.
+ * Combined with the recorded seed this reproduces a run frame-for-frame.
+ */
+
+import { InputAction } from '../types/game';
+import type { InputState } from '../types/game';
+import type { ReplayData } from './ReplayRecorder';
+
+export class ReplayPlayer {
+  private replay: ReplayData;
+  private inputState: InputState;
+  private nextEventIndex: number = 0;
+  private currentTick: number = 0;
+
+  constructor(replay: ReplayData) {
+    this.replay = replay;
+    this.inputState = ReplayPlayer.createEmptyState();
+  }
+
+  /**
+   * Create an input state with every action released
+   */
+  private static createEmptyState(): InputState {
+    return {
+      [InputAction.MoveLeft]: false,
+      [InputAction.MoveRight]: false,
+      [InputAction.Jump]: false,
+      [InputAction.Pause]: false,
+      [InputAction.Confirm]: false,
+      [InputAction.Back]: false,
+    };
+  }
+
+  /**
+   * Get the input state for a tick, applying all transitions recorded up to it
+   * Ticks must be requested in non-decreasing order
+   */
+  getInputStateForTick(tick: number): InputState {
+    const events = this.replay.events;
+
+    while (this.nextEventIndex < events.length && events[this.nextEventIndex].tick <= tick) {
+      const event = events[this.nextEventIndex];
+      this.inputState[event.action] = event.active;
+      this.nextEventIndex++;
+    }
+
+    this.currentTick = tick;
+    return { ...this.inputState };
+  }
+
+  /**
+   * Check if playback has reached the end of the recording
+   */
+  isFinished(): boolean {
+    return (
+      this.nextEventIndex >= this.replay.events.length &&
+      this.currentTick >= this.replay.durationTicks
+    );
+  }
+
+  /**
+   * Get playback progress (0-1)
+   */
+  getProgress(): number {
+    if (this.replay.durationTicks <= 0) return 1;
+    return Math.min(1, this.currentTick / this.replay.durationTicks);
+  }
+
+  /**
+   * Get the replay being played
+   */
+  getReplay(): ReplayData {
+    return this.replay;
+  }
+
+  /**
+   * Rewind playback to the start
+   */
+  reset(): void {
+    this.inputState = ReplayPlayer.createEmptyState();
+    this.nextEventIndex = 0;
+    this.currentTick = 0;
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * Replay Recorder
+ * Records every input action transition of a run, stamped with the fixed-step
+ * tick index, together with everything needed to reproduce the run exactly
+ * (RNG seed, character, start level and game mode)
+ */
+
+import { InputAction, GameMode } from '../types/game';
+import type { InputState } from '../types/game';
+
+/**
+ * Current replay format version (bump when the format changes)
+ */
+export const REPLAY_FORMAT_VERSION = 1;
+
+/**
+ * A single recorded input transition
+ * `tick` is the index of the fixed-step update the transition is applied before
+ */
+export interface ReplayInputEvent {
+  tick: number;
+  action: InputAction;
+  active: boolean;
+}
+
+/**
+ * Run parameters required to reproduce a recorded game
+ */
+export interface ReplayRunInfo {
+  seed: number;
+  characterId: number;
+  startLevel: number;
+  mode: GameMode;
+}
+
+/**
+ * Complete replay of a run
+ */
+export interface ReplayData extends ReplayRunInfo {
+  version: number;
+  recordedAt: string; // ISO date string
+  durationTicks: number;
+  events: ReplayInputEvent[];
+}
+
+const INPUT_ACTIONS = Object.values(InputAction) as InputAction[];
+const GAME_MODES = Object.values(GameMode) as GameMode[];
+
+export class ReplayRecorder {
+  private runInfo: ReplayRunInfo | null = null;
+  private recordedAt: string = '';
+  private events: ReplayInputEvent[] = [];
+  private lastTick: number = 0;
+
+  /**
+   * Start recording a new run
+   * Actions already held when the run starts are recorded at tick 0
+   */
+  start(runInfo: ReplayRunInfo, initialState?: InputState): void {
+    this.runInfo = { ...runInfo };
+    this.recordedAt = new Date().toISOString();
+    this.events = [];
+    this.lastTick = 0;
+
+    if (initialState) {
+      for (const action of INPUT_ACTIONS) {
+        if (initialState[action]) {
+          this.events.push({ tick: 0, action, active: true });
+        }
+      }
+    }
+  }
+
+  /**
+   * Record an action transition at the given tick
+   */
+  record(tick: number, action: InputAction, active: boolean): void {
+    if (!this.runInfo) {
+      return;
+    }
+
+    this.events.push({ tick, action, active });
+    this.setTick(tick);
+  }
+
+  /**
+   * Advance the recorded duration to the given tick
+   */
+  setTick(tick: number): void {
+    if (tick > this.lastTick) {
+      this.lastTick = tick;
+    }
+  }
+
+  /**
+   * Check if a run is being recorded
+   */
+  isRecording(): boolean {
+    return this.runInfo !== null;
+  }
+
+  /**
+   * Get the replay recorded so far (null if nothing is being recorded)
+   */
+  getReplay(): ReplayData | null {
+    if (!this.runInfo) {
+      return null;
+    }
+
+    return {
+      version: REPLAY_FORMAT_VERSION,
+      ...this.runInfo,
+      recordedAt: this.recordedAt,
+      durationTicks: this.lastTick,
+      events: this.events.map((event) => ({ ...event })),
+    };
+  }
+
+  /**
+   * Stop recording and return the finished replay
+   */
+  stop(): ReplayData | null {
+    const replay = this.getReplay();
+    this.runInfo = null;
+    this.events = [];
+    this.lastTick = 0;
+    return replay;
+  }
+}
+
+/**
+ * Serialize a replay to a JSON string (for bug reports and sharing)
+ */
+export function serializeReplay(replay: ReplayData): string {
+  return JSON.stringify(replay);
+}
+
+/**
+ * Parse and validate a serialized replay
+ * Returns null if the data is malformed or from an unsupported version
+ */
+export function parseReplay(json: string): ReplayData | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return null;
+  }
+
+  if (!data || typeof data !== 'object') return null;
+  const replay = data as Partial<ReplayData>;
+
+  if (replay.version !== REPLAY_FORMAT_VERSION) return null;
+  if (typeof replay.seed !== 'number') return null;
+  if (typeof replay.characterId !== 'number') return null;
+  if (typeof replay.startLevel !== 'number') return null;
+  if (!GAME_MODES.includes(replay.mode as GameMode)) return null;
+  if (typeof replay.durationTicks !== 'number') return null;
+  if (!Array.isArray(replay.events)) return null;
+
+  const eventsValid = replay.events.every(
+    (event) =>
+      event &&
+      typeof event.tick === 'number' &&
+      INPUT_ACTIONS.includes(event.action) &&
+      typeof event.active === 'boolean'
+  );
+  if (!eventsValid) return null;
+
+  return {
+    version: replay.version,
+    seed: replay.seed,
+    characterId: replay.characterId,
+    startLevel: replay.startLevel,
+    mode: replay.mode as GameMode,
+    recordedAt: typeof replay.recordedAt === 'string' ? replay.recordedAt : '',
+    durationTicks: replay.durationTicks,
+    events: replay.events.map((event) => ({ ...event })),
+  };
+}
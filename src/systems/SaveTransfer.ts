@@ -0,0 +1,224 @@
+/**
+ * Save Transfer
+ * Portable save codes for carrying high scores, settings, unlocks and stats to
+ * another device without a server. A code is the save data as deflated JSON with
+ * a CRC-32 checksum, written in Crockford base32 so it only uses characters that a
+ * QR code can hold in alphanumeric mode (and that are hard to mistype).
+ */
+
+import { GameMode } from '../types/game';
+import type { HighScoreEntry, GameSettings } from './GameStorage';
+import type { UnlockProgress } from './CharacterUnlockManager';
+import { isObject } from '../utils/Validation';
+
+/**
+ * Current save code format version (bump when the format changes)
+ */
+export const SAVE_CODE_VERSION = 1;
+
+/**
+ * Everything a save code carries
+ */
+export interface SaveTransferData {
+  highScores: Record<GameMode, HighScoreEntry[]>;
+  settings: GameSettings;
+  unlockProgress: UnlockProgress;
+}
+
+/**
+ * Result of reading a save code: the data, or why the code was rejected
+ */
+export type SaveCodeResult =
+  | { data: SaveTransferData; error: null }
+  | { data: null; error: string };
+
+// Codes look like SA1-XXXX..., where 1 is the format version
+const SAVE_CODE_PATTERN = /^SA(\d+)-([0-9A-Z]+)$/;
+
+const BASE32_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+// Letters commonly typed in place of Crockford base32 digits
+const BASE32_ALIASES: Record<string, string> = { O: '0', I: '1', L: '1' };
+
+const CHECKSUM_BYTES = 4;
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function toBase32(bytes: Uint8Array): string {
+  let text = '';
+  let value = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    value = ((value << 8) | byte) & 0xfff;
+    bits += 8;
+    while (bits >= 5) {
+      text += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    text += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return text;
+}
+
+/**
+ * Decode base32 text (null if it contains a character outside the alphabet)
+ */
+function fromBase32(text: string): Uint8Array | null {
+  const bytes: number[] = [];
+  let value = 0;
+  let bits = 0;
+  for (const char of text) {
+    const digit = BASE32_ALPHABET.indexOf(BASE32_ALIASES[char] ?? char);
+    if (digit < 0) {
+      return null;
+    }
+    value = ((value << 5) | digit) & 0xfff;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+/**
+ * Run bytes through a compression or decompression stream
+ */
+async function transformBytes(
+  bytes: Uint8Array<ArrayBuffer>,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array<ArrayBuffer>> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+function isHighScoreEntry(value: unknown): value is HighScoreEntry {
+  return (
+    isObject(value) &&
+    typeof value.score === 'number' &&
+    typeof value.level === 'number' &&
+    typeof value.date === 'string' &&
+    (value.linesCleared === undefined || typeof value.linesCleared === 'number')
+  );
+}
+
+/**
+ * Check decoded save data has the expected layout (null if it does not)
+ */
+function validateTransferData(data: unknown): SaveTransferData | null {
+  if (!isObject(data) || !isObject(data.highScores)) {
+    return null;
+  }
+
+  const highScores = {} as Record<GameMode, HighScoreEntry[]>;
+  for (const mode of Object.values(GameMode) as GameMode[]) {
+    const scores = data.highScores[mode] ?? [];
+    if (!Array.isArray(scores) || !scores.every(isHighScoreEntry)) {
+      return null;
+    }
+    highScores[mode] = scores;
+  }
+
+  const settings = data.settings;
+  if (
+    !isObject(settings) ||
+    typeof settings.palette !== 'string' ||
+    !Number.isInteger(settings.selectedCharacterId)
+  ) {
+    return null;
+  }
+
+  const progress = data.unlockProgress;
+  if (
+    !isObject(progress) ||
+    !Array.isArray(progress.unlockedCharacterIds) ||
+    !progress.unlockedCharacterIds.every(Number.isInteger) ||
+    !isObject(progress.highestLevelByCharacter) ||
+    !Object.values(progress.highestLevelByCharacter).every(Number.isInteger) ||
+    typeof progress.bestScore !== 'number'
+  ) {
+    return null;
+  }
+
+  return {
+    highScores,
+    settings: settings as unknown as GameSettings,
+    unlockProgress: progress as unknown as UnlockProgress,
+  };
+}
+
+/**
+ * Create a save code from save data
+ */
+export async function encodeSaveCode(data: SaveTransferData): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(data));
+  const compressed = await transformBytes(json, new CompressionStream('deflate-raw'));
+
+  const bytes = new Uint8Array(compressed.length + CHECKSUM_BYTES);
+  bytes.set(compressed);
+  new DataView(bytes.buffer).setUint32(compressed.length, crc32(compressed));
+
+  return `SA${SAVE_CODE_VERSION}-${toBase32(bytes)}`;
+}
+
+/**
+ * Read and validate a save code
+ * Spaces, line breaks and letter case are ignored, so codes survive being retyped
+ */
+export async function decodeSaveCode(code: string): Promise<SaveCodeResult> {
+  const match = SAVE_CODE_PATTERN.exec(code.replace(/\s+/g, '').toUpperCase());
+  if (!match) {
+    return { data: null, error: 'Not a save code' };
+  }
+
+  const version = Number(match[1]);
+  if (version !== SAVE_CODE_VERSION) {
+    const reason = version > SAVE_CODE_VERSION ? 'a newer' : 'an unsupported';
+    return { data: null, error: `Save code is from ${reason} version of the game` };
+  }
+
+  const bytes = fromBase32(match[2]);
+  if (!bytes || bytes.length <= CHECKSUM_BYTES) {
+    return { data: null, error: 'Not a save code' };
+  }
+
+  const compressed = bytes.slice(0, bytes.length - CHECKSUM_BYTES);
+  const checksum = new DataView(bytes.buffer).getUint32(compressed.length);
+  if (crc32(compressed) !== checksum) {
+    return { data: null, error: 'Save code is damaged - check for typos' };
+  }
+
+  let data: SaveTransferData | null;
+  try {
+    const json = await transformBytes(compressed, new DecompressionStream('deflate-raw'));
+    data = validateTransferData(JSON.parse(new TextDecoder().decode(json)));
+  } catch {
+    data = null;
+  }
+
+  if (!data) {
+    return { data: null, error: 'Save code contents are not valid' };
+  }
+  return { data, error: null };
+}
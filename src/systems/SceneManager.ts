@@ -15,10 +15,14 @@ export class SceneManager {
   private sceneContainer: Container;
   private isTransitioning: boolean = false;
 
-  constructor(app: Application) {
+  /**
+   * @param app - PixiJS application
+   * @param parent - Container scenes are shown in (the stage by default)
+   */
+  constructor(app: Application, parent: Container = app.stage) {
     this.app = app;
     this.sceneContainer = new PixiContainer();
-    this.app.stage.addChild(this.sceneContainer);
+    parent.addChild(this.sceneContainer);
   }
 
   /**
@@ -14,9 +14,16 @@ export const SCORE_VALUES = {
   LINE_CLEAR_TRIPLE_PLUS: 500,
   SPECIAL_BLOCK: 500,
   LEVEL_COMPLETION_MULTIPLIER: 500,
+  MAX_CHAIN_MULTIPLIER: 8,
 } as const;
 
-export type ScoreEventType = 'scoreChanged' | 'lineClear' | 'specialBlock' | 'levelComplete';
+export type ScoreEventType =
+  | 'scoreChanged'
+  | 'lineClear'
+  | 'match'
+  | 'chain'
+  | 'specialBlock'
+  | 'levelComplete';
 
 export interface ScoreEvent {
   type: ScoreEventType;
@@ -25,16 +32,30 @@ export interface ScoreEvent {
   details?: {
     linesCleared?: number;
     level?: number;
+    chainDepth?: number;
+    multiplier?: number;
   };
 }
 
 type ScoreEventListener = (event: ScoreEvent) => void;
 
+/**
+ * Session statistics (serializable)
+ */
+export interface SessionStats {
+  score: number;
+  highestLevel: number;
+  totalLinesCleared: number;
+  specialBlocksCollected: number;
+  levelsCompleted: number;
+}
+
 /**
  * ScoreManager handles all scoring logic for the game
  * - Line clear points (100 single, 250 double, 500 triple+)
  * - Special block collection (500 each)
  * - Level completion bonuses (500 x level number)
+ * - Chain multipliers for clears caused by crates falling after an earlier clear
  * - Session cumulative score tracking
  */
 export class ScoreManager extends EventEmitter {
@@ -43,6 +64,7 @@ export class ScoreManager extends EventEmitter {
   private totalLinesCleared: number;
   private specialBlocksCollected: number;
   private levelsCompleted: number;
+  private chainDepth: number;
   private scoreListeners: Map<ScoreEventType, ScoreEventListener[]>;
 
   constructor() {
@@ -52,6 +74,7 @@ export class ScoreManager extends EventEmitter {
     this.totalLinesCleared = 0;
     this.specialBlocksCollected = 0;
     this.levelsCompleted = 0;
+    this.chainDepth = 0;
     this.scoreListeners = new Map();
   }
 
@@ -91,7 +114,56 @@ export class ScoreManager extends EventEmitter {
   }
 
   /**
-   * Add points for line clears
+   * Get the current cascade depth (0 when no chain is in progress)
+   */
+  getChainDepth(): number {
+    return this.chainDepth;
+  }
+
+  /**
+   * Get the multiplier applied to clears at the current cascade depth
+   * - 1st clear: x1, 2nd: x2, 3rd: x3, ... up to x8
+   */
+  getChainMultiplier(): number {
+    return Math.min(Math.max(this.chainDepth, 1), SCORE_VALUES.MAX_CHAIN_MULTIPLIER);
+  }
+
+  /**
+   * Record the next clear of a cascade (call before scoring the clear)
+   * Emits a chain event from the second clear on
+   */
+  advanceChain(): number {
+    this.chainDepth++;
+    const multiplier = this.getChainMultiplier();
+
+    if (this.chainDepth >= 2) {
+      this.emitScoreEvent({
+        type: 'chain',
+        points: 0,
+        totalScore: this.score,
+        details: { chainDepth: this.chainDepth, multiplier },
+      });
+    }
+
+    return multiplier;
+  }
+
+  /**
+   * End the current cascade (the next clear starts a new chain)
+   */
+  endChain(): void {
+    this.chainDepth = 0;
+  }
+
+  /**
+   * Restore the cascade depth (for mid-game resume)
+   */
+  restoreChainDepth(depth: number): void {
+    this.chainDepth = Math.max(0, Math.floor(depth));
+  }
+
+  /**
+   * Add points for line clears, times the chain multiplier
    * - 1 line: 100 points
    * - 2 lines: 250 points
    * - 3+ lines: 500 points
@@ -116,6 +188,7 @@ export class ScoreManager extends EventEmitter {
         break;
     }
 
+    points *= this.getChainMultiplier();
     this.score += points;
     this.totalLinesCleared += linesCleared;
 
@@ -123,7 +196,34 @@ export class ScoreManager extends EventEmitter {
       type: 'lineClear',
       points,
       totalScore: this.score,
-      details: { linesCleared },
+      details: { linesCleared, chainDepth: this.chainDepth },
+    });
+
+    this.emitScoreEvent({
+      type: 'scoreChanged',
+      points,
+      totalScore: this.score,
+    });
+
+    return points;
+  }
+
+  /**
+   * Add points for a color match clear, times the chain multiplier
+   */
+  addMatchPoints(basePoints: number): number {
+    if (basePoints <= 0) {
+      return 0;
+    }
+
+    const points = basePoints * this.getChainMultiplier();
+    this.score += points;
+
+    this.emitScoreEvent({
+      type: 'match',
+      points,
+      totalScore: this.score,
+      details: { chainDepth: this.chainDepth },
     });
 
     this.emitScoreEvent({
@@ -271,13 +371,7 @@ export class ScoreManager extends EventEmitter {
   /**
    * Get a summary of session statistics
    */
-  getSessionStats(): {
-    score: number;
-    highestLevel: number;
-    totalLinesCleared: number;
-    specialBlocksCollected: number;
-    levelsCompleted: number;
-  } {
+  getSessionStats(): SessionStats {
     return {
       score: this.score,
       highestLevel: this.highestLevelReached,
@@ -287,6 +381,23 @@ export class ScoreManager extends EventEmitter {
     };
   }
 
+  /**
+   * Restore session statistics (for mid-game resume)
+   */
+  restoreSessionStats(stats: SessionStats): void {
+    this.score = stats.score;
+    this.highestLevelReached = stats.highestLevel;
+    this.totalLinesCleared = stats.totalLinesCleared;
+    this.specialBlocksCollected = stats.specialBlocksCollected;
+    this.levelsCompleted = stats.levelsCompleted;
+
+    this.emitScoreEvent({
+      type: 'scoreChanged',
+      points: 0,
+      totalScore: this.score,
+    });
+  }
+
   /**
    * Reset all score data for a new session
    */
@@ -296,6 +407,7 @@ export class ScoreManager extends EventEmitter {
     this.totalLinesCleared = 0;
     this.specialBlocksCollected = 0;
     this.levelsCompleted = 0;
+    this.chainDepth = 0;
 
     this.emitScoreEvent({
       type: 'scoreChanged',
@@ -0,0 +1,316 @@
+/**
+ * Sound Engine
+ * Retro sound effects and music synthesized with WebAudio - square wave and
+ * noise channels, like the sound chip of an LCD handheld. Effects are short
+ * sequences of notes defined in code, so no audio samples are loaded.
+ */
+
+/**
+ * Sound effects the game can play
+ */
+export const SoundEffect = {
+  CraneRelease: 'craneRelease',
+  CrateLand: 'crateLand',
+  Push: 'push',
+  Jump: 'jump',
+  LineClear: 'lineClear',
+  Match: 'match',
+  BombTick: 'bombTick',
+  Explosion: 'explosion',
+  SpecialPickup: 'specialPickup',
+  LevelComplete: 'levelComplete',
+  GameOver: 'gameOver',
+} as const;
+export type SoundEffect = (typeof SoundEffect)[keyof typeof SoundEffect];
+
+/**
+ * Sound chip channels
+ */
+export const SoundChannel = {
+  Square: 'square',
+  Noise: 'noise',
+} as const;
+export type SoundChannel = (typeof SoundChannel)[keyof typeof SoundChannel];
+
+/**
+ * A single note of a sound effect or song
+ */
+export interface SoundNote {
+  channel: SoundChannel;
+  /** Delay after the effect (or batch of music notes) starts (seconds) */
+  start: number;
+  /** Length of the note (seconds) */
+  duration: number;
+  /** Pitch in Hz (for noise, the rate the noise generator is clocked at) */
+  frequency: number;
+  /** Pitch at the end of the note for slides (defaults to frequency) */
+  endFrequency?: number;
+  /** Volume from 0 to 1 */
+  volume: number;
+  /** Fade out over the note in volume steps instead of holding the volume */
+  decay?: boolean;
+}
+
+const square = (
+  start: number,
+  duration: number,
+  frequency: number,
+  volume: number,
+  options: Partial<SoundNote> = {}
+): SoundNote => ({ channel: SoundChannel.Square, start, duration, frequency, volume, ...options });
+
+const noise = (
+  start: number,
+  duration: number,
+  frequency: number,
+  volume: number,
+  options: Partial<SoundNote> = {}
+): SoundNote => ({ channel: SoundChannel.Noise, start, duration, frequency, volume, ...options });
+
+/**
+ * Note sequences for every sound effect
+ */
+export const SOUND_EFFECTS: Record<SoundEffect, readonly SoundNote[]> = {
+  craneRelease: [square(0, 0.08, 880, 0.25, { endFrequency: 440, decay: true })],
+  crateLand: [
+    noise(0, 0.08, 4000, 0.5, { endFrequency: 1000, decay: true }),
+    square(0, 0.05, 110, 0.3, { decay: true }),
+  ],
+  push: [noise(0, 0.04, 12000, 0.25, { decay: true })],
+  jump: [square(0, 0.12, 300, 0.25, { endFrequency: 900 })],
+  lineClear: [
+    square(0, 0.06, 523, 0.3),
+    square(0.06, 0.06, 659, 0.3),
+    square(0.12, 0.06, 784, 0.3),
+    square(0.18, 0.2, 1047, 0.3, { decay: true }),
+  ],
+  match: [square(0, 0.05, 659, 0.3), square(0.05, 0.1, 988, 0.3, { decay: true })],
+  bombTick: [square(0, 0.02, 1760, 0.2)],
+  explosion: [
+    noise(0, 0.6, 6000, 0.7, { endFrequency: 200, decay: true }),
+    square(0, 0.4, 80, 0.4, { endFrequency: 30, decay: true }),
+  ],
+  specialPickup: [
+    square(0, 0.05, 988, 0.3),
+    square(0.05, 0.05, 1319, 0.3),
+    square(0.1, 0.15, 1976, 0.3, { decay: true }),
+  ],
+  levelComplete: [
+    square(0, 0.1, 523, 0.3),
+    square(0.1, 0.1, 659, 0.3),
+    square(0.2, 0.1, 784, 0.3),
+    square(0.3, 0.4, 1047, 0.3, { decay: true }),
+  ],
+  gameOver: [
+    square(0, 0.15, 392, 0.3),
+    square(0.15, 0.15, 330, 0.3),
+    square(0.3, 0.15, 262, 0.3),
+    square(0.45, 0.6, 196, 0.3, { endFrequency: 98, decay: true }),
+  ],
+};
+
+// Output level at full master volume, leaving headroom for sounds that overlap
+const OUTPUT_LEVEL = 0.3;
+
+// Music volume until a setting is applied
+const DEFAULT_MUSIC_VOLUME = 0.5;
+
+// Number of volume steps in a decay (stepped like a hardware envelope, not smooth)
+const DECAY_STEPS = 8;
+
+// Length of the looping noise buffer (seconds)
+const NOISE_BUFFER_SECONDS = 1;
+
+/**
+ * Generate noise samples from a 15-bit linear feedback shift register,
+ * the noise source of handheld sound chips (one step per sample)
+ */
+export function createNoiseSamples(length: number): Float32Array {
+  const samples = new Float32Array(length);
+  let register = 0x7fff;
+  for (let i = 0; i < length; i++) {
+    const bit = (register ^ (register >> 1)) & 1;
+    register = (register >> 1) | (bit << 14);
+    samples[i] = register & 1 ? 1 : -1;
+  }
+  return samples;
+}
+
+/**
+ * SoundEngine plays sound effects and music through an AudioContext
+ * Browsers only start audio after a user gesture, so nothing plays until unlock()
+ * has been called from an input handler
+ */
+export class SoundEngine {
+  private context: AudioContext | null = null;
+  private masterOutput: GainNode | null = null;
+  private effectsOutput: GainNode | null = null;
+  private musicOutput: GainNode | null = null;
+  private noiseBuffer: AudioBuffer | null = null;
+  private enabled: boolean = true;
+  private muted: boolean = false;
+
+  // Mixer levels (0 to 1)
+  private masterVolume: number = 1;
+  private musicVolume: number = DEFAULT_MUSIC_VOLUME;
+  private effectsVolume: number = 1;
+
+  /**
+   * Create the audio context, or resume it if the browser suspended it
+   */
+  unlock(): void {
+    if (typeof AudioContext === 'undefined') {
+      return;
+    }
+
+    if (!this.context) {
+      this.context = new AudioContext();
+      this.masterOutput = this.context.createGain();
+      this.masterOutput.connect(this.context.destination);
+
+      this.effectsOutput = this.context.createGain();
+      this.effectsOutput.connect(this.masterOutput);
+      this.musicOutput = this.context.createGain();
+      this.musicOutput.connect(this.masterOutput);
+      this.applyVolumes();
+
+      const length = Math.floor(this.context.sampleRate * NOISE_BUFFER_SECONDS);
+      this.noiseBuffer = this.context.createBuffer(1, length, this.context.sampleRate);
+      this.noiseBuffer.getChannelData(0).set(createNoiseSamples(length));
+    }
+
+    if (this.context.state === 'suspended') {
+      void this.context.resume();
+    }
+  }
+
+  /**
+   * Turn all sound (effects and music) on or off
+   */
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+  }
+
+  /**
+   * Check if sound is on
+   */
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Silence all output without changing the volumes (e.g. while the tab is hidden)
+   */
+  setMuted(muted: boolean): void {
+    this.muted = muted;
+    this.applyVolumes();
+  }
+
+  /**
+   * Set the mixer volumes (0 to 1)
+   */
+  setVolumes(volumes: { master: number; music: number; effects: number }): void {
+    const clamp = (volume: number) => Math.min(Math.max(volume, 0), 1);
+    this.masterVolume = clamp(volumes.master);
+    this.musicVolume = clamp(volumes.music);
+    this.effectsVolume = clamp(volumes.effects);
+    this.applyVolumes();
+  }
+
+  /**
+   * Set the output gains from the mixer levels
+   */
+  private applyVolumes(): void {
+    if (!this.masterOutput || !this.musicOutput || !this.effectsOutput) {
+      return;
+    }
+
+    this.masterOutput.gain.value = this.muted ? 0 : OUTPUT_LEVEL * this.masterVolume;
+    this.musicOutput.gain.value = this.musicVolume;
+    this.effectsOutput.gain.value = this.effectsVolume;
+  }
+
+  /**
+   * Play a sound effect (ignored while sound is off or audio is locked)
+   */
+  play(effect: SoundEffect): void {
+    if (this.effectsOutput) {
+      this.playNotes(SOUND_EFFECTS[effect], this.effectsOutput);
+    }
+  }
+
+  /**
+   * Play music notes, timed from now by their start delays
+   */
+  playMusic(notes: readonly SoundNote[]): void {
+    if (this.musicOutput) {
+      this.playNotes(notes, this.musicOutput);
+    }
+  }
+
+  /**
+   * Schedule notes on an output (ignored while sound is off or audio is locked)
+   */
+  private playNotes(notes: readonly SoundNote[], output: GainNode): void {
+    if (!this.enabled || !this.context || this.context.state !== 'running') {
+      return;
+    }
+
+    const startTime = this.context.currentTime;
+    for (const note of notes) {
+      this.playNote(note, startTime + note.start, output);
+    }
+  }
+
+  /**
+   * Schedule one note on its channel
+   */
+  private playNote(note: SoundNote, time: number, output: GainNode): void {
+    if (!this.context || !this.noiseBuffer) {
+      return;
+    }
+
+    const endTime = time + note.duration;
+    const gain = this.context.createGain();
+    gain.connect(output);
+
+    if (note.decay) {
+      for (let step = 0; step < DECAY_STEPS; step++) {
+        const volume = note.volume * (1 - step / DECAY_STEPS);
+        gain.gain.setValueAtTime(volume, time + (note.duration * step) / DECAY_STEPS);
+      }
+    } else {
+      gain.gain.setValueAtTime(note.volume, time);
+    }
+    gain.gain.setValueAtTime(0, endTime);
+
+    let source: OscillatorNode | AudioBufferSourceNode;
+    let pitch: AudioParam;
+    let pitchScale: number;
+
+    if (note.channel === SoundChannel.Square) {
+      const oscillator = this.context.createOscillator();
+      oscillator.type = 'square';
+      source = oscillator;
+      pitch = oscillator.frequency;
+      pitchScale = 1;
+    } else {
+      const noiseSource = this.context.createBufferSource();
+      noiseSource.buffer = this.noiseBuffer;
+      noiseSource.loop = true;
+      source = noiseSource;
+      pitch = noiseSource.playbackRate;
+      pitchScale = 1 / this.context.sampleRate;
+    }
+
+    pitch.setValueAtTime(note.frequency * pitchScale, time);
+    if (note.endFrequency !== undefined) {
+      pitch.linearRampToValueAtTime(note.endFrequency * pitchScale, endTime);
+    }
+
+    source.connect(gain);
+    source.start(time);
+    source.stop(endTime);
+    source.onended = () => gain.disconnect();
+  }
+}
@@ -1,9 +1,9 @@
 /**
  * Special Block Manager System
- * Handles special block activation, effects, and visual feedback
+ * Handles special block activation and effects
+ * Pure model (no rendering) - activation feedback is drawn by SpecialBlockManagerView
  */
 
-import { Container, Text, TextStyle } from 'pixi.js';
 import { SPECIAL_BLOCK_EFFECTS } from '../entities/SpecialBlock';
 import type { SpecialBlockEffect } from '../entities/SpecialBlock';
 import { Crate } from '../entities/Crate';
@@ -23,11 +23,21 @@ export interface ActivationResult {
   message: string;
 }
 
+/**
+ * Activation message to show at the block's position
+ */
+export interface ActivationFeedback {
+  message: string;
+  x: number;
+  y: number;
+}
+
 export interface SpecialBlockManagerConfig {
   effectDurationSuperJump: number; // milliseconds
   extraPointsValue: number;
   initialExtraLives: number; // Starting extra lives
   maxExtraLives: number; // Maximum extra lives allowed
+  clock: () => number; // Time source in milliseconds (simulation time when headless)
 }
 
 const DEFAULT_CONFIG: SpecialBlockManagerConfig = {
@@ -35,16 +45,16 @@ const DEFAULT_CONFIG: SpecialBlockManagerConfig = {
   extraPointsValue: 500,
   initialExtraLives: 1, // Start with 1 extra life
   maxExtraLives: 3, // Maximum 3 extra lives
+  clock: () => Date.now(),
 };
 
-export class SpecialBlockManager extends Container {
+export class SpecialBlockManager {
   private config: SpecialBlockManagerConfig;
   private effectState: SpecialEffectState;
-  private feedbackTexts: Text[];
+  private feedback: ActivationFeedback[];
   private pendingScore: number;
 
   constructor(config: Partial<SpecialBlockManagerConfig> = {}) {
-    super();
     this.config = { ...DEFAULT_CONFIG, ...config };
     this.effectState = {
       superJumpActive: false,
@@ -52,7 +62,7 @@ export class SpecialBlockManager extends Container {
       helmetActive: false,
       extraLives: this.config.initialExtraLives,
     };
-    this.feedbackTexts = [];
+    this.feedback = [];
     this.pendingScore = 0;
   }
 
@@ -130,9 +140,9 @@ export class SpecialBlockManager extends Container {
         return { activated: false, effect: null, message: '' };
     }
 
-    // Show visual feedback
+    // Queue visual feedback
     if (effect && effect.applied) {
-      this.showActivationFeedback(message, crate.x, crate.y);
+      this.feedback.push({ message, x: crate.x, y: crate.y });
     }
 
     return { activated: true, effect, message };
@@ -156,7 +166,7 @@ export class SpecialBlockManager extends Container {
    */
   private activateSuperJump(character: Character): SpecialBlockEffect {
     this.effectState.superJumpActive = true;
-    this.effectState.superJumpEndTime = Date.now() + this.config.effectDurationSuperJump;
+    this.effectState.superJumpEndTime = this.config.clock() + this.config.effectDurationSuperJump;
 
     // Apply to character
     character.activateSuperJump(this.config.effectDurationSuperJump);
@@ -202,58 +212,36 @@ export class SpecialBlockManager extends Container {
     };
   }
 
-  /**
-   * Show visual feedback when a special block is activated
-   */
-  private showActivationFeedback(message: string, x: number, y: number): void {
-    const style = new TextStyle({
-      fontFamily: 'monospace',
-      fontSize: 8,
-      fill: 0xffffff,
-      stroke: { color: 0x000000, width: 2 },
-    });
-
-    const text = new Text({ text: message, style });
-    text.anchor.set(0.5, 1);
-    text.x = x;
-    text.y = y - 10;
-
-    // Store for animation
-    (text as FeedbackText).createdAt = Date.now();
-    (text as FeedbackText).duration = 1500; // 1.5 seconds
-
-    this.feedbackTexts.push(text);
-    this.addChild(text);
-  }
-
   /**
    * Update the special block manager
    */
   update(_deltaTime: number): void {
-    const currentTime = Date.now();
-
     // Update super jump effect
-    if (this.effectState.superJumpActive && currentTime >= this.effectState.superJumpEndTime) {
+    if (
+      this.effectState.superJumpActive &&
+      this.config.clock() >= this.effectState.superJumpEndTime
+    ) {
       this.effectState.superJumpActive = false;
     }
+  }
 
-    // Update feedback texts (animate and remove expired)
-    for (let i = this.feedbackTexts.length - 1; i >= 0; i--) {
-      const text = this.feedbackTexts[i] as FeedbackText;
-      const elapsed = currentTime - text.createdAt;
-
-      if (elapsed >= text.duration) {
-        // Remove expired text
-        this.removeChild(text);
-        text.destroy();
-        this.feedbackTexts.splice(i, 1);
-      } else {
-        // Animate: float upward and fade
-        const progress = elapsed / text.duration;
-        text.y -= 0.5; // Float up
-        text.alpha = 1 - progress; // Fade out
-      }
-    }
+  /**
+   * Get and clear activation feedback queued since the last call
+   */
+  takeFeedback(): ActivationFeedback[] {
+    const feedback = this.feedback;
+    this.feedback = [];
+    return feedback;
+  }
+
+  /**
+   * Restore the effect state (for mid-game resume)
+   * Super jump end time is on the configured clock
+   */
+  restoreEffectState(state: SpecialEffectState): void {
+    this.effectState = { ...state };
+    this.pendingScore = 0;
+    this.feedback = [];
   }
 
   /**
@@ -277,7 +265,7 @@ export class SpecialBlockManager extends Container {
     if (!this.effectState.superJumpActive) {
       return 0;
     }
-    return Math.max(0, this.effectState.superJumpEndTime - Date.now());
+    return Math.max(0, this.effectState.superJumpEndTime - this.config.clock());
   }
 
   /**
@@ -364,26 +352,6 @@ export class SpecialBlockManager extends Container {
       extraLives: this.config.initialExtraLives,
     };
     this.pendingScore = 0;
-
-    // Clear feedback texts
-    for (const text of this.feedbackTexts) {
-      this.removeChild(text);
-      text.destroy();
-    }
-    this.feedbackTexts = [];
+    this.feedback = [];
   }
-
-  /**
-   * Destroy the manager
-   */
-  destroy(): void {
-    this.reset();
-    super.destroy();
-  }
-}
-
-// Extended Text interface for feedback animation
-interface FeedbackText extends Text {
-  createdAt: number;
-  duration: number;
 }
@@ -16,6 +16,17 @@ export type TouchStartListener = (touch: TouchPoint) => void;
 export type TouchMoveListener = (touch: TouchPoint) => void;
 export type TouchEndListener = (touch: TouchPoint) => void;
 
+/**
+ * Check if a touch is on an HTML control (dialog and editor buttons), which
+ * needs the browser's default handling to get clicks and focus
+ */
+function isOnHtmlControl(event: TouchEvent): boolean {
+  return (
+    event.target instanceof HTMLElement &&
+    event.target.closest('button, input, textarea, select') !== null
+  );
+}
+
 export class TouchInput {
   private activeTouches: Map<number, TouchPoint> = new Map();
   private touchStartListeners: TouchStartListener[] = [];
@@ -44,7 +55,9 @@ export class TouchInput {
    */
   private handleTouchStart = (event: TouchEvent): void => {
     // Prevent default to avoid mouse events and scrolling
-    event.preventDefault();
+    if (!isOnHtmlControl(event)) {
+      event.preventDefault();
+    }
 
     for (let i = 0; i < event.changedTouches.length; i++) {
       const touch = event.changedTouches[i];
@@ -66,7 +79,9 @@ export class TouchInput {
    * Handle touchmove events
    */
   private handleTouchMove = (event: TouchEvent): void => {
-    event.preventDefault();
+    if (!isOnHtmlControl(event)) {
+      event.preventDefault();
+    }
 
     for (let i = 0; i < event.changedTouches.length; i++) {
       const touch = event.changedTouches[i];
@@ -84,7 +99,9 @@ export class TouchInput {
    * Handle touchend and touchcancel events
    */
   private handleTouchEnd = (event: TouchEvent): void => {
-    event.preventDefault();
+    if (!isOnHtmlControl(event)) {
+      event.preventDefault();
+    }
 
     for (let i = 0; i < event.changedTouches.length; i++) {
       const touch = event.changedTouches[i];
@@ -0,0 +1,464 @@
+/**
+ * Virtual Controller
+ * On-screen touch controls drawn as an HTML overlay over the game. Shows the
+ * buttons or tap zones of the chosen layout and has an editor for dragging
+ * buttons into place and changing their size and opacity.
+ */
+
+import { InputAction } from '../types/game';
+import {
+  ControllerButton,
+  ControllerLayout,
+  DEFAULT_VIRTUAL_CONTROLLER_SETTINGS,
+  MAX_BUTTON_SIZE,
+  MIN_BUTTON_OPACITY,
+  MIN_BUTTON_SIZE,
+  mirrorVirtualController,
+  readVirtualControllerSettings,
+} from '../config/virtualController';
+import type { VirtualControllerSettings } from '../config/virtualController';
+
+export type VirtualControllerListener = (action: InputAction, active: boolean) => void;
+
+const BUTTON_ACTIONS: Record<ControllerButton, InputAction> = {
+  left: InputAction.MoveLeft,
+  right: InputAction.MoveRight,
+  jump: InputAction.Jump,
+  pause: InputAction.Pause,
+};
+
+const BUTTON_LABELS: Record<ControllerButton, string> = {
+  left: 'Move Left',
+  right: 'Move Right',
+  jump: 'Jump',
+  pause: 'Pause',
+};
+
+const BUTTON_ICONS: Record<ControllerButton, string> = {
+  left: '<svg viewBox="0 0 24 24"><polyline points="15,6 9,12 15,18"/></svg>',
+  right: '<svg viewBox="0 0 24 24"><polyline points="9,6 15,12 9,18"/></svg>',
+  jump: '<svg viewBox="0 0 24 24"><polyline points="6,15 12,9 18,15"/></svg>',
+  pause:
+    '<svg viewBox="0 0 24 24"><rect x="6" y="5" width="4" height="14" rx="1"/>' +
+    '<rect x="14" y="5" width="4" height="14" rx="1"/></svg>',
+};
+
+const LAYOUT_NAMES: Record<ControllerLayout, string> = {
+  dpadButton: 'D-PAD',
+  tapZones: 'TAP ZONES',
+  swipeOnly: 'SWIPE',
+};
+
+// Tap zones: the top of the screen jumps, the bottom halves move (fractions of the screen)
+const TAP_ZONES: {
+  action: InputAction;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}[] = [
+  { action: InputAction.Jump, left: 0, top: 0, width: 1, height: 0.55 },
+  { action: InputAction.MoveLeft, left: 0, top: 0.55, width: 0.5, height: 0.45 },
+  { action: InputAction.MoveRight, left: 0.5, top: 0.55, width: 0.5, height: 0.45 },
+];
+
+// Editor steps
+const SIZE_STEP = 10;
+const OPACITY_STEP = 0.1;
+
+// How long a tap on the pause button holds the action (ms)
+const TAP_DURATION_MS = 100;
+
+export class VirtualController {
+  private root: HTMLElement;
+  private settings: VirtualControllerSettings = readVirtualControllerSettings(null);
+  private listeners: VirtualControllerListener[] = [];
+  private heldActions: Set<InputAction> = new Set();
+  private releaseTimeouts: number[] = [];
+
+  // Editor state (null when not editing)
+  private onEditChange: ((settings: VirtualControllerSettings) => void) | null = null;
+
+  /**
+   * @param root - Element the controls are drawn in (covers the screen)
+   */
+  constructor(root: HTMLElement) {
+    this.root = root;
+    this.render();
+  }
+
+  /**
+   * Use new settings and redraw the controls
+   */
+  setSettings(settings: VirtualControllerSettings): void {
+    this.settings = readVirtualControllerSettings(settings);
+    this.render();
+  }
+
+  /**
+   * Get the current settings
+   */
+  getSettings(): VirtualControllerSettings {
+    return readVirtualControllerSettings(this.settings);
+  }
+
+  /**
+   * Add a listener for control presses and releases
+   */
+  onAction(listener: VirtualControllerListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Remove a listener
+   */
+  removeActionListener(listener: VirtualControllerListener): void {
+    const index = this.listeners.indexOf(listener);
+    if (index !== -1) {
+      this.listeners.splice(index, 1);
+    }
+  }
+
+  /**
+   * Let the tap zones take taps (only during play - elsewhere they would cover menus)
+   */
+  setTapZonesActive(active: boolean): void {
+    if (this.root.classList.contains('playing') !== active) {
+      this.root.classList.toggle('playing', active);
+      if (!active) {
+        this.releaseAll();
+      }
+    }
+  }
+
+  /**
+   * Show the editor: buttons can be dragged and the toolbar changes the layout,
+   * size and opacity. Every change is reported until stopEditing() (or DONE)
+   */
+  startEditing(onChange: (settings: VirtualControllerSettings) => void): void {
+    this.onEditChange = onChange;
+    this.render();
+  }
+
+  /**
+   * Close the editor
+   */
+  stopEditing(): void {
+    this.onEditChange = null;
+    this.render();
+  }
+
+  /**
+   * Check if the editor is open
+   */
+  isEditing(): boolean {
+    return this.onEditChange !== null;
+  }
+
+  /**
+   * Rebuild the overlay from the settings
+   */
+  private render(): void {
+    this.releaseAll();
+    this.root.replaceChildren();
+    this.root.classList.toggle('editing', this.isEditing());
+
+    const { layout } = this.settings;
+    if (layout === ControllerLayout.TapZones) {
+      for (const zone of TAP_ZONES) {
+        this.root.appendChild(this.createTapZone(zone));
+      }
+    }
+
+    const buttons: ControllerButton[] =
+      layout === ControllerLayout.DpadButton
+        ? [ControllerButton.Left, ControllerButton.Right, ControllerButton.Jump]
+        : [];
+    buttons.push(ControllerButton.Pause);
+    for (const button of buttons) {
+      this.root.appendChild(this.createButton(button));
+    }
+
+    if (this.isEditing()) {
+      this.root.appendChild(this.createEditorToolbar());
+    }
+  }
+
+  /**
+   * Create an on-screen button at its saved place
+   */
+  private createButton(button: ControllerButton): HTMLElement {
+    const element = document.createElement('button');
+    const { x, y } = this.settings.buttons[button];
+    const size =
+      button === ControllerButton.Pause
+        ? Math.max(MIN_BUTTON_SIZE, this.settings.buttonSize / 2)
+        : this.settings.buttonSize;
+
+    element.className = `mobile-btn mobile-btn-${button}`;
+    element.setAttribute('aria-label', BUTTON_LABELS[button]);
+    element.innerHTML = BUTTON_ICONS[button];
+    element.style.left = `${x * 100}%`;
+    element.style.top = `${y * 100}%`;
+    element.style.width = `${size}px`;
+    element.style.height = `${size}px`;
+    element.style.opacity = `${this.settings.opacity}`;
+
+    if (this.isEditing()) {
+      this.makeDraggable(element, button);
+    } else if (button === ControllerButton.Pause) {
+      this.makeTapControl(element, BUTTON_ACTIONS[button]);
+    } else {
+      this.makeHoldControl(element, BUTTON_ACTIONS[button]);
+    }
+
+    return element;
+  }
+
+  /**
+   * Create a tap zone (outlined so the split is visible)
+   */
+  private createTapZone(zone: (typeof TAP_ZONES)[number]): HTMLElement {
+    const element = document.createElement('div');
+    element.className = 'tap-zone';
+    element.style.left = `${zone.left * 100}%`;
+    element.style.top = `${zone.top * 100}%`;
+    element.style.width = `${zone.width * 100}%`;
+    element.style.height = `${zone.height * 100}%`;
+    element.style.opacity = `${this.settings.opacity}`;
+
+    if (!this.isEditing()) {
+      this.makeHoldControl(element, zone.action);
+    }
+    return element;
+  }
+
+  /**
+   * Hold the action while the control is pressed
+   */
+  private makeHoldControl(element: HTMLElement, action: InputAction): void {
+    const handlePress = (event: Event) => {
+      event.preventDefault();
+      element.classList.add('pressed');
+      this.setActionHeld(action, true);
+    };
+
+    const handleRelease = (event: Event) => {
+      event.preventDefault();
+      if (element.classList.contains('pressed')) {
+        element.classList.remove('pressed');
+        this.setActionHeld(action, false);
+      }
+    };
+
+    element.addEventListener('pointerdown', handlePress);
+    element.addEventListener('pointerup', handleRelease);
+    element.addEventListener('pointercancel', handleRelease);
+    element.addEventListener('pointerleave', handleRelease);
+  }
+
+  /**
+   * Trigger the action briefly on each tap
+   */
+  private makeTapControl(element: HTMLElement, action: InputAction): void {
+    element.addEventListener('pointerdown', (event) => {
+      event.preventDefault();
+      element.classList.add('pressed');
+      this.setActionHeld(action, true);
+      // Reset action after brief delay
+      this.releaseTimeouts.push(
+        window.setTimeout(() => {
+          element.classList.remove('pressed');
+          this.setActionHeld(action, false);
+        }, TAP_DURATION_MS)
+      );
+    });
+  }
+
+  /**
+   * Let a button be dragged to a new place (editor only)
+   */
+  private makeDraggable(element: HTMLElement, button: ControllerButton): void {
+    let dragging = false;
+
+    const moveTo = (event: PointerEvent) => {
+      const x = Math.min(Math.max(event.clientX / window.innerWidth, 0), 1);
+      const y = Math.min(Math.max(event.clientY / window.innerHeight, 0), 1);
+      this.settings.buttons[button] = { x, y };
+      element.style.left = `${x * 100}%`;
+      element.style.top = `${y * 100}%`;
+    };
+
+    element.addEventListener('pointerdown', (event) => {
+      event.preventDefault();
+      dragging = true;
+      element.classList.add('pressed');
+      element.setPointerCapture?.(event.pointerId);
+    });
+    element.addEventListener('pointermove', (event) => {
+      if (dragging) {
+        moveTo(event);
+      }
+    });
+    const endDrag = () => {
+      if (!dragging) {
+        return;
+      }
+      dragging = false;
+      element.classList.remove('pressed');
+      this.reportEdit();
+    };
+    element.addEventListener('pointerup', endDrag);
+    element.addEventListener('pointercancel', endDrag);
+  }
+
+  /**
+   * Create the editor toolbar (layout, size, opacity, mirror, reset and done)
+   */
+  private createEditorToolbar(): HTMLElement {
+    const toolbar = document.createElement('div');
+    toolbar.className = 'controller-editor';
+
+    const title = document.createElement('h2');
+    title.className = 'controller-editor-title';
+    title.textContent = 'TOUCH LAYOUT';
+    toolbar.appendChild(title);
+
+    const hint = document.createElement('p');
+    hint.className = 'controller-editor-hint';
+    hint.textContent =
+      this.settings.layout === ControllerLayout.DpadButton
+        ? 'DRAG THE BUTTONS TO MOVE THEM'
+        : 'DRAG THE PAUSE BUTTON TO MOVE IT';
+    toolbar.appendChild(hint);
+
+    const layouts = Object.values(ControllerLayout);
+    const nextLayout = layouts[(layouts.indexOf(this.settings.layout) + 1) % layouts.length];
+    this.addEditorRow(toolbar, [
+      [`LAYOUT: ${LAYOUT_NAMES[this.settings.layout]}`, () => this.edit({ layout: nextLayout })],
+    ]);
+
+    const { buttonSize, opacity } = this.settings;
+    this.addEditorRow(toolbar, [
+      ['-', () => this.edit({ buttonSize: Math.max(MIN_BUTTON_SIZE, buttonSize - SIZE_STEP) })],
+      [`SIZE ${buttonSize}`, null],
+      ['+', () => this.edit({ buttonSize: Math.min(MAX_BUTTON_SIZE, buttonSize + SIZE_STEP) })],
+    ]);
+    this.addEditorRow(toolbar, [
+      [
+        '-',
+        () =>
+          this.edit({
+            opacity: Math.max(MIN_BUTTON_OPACITY, roundOpacity(opacity - OPACITY_STEP)),
+          }),
+      ],
+      [`OPACITY ${Math.round(opacity * 100)}%`, null],
+      ['+', () => this.edit({ opacity: Math.min(1, roundOpacity(opacity + OPACITY_STEP)) })],
+    ]);
+    this.addEditorRow(toolbar, [
+      ['MIRROR', () => this.edit(mirrorVirtualController(this.settings))],
+      [
+        'RESET',
+        () => this.edit(readVirtualControllerSettings(DEFAULT_VIRTUAL_CONTROLLER_SETTINGS)),
+      ],
+      ['DONE', () => this.stopEditing()],
+    ]);
+
+    return toolbar;
+  }
+
+  /**
+   * Add a row of editor buttons (a null action makes a plain label)
+   */
+  private addEditorRow(toolbar: HTMLElement, items: [string, (() => void) | null][]): void {
+    const row = document.createElement('div');
+    row.className = 'controller-editor-row';
+
+    for (const [text, onClick] of items) {
+      const item = document.createElement(onClick ? 'button' : 'span');
+      item.className = onClick ? 'controller-editor-btn' : 'controller-editor-value';
+      item.textContent = text;
+      if (onClick) {
+        item.addEventListener('click', onClick);
+      }
+      row.appendChild(item);
+    }
+
+    toolbar.appendChild(row);
+  }
+
+  /**
+   * Apply a change from the editor, redraw and report it
+   */
+  private edit(change: Partial<VirtualControllerSettings>): void {
+    this.settings = readVirtualControllerSettings({ ...this.settings, ...change });
+    this.render();
+    this.reportEdit();
+  }
+
+  /**
+   * Report the current settings to the editor callback
+   */
+  private reportEdit(): void {
+    this.onEditChange?.(this.getSettings());
+  }
+
+  /**
+   * Press or release an action, reporting only changes
+   */
+  private setActionHeld(action: InputAction, held: boolean): void {
+    if (this.heldActions.has(action) !== held) {
+      if (held) {
+        this.heldActions.add(action);
+      } else {
+        this.heldActions.delete(action);
+      }
+      this.notifyListeners(action, held);
+    }
+  }
+
+  /**
+   * Release every held control (before a redraw, or when tap zones are turned off)
+   */
+  private releaseAll(): void {
+    this.releaseTimeouts.forEach((timeout) => window.clearTimeout(timeout));
+    this.releaseTimeouts = [];
+    this.root
+      .querySelectorAll('.pressed')
+      .forEach((element) => element.classList.remove('pressed'));
+
+    for (const action of [...this.heldActions]) {
+      this.setActionHeld(action, false);
+    }
+  }
+
+  /**
+   * Notify all listeners of a control press or release
+   */
+  private notifyListeners(action: InputAction, active: boolean): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(action, active);
+      } catch (error) {
+        console.error('Error in virtual controller listener:', error);
+      }
+    });
+  }
+
+  /**
+   * Remove the controls
+   */
+  destroy(): void {
+    this.releaseAll();
+    this.root.replaceChildren();
+    this.listeners = [];
+    this.onEditChange = null;
+  }
+}
+
+/**
+ * Round an opacity to the editor step (avoids 0.30000000000000004)
+ */
+function roundOpacity(opacity: number): number {
+  return Math.round(opacity * 10) / 10;
+}
@@ -2,12 +2,13 @@
  * Configuration type definitions
  */
 
-import type { CharacterAttributes, Level } from './entities';
+import type { CharacterAttributes, Level, CrateType, CrateColor } from './entities';
 
 export interface CharacterConfig {
   id: number;
   name: string;
   attributes: CharacterAttributes;
+  jumpAssist?: JumpAssist; // Defaults to DEFAULT_JUMP_ASSIST
   sprite: string;
   initiallyUnlocked: boolean;
   unlockCriteria?: {
@@ -16,8 +17,40 @@ export interface CharacterConfig {
   };
 }
 
+/**
+ * Forgiveness windows for jump timing (seconds, 0 turns a window off)
+ */
+export interface JumpAssist {
+  bufferTime: number; // A jump pressed this long before landing still happens on landing
+  coyoteTime: number; // A jump still works this long after walking off an edge
+}
+
+/**
+ * Guarantee that at least `count` crates of `type` drop in every block of `per` crates
+ */
+export interface SpawnGuarantee {
+  type: CrateType;
+  count: number;
+  per: number;
+}
+
+/**
+ * Relative weights per crate type and per color of regular crates
+ * Types or colors left out never spawn; colors default to equal weights
+ */
+export interface SpawnTable {
+  types: Partial<Record<CrateType, number>>;
+  colors?: Partial<Record<CrateColor, number>>;
+  guarantees?: SpawnGuarantee[];
+}
+
 export interface LevelConfig extends Level {
   description?: string;
+  spawnInterval?: number; // ms between crane drops (default: base interval / crateSpeed)
+  specialBlockRate?: number; // chance per drop of a special block
+  bombRate?: number; // chance per drop of a bomb
+  spawnTable?: SpawnTable; // replaces specialBlockRate/bombRate when set
+  unlockCharacterIds?: number[]; // characters unlocked by completing the level
 }
 
 export const LCDPalette = {
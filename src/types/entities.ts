@@ -33,6 +33,7 @@ export const CrateType = {
   Helmet: 'helmet',
   Bomb: 'bomb',
   ExtraLife: 'extraLife',
+  Rainbow: 'rainbow',
 } as const;
 
 export type CrateType = (typeof CrateType)[keyof typeof CrateType];
@@ -14,9 +14,12 @@ export type GameState = (typeof GameState)[keyof typeof GameState];
 
 export const SceneType = {
   Loading: 'loading',
+  ProfileSelect: 'profileSelect',
   MainMenu: 'mainMenu',
   CharacterSelect: 'characterSelect',
   Settings: 'settings',
+  Controls: 'controls',
+  PaletteEditor: 'paletteEditor',
   Game: 'game',
   LevelTransition: 'levelTransition',
   GameOver: 'gameOver',
@@ -35,6 +38,17 @@ export const InputAction = {
 
 export type InputAction = (typeof InputAction)[keyof typeof InputAction];
 
+/**
+ * Game modes: Classic ends after the last designed level, Endless keeps
+ * generating harder levels beyond it
+ */
+export const GameMode = {
+  Classic: 'classic',
+  Endless: 'endless',
+} as const;
+
+export type GameMode = (typeof GameMode)[keyof typeof GameMode];
+
 export interface GameSessionState {
   currentLevel: number;
   score: number;
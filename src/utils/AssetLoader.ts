@@ -3,9 +3,12 @@
  *
  * Provides palette-aware sprite loading and caching for all game entities.
  * Generates sprites programmatically to maintain authentic LCD aesthetic.
+ * A palette's sprites are generated the first time they are needed and again
+ * after its colors change (custom palettes).
  */
 
 import { Application, RenderTexture } from 'pixi.js';
+import { samePaletteColors } from '../config/palettes';
 import type { ColorPalette, PaletteColors } from '../systems/LCDEffect';
 import {
   generateCharacterSprites,
@@ -42,6 +45,7 @@ export interface AssetCache {
 export class AssetLoader {
   private app: Application;
   private cache: Map<ColorPalette, AssetCache>;
+  private paletteColors: Map<ColorPalette, PaletteColors> = new Map();
   private isLoaded: boolean = false;
 
   constructor(app: Application) {
@@ -50,55 +54,101 @@ export class AssetLoader {
   }
 
   /**
-   * Load all assets for both palettes
+   * Load the colors of every palette and the sprites of the starting palette
+   * (the others are generated when first used)
    */
-  async load(bluePaletteColors: PaletteColors, amberPaletteColors: PaletteColors): Promise<void> {
+  async load(
+    paletteColors: Record<ColorPalette, PaletteColors>,
+    initialPalette: ColorPalette
+  ): Promise<void> {
     if (this.isLoaded) {
       console.warn('AssetLoader: Assets already loaded');
       return;
     }
 
-    // Generate sprites for Blue palette
-    const blueAssets: AssetCache = {
-      characters: generateCharacterSprites(bluePaletteColors, this.app),
-      characterAnimations: generateCharacterAnimationSprites(bluePaletteColors, this.app),
-      crate: generateCrateSprite(bluePaletteColors, this.app),
-      crates: generateAllCrateSprites(bluePaletteColors, this.app),
-      crane: generateCraneSprite(bluePaletteColors, this.app),
-      craneOpen: generateCraneOpenSprite(bluePaletteColors, this.app),
-      craneInverted: generateInvertedCraneSprite(bluePaletteColors, this.app),
-      craneInvertedOpen: generateInvertedCraneOpenSprite(bluePaletteColors, this.app),
-      ui: generateUISprites(bluePaletteColors, this.app),
-      environment: generateEnvironmentSprites(bluePaletteColors, this.app),
-    };
+    for (const [palette, colors] of Object.entries(paletteColors)) {
+      this.paletteColors.set(palette, { ...colors });
+    }
+    this.getAssets(initialPalette);
 
-    this.cache.set('blue', blueAssets);
-
-    // Generate sprites for Amber palette
-    const amberAssets: AssetCache = {
-      characters: generateCharacterSprites(amberPaletteColors, this.app),
-      characterAnimations: generateCharacterAnimationSprites(amberPaletteColors, this.app),
-      crate: generateCrateSprite(amberPaletteColors, this.app),
-      crates: generateAllCrateSprites(amberPaletteColors, this.app),
-      crane: generateCraneSprite(amberPaletteColors, this.app),
-      craneOpen: generateCraneOpenSprite(amberPaletteColors, this.app),
-      craneInverted: generateInvertedCraneSprite(amberPaletteColors, this.app),
-      craneInvertedOpen: generateInvertedCraneOpenSprite(amberPaletteColors, this.app),
-      ui: generateUISprites(amberPaletteColors, this.app),
-      environment: generateEnvironmentSprites(amberPaletteColors, this.app),
-    };
+    this.isLoaded = true;
+    console.log('AssetLoader: Sprites generated for the starting palette');
+  }
 
-    this.cache.set('amber', amberAssets);
+  /**
+   * Get the palettes sprites can be generated for
+   */
+  getPalettes(): ColorPalette[] {
+    return [...this.paletteColors.keys()];
+  }
 
-    this.isLoaded = true;
-    console.log('AssetLoader: All sprites generated for both palettes');
+  /**
+   * Set the colors of a new or edited palette (edited sprites are regenerated)
+   */
+  setPaletteColors(palette: ColorPalette, colors: PaletteColors): void {
+    const known = this.paletteColors.get(palette);
+    if (known && samePaletteColors(known, colors)) {
+      return;
+    }
+
+    this.paletteColors.set(palette, { ...colors });
+    this.releaseAssets(palette);
+  }
+
+  /**
+   * Forget a palette (e.g. a deleted custom palette) and free its sprites
+   */
+  removePalette(palette: ColorPalette): void {
+    this.paletteColors.delete(palette);
+    this.releaseAssets(palette);
+  }
+
+  /**
+   * Get the sprites of a palette, generating them the first time
+   */
+  private getAssets(palette: ColorPalette): AssetCache | null {
+    const cached = this.cache.get(palette);
+    if (cached) {
+      return cached;
+    }
+
+    const colors = this.paletteColors.get(palette);
+    if (!colors) {
+      return null;
+    }
+
+    const assets: AssetCache = {
+      characters: generateCharacterSprites(colors, this.app),
+      characterAnimations: generateCharacterAnimationSprites(colors, this.app),
+      crate: generateCrateSprite(colors, this.app),
+      crates: generateAllCrateSprites(colors, this.app),
+      crane: generateCraneSprite(colors, this.app),
+      craneOpen: generateCraneOpenSprite(colors, this.app),
+      craneInverted: generateInvertedCraneSprite(colors, this.app),
+      craneInvertedOpen: generateInvertedCraneOpenSprite(colors, this.app),
+      ui: generateUISprites(colors, this.app),
+      environment: generateEnvironmentSprites(colors, this.app),
+    };
+    this.cache.set(palette, assets);
+    return assets;
+  }
+
+  /**
+   * Destroy the sprites generated for a palette
+   */
+  private releaseAssets(palette: ColorPalette): void {
+    const assets = this.cache.get(palette);
+    if (assets) {
+      this.cache.delete(palette);
+      destroyAssets(assets);
+    }
   }
 
   /**
    * Get character sprite for a specific character and palette
    */
   getCharacterSprite(characterId: number, palette: ColorPalette): RenderTexture | null {
-    const assets = this.cache.get(palette);
+    const assets = this.getAssets(palette);
     if (!assets) {
       console.error(`AssetLoader: No assets cached for palette: ${palette}`);
       return null;
@@ -111,7 +161,7 @@ export class AssetLoader {
    * Get character sprite by name
    */
   getCharacterSpriteByName(name: string, palette: ColorPalette): RenderTexture | null {
-    const assets = this.cache.get(palette);
+    const assets = this.getAssets(palette);
     if (!assets) {
       console.error(`AssetLoader: No assets cached for palette: ${palette}`);
       return null;
@@ -124,7 +174,7 @@ export class AssetLoader {
    * Get crate sprite for a specific palette (default regular crate)
    */
   getCrateSprite(palette: ColorPalette): RenderTexture | null {
-    const assets = this.cache.get(palette);
+    const assets = this.getAssets(palette);
     if (!assets) {
       console.error(`AssetLoader: No assets cached for palette: ${palette}`);
       return null;
@@ -142,7 +192,7 @@ export class AssetLoader {
     palette: ColorPalette,
     variant?: number
   ): RenderTexture | null {
-    const assets = this.cache.get(palette);
+    const assets = this.getAssets(palette);
     if (!assets) {
       console.error(`AssetLoader: No assets cached for palette: ${palette}`);
       return null;
@@ -167,15 +217,20 @@ export class AssetLoader {
 
   /**
    * Get colored crate sprite for match-3 mechanics
+   * @param glyphs - Use the colorblind variant (a distinct glyph per color)
    */
-  getColoredCrateSprite(color: CrateColor, palette: ColorPalette): RenderTexture | null {
-    const assets = this.cache.get(palette);
+  getColoredCrateSprite(
+    color: CrateColor,
+    palette: ColorPalette,
+    glyphs: boolean = false
+  ): RenderTexture | null {
+    const assets = this.getAssets(palette);
     if (!assets) {
       console.error(`AssetLoader: No assets cached for palette: ${palette}`);
       return null;
     }
 
-    const spriteKey = `crate_${color}`;
+    const spriteKey = glyphs ? `crate_${color}_glyph` : `crate_${color}`;
     return assets.crates.get(spriteKey) || assets.crate;
   }
 
@@ -183,7 +238,7 @@ export class AssetLoader {
    * Get bomb crate sprite
    */
   getBombCrateSprite(palette: ColorPalette): RenderTexture | null {
-    const assets = this.cache.get(palette);
+    const assets = this.getAssets(palette);
     if (!assets) {
       console.error(`AssetLoader: No assets cached for palette: ${palette}`);
       return null;
@@ -196,7 +251,7 @@ export class AssetLoader {
    * Get environment sprite by name for a specific palette
    */
   getEnvironmentSprite(name: string, palette: ColorPalette): RenderTexture | null {
-    const assets = this.cache.get(palette);
+    const assets = this.getAssets(palette);
     if (!assets) {
       console.error(`AssetLoader: No assets cached for palette: ${palette}`);
       return null;
@@ -209,7 +264,7 @@ export class AssetLoader {
    * Get crane sprite for a specific palette
    */
   getCraneSprite(palette: ColorPalette): RenderTexture | null {
-    const assets = this.cache.get(palette);
+    const assets = this.getAssets(palette);
     if (!assets) {
       console.error(`AssetLoader: No assets cached for palette: ${palette}`);
       return null;
@@ -222,7 +277,7 @@ export class AssetLoader {
    * Get inverted crane sprite (light on dark) for a specific palette
    */
   getInvertedCraneSprite(palette: ColorPalette): RenderTexture | null {
-    const assets = this.cache.get(palette);
+    const assets = this.getAssets(palette);
     if (!assets) {
       console.error(`AssetLoader: No assets cached for palette: ${palette}`);
       return null;
@@ -235,7 +290,7 @@ export class AssetLoader {
    * Get inverted crane sprite with open hooks (light on dark) for a specific palette
    */
   getInvertedCraneOpenSprite(palette: ColorPalette): RenderTexture | null {
-    const assets = this.cache.get(palette);
+    const assets = this.getAssets(palette);
     if (!assets) {
       console.error(`AssetLoader: No assets cached for palette: ${palette}`);
       return null;
@@ -248,7 +303,7 @@ export class AssetLoader {
    * Get crane sprite with open hooks for a specific palette
    */
   getCraneOpenSprite(palette: ColorPalette): RenderTexture | null {
-    const assets = this.cache.get(palette);
+    const assets = this.getAssets(palette);
     if (!assets) {
       console.error(`AssetLoader: No assets cached for palette: ${palette}`);
       return null;
@@ -261,7 +316,7 @@ export class AssetLoader {
    * Get UI element sprite
    */
   getUISprite(name: string, palette: ColorPalette): RenderTexture | null {
-    const assets = this.cache.get(palette);
+    const assets = this.getAssets(palette);
     if (!assets) {
       console.error(`AssetLoader: No assets cached for palette: ${palette}`);
       return null;
@@ -274,7 +329,7 @@ export class AssetLoader {
    * Get all character sprites for a palette
    */
   getAllCharacterSprites(palette: ColorPalette): Map<string, RenderTexture> | null {
-    const assets = this.cache.get(palette);
+    const assets = this.getAssets(palette);
     if (!assets) {
       console.error(`AssetLoader: No assets cached for palette: ${palette}`);
       return null;
@@ -290,7 +345,7 @@ export class AssetLoader {
     frame: CharacterAnimationFrame,
     palette: ColorPalette
   ): RenderTexture | null {
-    const assets = this.cache.get(palette);
+    const assets = this.getAssets(palette);
     if (!assets) {
       console.error(`AssetLoader: No assets cached for palette: ${palette}`);
       return null;
@@ -305,7 +360,7 @@ export class AssetLoader {
   getAllCharacterAnimationSprites(
     palette: ColorPalette
   ): Map<CharacterAnimationFrame, RenderTexture> | null {
-    const assets = this.cache.get(palette);
+    const assets = this.getAssets(palette);
     if (!assets) {
       console.error(`AssetLoader: No assets cached for palette: ${palette}`);
       return null;
@@ -318,7 +373,7 @@ export class AssetLoader {
    * Get all UI sprites for a palette
    */
   getAllUISprites(palette: ColorPalette): Map<string, RenderTexture> | null {
-    const assets = this.cache.get(palette);
+    const assets = this.getAssets(palette);
     if (!assets) {
       console.error(`AssetLoader: No assets cached for palette: ${palette}`);
       return null;
@@ -338,53 +393,58 @@ export class AssetLoader {
    * Clean up all cached assets
    */
   destroy(): void {
-    this.cache.forEach((assets) => {
-      // Destroy character textures
-      assets.characters.forEach((texture) => {
-        texture.destroy(true);
-      });
-      assets.characters.clear();
-
-      // Destroy character animation textures
-      assets.characterAnimations.forEach((texture) => {
-        texture.destroy(true);
-      });
-      assets.characterAnimations.clear();
-
-      // Destroy crate texture
-      assets.crate.destroy(true);
-
-      // Destroy all crate type textures
-      assets.crates.forEach((texture) => {
-        texture.destroy(true);
-      });
-      assets.crates.clear();
-
-      // Destroy crane textures
-      assets.crane.destroy(true);
-      assets.craneOpen.destroy(true);
-      assets.craneInverted.destroy(true);
-      assets.craneInvertedOpen.destroy(true);
-
-      // Destroy UI textures
-      assets.ui.forEach((texture) => {
-        texture.destroy(true);
-      });
-      assets.ui.clear();
-
-      // Destroy environment textures
-      assets.environment.forEach((texture) => {
-        texture.destroy(true);
-      });
-      assets.environment.clear();
-    });
-
+    this.cache.forEach(destroyAssets);
     this.cache.clear();
+    this.paletteColors.clear();
     this.isLoaded = false;
     console.log('AssetLoader: All assets destroyed');
   }
 }
 
+/**
+ * Destroy every texture of a palette's sprites
+ */
+function destroyAssets(assets: AssetCache): void {
+  // Destroy character textures
+  assets.characters.forEach((texture) => {
+    texture.destroy(true);
+  });
+  assets.characters.clear();
+
+  // Destroy character animation textures
+  assets.characterAnimations.forEach((texture) => {
+    texture.destroy(true);
+  });
+  assets.characterAnimations.clear();
+
+  // Destroy crate texture
+  assets.crate.destroy(true);
+
+  // Destroy all crate type textures
+  assets.crates.forEach((texture) => {
+    texture.destroy(true);
+  });
+  assets.crates.clear();
+
+  // Destroy crane textures
+  assets.crane.destroy(true);
+  assets.craneOpen.destroy(true);
+  assets.craneInverted.destroy(true);
+  assets.craneInvertedOpen.destroy(true);
+
+  // Destroy UI textures
+  assets.ui.forEach((texture) => {
+    texture.destroy(true);
+  });
+  assets.ui.clear();
+
+  // Destroy environment textures
+  assets.environment.forEach((texture) => {
+    texture.destroy(true);
+  });
+  assets.environment.clear();
+}
+
 /**
  * Factory function to create a new AssetLoader instance
  */
@@ -0,0 +1,53 @@
+/**
+ * Local Storage Utility
+ * Safe wrapper around window.localStorage (used by the local storage backend)
+ */
+
+/**
+ * Store a string value
+ * Returns false if storage is unavailable or full
+ */
+export function setLocalItem(name: string, value: string): boolean {
+  try {
+    window.localStorage.setItem(name, value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get a stored string value (null if missing or storage is unavailable)
+ */
+export function getLocalItem(name: string): string | null {
+  try {
+    return window.localStorage.getItem(name);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remove a stored value
+ */
+export function removeLocalItem(name: string): void {
+  try {
+    window.localStorage.removeItem(name);
+  } catch {
+    // Storage unavailable - nothing to remove
+  }
+}
+
+/**
+ * Check if local storage is available
+ */
+export function isLocalStorageAvailable(): boolean {
+  try {
+    const testKey = '__storage_test__';
+    window.localStorage.setItem(testKey, '1');
+    window.localStorage.removeItem(testKey);
+    return true;
+  } catch {
+    return false;
+  }
+}
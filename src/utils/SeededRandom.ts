@@ -0,0 +1,94 @@
+/**
+ * Seeded Random Utility
+ * Deterministic pseudo-random number generator for all gameplay randomness
+ *
+ * Uses the mulberry32 algorithm: a single 32-bit state word, fast enough to
+ * call every frame and fully reproducible from its seed. Two generators
+ * created with the same seed always yield the same sequence, which lets bug
+ * reports, balance tests and shared challenges replay an identical run.
+ */
+
+/**
+ * Generate a fresh 32-bit seed from non-deterministic sources
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+export class SeededRandom {
+  private seed: number;
+  private state: number;
+
+  constructor(seed: number = generateSeed()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Get the seed this generator was created (or last reseeded) with
+   */
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Get the internal state (for snapshotting mid-run)
+   */
+  getState(): number {
+    return this.state;
+  }
+
+  /**
+   * Restore the internal state from a snapshot
+   */
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+
+  /**
+   * Restart the sequence from a new seed
+   */
+  reseed(seed: number): void {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Restart the sequence from the current seed
+   */
+  reset(): void {
+    this.state = this.seed;
+  }
+
+  /**
+   * Get the next float in [0, 1) - drop-in replacement for Math.random()
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  /**
+   * Get the next integer in [0, maxExclusive)
+   */
+  nextInt(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+
+  /**
+   * Return true with the given probability (default 50%)
+   */
+  chance(probability: number = 0.5): boolean {
+    return this.next() < probability;
+  }
+
+  /**
+   * Pick a random element from a non-empty array
+   */
+  pick<T>(items: readonly T[]): T {
+    return items[this.nextInt(items.length)];
+  }
+}
@@ -416,6 +416,57 @@ const COLORED_CRATE_PATTERNS = {
   },
 };
 
+/**
+ * Colorblind crate glyphs - Bold, well-separated shapes per color so crates can
+ * be matched without telling shades apart (accessibility option)
+ */
+const CRATE_GLYPH_PATTERNS: Record<keyof typeof COLORED_CRATE_PATTERNS, number[][]> = {
+  // Red: Horizontal stripes
+  red: [
+    [1, 1, 1, 1, 1, 1, 1, 1],
+    [1, 1, 1, 1, 1, 1, 1, 1],
+    [1, 0, 0, 0, 0, 0, 0, 1],
+    [1, 1, 1, 1, 1, 1, 1, 1],
+    [1, 0, 0, 0, 0, 0, 0, 1],
+    [1, 1, 1, 1, 1, 1, 1, 1],
+    [1, 0, 0, 0, 0, 0, 0, 1],
+    [1, 1, 1, 1, 1, 1, 1, 1],
+  ],
+  // Blue: Four dots
+  blue: [
+    [1, 1, 1, 1, 1, 1, 1, 1],
+    [1, 0, 0, 0, 0, 0, 0, 1],
+    [1, 0, 1, 0, 0, 1, 0, 1],
+    [1, 0, 0, 0, 0, 0, 0, 1],
+    [1, 0, 0, 0, 0, 0, 0, 1],
+    [1, 0, 1, 0, 0, 1, 0, 1],
+    [1, 0, 0, 0, 0, 0, 0, 1],
+    [1, 1, 1, 1, 1, 1, 1, 1],
+  ],
+  // Green: Plus cross
+  green: [
+    [1, 1, 1, 1, 1, 1, 1, 1],
+    [1, 0, 0, 1, 1, 0, 0, 1],
+    [1, 0, 0, 1, 1, 0, 0, 1],
+    [1, 1, 1, 1, 1, 1, 1, 1],
+    [1, 1, 1, 1, 1, 1, 1, 1],
+    [1, 0, 0, 1, 1, 0, 0, 1],
+    [1, 0, 0, 1, 1, 0, 0, 1],
+    [1, 1, 1, 1, 1, 1, 1, 1],
+  ],
+  // Yellow: Ring
+  yellow: [
+    [1, 1, 1, 1, 1, 1, 1, 1],
+    [1, 0, 0, 0, 0, 0, 0, 1],
+    [1, 0, 1, 1, 1, 1, 0, 1],
+    [1, 0, 1, 0, 0, 1, 0, 1],
+    [1, 0, 1, 0, 0, 1, 0, 1],
+    [1, 0, 1, 1, 1, 1, 0, 1],
+    [1, 0, 0, 0, 0, 0, 0, 1],
+    [1, 1, 1, 1, 1, 1, 1, 1],
+  ],
+};
+
 /**
  * Bomb crate sprite - Circular bomb with fuse (8x8 pixels)
  */
@@ -497,6 +548,22 @@ const CRATE_EXTRA_LIFE_SPRITE = {
   ],
 };
 
+/**
+ * Rainbow crate - nested arches pattern (8x8 pixels)
+ */
+const CRATE_RAINBOW_SPRITE = {
+  pixels: [
+    [1, 1, 1, 1, 1, 1, 1, 1],
+    [1, 0, 2, 2, 2, 2, 0, 1],
+    [1, 2, 0, 0, 0, 0, 2, 1],
+    [1, 2, 0, 2, 2, 0, 2, 1],
+    [1, 2, 0, 2, 2, 0, 2, 1],
+    [1, 2, 0, 2, 2, 0, 2, 1],
+    [1, 2, 0, 2, 2, 0, 2, 1],
+    [1, 1, 1, 1, 1, 1, 1, 1],
+  ],
+};
+
 /**
  * Brick wall tile - 8x8 pixels, repeatable vertically
  */
@@ -1540,6 +1607,7 @@ export function generateAllCrateSprites(
     'crate_extraLife',
     generateOpaqueSprite(CRATE_EXTRA_LIFE_SPRITE.pixels, colors, app, 2)
   );
+  sprites.set('crate_rainbow', generateOpaqueSprite(CRATE_RAINBOW_SPRITE.pixels, colors, app, 2));
 
   // Bomb sprite (opaque)
   sprites.set('crate_bomb', generateOpaqueSprite(CRATE_BOMB_SPRITE.pixels, colors, app, 2));
@@ -1549,6 +1617,11 @@ export function generateAllCrateSprites(
     sprites.set(`crate_${colorName}`, generateOpaqueSprite(pattern.pixels, colors, app, 2));
   }
 
+  // Colorblind glyph variants of the colored crates (opaque)
+  for (const [colorName, pixels] of Object.entries(CRATE_GLYPH_PATTERNS)) {
+    sprites.set(`crate_${colorName}_glyph`, generateOpaqueSprite(pixels, colors, app, 2));
+  }
+
   return sprites;
 }
 
@@ -1676,6 +1749,7 @@ export const SPRITE_DEFINITIONS = {
   crateSuperJump: CRATE_SUPER_JUMP_SPRITE,
   crateHelmet: CRATE_HELMET_SPRITE,
   crateExtraLife: CRATE_EXTRA_LIFE_SPRITE,
+  crateRainbow: CRATE_RAINBOW_SPRITE,
   crateBomb: CRATE_BOMB_SPRITE,
   crateColored: COLORED_CRATE_PATTERNS,
   crane: CRANE_SPRITE,
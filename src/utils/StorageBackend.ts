@@ -0,0 +1,149 @@
+/**
+ * Storage Backends
+ * Pluggable key/value stores for persistent game data: local storage, IndexedDB,
+ * and an in-memory fallback for browsers that block both (strict privacy modes)
+ */
+
+import {
+  getLocalItem,
+  setLocalItem,
+  removeLocalItem,
+  isLocalStorageAvailable,
+} from './LocalStorage';
+
+/**
+ * A key/value store for serialized game data
+ */
+export interface StorageBackend {
+  /** Backend name (for diagnostics) */
+  readonly name: string;
+  /** False if stored data is lost when the page closes */
+  readonly persistent: boolean;
+  /** Get a stored value (null if missing) */
+  getItem(key: string): Promise<string | null>;
+  /** Store a value, replacing any previous value */
+  setItem(key: string, value: string): Promise<void>;
+  /** Delete a stored value */
+  removeItem(key: string): Promise<void>;
+}
+
+/**
+ * Keeps data for the current session only
+ */
+export class MemoryStorageBackend implements StorageBackend {
+  readonly name = 'memory';
+  readonly persistent = false;
+  private items = new Map<string, string>();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+}
+
+/**
+ * Stores data in window.localStorage
+ * Writes happen synchronously, so a save made while the page is closing is kept
+ */
+export class LocalStorageBackend implements StorageBackend {
+  readonly name = 'localStorage';
+  readonly persistent = true;
+
+  async getItem(key: string): Promise<string | null> {
+    return getLocalItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    if (!setLocalItem(key, value)) {
+      throw new Error(`Could not store ${key} in local storage`);
+    }
+  }
+
+  async removeItem(key: string): Promise<void> {
+    removeLocalItem(key);
+  }
+}
+
+/**
+ * Wait for an IndexedDB request to finish
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Stores data in an IndexedDB object store
+ */
+export class IndexedDBStorageBackend implements StorageBackend {
+  static readonly DATABASE_NAME = 'stackattack';
+  static readonly STORE_NAME = 'data';
+
+  readonly name = 'indexedDB';
+  readonly persistent = true;
+  private db: IDBDatabase;
+
+  private constructor(db: IDBDatabase) {
+    this.db = db;
+  }
+
+  /**
+   * Open (or create) the game's database
+   */
+  static async open(
+    databaseName: string = IndexedDBStorageBackend.DATABASE_NAME
+  ): Promise<IndexedDBStorageBackend> {
+    const request = indexedDB.open(databaseName, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(IndexedDBStorageBackend.STORE_NAME);
+    };
+    return new IndexedDBStorageBackend(await requestToPromise(request));
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const value = await requestToPromise(this.getStore('readonly').get(key));
+    return typeof value === 'string' ? value : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await requestToPromise(this.getStore('readwrite').put(value, key));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await requestToPromise(this.getStore('readwrite').delete(key));
+  }
+
+  private getStore(mode: IDBTransactionMode): IDBObjectStore {
+    return this.db
+      .transaction(IndexedDBStorageBackend.STORE_NAME, mode)
+      .objectStore(IndexedDBStorageBackend.STORE_NAME);
+  }
+}
+
+/**
+ * Open the best available backend: local storage, then IndexedDB, then memory
+ */
+export async function openStorageBackend(): Promise<StorageBackend> {
+  if (isLocalStorageAvailable()) {
+    return new LocalStorageBackend();
+  }
+
+  if (typeof indexedDB !== 'undefined') {
+    try {
+      return await IndexedDBStorageBackend.open();
+    } catch {
+      // IndexedDB blocked (e.g. private browsing) - fall back to memory
+    }
+  }
+
+  return new MemoryStorageBackend();
+}
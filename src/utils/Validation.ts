@@ -0,0 +1,26 @@
+/**
+ * Validation Utility
+ * Type guards and helpers for reading untrusted data (stored settings, save
+ * codes, snapshots and level packs)
+ */
+
+/**
+ * Check for a plain object (not null or an array)
+ */
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check for a number that is not NaN or infinite
+ */
+export function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Limit a value to a range
+ */
+export function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
@@ -0,0 +1,48 @@
+/**
+ * Character View
+ * Sprite that draws the Character model and mirrors it to match its facing
+ */
+
+import { Sprite, Texture } from 'pixi.js';
+import type { Character } from '../entities/Character';
+import type { CharacterAnimationFrame } from '../utils/SpriteGenerator';
+
+/**
+ * Resolves the texture for a character animation frame (null if not available)
+ */
+export type CharacterTextureProvider = (frame: CharacterAnimationFrame) => Texture | null;
+
+export class CharacterView extends Sprite {
+  private character: Character;
+
+  constructor(character: Character) {
+    super();
+    this.character = character;
+
+    // Set anchor to bottom-center for ground alignment
+    this.anchor.set(0.5, 1);
+
+    this.sync(null);
+  }
+
+  /**
+   * Copy the model state to the sprite
+   * Call after all collisions are resolved so the animation frame is stable
+   */
+  sync(textureProvider: CharacterTextureProvider | null): void {
+    this.x = this.character.x;
+    this.y = this.character.y;
+
+    const texture = textureProvider?.(this.character.getCurrentAnimationFrame());
+    if (texture) {
+      this.texture = texture;
+    }
+
+    // Idle frames mirror only for looking left (front, up and right face forward)
+    const flipped =
+      this.character.getState() === 'idle'
+        ? this.character.isIdleLookingLeft()
+        : !this.character.isFacingRight();
+    this.scale.x = flipped ? -Math.abs(this.scale.x) : Math.abs(this.scale.x);
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Crane Manager View
+ * Container drawing the cranes of a CraneManager and the crates they carry
+ */
+
+import { Container, Texture } from 'pixi.js';
+import type { Crate } from '../entities/Crate';
+import type { CraneManager } from '../systems/CraneManager';
+import { CraneView } from './CraneView';
+import { CrateView } from './CrateView';
+import type { CrateTextureProvider } from './CrateView';
+
+export class CraneManagerView extends Container {
+  private craneManager: CraneManager;
+  private textureProvider: CrateTextureProvider | null;
+  private craneViews: CraneView[] = [];
+  private crateViews: Map<Crate, CrateView> = new Map();
+  private closedTexture: Texture | null = null;
+  private openTexture: Texture | null = null;
+
+  constructor(craneManager: CraneManager, textureProvider: CrateTextureProvider | null) {
+    super();
+    this.craneManager = craneManager;
+    this.textureProvider = textureProvider;
+  }
+
+  /**
+   * Set both closed and open textures for all cranes
+   */
+  setCraneTextures(closedTexture: Texture, openTexture: Texture): void {
+    this.closedTexture = closedTexture;
+    this.openTexture = openTexture;
+
+    for (const view of this.craneViews) {
+      view.setTextures(closedTexture, openTexture);
+    }
+  }
+
+  /**
+   * Sync crane and carried crate views with the model
+   * Crane views are rebuilt when the level changes the crane count
+   */
+  sync(): void {
+    const cranes = this.craneManager.getCranes();
+    const cranesChanged =
+      cranes.length !== this.craneViews.length ||
+      cranes.some((crane, i) => this.craneViews[i].getCrane() !== crane);
+
+    if (cranesChanged) {
+      for (const view of this.craneViews) {
+        this.removeChild(view);
+        view.destroy();
+      }
+      this.craneViews = cranes.map((crane, i) => {
+        const view = new CraneView(crane);
+        if (this.closedTexture && this.openTexture) {
+          view.setTextures(this.closedTexture, this.openTexture);
+        }
+        this.addChildAt(view, i); // Keep cranes below carried crates
+        return view;
+      });
+    }
+
+    for (const view of this.craneViews) {
+      view.sync();
+    }
+
+    // Carried crates are handed over to the crate manager on release
+    const attached = new Set(this.craneManager.getAttachedCrates());
+    for (const [crate, view] of this.crateViews) {
+      if (!attached.has(crate)) {
+        this.removeChild(view);
+        view.destroy();
+        this.crateViews.delete(crate);
+      }
+    }
+    for (const crate of attached) {
+      let view = this.crateViews.get(crate);
+      if (!view) {
+        view = new CrateView(crate, this.textureProvider);
+        this.crateViews.set(crate, view);
+        this.addChild(view);
+      }
+      view.sync();
+    }
+  }
+
+  /**
+   * Re-resolve carried crate textures (e.g. after a palette change)
+   */
+  refreshTextures(): void {
+    for (const view of this.crateViews.values()) {
+      view.refreshTexture(this.textureProvider);
+    }
+  }
+
+  override destroy(): void {
+    this.craneViews = [];
+    this.crateViews.clear();
+    super.destroy({ children: true });
+  }
+}
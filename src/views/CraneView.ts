@@ -0,0 +1,53 @@
+/**
+ * Crane View
+ * Sprite that draws a Crane model, switching between closed and open hook textures
+ */
+
+import { Sprite, Texture } from 'pixi.js';
+import type { Crane } from '../entities/Crane';
+
+export class CraneView extends Sprite {
+  private crane: Crane;
+  private closedTexture: Texture | null = null;
+  private openTexture: Texture | null = null;
+
+  constructor(crane: Crane) {
+    super();
+    this.crane = crane;
+
+    // Set anchor to bottom-center for positioning above drop point
+    this.anchor.set(0.5, 1);
+
+    this.sync();
+  }
+
+  /**
+   * Get the crane drawn by this view
+   */
+  getCrane(): Crane {
+    return this.crane;
+  }
+
+  /**
+   * Set the closed and open hook textures
+   */
+  setTextures(closedTexture: Texture, openTexture: Texture): void {
+    this.closedTexture = closedTexture;
+    this.openTexture = openTexture;
+    this.sync();
+  }
+
+  /**
+   * Copy the model state to the sprite
+   */
+  sync(): void {
+    this.x = this.crane.x;
+    this.y = this.crane.y;
+    this.visible = this.crane.visible;
+
+    const texture = this.crane.areHooksOpen() ? this.openTexture : this.closedTexture;
+    if (texture && this.texture !== texture) {
+      this.texture = texture;
+    }
+  }
+}
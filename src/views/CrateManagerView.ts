@@ -0,0 +1,62 @@
+/**
+ * Crate Manager View
+ * Container keeping one CrateView per crate in a CrateManager
+ */
+
+import { Container } from 'pixi.js';
+import type { Crate } from '../entities/Crate';
+import type { CrateManager } from '../systems/CrateManager';
+import { CrateView } from './CrateView';
+import type { CrateTextureProvider } from './CrateView';
+
+export class CrateManagerView extends Container {
+  private crateManager: CrateManager;
+  private textureProvider: CrateTextureProvider | null;
+  private views: Map<Crate, CrateView> = new Map();
+
+  constructor(crateManager: CrateManager, textureProvider: CrateTextureProvider | null) {
+    super();
+    this.crateManager = crateManager;
+    this.textureProvider = textureProvider;
+  }
+
+  /**
+   * Add views for new crates, drop views of removed ones and sync the rest
+   */
+  sync(): void {
+    const crates = this.crateManager.getAllCrates();
+    const alive = new Set(crates);
+
+    for (const [crate, view] of this.views) {
+      if (!alive.has(crate)) {
+        this.removeChild(view);
+        view.destroy();
+        this.views.delete(crate);
+      }
+    }
+
+    for (const crate of crates) {
+      let view = this.views.get(crate);
+      if (!view) {
+        view = new CrateView(crate, this.textureProvider);
+        this.views.set(crate, view);
+        this.addChild(view);
+      }
+      view.sync();
+    }
+  }
+
+  /**
+   * Re-resolve all crate textures (e.g. after a palette change)
+   */
+  refreshTextures(): void {
+    for (const view of this.views.values()) {
+      view.refreshTexture(this.textureProvider);
+    }
+  }
+
+  override destroy(): void {
+    this.views.clear();
+    super.destroy({ children: true });
+  }
+}
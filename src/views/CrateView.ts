@@ -0,0 +1,58 @@
+/**
+ * Crate View
+ * Sprite that draws a Crate model (position, fade and shrink while clearing)
+ */
+
+import { Sprite, Texture } from 'pixi.js';
+import type { Crate } from '../entities/Crate';
+import type { CrateType, CrateColor } from '../types/entities';
+
+/**
+ * Resolves the texture for a crate type and color (null if not available)
+ */
+export type CrateTextureProvider = (type: CrateType, color?: CrateColor) => Texture | null;
+
+export class CrateView extends Sprite {
+  private crate: Crate;
+
+  constructor(crate: Crate, textureProvider: CrateTextureProvider | null) {
+    super();
+    this.crate = crate;
+
+    // Set anchor to bottom-center for grid alignment
+    this.anchor.set(0.5, 1);
+
+    this.refreshTexture(textureProvider);
+    this.sync();
+  }
+
+  /**
+   * Get the crate drawn by this view
+   */
+  getCrate(): Crate {
+    return this.crate;
+  }
+
+  /**
+   * Re-resolve the texture (e.g. after a palette change)
+   */
+  refreshTexture(textureProvider: CrateTextureProvider | null): void {
+    const texture = textureProvider?.(
+      this.crate.getCrateType(),
+      this.crate.getColor() ?? undefined
+    );
+    if (texture) {
+      this.texture = texture;
+    }
+  }
+
+  /**
+   * Copy the model state to the sprite
+   */
+  sync(): void {
+    this.x = this.crate.x;
+    this.y = this.crate.y;
+    this.alpha = this.crate.alpha;
+    this.scale.set(this.crate.scale);
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Palette Preview
+ * Small LCD sample drawn in a palette's colors: a character and a crate standing
+ * on a floor fragment, built from the real sprite data (settings and palette editor)
+ */
+
+import { Container, Graphics, Text, TextStyle } from 'pixi.js';
+import type { PaletteColors } from '../config/palettes';
+import { SPRITE_DEFINITIONS } from '../utils/SpriteGenerator';
+
+const PIXEL_SIZE = 2;
+const FLOOR_Y = 10; // Floor top position
+
+export class PalettePreview extends Container {
+  private box: Graphics;
+  private caption: Text;
+  private floor: Graphics;
+  private character: Graphics;
+  private crate: Graphics;
+
+  constructor(colors: PaletteColors) {
+    super();
+
+    this.box = new Graphics();
+    this.addChild(this.box);
+
+    this.caption = new Text({
+      text: 'PREVIEW',
+      style: new TextStyle({
+        fontFamily: 'monospace',
+        fontSize: 8,
+        fill: colors.foreground,
+        align: 'center',
+      }),
+    });
+    this.caption.anchor.set(0.5);
+    this.caption.position.set(0, -28);
+    this.addChild(this.caption);
+
+    this.floor = new Graphics();
+    this.addChild(this.floor);
+
+    this.character = new Graphics();
+    this.addChild(this.character);
+
+    this.crate = new Graphics();
+    this.addChild(this.crate);
+
+    this.setColors(colors);
+  }
+
+  /**
+   * Redraw the preview in new colors
+   */
+  setColors(colors: PaletteColors): void {
+    this.box.clear();
+    this.box.rect(-40, -35, 80, 70);
+    this.box.fill({ color: colors.background });
+    this.box.stroke({ color: colors.foreground, width: 2 });
+
+    this.caption.style.fill = colors.foreground;
+
+    // 4 floor tiles (64px width, enough for character + crate), centered
+    const floorPixels = SPRITE_DEFINITIONS.floorTile.pixels;
+    const tileWidth = 8 * PIXEL_SIZE;
+    this.floor.clear();
+    for (let tile = 0; tile < 4; tile++) {
+      drawPixels(this.floor, floorPixels, -32 + tile * tileWidth, FLOOR_Y, colors.foreground);
+    }
+
+    // Character (idle_front - looking at camera) standing on the floor, left side
+    const charPixels = SPRITE_DEFINITIONS.characterAnimations.idle_front.pixels;
+    this.character.clear();
+    drawPixels(
+      this.character,
+      charPixels,
+      -24,
+      FLOOR_Y - charPixels.length * PIXEL_SIZE,
+      colors.foreground
+    );
+
+    // Crate next to the character
+    const cratePixels = SPRITE_DEFINITIONS.crate.pixels;
+    this.crate.clear();
+    drawPixels(
+      this.crate,
+      cratePixels,
+      8,
+      FLOOR_Y - cratePixels.length * PIXEL_SIZE,
+      colors.foreground
+    );
+  }
+}
+
+/**
+ * Draw the lit pixels of a sprite definition
+ */
+function drawPixels(
+  graphics: Graphics,
+  pixels: number[][],
+  offsetX: number,
+  offsetY: number,
+  color: number
+): void {
+  for (let y = 0; y < pixels.length; y++) {
+    for (let x = 0; x < pixels[y].length; x++) {
+      if (pixels[y][x] === 1) {
+        graphics.rect(offsetX + x * PIXEL_SIZE, offsetY + y * PIXEL_SIZE, PIXEL_SIZE, PIXEL_SIZE);
+        graphics.fill({ color });
+      }
+    }
+  }
+}
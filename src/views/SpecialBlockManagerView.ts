@@ -0,0 +1,81 @@
+/**
+ * Special Block Manager View
+ * Shows floating feedback text for special block activations
+ */
+
+import { Container, Text, TextStyle } from 'pixi.js';
+import type { SpecialBlockManager } from '../systems/SpecialBlockManager';
+
+// Extended Text interface for feedback animation
+interface FeedbackText extends Text {
+  createdAt: number;
+  duration: number;
+}
+
+export class SpecialBlockManagerView extends Container {
+  private specialBlockManager: SpecialBlockManager;
+  private feedbackTexts: FeedbackText[] = [];
+
+  constructor(specialBlockManager: SpecialBlockManager) {
+    super();
+    this.specialBlockManager = specialBlockManager;
+  }
+
+  /**
+   * Show new activation feedback and animate existing texts
+   */
+  sync(): void {
+    for (const feedback of this.specialBlockManager.takeFeedback()) {
+      this.showActivationFeedback(feedback.message, feedback.x, feedback.y);
+    }
+
+    const currentTime = Date.now();
+
+    // Update feedback texts (animate and remove expired)
+    for (let i = this.feedbackTexts.length - 1; i >= 0; i--) {
+      const text = this.feedbackTexts[i];
+      const elapsed = currentTime - text.createdAt;
+
+      if (elapsed >= text.duration) {
+        // Remove expired text
+        this.removeChild(text);
+        text.destroy();
+        this.feedbackTexts.splice(i, 1);
+      } else {
+        // Animate: float upward and fade
+        const progress = elapsed / text.duration;
+        text.y -= 0.5; // Float up
+        text.alpha = 1 - progress; // Fade out
+      }
+    }
+  }
+
+  /**
+   * Show visual feedback when a special block is activated
+   */
+  private showActivationFeedback(message: string, x: number, y: number): void {
+    const style = new TextStyle({
+      fontFamily: 'monospace',
+      fontSize: 8,
+      fill: 0xffffff,
+      stroke: { color: 0x000000, width: 2 },
+    });
+
+    const text = new Text({ text: message, style }) as FeedbackText;
+    text.anchor.set(0.5, 1);
+    text.x = x;
+    text.y = y - 10;
+
+    // Store for animation
+    text.createdAt = Date.now();
+    text.duration = 1500; // 1.5 seconds
+
+    this.feedbackTexts.push(text);
+    this.addChild(text);
+  }
+
+  override destroy(): void {
+    this.feedbackTexts = [];
+    super.destroy({ children: true });
+  }
+}
@@ -126,6 +126,59 @@ describe('Character System', () => {
       // Higher jump height means more negative initial velocity
       expect(highJumper.getVelocity().y).toBeLessThan(character.getVelocity().y);
     });
+
+    it('should jump on landing when jump was pressed just before', () => {
+      character.jump();
+      character.saveGroundState();
+      character.setOnGround(false);
+      character.update(0.016);
+
+      character.jump(); // Pressed in the air
+      character.update(0.05);
+      character.saveGroundState();
+      character.setOnGround(true);
+      character.applyBufferedJump();
+
+      expect(character.getState()).toBe(CharacterState.Jumping);
+    });
+
+    it('should forget an early jump press after the buffer window', () => {
+      const noAssist = new Character({
+        ...mockConfig,
+        jumpAssist: { bufferTime: 0.05, coyoteTime: 0 },
+      });
+      noAssist.setOnGround(false);
+
+      noAssist.jump();
+      noAssist.update(0.1);
+      noAssist.setOnGround(true);
+      noAssist.applyBufferedJump();
+
+      expect(noAssist.getState()).toBe(CharacterState.Idle);
+    });
+
+    it('should still jump shortly after walking off an edge, but only once', () => {
+      character.saveGroundState();
+      character.setOnGround(false);
+      character.update(0.05);
+
+      character.jump();
+      expect(character.getState()).toBe(CharacterState.Jumping);
+
+      const velocity = character.getVelocity().y;
+      character.jump();
+      expect(character.getVelocity().y).toBe(velocity);
+    });
+
+    it('should not jump once the coyote time has run out', () => {
+      character.saveGroundState();
+      character.setOnGround(false);
+      character.update(0.2);
+
+      const velocity = character.getVelocity().y;
+      character.jump();
+      expect(character.getVelocity().y).toBe(velocity);
+    });
   });
 
   describe('Character Attribute Differences', () => {
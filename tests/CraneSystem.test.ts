@@ -1,14 +1,17 @@
 /**
  * Tests for Crane System (Task Group 8.1)
  * Tests crane movement, crate drop timing,
- * and special block spawn rate (5-10%)
+ * special block spawn rate (5-10%) and per-level spawn tables
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
 import { Crane, CraneState } from '../src/entities/Crane';
 import { CraneManager } from '../src/systems/CraneManager';
-import { CrateType } from '../src/types/entities';
+import { CrateType, CrateColor } from '../src/types/entities';
+import type { SpawnTable } from '../src/types/config';
+import { createSpawnTable } from '../src/config/spawnTable';
 import { DEFAULT_GRID_CONFIG } from '../src/config/grid';
+import { SeededRandom } from '../src/utils/SeededRandom';
 
 describe('Crane System', () => {
   describe('Crane Movement', () => {
@@ -216,9 +219,14 @@ describe('Crane System', () => {
       expect(specialRate).toBeLessThanOrEqual(0.2);
     });
 
-    it('should randomly select special type from extra points, super jump, helmet', () => {
+    it('should randomly select special type from extra points, super jump, helmet, extra life', () => {
       const specialTypes: Set<CrateType> = new Set();
-      const expectedTypes = [CrateType.ExtraPoints, CrateType.SuperJump, CrateType.Helmet];
+      const expectedTypes = [
+        CrateType.ExtraPoints,
+        CrateType.SuperJump,
+        CrateType.Helmet,
+        CrateType.ExtraLife,
+      ];
 
       // Collect many drops to find special blocks
       for (let i = 0; i < 100000; i++) {
@@ -244,6 +252,104 @@ describe('Crane System', () => {
     });
   });
 
+  describe('Spawn Tables', () => {
+    const collectDrops = (table: SpawnTable, count: number) => {
+      const craneManager = new CraneManager({
+        gridConfig: DEFAULT_GRID_CONFIG,
+        craneTopY: 30,
+        random: new SeededRandom(77),
+      });
+      // One crane, so crates drop in the order they were picked
+      craneManager.initializeCranes(1);
+      craneManager.setSpawnInterval(50);
+      craneManager.setSpawnTable(table);
+
+      const drops: { crateType: CrateType; crateColor?: CrateColor }[] = [];
+      while (drops.length < count) {
+        drops.push(...craneManager.update(0.05));
+      }
+      return drops.slice(0, count);
+    };
+
+    it('should include every special type, including extra life, in the default table', () => {
+      const table = createSpawnTable(0.1, 0.02);
+
+      expect(table.types[CrateType.ExtraLife]).toBeGreaterThan(0);
+      expect(table.types[CrateType.Helmet]).toBeGreaterThan(table.types[CrateType.ExtraLife]!);
+      const total = Object.values(table.types).reduce((sum, weight) => sum + weight, 0);
+      expect(total).toBeCloseTo(1);
+    });
+
+    it('should only spawn types and colors with a weight', () => {
+      const drops = collectDrops(
+        {
+          types: { [CrateType.Regular]: 3, [CrateType.Bomb]: 1 },
+          colors: { [CrateColor.Red]: 1, [CrateColor.Blue]: 1 },
+        },
+        200
+      );
+
+      expect(drops.some((d) => d.crateType === CrateType.Bomb)).toBe(true);
+      for (const drop of drops) {
+        expect([CrateType.Regular, CrateType.Bomb]).toContain(drop.crateType);
+        if (drop.crateType === CrateType.Regular) {
+          expect([CrateColor.Red, CrateColor.Blue]).toContain(drop.crateColor);
+        } else {
+          expect(drop.crateColor).toBeUndefined();
+        }
+      }
+    });
+
+    it('should honour guarantees in every block of crates', () => {
+      const drops = collectDrops(
+        {
+          types: { [CrateType.Regular]: 1 },
+          guarantees: [{ type: CrateType.Helmet, count: 2, per: 10 }],
+        },
+        50
+      );
+
+      for (let block = 0; block < 5; block++) {
+        const helmets = drops
+          .slice(block * 10, block * 10 + 10)
+          .filter((d) => d.crateType === CrateType.Helmet);
+        expect(helmets).toHaveLength(2);
+      }
+    });
+  });
+
+  describe('Seeded Spawn Sequence', () => {
+    const collectDrops = (seed: number) => {
+      const craneManager = new CraneManager({
+        gridConfig: DEFAULT_GRID_CONFIG,
+        craneTopY: 30,
+        random: new SeededRandom(seed),
+      });
+      craneManager.initializeCranes(4);
+      craneManager.setSpawnInterval(100);
+
+      const drops: string[] = [];
+      for (let i = 0; i < 500; i++) {
+        for (const drop of craneManager.update(0.05)) {
+          drops.push(`${drop.craneId}:${drop.column}:${drop.crateType}:${drop.crateColor}`);
+        }
+      }
+      return drops;
+    };
+
+    it('should replay the exact same crate sequence for the same seed', () => {
+      const first = collectDrops(2024);
+      const second = collectDrops(2024);
+
+      expect(first.length).toBeGreaterThan(0);
+      expect(second).toEqual(first);
+    });
+
+    it('should produce a different crate sequence for a different seed', () => {
+      expect(collectDrops(1)).not.toEqual(collectDrops(2));
+    });
+  });
+
   describe('Crane Entity', () => {
     it('should track active state', () => {
       const crane = new Crane({
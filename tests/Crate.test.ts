@@ -355,4 +355,56 @@ describe('Crate System', () => {
       expect(crate.getGridColumn()).toBe(5);
     });
   });
+
+  describe('Crate Events', () => {
+    let crateManager: CrateManager;
+    let events: string[];
+
+    beforeEach(() => {
+      crateManager = new CrateManager({
+        gridColumns: 10,
+        gridRows: 15,
+        cellWidth: 20,
+        cellHeight: 16,
+        groundY: 280,
+      });
+      events = [];
+      for (const type of [
+        'crateReleased',
+        'crateLanded',
+        'cratesPushed',
+        'bombTick',
+        'bombExploded',
+      ] as const) {
+        crateManager.addListener(type, (event) => events.push(event.type));
+      }
+    });
+
+    it('should report released, landed and pushed crates', () => {
+      const crate = new Crate({
+        id: 'dropped',
+        column: 4,
+        type: CrateType.Regular,
+        fallSpeed: 100,
+      });
+      crateManager.addExistingCrate(crate);
+      crateManager.landCrate(crate, 0);
+      crateManager.pushCrates([crate], 1);
+
+      expect(events).toEqual(['crateReleased', 'crateLanded', 'cratesPushed']);
+    });
+
+    it('should tick once per second of the bomb fuse and then explode', () => {
+      const bomb = crateManager.spawnCrate(2, CrateType.Bomb, 100);
+      crateManager.landCrate(bomb, 0);
+
+      for (let i = 0; i < 310; i++) {
+        crateManager.update(1 / 60);
+      }
+      crateManager.checkAndProcessBombs();
+
+      expect(events.filter((type) => type === 'bombTick')).toHaveLength(4);
+      expect(events[events.length - 1]).toBe('bombExploded');
+    });
+  });
 });
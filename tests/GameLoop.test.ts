@@ -77,4 +77,27 @@ describe('GameLoop', () => {
     const fps = gameLoop.getFPS();
     expect(fps).toBe(60);
   });
+
+  it('should run fixed steps and clamp long frame stalls', () => {
+    const updateCallback = vi.fn();
+    gameLoop.addUpdateCallback(updateCallback);
+
+    const nowSpy = vi.spyOn(performance, 'now').mockReturnValue(1000);
+    gameLoop.start();
+    const tick = mockApp.ticker.add.mock.calls[0][0];
+
+    // 51ms frame runs 3 fixed steps of 1/60s
+    nowSpy.mockReturnValue(1051);
+    tick();
+    expect(updateCallback).toHaveBeenCalledTimes(3);
+    expect(updateCallback).toHaveBeenCalledWith(gameLoop.getFixedTimeStep());
+    expect(gameLoop.getTickCount()).toBe(3);
+
+    // A 10s stall is clamped to 250ms (15 steps) instead of 600 catch-up steps
+    nowSpy.mockReturnValue(11051);
+    tick();
+    expect(gameLoop.getTickCount()).toBeLessThanOrEqual(3 + 16);
+
+    nowSpy.mockRestore();
+  });
 });
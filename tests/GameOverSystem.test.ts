@@ -4,7 +4,8 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { ScoreManager } from '../src/systems/ScoreManager';
+import { ScoreManager, SCORE_VALUES } from '../src/systems/ScoreManager';
+import type { ScoreEvent } from '../src/systems/ScoreManager';
 import { CrateManager, CrateManagerConfig } from '../src/systems/CrateManager';
 import { SpecialBlockManager } from '../src/systems/SpecialBlockManager';
 import { CrateType } from '../src/types/entities';
@@ -157,6 +158,43 @@ describe('Game Over System', () => {
       expect(scoreManager.getScore()).toBe(0);
     });
 
+    it('should multiply clears by the chain depth', () => {
+      scoreManager.advanceChain();
+      scoreManager.addLineClearPoints(1); // +100
+      scoreManager.advanceChain();
+      scoreManager.addMatchPoints(50); // +100
+      scoreManager.advanceChain();
+      scoreManager.addLineClearPoints(2); // +750
+
+      expect(scoreManager.getChainDepth()).toBe(3);
+      expect(scoreManager.getScore()).toBe(950);
+
+      scoreManager.endChain();
+      scoreManager.advanceChain();
+      expect(scoreManager.getChainMultiplier()).toBe(1);
+    });
+
+    it('should emit chain events from the second clear of a cascade', () => {
+      const events: ScoreEvent[] = [];
+      scoreManager.on('chain', (event: ScoreEvent) => events.push(event));
+
+      scoreManager.advanceChain();
+      expect(events).toHaveLength(0);
+
+      scoreManager.advanceChain();
+      scoreManager.advanceChain();
+      expect(events.map((event) => event.details?.chainDepth)).toEqual([2, 3]);
+      expect(events[1].details?.multiplier).toBe(3);
+    });
+
+    it('should cap the chain multiplier', () => {
+      for (let i = 0; i < 20; i++) {
+        scoreManager.advanceChain();
+      }
+
+      expect(scoreManager.getChainMultiplier()).toBe(SCORE_VALUES.MAX_CHAIN_MULTIPLIER);
+    });
+
     it('should track highest level reached', () => {
       scoreManager.setHighestLevelReached(5);
       expect(scoreManager.getHighestLevelReached()).toBe(5);
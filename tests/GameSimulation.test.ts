@@ -0,0 +1,179 @@
+// @vitest-environment node
+/**
+ * Tests for the headless game simulation (runs without PixiJS or a DOM)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { GameSimulation, runSimulation } from '../src/systems/GameSimulation';
+import { getCharacterById } from '../src/config/characters';
+import { InputAction } from '../src/types/game';
+import type { InputState } from '../src/types/game';
+import { CrateType, CrateColor } from '../src/types/entities';
+import type { ScoreEvent } from '../src/systems/ScoreManager';
+
+const STEP = 1 / 60;
+
+function createInput(overrides: Partial<InputState> = {}): InputState {
+  return {
+    [InputAction.MoveLeft]: false,
+    [InputAction.MoveRight]: false,
+    [InputAction.Jump]: false,
+    [InputAction.Pause]: false,
+    [InputAction.Confirm]: false,
+    [InputAction.Back]: false,
+    ...overrides,
+  };
+}
+
+// Scripted input: walk back and forth and jump now and then
+function scriptedInput(tick: number): InputState {
+  const phase = Math.floor(tick / 90) % 4;
+  return createInput({
+    [InputAction.MoveLeft]: phase === 1,
+    [InputAction.MoveRight]: phase === 3,
+    [InputAction.Jump]: tick % 150 < 5,
+  });
+}
+
+describe('GameSimulation', () => {
+  it('should start a run with character, crates, cranes and level set up', () => {
+    const simulation = new GameSimulation();
+    simulation.start(getCharacterById(1)!, 2, 42);
+
+    expect(simulation.isRunning()).toBe(true);
+    expect(simulation.getSeed()).toBe(42);
+    expect(simulation.getLevelManager().getCurrentLevel()).toBe(2);
+    expect(simulation.getCharacter()).not.toBeNull();
+    expect(simulation.getCrateManager()!.getCrateCount()).toBe(0);
+    expect(simulation.getCraneManager()!.getCraneCount()).toBeGreaterThan(0);
+  });
+
+  it('should advance ticks and simulated time per step', () => {
+    const simulation = new GameSimulation();
+    simulation.start(getCharacterById(1)!, 1, 7);
+
+    for (let i = 0; i < 30; i++) {
+      simulation.step(createInput(), STEP);
+    }
+
+    expect(simulation.getTick()).toBe(30);
+    expect(simulation.getElapsedTime()).toBeCloseTo(500);
+  });
+
+  it('should drop crates from cranes into the grid', () => {
+    const simulation = new GameSimulation();
+    simulation.start(getCharacterById(1)!, 1, 99);
+
+    for (let i = 0; i < 60 * 10; i++) {
+      simulation.step(createInput(), STEP);
+    }
+
+    expect(simulation.getCrateManager()!.getCrateCount()).toBeGreaterThan(0);
+  });
+
+  it('should move the character with input', () => {
+    const simulation = new GameSimulation();
+    simulation.start(getCharacterById(1)!, 1, 1);
+    const startX = simulation.getCharacter()!.x;
+
+    for (let i = 0; i < 20; i++) {
+      simulation.step(createInput({ [InputAction.MoveRight]: true }), STEP);
+    }
+
+    expect(simulation.getCharacter()!.x).toBeGreaterThan(startX);
+  });
+
+  it('should score clears caused by falling crates as a chain', () => {
+    const simulation = new GameSimulation();
+    simulation.start(getCharacterById(1)!, 1, 3);
+    const crateManager = simulation.getCrateManager()!;
+    const scoreManager = simulation.getScoreManager();
+
+    // Clearing the green column drops the red crate into a red row
+    const place = (column: number, row: number, color: CrateColor) => {
+      crateManager.landCrate(crateManager.spawnCrate(column, CrateType.Regular, 1, color), row);
+    };
+    place(0, 0, CrateColor.Red);
+    place(1, 0, CrateColor.Red);
+    place(2, 0, CrateColor.Green);
+    place(2, 1, CrateColor.Green);
+    place(2, 2, CrateColor.Green);
+    place(2, 3, CrateColor.Red);
+
+    const chainDepths: number[] = [];
+    scoreManager.on('chain', (event: ScoreEvent) => {
+      chainDepths.push(event.details!.chainDepth!);
+    });
+
+    for (let i = 0; i < 5; i++) {
+      simulation.step(createInput(), STEP);
+    }
+
+    expect(chainDepths).toEqual([2]);
+    expect(scoreManager.getScore()).toBe(50 + 50 * 2);
+    expect(scoreManager.getChainDepth()).toBe(0);
+  });
+
+  it('should score a row clear and a match in the same pass as one chain step', () => {
+    const simulation = new GameSimulation();
+    simulation.start(getCharacterById(1)!, 1, 3);
+    const crateManager = simulation.getCrateManager()!;
+    const scoreManager = simulation.getScoreManager();
+
+    // A full bottom row (no three colors in a row) with a yellow column on top
+    const place = (column: number, row: number, color: CrateColor) => {
+      crateManager.landCrate(crateManager.spawnCrate(column, CrateType.Regular, 1, color), row);
+    };
+    const rowColors = [CrateColor.Red, CrateColor.Blue, CrateColor.Green, CrateColor.Yellow];
+    for (let column = 0; column < 12; column++) {
+      place(column, 0, rowColors[column % rowColors.length]);
+    }
+    place(5, 1, CrateColor.Yellow);
+    place(5, 2, CrateColor.Yellow);
+    place(5, 3, CrateColor.Yellow);
+
+    const chainDepths: number[] = [];
+    scoreManager.on('chain', (event: ScoreEvent) => {
+      chainDepths.push(event.details!.chainDepth!);
+    });
+
+    simulation.step(createInput(), STEP);
+
+    expect(scoreManager.getChainDepth()).toBe(1);
+    expect(chainDepths).toEqual([]);
+    expect(scoreManager.getScore()).toBe(100 + 50);
+  });
+
+  it('should not step before a run is started', () => {
+    const simulation = new GameSimulation();
+    simulation.step(createInput(), STEP);
+
+    expect(simulation.getTick()).toBe(0);
+    expect(simulation.isRunning()).toBe(false);
+  });
+});
+
+describe('runSimulation', () => {
+  it('should reproduce the same run for the same seed and input', () => {
+    const options = { seed: 2024, maxTicks: 60 * 60, getInput: scriptedInput };
+
+    const first = runSimulation(options);
+    const second = runSimulation(options);
+
+    expect(second).toEqual(first);
+    expect(first.ticks).toBeGreaterThan(0);
+  });
+
+  it('should play an idle run until game over', () => {
+    const result = runSimulation({ seed: 5, maxTicks: 60 * 60 * 30 });
+
+    expect(result.gameOver).toBe(true);
+    expect(result.ticks).toBeLessThan(60 * 60 * 30);
+    expect(result.seed).toBe(5);
+    expect(result.characterId).toBe(1);
+  });
+
+  it('should reject unknown characters', () => {
+    expect(() => runSimulation({ characterId: 999, maxTicks: 10 })).toThrow();
+  });
+});
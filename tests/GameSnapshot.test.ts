@@ -0,0 +1,219 @@
+// @vitest-environment node
+/**
+ * Tests for mid-game snapshots (save and resume)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { GameSimulation } from '../src/systems/GameSimulation';
+import {
+  serializeGameSnapshot,
+  parseGameSnapshot,
+  GAME_SNAPSHOT_VERSION,
+} from '../src/systems/GameSnapshot';
+import { Crate, CrateState } from '../src/entities/Crate';
+import { CrateType, CrateColor } from '../src/types/entities';
+import { getCharacterById } from '../src/config/characters';
+import { InputAction } from '../src/types/game';
+import type { InputState } from '../src/types/game';
+
+const STEP = 1 / 60;
+
+// Scripted input: walk back and forth and jump now and then
+function scriptedInput(tick: number): InputState {
+  const phase = Math.floor(tick / 90) % 4;
+  return {
+    [InputAction.MoveLeft]: phase === 1,
+    [InputAction.MoveRight]: phase === 3,
+    [InputAction.Jump]: tick % 150 < 5,
+    [InputAction.Pause]: false,
+    [InputAction.Confirm]: false,
+    [InputAction.Back]: false,
+  };
+}
+
+function runTicks(simulation: GameSimulation, ticks: number): void {
+  for (let i = 0; i < ticks && simulation.isRunning(); i++) {
+    simulation.step(scriptedInput(simulation.getTick()), STEP);
+  }
+}
+
+describe('Crate snapshot', () => {
+  it('should round-trip type, color, position and state', () => {
+    const crate = new Crate({
+      id: 'crate-7',
+      column: 4,
+      type: CrateType.Regular,
+      fallSpeed: 120,
+      color: CrateColor.Red,
+    });
+    crate.setPosition(100, 200);
+    crate.startFalling();
+
+    const restored = Crate.fromSnapshot(crate.getSnapshot());
+
+    expect(restored.getId()).toBe('crate-7');
+    expect(restored.getColor()).toBe(CrateColor.Red);
+    expect(restored.getState()).toBe(CrateState.Falling);
+    expect(restored.getGridColumn()).toBe(4);
+    expect(restored.getPosition()).toEqual({ x: 100, y: 200 });
+    expect(restored.getVelocity()).toEqual(crate.getVelocity());
+  });
+});
+
+describe('GameSimulation snapshots', () => {
+  it('should return null when no run is in progress', () => {
+    expect(new GameSimulation().createSnapshot()).toBeNull();
+  });
+
+  it('should capture grid, cranes, character, effects, score and level', () => {
+    const simulation = new GameSimulation();
+    simulation.start(getCharacterById(2)!, 3, 1234);
+    runTicks(simulation, 60 * 8);
+
+    const snapshot = simulation.createSnapshot()!;
+
+    expect(snapshot.version).toBe(GAME_SNAPSHOT_VERSION);
+    expect(snapshot.seed).toBe(1234);
+    expect(snapshot.tick).toBe(simulation.getTick());
+    expect(snapshot.character.characterId).toBe(2);
+    expect(snapshot.crates.crates.length).toBe(simulation.getCrateManager()!.getCrateCount());
+    expect(snapshot.cranes.cranes.length).toBe(simulation.getCraneManager()!.getCraneCount());
+    expect(snapshot.effects.extraLives).toBe(simulation.getSpecialBlockManager()!.getExtraLives());
+    expect(snapshot.score.score).toBe(simulation.getScoreManager().getScore());
+    expect(snapshot.level.currentLevel).toBe(3);
+  });
+
+  it('should resume a restored run exactly like the original', () => {
+    const original = new GameSimulation();
+    original.start(getCharacterById(1)!, 1, 777);
+    runTicks(original, 60 * 12);
+
+    const json = serializeGameSnapshot(original.createSnapshot()!);
+    const resumed = new GameSimulation();
+    expect(resumed.restoreSnapshot(parseGameSnapshot(json)!)).toBe(true);
+
+    runTicks(original, 60 * 20);
+    runTicks(resumed, 60 * 20);
+
+    expect(resumed.getTick()).toBe(original.getTick());
+    expect(resumed.isGameOver()).toBe(original.isGameOver());
+    expect(resumed.getScoreManager().getScore()).toBe(original.getScoreManager().getScore());
+    expect(resumed.getCharacter()!.getPosition()).toEqual(original.getCharacter()!.getPosition());
+    expect(resumed.getCrateManager()!.getSnapshot()).toEqual(
+      original.getCrateManager()!.getSnapshot()
+    );
+  });
+
+  it('should refuse snapshots with an unknown character', () => {
+    const simulation = new GameSimulation();
+    simulation.start(getCharacterById(1)!, 1, 5);
+    const snapshot = simulation.createSnapshot()!;
+    snapshot.character.characterId = 999;
+
+    expect(new GameSimulation().restoreSnapshot(snapshot)).toBe(false);
+  });
+});
+
+describe('parseGameSnapshot', () => {
+  it('should reject malformed JSON and unsupported versions', () => {
+    const simulation = new GameSimulation();
+    simulation.start(getCharacterById(1)!, 1, 5);
+    const snapshot = simulation.createSnapshot()!;
+
+    expect(parseGameSnapshot('not json')).toBeNull();
+    expect(parseGameSnapshot('{}')).toBeNull();
+    expect(parseGameSnapshot(JSON.stringify({ ...snapshot, version: 0 }))).toBeNull();
+  });
+
+  it('should reject snapshots without a game mode', () => {
+    const simulation = new GameSimulation();
+    simulation.start(getCharacterById(1)!, 1, 5);
+    const snapshot = simulation.createSnapshot()!;
+    const broken = { ...snapshot, level: { ...snapshot.level, mode: undefined } };
+
+    expect(parseGameSnapshot(JSON.stringify(broken))).toBeNull();
+  });
+
+  it('should reject snapshots without a chain depth', () => {
+    const simulation = new GameSimulation();
+    simulation.start(getCharacterById(1)!, 1, 5);
+    const snapshot = simulation.createSnapshot()!;
+
+    expect(parseGameSnapshot(JSON.stringify({ ...snapshot, chainDepth: undefined }))).toBeNull();
+  });
+
+  it('should reject snapshots with invalid crates', () => {
+    const simulation = new GameSimulation();
+    simulation.start(getCharacterById(1)!, 1, 5);
+    runTicks(simulation, 60 * 8);
+    const snapshot = simulation.createSnapshot()!;
+    const broken = {
+      ...snapshot,
+      crates: { ...snapshot.crates, crates: [{ id: 1, type: 'nope' }] },
+    };
+
+    expect(parseGameSnapshot(JSON.stringify(broken))).toBeNull();
+  });
+
+  it('should reject snapshots with an invalid character position or velocity', () => {
+    const simulation = new GameSimulation();
+    simulation.start(getCharacterById(1)!, 1, 5);
+    const snapshot = simulation.createSnapshot()!;
+    const withCharacter = (character: object) =>
+      JSON.stringify({ ...snapshot, character: { ...snapshot.character, ...character } });
+
+    expect(parseGameSnapshot(withCharacter({ x: '12' }))).toBeNull();
+    expect(parseGameSnapshot(withCharacter({ y: null }))).toBeNull();
+    expect(parseGameSnapshot(withCharacter({ velocity: null }))).toBeNull();
+    expect(parseGameSnapshot(withCharacter({ velocity: { x: 0 } }))).toBeNull();
+  });
+
+  it('should reject snapshots without the jump assist timers', () => {
+    const simulation = new GameSimulation();
+    simulation.start(getCharacterById(1)!, 1, 5);
+    const snapshot = simulation.createSnapshot()!;
+    const { jumpBufferTimer: _jumpBufferTimer, ...character } = snapshot.character;
+
+    expect(parseGameSnapshot(JSON.stringify({ ...snapshot, character }))).toBeNull();
+  });
+
+  it('should reject snapshots with an invalid crate velocity', () => {
+    const simulation = new GameSimulation();
+    simulation.start(getCharacterById(1)!, 1, 5);
+    runTicks(simulation, 60 * 8);
+    const snapshot = simulation.createSnapshot()!;
+    const [crate] = snapshot.crates.crates;
+    const broken = {
+      ...snapshot,
+      crates: { ...snapshot.crates, crates: [{ ...crate, velocity: { x: 0, y: 'fast' } }] },
+    };
+
+    expect(crate).toBeDefined();
+    expect(parseGameSnapshot(JSON.stringify(broken))).toBeNull();
+  });
+
+  it('should reject snapshots with invalid grid cells', () => {
+    const simulation = new GameSimulation();
+    simulation.start(getCharacterById(1)!, 1, 5);
+    const snapshot = simulation.createSnapshot()!;
+    const withGrid = (grid: unknown[]) =>
+      JSON.stringify({ ...snapshot, crates: { ...snapshot.crates, grid } });
+
+    expect(parseGameSnapshot(withGrid([...snapshot.crates.grid, 'row']))).toBeNull();
+    expect(parseGameSnapshot(withGrid([[null, 7]]))).toBeNull();
+    expect(parseGameSnapshot(withGrid([[null, { id: 'crate-1' }]]))).toBeNull();
+    expect(parseGameSnapshot(withGrid([[null, 'crate-1']]))).not.toBeNull();
+  });
+
+  it('should reject snapshots with invalid level progress', () => {
+    const simulation = new GameSimulation();
+    simulation.start(getCharacterById(1)!, 1, 5);
+    const snapshot = simulation.createSnapshot()!;
+    const withLevel = (level: object) =>
+      JSON.stringify({ ...snapshot, level: { ...snapshot.level, ...level } });
+
+    expect(parseGameSnapshot(withLevel({ linesCleared: '3' }))).toBeNull();
+    expect(parseGameSnapshot(withLevel({ isComplete: undefined }))).toBeNull();
+    expect(parseGameSnapshot(withLevel({ mode: 'tournament' }))).toBeNull();
+  });
+});
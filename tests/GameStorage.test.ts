@@ -0,0 +1,342 @@
+/**
+ * Tests for game storage: backends, schema versions and the cookie migration
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GameStorage, STORAGE_SCHEMA_VERSION, MAX_PROFILES } from '../src/systems/GameStorage';
+import { GameSimulation } from '../src/systems/GameSimulation';
+import { getCharacterById } from '../src/config/characters';
+import { LocalStorageBackend, MemoryStorageBackend } from '../src/utils/StorageBackend';
+import { getCookie, setCookie, deleteCookie } from '../src/utils/CookieStorage';
+import { ColorPalette } from '../src/systems/LCDEffect';
+import { GameMode, InputAction } from '../src/types/game';
+import { DEFAULT_KEY_MAPPING } from '../src/systems/KeyboardInput';
+import type { KeyMapping } from '../src/systems/KeyboardInput';
+import { DEFAULT_GESTURE_THRESHOLDS, GESTURE_THRESHOLD_RANGES } from '../src/config/gestures';
+
+const LEGACY_SCORES = [{ score: 900, level: 3, date: '2024-01-01T00:00:00.000Z' }];
+
+function setLegacyCookies(): void {
+  setCookie('stackattack_highscores', LEGACY_SCORES);
+  setCookie('stackattack_settings', { palette: ColorPalette.Amber, selectedCharacterId: 2 });
+  setCookie('stackattack_progress', { unlockedCharacterIds: [4] });
+}
+
+describe('GameStorage', () => {
+  beforeEach(async () => {
+    window.localStorage.clear();
+    for (const name of ['stackattack_highscores', 'stackattack_settings', 'stackattack_progress']) {
+      deleteCookie(name);
+    }
+    await GameStorage.initialize(new MemoryStorageBackend());
+  });
+
+  it('should import the legacy cookies once and delete them', async () => {
+    setLegacyCookies();
+    const backend = new LocalStorageBackend();
+
+    await GameStorage.initialize(backend);
+
+    expect(GameStorage.getHighScores()).toEqual(LEGACY_SCORES);
+    expect(GameStorage.getPalette()).toBe(ColorPalette.Amber);
+    expect(GameStorage.getSelectedCharacterId()).toBe(2);
+    expect(GameStorage.getUnlockProgress().unlockedCharacterIds).toContain(4);
+    expect(getCookie('stackattack_highscores', null)).toBeNull();
+
+    const stored = JSON.parse((await backend.getItem('stackattack_data'))!);
+    expect(stored.schemaVersion).toBe(STORAGE_SCHEMA_VERSION);
+
+    // Cookies written later (e.g. by an old tab) are not imported again
+    setCookie('stackattack_highscores', [{ score: 5000, level: 9, date: '2024-02-01' }]);
+    await GameStorage.initialize(backend);
+    expect(GameStorage.getBestScore()).toBe(900);
+  });
+
+  it('should keep the legacy cookies when storage does not persist', async () => {
+    setLegacyCookies();
+
+    await GameStorage.initialize(new MemoryStorageBackend());
+
+    expect(GameStorage.isAvailable()).toBe(false);
+    expect(GameStorage.getBestScore()).toBe(900);
+    expect(getCookie('stackattack_highscores', null)).toEqual(LEGACY_SCORES);
+  });
+
+  it('should restore data written through the backend', async () => {
+    const backend = new MemoryStorageBackend();
+    await GameStorage.initialize(backend);
+
+    GameStorage.addHighScore(1500, 4, 12, GameMode.Endless);
+    GameStorage.savePalette(ColorPalette.Amber);
+
+    await GameStorage.initialize(backend);
+    expect(GameStorage.getBestScore(GameMode.Endless)).toBe(1500);
+    expect(GameStorage.getBestScore(GameMode.Classic)).toBe(0);
+    expect(GameStorage.getPalette()).toBe(ColorPalette.Amber);
+  });
+
+  it('should drop malformed high score entries and profiles', async () => {
+    const backend = new MemoryStorageBackend();
+    await backend.setItem(
+      'stackattack_data',
+      JSON.stringify({
+        schemaVersion: STORAGE_SCHEMA_VERSION,
+        activeProfileId: 7,
+        profiles: [
+          {
+            id: 7,
+            name: 'ALEX',
+            highScores: { classic: [...LEGACY_SCORES, { score: 'lots' }], endless: 'none' },
+          },
+          { id: 'x', name: 'BROKEN' },
+        ],
+      })
+    );
+
+    await GameStorage.initialize(backend);
+
+    expect(GameStorage.getProfiles()).toEqual([{ id: 7, name: 'ALEX', bestScore: 0 }]);
+    expect(GameStorage.getHighScores()).toEqual(LEGACY_SCORES);
+    expect(GameStorage.getHighScores(GameMode.Endless)).toEqual([]);
+  });
+
+  it('should not overwrite data from a newer schema version', async () => {
+    const backend = new MemoryStorageBackend();
+    const newer = JSON.stringify({ schemaVersion: STORAGE_SCHEMA_VERSION + 1, scores: [] });
+    await backend.setItem('stackattack_data', newer);
+
+    await GameStorage.initialize(backend);
+    GameStorage.addHighScore(700, 2);
+
+    expect(GameStorage.getBestScore()).toBe(700);
+    expect(await backend.getItem('stackattack_data')).toBe(newer);
+  });
+});
+
+describe('GameStorage audio settings', () => {
+  beforeEach(async () => {
+    await GameStorage.initialize(new MemoryStorageBackend());
+  });
+
+  it('should default to full master and effects volume with music at half', () => {
+    expect(GameStorage.getAudioSettings()).toEqual({
+      masterVolume: 1,
+      musicVolume: 0.5,
+      sfxVolume: 1,
+      muteWhenHidden: true,
+    });
+  });
+
+  it('should persist mixer changes and clamp bad stored volumes', async () => {
+    const backend = new MemoryStorageBackend();
+    await GameStorage.initialize(backend);
+
+    GameStorage.saveSettings({ musicVolume: 0.2, muteWhenHidden: false });
+    GameStorage.saveSettings({ sfxVolume: 7, masterVolume: 'loud' as unknown as number });
+    await GameStorage.initialize(backend);
+
+    expect(GameStorage.getAudioSettings()).toEqual({
+      masterVolume: 1,
+      musicVolume: 0.2,
+      sfxVolume: 1,
+      muteWhenHidden: false,
+    });
+  });
+});
+
+describe('GameStorage key bindings', () => {
+  it('should default to the built-in keys and restore saved bindings', async () => {
+    const backend = new MemoryStorageBackend();
+    await GameStorage.initialize(backend);
+    expect(GameStorage.getKeyMapping()).toEqual(DEFAULT_KEY_MAPPING);
+
+    GameStorage.saveKeyMapping({ z: InputAction.Jump, Q: InputAction.MoveLeft });
+    await GameStorage.initialize(backend);
+
+    expect(GameStorage.getKeyMapping()).toEqual({ z: InputAction.Jump, q: InputAction.MoveLeft });
+  });
+
+  it('should drop bindings to unknown actions', () => {
+    GameStorage.saveSettings({
+      keyMapping: { x: 'fly', k: InputAction.Pause } as unknown as KeyMapping,
+    });
+    expect(GameStorage.getKeyMapping()).toEqual({ k: InputAction.Pause });
+
+    GameStorage.saveSettings({ keyMapping: { x: 'fly' } as unknown as KeyMapping });
+    expect(GameStorage.getKeyMapping()).toEqual(DEFAULT_KEY_MAPPING);
+  });
+});
+
+describe('GameStorage gesture thresholds', () => {
+  it('should keep calibrated thresholds per profile, clamped to their ranges', async () => {
+    await GameStorage.initialize(new MemoryStorageBackend());
+    expect(GameStorage.getGestureThresholds()).toEqual(DEFAULT_GESTURE_THRESHOLDS);
+
+    GameStorage.saveGestureThresholds({
+      ...DEFAULT_GESTURE_THRESHOLDS,
+      minDistance: 45,
+      maxDuration: 5000,
+    });
+    expect(GameStorage.getGestureThresholds()).toEqual({
+      ...DEFAULT_GESTURE_THRESHOLDS,
+      minDistance: 45,
+      maxDuration: GESTURE_THRESHOLD_RANGES.maxDuration.max,
+    });
+
+    GameStorage.switchProfile(GameStorage.createProfile('KIM')!);
+    expect(GameStorage.getGestureThresholds()).toEqual(DEFAULT_GESTURE_THRESHOLDS);
+  });
+});
+
+describe('GameStorage crate glyphs', () => {
+  it('should keep the colorblind glyphs option per profile, off by default', async () => {
+    const backend = new MemoryStorageBackend();
+    await GameStorage.initialize(backend);
+    expect(GameStorage.getCrateGlyphs()).toBe(false);
+
+    GameStorage.saveCrateGlyphs(true);
+    await GameStorage.initialize(backend);
+    expect(GameStorage.getCrateGlyphs()).toBe(true);
+
+    GameStorage.switchProfile(GameStorage.createProfile('KIM')!);
+    expect(GameStorage.getCrateGlyphs()).toBe(false);
+  });
+});
+
+describe('GameStorage save transfer', () => {
+  beforeEach(async () => {
+    await GameStorage.initialize(new MemoryStorageBackend());
+  });
+
+  it('should merge imported high scores, unlocks and stats', () => {
+    GameStorage.addHighScore(900, 3);
+    GameStorage.saveUnlockProgress({
+      unlockedCharacterIds: [1, 2, 3, 4],
+      highestLevelByCharacter: { 1: 5, 2: 1 },
+      bestScore: 900,
+    });
+    const exported = GameStorage.getTransferData();
+
+    GameStorage.importTransferData({
+      highScores: {
+        classic: [...exported.highScores.classic, { score: 2500, level: 4, date: '2024-05-01' }],
+        endless: [{ score: 300, level: 1, date: '2024-05-02' }],
+      },
+      settings: { palette: ColorPalette.Amber, selectedCharacterId: 5 },
+      unlockProgress: {
+        unlockedCharacterIds: [1, 2, 3, 5],
+        highestLevelByCharacter: { 1: 2, 5: 3 },
+        bestScore: 2500,
+      },
+    });
+
+    expect(GameStorage.getHighScores().map((entry) => entry.score)).toEqual([2500, 900]);
+    expect(GameStorage.getBestScore(GameMode.Endless)).toBe(300);
+    expect(GameStorage.getPalette()).toBe(ColorPalette.Amber);
+    expect(GameStorage.getUnlockProgress()).toEqual({
+      unlockedCharacterIds: [1, 2, 3, 4, 5],
+      highestLevelByCharacter: { 1: 5, 2: 1, 5: 3 },
+      bestScore: 2500,
+    });
+  });
+
+  it('should keep device settings when importing and leave them out of exports', () => {
+    const keyMapping: KeyMapping = { ...DEFAULT_KEY_MAPPING, q: InputAction.Jump };
+    const thresholds = { ...GameStorage.getGestureThresholds(), minDistance: 55 };
+    GameStorage.saveKeyMapping(keyMapping);
+    GameStorage.saveGestureThresholds(thresholds);
+    GameStorage.saveSettings({ masterVolume: 0.3, muteWhenHidden: false });
+    const exported = GameStorage.getTransferData();
+
+    expect(exported.settings.keyMapping).toBeUndefined();
+    expect(exported.settings.masterVolume).toBeUndefined();
+
+    GameStorage.importTransferData({
+      ...exported,
+      settings: {
+        palette: ColorPalette.Amber,
+        selectedCharacterId: 2,
+        crateGlyphs: true,
+        keyMapping: { z: InputAction.Jump },
+        gestureThresholds: { ...thresholds, minDistance: 80 },
+        masterVolume: 1,
+        muteWhenHidden: true,
+      },
+    });
+
+    expect(GameStorage.getPalette()).toBe(ColorPalette.Amber);
+    expect(GameStorage.getCrateGlyphs()).toBe(true);
+    expect(GameStorage.getKeyMapping()).toEqual(keyMapping);
+    expect(GameStorage.getGestureThresholds()).toEqual(thresholds);
+    expect(GameStorage.getAudioSettings()).toMatchObject({
+      masterVolume: 0.3,
+      muteWhenHidden: false,
+    });
+  });
+});
+
+describe('GameStorage profiles', () => {
+  beforeEach(async () => {
+    await GameStorage.initialize(new MemoryStorageBackend());
+  });
+
+  it('should move data from before profiles into the first profile', async () => {
+    const backend = new MemoryStorageBackend();
+    await backend.setItem(
+      'stackattack_data',
+      JSON.stringify({ schemaVersion: 1, highScores: { classic: LEGACY_SCORES } })
+    );
+    await backend.setItem('stackattack_savedgame', 'run in progress');
+
+    await GameStorage.initialize(backend);
+
+    expect(GameStorage.getProfiles()).toEqual([{ id: 1, name: 'PLAYER 1', bestScore: 0 }]);
+    expect(GameStorage.getHighScores()).toEqual(LEGACY_SCORES);
+    expect(await backend.getItem('stackattack_savedgame_1')).toBe('run in progress');
+    expect(await backend.getItem('stackattack_savedgame')).toBeNull();
+  });
+
+  it('should keep scores, settings, unlocks and saved runs apart', () => {
+    const simulation = new GameSimulation();
+    simulation.start(getCharacterById(1)!, 1, 42);
+    GameStorage.addHighScore(800, 2);
+    GameStorage.savePalette(ColorPalette.Amber);
+    GameStorage.saveGame(simulation.createSnapshot()!);
+
+    const otherId = GameStorage.createProfile('  kim  ')!;
+    GameStorage.switchProfile(otherId);
+
+    expect(GameStorage.getActiveProfile().name).toBe('KIM');
+    expect(GameStorage.getHighScores()).toEqual([]);
+    expect(GameStorage.getPalette()).toBe(ColorPalette.Blue);
+    expect(GameStorage.hasSavedGame()).toBe(false);
+
+    GameStorage.switchProfile(1);
+    expect(GameStorage.getBestScore()).toBe(800);
+    expect(GameStorage.getPalette()).toBe(ColorPalette.Amber);
+    expect(GameStorage.hasSavedGame()).toBe(true);
+  });
+
+  it('should reject empty, long and duplicate names and limit the profile count', () => {
+    expect(GameStorage.createProfile('   ')).toBeNull();
+    expect(GameStorage.createProfile('ABCDEFGHIJK')).toBeNull();
+    expect(GameStorage.createProfile('player 1')).toBeNull();
+    expect(GameStorage.renameProfile(1, '')).toBe(false);
+
+    for (let i = 2; i <= MAX_PROFILES; i++) {
+      expect(GameStorage.createProfile(`P${i}`)).toBe(i);
+    }
+    expect(GameStorage.createProfile('ONE MORE')).toBeNull();
+  });
+
+  it('should not delete the last profile and switch away from a deleted one', () => {
+    expect(GameStorage.deleteProfile(1)).toBe(false);
+
+    const otherId = GameStorage.createProfile('SAM')!;
+    GameStorage.switchProfile(otherId);
+
+    expect(GameStorage.deleteProfile(otherId)).toBe(true);
+    expect(GameStorage.getActiveProfile().id).toBe(1);
+    expect(GameStorage.getProfiles().map((profile) => profile.name)).toEqual(['PLAYER 1']);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Tests for the LCD ghosting filter and its saved settings
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Container } from 'pixi.js';
+import type { Application } from 'pixi.js';
+import { LCDGhosting } from '../src/systems/LCDGhosting';
+import {
+  DEFAULT_GHOSTING_SETTINGS,
+  MIN_GHOSTING_INTENSITY,
+  getGhostingDecay,
+  readGhostingSettings,
+} from '../src/config/ghosting';
+import { GameStorage } from '../src/systems/GameStorage';
+import { MemoryStorageBackend } from '../src/utils/StorageBackend';
+
+describe('Ghosting settings', () => {
+  it('should fall back to the defaults and clamp the intensity', () => {
+    expect(readGhostingSettings('broken')).toEqual(DEFAULT_GHOSTING_SETTINGS);
+    expect(readGhostingSettings({ enabled: 'yes', intensity: 0 })).toEqual({
+      enabled: false,
+      intensity: MIN_GHOSTING_INTENSITY,
+    });
+    expect(readGhostingSettings({ enabled: true, intensity: 3 })).toEqual({
+      enabled: true,
+      intensity: 1,
+    });
+  });
+
+  it('should save the settings per profile', async () => {
+    const backend = new MemoryStorageBackend();
+    await GameStorage.initialize(backend);
+    expect(GameStorage.getGhostingSettings()).toEqual(DEFAULT_GHOSTING_SETTINGS);
+
+    GameStorage.saveGhostingSettings({ enabled: true, intensity: 0.8 });
+    await GameStorage.initialize(backend);
+    expect(GameStorage.getGhostingSettings()).toEqual({ enabled: true, intensity: 0.8 });
+
+    GameStorage.switchProfile(GameStorage.createProfile('KIM')!);
+    expect(GameStorage.getGhostingSettings()).toEqual(DEFAULT_GHOSTING_SETTINGS);
+  });
+});
+
+describe('LCDGhosting', () => {
+  let render: ReturnType<typeof vi.fn>;
+  let ticker: { add: ReturnType<typeof vi.fn>; remove: ReturnType<typeof vi.fn>; deltaMS: number };
+  let source: Container;
+  let ghosting: LCDGhosting;
+
+  beforeEach(() => {
+    render = vi.fn();
+    ticker = { add: vi.fn(), remove: vi.fn(), deltaMS: 1000 / 60 };
+    const app = { renderer: { resolution: 3, render }, ticker } as unknown as Application;
+    source = new Container();
+    ghosting = new LCDGhosting(app, source, 224, 320);
+  });
+
+  it('should leave the screen alone while off', () => {
+    ghosting.update();
+
+    expect(render).not.toHaveBeenCalled();
+    expect(ghosting.getView().visible).toBe(false);
+    expect(source.renderable).toBe(true);
+  });
+
+  it('should blend the previous frame over the new one', () => {
+    ghosting.setSettings({ enabled: true, intensity: 0.5 });
+    ghosting.update();
+    expect(render).toHaveBeenCalledTimes(1);
+    expect(render.mock.calls[0][0]).toMatchObject({ container: source, clear: true });
+
+    ghosting.update();
+    expect(render).toHaveBeenCalledTimes(3);
+    const history = render.mock.calls[2][0];
+    expect(history.clear).toBe(false);
+    expect(history.container.alpha).toBeCloseTo(getGhostingDecay(0.5));
+    expect(history.container.texture).not.toBe(history.target);
+  });
+
+  it('should hide the source for the frame only', () => {
+    ghosting.setSettings({ enabled: true, intensity: 0.5 });
+    ghosting.update();
+    expect(ghosting.getView().visible).toBe(true);
+    expect(source.renderable).toBe(false);
+
+    // Shown again after the stage renders, so it takes pointer events
+    const [showSource, context] = ticker.add.mock.calls[0];
+    showSource.call(context);
+    expect(source.renderable).toBe(true);
+
+    ghosting.update();
+    ghosting.setSettings({ enabled: false, intensity: 0.5 });
+    expect(source.renderable).toBe(true);
+    expect(ghosting.getView().visible).toBe(false);
+  });
+});
@@ -4,6 +4,14 @@
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { InputManager } from '../src/systems/InputManager';
+import { GamepadInput, applyStickDeadzone, GamepadButton } from '../src/systems/GamepadInput';
+import {
+  DEFAULT_KEY_MAPPING,
+  MAX_KEYS_PER_ACTION,
+  bindKey,
+  clearKeys,
+  getKeysForAction,
+} from '../src/systems/KeyboardInput';
 import { InputAction } from '../src/types/game';
 
 describe('InputManager', () => {
@@ -143,3 +151,243 @@ describe('InputManager', () => {
     });
   });
 });
+
+describe('Key Rebinding', () => {
+  it('should use rebound keys and match letters with or without Shift', () => {
+    const inputManager = new InputManager();
+    inputManager.initialize();
+    const result = clearKeys(
+      bindKey(DEFAULT_KEY_MAPPING, 'Q', InputAction.MoveLeft).mapping!,
+      InputAction.MoveLeft
+    );
+    inputManager.getKeyboardInput().setKeyMapping(result.mapping!);
+
+    window.dispatchEvent(new KeyboardEvent('keydown', { key: 'a' }));
+    expect(inputManager.isActionActive(InputAction.MoveLeft)).toBe(false);
+
+    window.dispatchEvent(new KeyboardEvent('keydown', { key: 'q' }));
+    expect(inputManager.isActionActive(InputAction.MoveLeft)).toBe(true);
+    window.dispatchEvent(new KeyboardEvent('keyup', { key: 'Q' }));
+    expect(inputManager.isActionActive(InputAction.MoveLeft)).toBe(false);
+
+    inputManager.destroy();
+  });
+
+  it('should refuse keys bound to another action', () => {
+    const result = bindKey(DEFAULT_KEY_MAPPING, 'W', InputAction.MoveLeft);
+
+    expect(result.mapping).toBeNull();
+    expect(result.error).toBe('W is already used');
+  });
+
+  it('should allow binding a key the action already has', () => {
+    const result = bindKey(DEFAULT_KEY_MAPPING, 'A', InputAction.MoveLeft);
+
+    expect(result.error).toBeNull();
+    expect(getKeysForAction(result.mapping!, InputAction.MoveLeft)).toEqual(['ArrowLeft', 'a']);
+  });
+
+  it('should keep at most a few keys per action, dropping the first', () => {
+    let mapping = { ...DEFAULT_KEY_MAPPING };
+    for (const key of ['z', 'x', 'c']) {
+      mapping = bindKey(mapping, key, InputAction.Jump).mapping!;
+    }
+
+    expect(getKeysForAction(mapping, InputAction.Jump)).toHaveLength(MAX_KEYS_PER_ACTION);
+    expect(getKeysForAction(mapping, InputAction.Jump)).toEqual(['z', 'x', 'c']);
+  });
+
+  it('should clear all but the newest key of an action', () => {
+    const result = clearKeys(DEFAULT_KEY_MAPPING, InputAction.Jump);
+
+    expect(result.error).toBeNull();
+    expect(getKeysForAction(result.mapping!, InputAction.Jump)).toEqual([' ']);
+    expect(getKeysForAction(result.mapping!, InputAction.MoveLeft)).toEqual(['ArrowLeft', 'a']);
+  });
+
+  it('should refuse to clear the last key of an action', () => {
+    const cleared = clearKeys(DEFAULT_KEY_MAPPING, InputAction.Pause).mapping!;
+    const result = clearKeys(cleared, InputAction.Pause);
+
+    expect(result.mapping).toBeNull();
+    expect(result.error).toBe('Every action needs a key');
+    expect(getKeysForAction(cleared, InputAction.Pause)).toEqual(['p']);
+  });
+});
+
+describe('Touch Gestures', () => {
+  let inputManager: InputManager;
+  let now: number;
+
+  // Send a touch event for one finger to the window
+  const touch = (type: string, id: number, x: number, y: number) => {
+    const event = new Event(type, { cancelable: true });
+    Object.assign(event, { changedTouches: [{ identifier: id, clientX: x, clientY: y }] });
+    window.dispatchEvent(event);
+  };
+
+  beforeEach(() => {
+    now = 1000;
+    vi.spyOn(performance, 'now').mockImplementation(() => now);
+    inputManager = new InputManager();
+    inputManager.initialize();
+  });
+
+  afterEach(() => {
+    inputManager.destroy();
+    vi.restoreAllMocks();
+  });
+
+  it('should hold a move while a finger is dragged sideways', () => {
+    touch('touchstart', 1, 200, 300);
+    touch('touchmove', 1, 180, 300);
+    expect(inputManager.isActionActive(InputAction.MoveLeft)).toBe(false);
+
+    touch('touchmove', 1, 160, 305);
+    now += 1000;
+    expect(inputManager.isActionActive(InputAction.MoveLeft)).toBe(true);
+
+    // Dragging past the start switches direction, lifting the finger releases it
+    touch('touchmove', 1, 240, 300);
+    expect(inputManager.isActionActive(InputAction.MoveLeft)).toBe(false);
+    expect(inputManager.isActionActive(InputAction.MoveRight)).toBe(true);
+    touch('touchend', 1, 240, 300);
+    expect(inputManager.isActionActive(InputAction.MoveRight)).toBe(false);
+  });
+
+  it('should jump on a two-finger tap', () => {
+    const gestures = vi.fn();
+    inputManager.onGesture(gestures);
+
+    touch('touchstart', 1, 100, 300);
+    now += 40;
+    touch('touchstart', 2, 200, 300);
+    now += 80;
+    touch('touchend', 1, 102, 301);
+    touch('touchend', 2, 200, 300);
+
+    expect(inputManager.isActionActive(InputAction.Jump)).toBe(true);
+    expect(gestures).toHaveBeenCalledTimes(1);
+    expect(gestures).toHaveBeenCalledWith({ type: 'twoFingerTap' });
+  });
+
+  it('should use the calibrated thresholds and only report gestures when actions are off', () => {
+    const gestures = vi.fn();
+    inputManager.onGesture(gestures);
+    inputManager.setSwipeActionsEnabled(false);
+    inputManager.getGestureRecognizer().setThresholds({ minDistance: 60, dragDistance: 80 });
+
+    touch('touchstart', 1, 100, 300);
+    touch('touchmove', 1, 150, 300);
+    now += 100;
+    touch('touchend', 1, 150, 300);
+    expect(gestures).not.toHaveBeenCalled();
+
+    touch('touchstart', 2, 100, 300);
+    touch('touchmove', 2, 190, 300);
+    now += 100;
+    touch('touchend', 2, 190, 300);
+
+    expect(gestures.mock.calls).toEqual([
+      [{ type: 'drag', direction: 'right' }],
+      [{ type: 'swipe', direction: 'right' }],
+    ]);
+    expect(inputManager.isActionActive(InputAction.MoveRight)).toBe(false);
+  });
+});
+
+describe('GamepadInput', () => {
+  let pads: (Gamepad | null)[];
+  let gamepadInput: GamepadInput;
+
+  const createPad = (pressed: number[] = [], axes: number[] = [0, 0]): Gamepad =>
+    ({
+      index: 0,
+      connected: true,
+      axes,
+      buttons: Array.from({ length: 17 }, (_, index) => ({ pressed: pressed.includes(index) })),
+    }) as unknown as Gamepad;
+
+  beforeEach(() => {
+    pads = [];
+    gamepadInput = new GamepadInput(() => pads);
+    gamepadInput.initialize();
+  });
+
+  afterEach(() => {
+    gamepadInput.destroy();
+  });
+
+  it('should ignore stick movement inside the deadzone and rescale outside it', () => {
+    expect(applyStickDeadzone(0.2, -0.1)).toEqual({ x: 0, y: 0 });
+    expect(applyStickDeadzone(1, 0).x).toBeCloseTo(1);
+    expect(applyStickDeadzone(0.625, 0).x).toBeCloseTo(0.5);
+  });
+
+  it('should map the d-pad and face buttons and report only changes', () => {
+    const listener = vi.fn();
+    gamepadInput.addListener(listener);
+
+    pads = [createPad([GamepadButton.DpadLeft, GamepadButton.A])];
+    gamepadInput.poll();
+    gamepadInput.poll();
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(gamepadInput.isActionActive(InputAction.MoveLeft)).toBe(true);
+    expect(gamepadInput.isActionActive(InputAction.Jump)).toBe(true);
+
+    pads = [createPad([GamepadButton.Start])];
+    gamepadInput.poll();
+
+    expect(listener).toHaveBeenCalledWith(InputAction.MoveLeft, false);
+    expect(listener).toHaveBeenCalledWith(InputAction.Pause, true);
+  });
+
+  it('should move with the left stick only past the deadzone', () => {
+    pads = [createPad([], [0.3, 0])];
+    gamepadInput.poll();
+    expect(gamepadInput.isActionActive(InputAction.MoveRight)).toBe(false);
+
+    pads = [createPad([], [0.9, -0.9])];
+    gamepadInput.poll();
+    expect(gamepadInput.isActionActive(InputAction.MoveRight)).toBe(true);
+    expect(gamepadInput.isActionActive(InputAction.Jump)).toBe(true);
+  });
+
+  it('should report connections and release held actions on disconnect', () => {
+    const connections = vi.fn();
+    gamepadInput.onConnectionChange(connections);
+    const gamepadEvent = (type: string) =>
+      Object.assign(new Event(type), { gamepad: { index: 1 } });
+
+    pads = [null, createPad([GamepadButton.DpadRight])];
+    window.dispatchEvent(gamepadEvent('gamepadconnected'));
+    gamepadInput.poll();
+    expect(gamepadInput.hasGamepad()).toBe(true);
+
+    pads = [null, null];
+    window.dispatchEvent(gamepadEvent('gamepaddisconnected'));
+
+    expect(connections.mock.calls).toEqual([
+      [1, true],
+      [1, false],
+    ]);
+    expect(gamepadInput.isActionActive(InputAction.MoveRight)).toBe(false);
+  });
+
+  it('should feed gamepad actions into the input manager on update', () => {
+    const inputManager = new InputManager();
+    inputManager.initialize();
+    // jsdom has no Gamepad API
+    Object.defineProperty(navigator, 'getGamepads', {
+      value: () => [createPad([GamepadButton.DpadRight])],
+      configurable: true,
+    });
+
+    inputManager.update();
+
+    expect(inputManager.isActionActive(InputAction.MoveRight)).toBe(true);
+    inputManager.destroy();
+    delete (navigator as { getGamepads?: unknown }).getGamepads;
+  });
+});
@@ -13,6 +13,7 @@ import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { ScoreManager } from '../src/systems/ScoreManager';
 import { LevelManager } from '../src/systems/LevelManager';
 import { CharacterUnlockManager } from '../src/systems/CharacterUnlockManager';
+import { GameStorage } from '../src/systems/GameStorage';
 import { SpecialBlockManager } from '../src/systems/SpecialBlockManager';
 import { GameStateMachine } from '../src/systems/GameStateMachine';
 import { CrateManager } from '../src/systems/CrateManager';
@@ -159,6 +160,68 @@ describe('Character Unlock Progression', () => {
   });
 });
 
+describe('Unlock Progress Across Sessions', () => {
+  afterEach(() => {
+    GameStorage.clearUnlockProgress();
+  });
+
+  it('should record the highest level per character and the best score', () => {
+    const unlockManager = new CharacterUnlockManager();
+
+    unlockManager.recordRun(2, 4, 1200);
+    unlockManager.recordRun(2, 2, 5400);
+    unlockManager.recordRun(1, 1, 300);
+
+    expect(unlockManager.getHighestLevel(2)).toBe(4);
+    expect(unlockManager.getHighestLevel(1)).toBe(1);
+    expect(unlockManager.getBestScore()).toBe(5400);
+    expect(unlockManager.getUnlockedCharacterIds()).toEqual([1, 2, 3, 5]);
+  });
+
+  it('should restore saved unlocks and progress in a new session', () => {
+    const earlier = new CharacterUnlockManager();
+    earlier.recordRun(1, 5, 800);
+    GameStorage.saveUnlockProgress(earlier.getProgress());
+
+    const later = new CharacterUnlockManager();
+    later.restoreProgress(GameStorage.getUnlockProgress());
+
+    expect(later.getUnlockedCharacterIds()).toEqual([1, 2, 3, 4]);
+    expect(later.getHighestLevel(1)).toBe(5);
+    expect(later.getBestScore()).toBe(800);
+  });
+
+  it('should not notify again for unlocks restored from a save', () => {
+    const unlockManager = new CharacterUnlockManager();
+    const onUnlock = vi.fn();
+    unlockManager.on('characterUnlocked', onUnlock);
+
+    unlockManager.restoreProgress({
+      unlockedCharacterIds: [3],
+      highestLevelByCharacter: { 1: 5 },
+      bestScore: 0,
+    });
+
+    expect(unlockManager.isCharacterUnlocked(4)).toBe(true);
+    unlockManager.recordRun(1, 5, 0);
+    expect(onUnlock).not.toHaveBeenCalled();
+  });
+
+  it('should drop unknown characters and malformed values from a save', () => {
+    GameStorage.saveUnlockProgress({
+      unlockedCharacterIds: [3, 99, 'x' as unknown as number],
+      highestLevelByCharacter: { 1: 4, 99: 7, 2: -1 },
+      bestScore: 'lots' as unknown as number,
+    });
+
+    expect(GameStorage.getUnlockProgress()).toEqual({
+      unlockedCharacterIds: [1, 2, 3],
+      highestLevelByCharacter: { 1: 4 },
+      bestScore: 0,
+    });
+  });
+});
+
 /**
  * Test 3: Level Progression with Increasing Difficulty
  * Verifies: Crane count and crate speed increase across levels
@@ -0,0 +1,169 @@
+// @vitest-environment node
+/**
+ * Tests for JSON level packs: validation, error reporting and LevelManager loading
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  validateLevelPack,
+  parseLevelPack,
+  requireLevelPack,
+  LEVEL_PACK_FORMAT_VERSION,
+} from '../src/config/levelPack';
+import type { LevelPack } from '../src/config/levelPack';
+import { DEFAULT_LEVEL_PACK, getLevelUnlockRewards, getMaxLevel } from '../src/config/levels';
+import { LevelManager } from '../src/systems/LevelManager';
+import classicPack from '../src/config/levelPacks/classic.json';
+
+function createPackData(levels: unknown[]): Record<string, unknown> {
+  return { version: LEVEL_PACK_FORMAT_VERSION, name: 'Test', levels };
+}
+
+const LEVEL_ONE = { levelNumber: 1, craneCount: 1, crateSpeed: 1, linesToClear: 2 };
+
+describe('Level pack validation', () => {
+  it('should accept the bundled classic pack', () => {
+    const result = validateLevelPack(classicPack);
+
+    expect(result.errors).toEqual([]);
+    expect(result.pack?.name).toBe('Classic');
+    expect(result.pack?.levels).toHaveLength(10);
+  });
+
+  it('should accept optional rates, descriptions and rewards', () => {
+    const result = validateLevelPack(
+      createPackData([
+        {
+          ...LEVEL_ONE,
+          description: 'Warm up',
+          spawnInterval: 1500,
+          specialBlockRate: 0.1,
+          bombRate: 0.05,
+          unlockCharacterIds: [3],
+        },
+      ])
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.pack?.levels[0].unlockCharacterIds).toEqual([3]);
+  });
+
+  it('should report every problem with its location', () => {
+    const result = validateLevelPack(
+      createPackData([
+        { ...LEVEL_ONE, craneCount: 12 },
+        { levelNumber: 3, craneCount: 2, crateSpeed: 'fast', linesToClear: 5, cranes: 2 },
+      ])
+    );
+
+    expect(result.pack).toBeNull();
+    expect(result.errors).toEqual([
+      'levels[0].craneCount: expected a whole number from 1 to 8, got 12',
+      'levels[1].cranes: unknown field',
+      'levels[1].levelNumber: expected 2 (levels are numbered in order from 1), got 3',
+      'levels[1].crateSpeed: expected a number of at least 0.1, got "fast"',
+    ]);
+  });
+
+  it('should validate spawn tables', () => {
+    const valid = validateLevelPack(
+      createPackData([
+        {
+          ...LEVEL_ONE,
+          spawnTable: {
+            types: { regular: 9, helmet: 1 },
+            colors: { red: 1, green: 2 },
+            guarantees: [{ type: 'helmet', count: 1, per: 30 }],
+          },
+        },
+      ])
+    );
+    const invalid = validateLevelPack(
+      createPackData([
+        {
+          ...LEVEL_ONE,
+          spawnTable: {
+            types: { regular: 0, rock: 1 },
+            guarantees: [{ type: 'helmet', count: 3, per: 2 }],
+          },
+        },
+      ])
+    );
+
+    expect(valid.errors).toEqual([]);
+    expect(invalid.errors).toEqual([
+      'levels[0].spawnTable.types.rock: unknown name (expected one of regular, extraPoints, superJump, helmet, bomb, extraLife, rainbow)',
+      'levels[0].spawnTable.types: at least one weight must be above 0',
+      'levels[0].spawnTable.guarantees[0].per: expected a whole number of crates of at least count',
+    ]);
+  });
+
+  it('should reject unknown characters in rewards', () => {
+    const result = validateLevelPack(createPackData([{ ...LEVEL_ONE, unlockCharacterIds: [99] }]));
+
+    expect(result.errors).toEqual(['levels[0].unlockCharacterIds[0]: unknown character id 99']);
+  });
+
+  it('should reject unsupported versions and empty packs', () => {
+    const result = validateLevelPack({ version: 2, levels: [] });
+
+    expect(result.errors).toEqual([
+      'version: expected 1, got 2',
+      'levels: expected a non-empty list of levels, got []',
+    ]);
+  });
+
+  it('should report malformed JSON', () => {
+    const result = parseLevelPack('{ "version": 1, ');
+
+    expect(result.pack).toBeNull();
+    expect(result.errors[0]).toMatch(/^level pack is not valid JSON/);
+  });
+
+  it('should throw for a broken bundled pack', () => {
+    expect(() => requireLevelPack({ version: 1 }, 'broken.json')).toThrow(/broken\.json/);
+  });
+});
+
+describe('Default level pack', () => {
+  it('should provide the level unlock rewards', () => {
+    expect(getLevelUnlockRewards(3)).toEqual([3]);
+    expect(getLevelUnlockRewards(5)).toEqual([4]);
+    expect(getLevelUnlockRewards(8)).toEqual([6]);
+    expect(getLevelUnlockRewards(2)).toEqual([]);
+    expect(DEFAULT_LEVEL_PACK.levels).toHaveLength(getMaxLevel());
+  });
+});
+
+describe('LevelManager with a custom pack', () => {
+  const pack: LevelPack = requireLevelPack(
+    createPackData([
+      { ...LEVEL_ONE, unlockCharacterIds: [4] },
+      { levelNumber: 2, craneCount: 3, crateSpeed: 2, linesToClear: 4, spawnInterval: 900 },
+    ]),
+    'test pack'
+  );
+
+  it('should load levels from the pack', () => {
+    const levelManager = new LevelManager(pack);
+    levelManager.startLevel(1);
+
+    expect(levelManager.getLinesToClear()).toBe(2);
+    expect(levelManager.getCurrentLevelUnlockRewards()).toEqual([4]);
+    expect(levelManager.getMaxLevel()).toBe(2);
+
+    expect(levelManager.advanceToNextLevel()).toBe(true);
+    expect(levelManager.getCurrentCraneCount()).toBe(3);
+    expect(levelManager.getCurrentSpawnInterval()).toBe(900);
+    expect(levelManager.advanceToNextLevel()).toBe(false);
+  });
+
+  it('should switch packs for levels started afterwards', () => {
+    const levelManager = new LevelManager();
+    levelManager.setLevelPack(pack);
+
+    expect(levelManager.startLevel(5)).toBe(false);
+    expect(levelManager.startLevel(2)).toBe(true);
+    expect(levelManager.getLevelPack()).toBe(pack);
+  });
+});
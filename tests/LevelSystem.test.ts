@@ -11,9 +11,13 @@ import {
   getMaxLevel,
   hasNextLevel,
   getLevelUnlockRewards,
+  getEndlessLevelConfig,
+  resolveLevelConfig,
   BASE_FALL_SPEED,
+  ENDLESS_SCALING,
 } from '../src/config/levels';
 import { LevelManager } from '../src/systems/LevelManager';
+import { GameMode } from '../src/types/game';
 
 describe('Level System', () => {
   describe('Level Configuration Loading', () => {
@@ -204,4 +208,56 @@ describe('Level System', () => {
       expect(levelManager.getLinesRemaining()).toBe(0);
     });
   });
+
+  describe('Endless Mode', () => {
+    it('should keep designed levels unchanged', () => {
+      expect(getEndlessLevelConfig(4)).toEqual(getLevelConfig(4));
+    });
+
+    it('should generate levels beyond the last designed level', () => {
+      const last = getLevelConfig(getMaxLevel())!;
+      const next = getEndlessLevelConfig(getMaxLevel() + 1)!;
+
+      expect(next.levelNumber).toBe(getMaxLevel() + 1);
+      expect(next.crateSpeed).toBeGreaterThan(last.crateSpeed);
+      expect(next.linesToClear).toBeGreaterThan(last.linesToClear);
+      expect(next.spawnInterval).toBeLessThan(2000 / last.crateSpeed);
+      expect(next.specialBlockRate).toBeDefined();
+      expect(next.bombRate).toBeDefined();
+    });
+
+    it('should cap generated difficulty at the scaling limits', () => {
+      const far = getEndlessLevelConfig(500)!;
+
+      expect(far.craneCount).toBe(ENDLESS_SCALING.maxCraneCount);
+      expect(far.crateSpeed).toBe(ENDLESS_SCALING.maxCrateSpeed);
+      expect(far.spawnInterval).toBe(ENDLESS_SCALING.minSpawnInterval);
+      expect(far.specialBlockRate).toBe(ENDLESS_SCALING.maxSpecialBlockRate);
+      expect(far.bombRate).toBe(ENDLESS_SCALING.maxBombRate);
+      expect(far.linesToClear).toBe(ENDLESS_SCALING.maxLinesToClear);
+    });
+
+    it('should only generate levels in endless mode', () => {
+      expect(resolveLevelConfig(11, GameMode.Classic)).toBeUndefined();
+      expect(resolveLevelConfig(11, GameMode.Endless)).toBeDefined();
+      expect(hasNextLevel(50, GameMode.Endless)).toBe(true);
+    });
+
+    it('should use generated fall speeds beyond level 10', () => {
+      expect(getLevelFallSpeed(12, GameMode.Endless)).toBeGreaterThan(getLevelFallSpeed(10));
+    });
+
+    it('should advance the level manager past the last level in endless mode', () => {
+      const levelManager = new LevelManager();
+      levelManager.setMode(GameMode.Endless);
+      levelManager.startLevel(getMaxLevel());
+
+      expect(levelManager.advanceToNextLevel()).toBe(true);
+      expect(levelManager.getCurrentLevel()).toBe(getMaxLevel() + 1);
+      expect(levelManager.getCurrentSpawnInterval()).toBe(
+        getEndlessLevelConfig(getMaxLevel() + 1)!.spawnInterval
+      );
+      expect(levelManager.getState().mode).toBe(GameMode.Endless);
+    });
+  });
 });
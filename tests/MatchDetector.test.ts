@@ -0,0 +1,228 @@
+// @vitest-environment node
+/**
+ * Tests for match-3 detection: lines, L/T/plus shapes, squares and rainbow wildcard crates
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CrateManager } from '../src/systems/CrateManager';
+import {
+  MatchDetector,
+  MatchShape,
+  SHAPE_BONUS_POINTS,
+  SQUARE_MATCH_POINTS,
+} from '../src/systems/MatchDetector';
+import { CrateType, CrateColor } from '../src/types/entities';
+import type { Crate } from '../src/entities/Crate';
+
+const COLUMNS = 8;
+const ROWS = 6;
+
+describe('MatchDetector', () => {
+  let crateManager: CrateManager;
+  let matchDetector: MatchDetector;
+
+  // Land a crate of the given color (or a rainbow crate) at a cell
+  const place = (column: number, row: number, color: CrateColor | 'rainbow'): Crate => {
+    const crate =
+      color === 'rainbow'
+        ? crateManager.spawnCrate(column, CrateType.Rainbow, 1)
+        : crateManager.spawnCrate(column, CrateType.Regular, 1, color);
+    crateManager.landCrate(crate, row);
+    return crate;
+  };
+
+  beforeEach(() => {
+    crateManager = new CrateManager({
+      gridColumns: COLUMNS,
+      gridRows: ROWS,
+      cellWidth: 16,
+      cellHeight: 16,
+      groundY: 280,
+    });
+    matchDetector = new MatchDetector(COLUMNS, ROWS);
+  });
+
+  it('should detect three regular crates of one color in a row', () => {
+    place(0, 0, CrateColor.Red);
+    place(1, 0, CrateColor.Red);
+    place(2, 0, CrateColor.Red);
+    place(3, 0, CrateColor.Blue);
+
+    const result = matchDetector.detectMatches(crateManager.getGrid());
+
+    expect(result.matches).toHaveLength(1);
+    expect(result.matches[0].direction).toBe('horizontal');
+    expect(result.totalPoints).toBe(50);
+  });
+
+  it('should let a rainbow crate complete a match of any color', () => {
+    place(0, 0, CrateColor.Green);
+    place(1, 0, 'rainbow');
+    place(2, 0, CrateColor.Green);
+    place(4, 0, CrateColor.Yellow);
+    place(4, 1, CrateColor.Yellow);
+    place(4, 2, 'rainbow');
+
+    const result = matchDetector.detectMatches(crateManager.getGrid());
+
+    expect(result.matches.map((match) => match.direction)).toEqual(['horizontal', 'vertical']);
+    expect(result.cratesToClear).toHaveLength(6);
+  });
+
+  it('should let one rainbow crate join runs of two different colors', () => {
+    place(0, 0, CrateColor.Red);
+    place(1, 0, CrateColor.Red);
+    const rainbow = place(2, 0, 'rainbow');
+    place(3, 0, CrateColor.Blue);
+    place(4, 0, CrateColor.Blue);
+    place(5, 0, CrateColor.Blue);
+
+    const result = matchDetector.detectMatches(crateManager.getGrid());
+
+    expect(result.matches.map((match) => match.length)).toEqual([3, 4]);
+    expect(result.matches.every((match) => match.crates.includes(rainbow))).toBe(true);
+    expect(result.cratesToClear).toHaveLength(6);
+  });
+
+  it('should count a run of rainbow crates once', () => {
+    place(0, 0, 'rainbow');
+    place(1, 0, 'rainbow');
+    place(2, 0, 'rainbow');
+    place(3, 0, CrateColor.Red);
+
+    const result = matchDetector.detectMatches(crateManager.getGrid());
+
+    expect(result.matches).toHaveLength(1);
+    expect(result.matches[0].length).toBe(4);
+  });
+
+  // Place crates of one color at [column, row] cells
+  const placeAll = (cells: [number, number][], color: CrateColor) => {
+    cells.forEach(([column, row]) => place(column, row, color));
+  };
+
+  it('should detect an L shape as one match', () => {
+    placeAll(
+      [
+        [0, 0],
+        [1, 0],
+        [2, 0],
+        [0, 1],
+        [0, 2],
+      ],
+      CrateColor.Red
+    );
+
+    const result = matchDetector.detectMatches(crateManager.getGrid());
+
+    expect(result.matches).toHaveLength(1);
+    expect(result.matches[0].shape).toBe(MatchShape.L);
+    expect(result.matches[0].direction).toBeNull();
+    expect(result.matches[0].length).toBe(5);
+    expect(result.totalPoints).toBe(50 + 50 + SHAPE_BONUS_POINTS[MatchShape.L]);
+  });
+
+  it('should detect T and plus shapes', () => {
+    // T: row along the bottom, column up from its middle
+    placeAll(
+      [
+        [0, 0],
+        [1, 0],
+        [2, 0],
+        [1, 1],
+        [1, 2],
+      ],
+      CrateColor.Blue
+    );
+    // Plus: row and column crossing in both middles
+    placeAll(
+      [
+        [5, 0],
+        [5, 1],
+        [5, 2],
+        [4, 1],
+        [6, 1],
+      ],
+      CrateColor.Green
+    );
+
+    const result = matchDetector.detectMatches(crateManager.getGrid());
+
+    expect(result.matches.map((match) => match.shape).sort()).toEqual([
+      MatchShape.Plus,
+      MatchShape.T,
+    ]);
+    expect(result.totalPoints).toBe(
+      200 + SHAPE_BONUS_POINTS[MatchShape.T] + SHAPE_BONUS_POINTS[MatchShape.Plus]
+    );
+  });
+
+  it('should not join crossing runs of different colors', () => {
+    placeAll(
+      [
+        [0, 0],
+        [1, 0],
+        [2, 0],
+      ],
+      CrateColor.Red
+    );
+    placeAll(
+      [
+        [2, 1],
+        [2, 2],
+        [2, 3],
+      ],
+      CrateColor.Yellow
+    );
+
+    const result = matchDetector.detectMatches(crateManager.getGrid());
+
+    expect(result.matches.map((match) => match.shape)).toEqual([MatchShape.Line, MatchShape.Line]);
+  });
+
+  it('should detect 2x2 squares', () => {
+    placeAll(
+      [
+        [3, 0],
+        [4, 0],
+        [3, 1],
+        [4, 1],
+      ],
+      CrateColor.Yellow
+    );
+
+    const result = matchDetector.detectMatches(crateManager.getGrid());
+
+    expect(result.matches).toHaveLength(1);
+    expect(result.matches[0].shape).toBe(MatchShape.Square);
+    expect(result.totalPoints).toBe(SQUARE_MATCH_POINTS);
+  });
+
+  it('should not count squares inside lines', () => {
+    placeAll(
+      [
+        [0, 0],
+        [1, 0],
+        [2, 0],
+        [0, 1],
+        [1, 1],
+      ],
+      CrateColor.Red
+    );
+
+    const result = matchDetector.detectMatches(crateManager.getGrid());
+
+    expect(result.matches.map((match) => match.shape)).toEqual([MatchShape.Line]);
+    expect(result.cratesToClear).toHaveLength(3);
+  });
+
+  it('should not match special or unlanded crates', () => {
+    place(0, 0, CrateColor.Red);
+    place(1, 0, CrateColor.Red);
+    crateManager.landCrate(crateManager.spawnCrate(2, CrateType.Helmet, 1), 0);
+
+    const result = matchDetector.detectMatches(crateManager.getGrid());
+
+    expect(result.matches).toHaveLength(0);
+  });
+});
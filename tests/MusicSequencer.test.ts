@@ -0,0 +1,162 @@
+// @vitest-environment node
+/**
+ * Tests for the tracker song format and the music sequencer
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseSong, parseNoteFrequency, MusicSequencer } from '../src/systems/MusicSequencer';
+import type { Song } from '../src/systems/MusicSequencer';
+import type { SoundNote } from '../src/systems/SoundEngine';
+import { MUSIC_TRACKS, getGameMusicTempoScale } from '../src/config/music';
+
+const SONG = `
+# Test song
+tempo 120
+rows 2
+channel lead square 0.5
+channel drums noise 0.25 decay
+
+pattern a
+lead  C-5 ... ... ---
+drums C-4 --- C-4 ---
+
+pattern b
+lead  ... A-4 ... ...
+
+order a b
+`;
+
+function parse(text: string): Song {
+  const result = parseSong(text);
+  expect(result.error).toBeNull();
+  return result.song!;
+}
+
+describe('Song format', () => {
+  it('should read tracker notes', () => {
+    expect(parseNoteFrequency('A-4')).toBeCloseTo(440);
+    expect(parseNoteFrequency('C#5')).toBeCloseTo(554.37, 1);
+    expect(parseNoteFrequency('H-4')).toBeNull();
+  });
+
+  it('should lay out patterns in order and turn held rows into note lengths', () => {
+    const song = parse(SONG);
+
+    expect(song.tempo).toBe(120);
+    expect(song.rowsPerBeat).toBe(2);
+    expect(song.length).toBe(8);
+
+    const [lead, drums] = song.tracks;
+    expect(lead.notes.map(({ row, length }) => ({ row, length }))).toEqual([
+      { row: 0, length: 3 },
+      { row: 5, length: 3 },
+    ]);
+    // Drums are missing from pattern b, so they rest through it
+    expect(drums.notes.map((note) => note.row)).toEqual([0, 2]);
+    expect(drums.decay).toBe(true);
+  });
+
+  it('should report the line of a mistake', () => {
+    expect(parseSong('tempo 100\nchannel lead square 0.5\npattern a\nlead C-5 X-9').error).toBe(
+      'Line 4: "X-9" is not a note'
+    );
+    expect(parseSong('tempo fast').error).toBe('Line 1: tempo must be a whole number above 0');
+    expect(parseSong(SONG.replace('order a b', 'order a c')).error).toBe(
+      'Line 15: unknown pattern "c"'
+    );
+    expect(parseSong(SONG.replace('drums C-4 --- C-4 ---', 'drums C-4')).error).toBe(
+      'Line 10: every channel in a pattern needs the same number of rows'
+    );
+  });
+
+  it('should allow at most two channels', () => {
+    const text = SONG.replace('pattern a', 'channel bass square 0.5\npattern a');
+
+    expect(parseSong(text).error).toBe('Line 8: a song can have at most 2 channels');
+  });
+
+  it('should parse every built-in track', () => {
+    for (const text of Object.values(MUSIC_TRACKS)) {
+      expect(parseSong(text).error).toBeNull();
+    }
+  });
+
+  it('should speed the in-game music up more gently than the crates', () => {
+    expect(getGameMusicTempoScale(1)).toBe(1);
+    expect(getGameMusicTempoScale(3)).toBe(1.5);
+  });
+});
+
+describe('MusicSequencer', () => {
+  function createSequencer(): { sequencer: MusicSequencer; played: SoundNote[][] } {
+    const played: SoundNote[][] = [];
+    const sequencer = new MusicSequencer({ playMusic: (notes) => played.push([...notes]) });
+    return { sequencer, played };
+  }
+
+  it('should send each note once, a little ahead of time', () => {
+    const { sequencer, played } = createSequencer();
+    sequencer.play(parse(SONG));
+
+    // 120 bpm at 2 rows per beat = 4 rows per second; run just under one loop
+    for (let i = 0; i < 110; i++) {
+      sequencer.update(1 / 60);
+    }
+
+    const notes = played.flat();
+    expect(notes).toHaveLength(4);
+    expect(notes[0].duration).toBeCloseTo(0.75);
+    expect(notes[1].channel).toBe('noise');
+  });
+
+  it('should loop the song and play it faster with a tempo scale', () => {
+    const { sequencer, played } = createSequencer();
+    sequencer.play(parse(SONG));
+    sequencer.setTempoScale(2);
+
+    for (let i = 0; i < 110; i++) {
+      sequencer.update(1 / 60);
+    }
+
+    // At 8 rows per second, just under two seconds is almost two loops of the 8-row song
+    expect(played.flat()).toHaveLength(8);
+  });
+
+  it('should only advance while updated and stay silent when stopped', () => {
+    const { sequencer, played } = createSequencer();
+    const song = parse(SONG);
+    sequencer.play(song);
+    sequencer.update(1 / 60);
+    const sent = played.flat().length;
+
+    // Playing the same song again keeps its position
+    sequencer.play(song);
+    sequencer.update(1 / 60);
+    expect(played.flat()).toHaveLength(sent);
+
+    sequencer.play(null);
+    sequencer.update(10);
+    expect(played.flat()).toHaveLength(sent);
+  });
+
+  it('should not advance while paused and carry on from the same row afterwards', () => {
+    const { sequencer, played } = createSequencer();
+    sequencer.play(parse(SONG));
+    sequencer.update(1 / 60);
+    const sent = played.flat().length;
+
+    sequencer.setPaused(true);
+    for (let i = 0; i < 600; i++) {
+      sequencer.update(1 / 60);
+    }
+    expect(sequencer.isPaused()).toBe(true);
+    expect(played.flat()).toHaveLength(sent);
+
+    // Resuming picks up where it left off: the rest of the first loop is still to come
+    sequencer.setPaused(false);
+    for (let i = 0; i < 110; i++) {
+      sequencer.update(1 / 60);
+    }
+    expect(played.flat()).toHaveLength(4);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Tests for the preset and custom LCD palettes
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { LCDEffect, ColorPalette } from '../src/systems/LCDEffect';
+import {
+  MAX_CUSTOM_PALETTES,
+  PRESET_PALETTES,
+  createCustomPalette,
+  readCustomPalettes,
+} from '../src/config/palettes';
+import type { PaletteDefinition } from '../src/config/palettes';
+import { GameStorage } from '../src/systems/GameStorage';
+import { MemoryStorageBackend } from '../src/utils/StorageBackend';
+
+const MINT: PaletteDefinition = {
+  id: 'custom1',
+  name: 'CUSTOM 1',
+  colors: { background: 0xaaffcc, foreground: 0x112211, accent: 0x447755, glow: 0xccffdd },
+};
+
+describe('Palette configuration', () => {
+  it('should read stored custom palettes, dropping malformed ones', () => {
+    expect(readCustomPalettes('broken')).toEqual([]);
+    expect(
+      readCustomPalettes([
+        MINT,
+        { ...MINT, name: 'DUPLICATE' },
+        { ...MINT, id: 'blue' },
+        { ...MINT, id: 'custom2', colors: { ...MINT.colors, glow: 0x1000000 } },
+      ])
+    ).toEqual([MINT]);
+  });
+
+  it('should number new custom palettes and stop at the limit', () => {
+    const first = createCustomPalette(PRESET_PALETTES, MINT.colors);
+    expect(first).toEqual(MINT);
+
+    const full: PaletteDefinition[] = [];
+    for (let i = 0; i < MAX_CUSTOM_PALETTES; i++) {
+      full.push(createCustomPalette(full, MINT.colors)!);
+    }
+    expect(full.map((palette) => palette.id)).toEqual(['custom1', 'custom2', 'custom3', 'custom4']);
+    expect(createCustomPalette(full, MINT.colors)).toBeNull();
+  });
+});
+
+describe('LCDEffect palettes', () => {
+  it('should list the presets, then custom palettes', () => {
+    const lcdEffect = new LCDEffect(ColorPalette.Green, [MINT]);
+    const ids = lcdEffect.getPalettes().map((palette) => palette.id);
+
+    expect(ids).toEqual([...PRESET_PALETTES.map((palette) => palette.id), 'custom1']);
+    expect(lcdEffect.getCurrentPalette()).toBe(ColorPalette.Green);
+    expect(new LCDEffect('custom3').getCurrentPalette()).toBe(ColorPalette.Blue);
+  });
+
+  it('should recolor when the current custom palette is edited', () => {
+    const lcdEffect = new LCDEffect('custom1', [MINT]);
+    const onPaletteChanged = vi.fn();
+    lcdEffect.on('paletteChanged', onPaletteChanged);
+
+    lcdEffect.setCustomPalettes([MINT]);
+    expect(onPaletteChanged).not.toHaveBeenCalled();
+
+    lcdEffect.setCustomPalettes([{ ...MINT, colors: { ...MINT.colors, background: 0xffffff } }]);
+    expect(onPaletteChanged).toHaveBeenCalledWith('custom1');
+    expect(lcdEffect.getPaletteColors().background).toBe(0xffffff);
+  });
+
+  it('should preview edited colors without changing the palette until they are applied', () => {
+    const lcdEffect = new LCDEffect('custom1', [MINT]);
+    const onPaletteChanged = vi.fn();
+    const onPalettePreview = vi.fn();
+    lcdEffect.on('paletteChanged', onPaletteChanged);
+    lcdEffect.on('palettePreview', onPalettePreview);
+
+    const edited = { ...MINT.colors, background: 0xffffff };
+    lcdEffect.previewPaletteColors(edited);
+    expect(onPalettePreview).toHaveBeenCalledWith(edited);
+    expect(lcdEffect.getPaletteColors()).toEqual(edited);
+    expect(lcdEffect.getColorsForPalette('custom1')).toEqual(MINT.colors);
+    expect(onPaletteChanged).not.toHaveBeenCalled();
+
+    // Applying the previewed colors recolors everything once
+    lcdEffect.setCustomPalettes([{ ...MINT, colors: edited }]);
+    expect(onPaletteChanged).toHaveBeenCalledTimes(1);
+    expect(lcdEffect.getColorsForPalette('custom1')).toEqual(edited);
+  });
+
+  it('should switch to Blue when the current custom palette is deleted', () => {
+    const lcdEffect = new LCDEffect('custom1', [MINT]);
+    const onPalettesChanged = vi.fn();
+    lcdEffect.on('palettesChanged', onPalettesChanged);
+
+    lcdEffect.setCustomPalettes([]);
+
+    expect(onPalettesChanged).toHaveBeenCalledWith(PRESET_PALETTES);
+    expect(lcdEffect.hasPalette('custom1')).toBe(false);
+    expect(lcdEffect.getCurrentPalette()).toBe(ColorPalette.Blue);
+  });
+});
+
+describe('Custom palette storage', () => {
+  it('should save custom palettes per profile', async () => {
+    const backend = new MemoryStorageBackend();
+    await GameStorage.initialize(backend);
+    expect(GameStorage.getCustomPalettes()).toEqual([]);
+
+    GameStorage.saveCustomPalettes([MINT]);
+    await GameStorage.initialize(backend);
+    expect(GameStorage.getCustomPalettes()).toEqual([MINT]);
+
+    GameStorage.switchProfile(GameStorage.createProfile('KIM')!);
+    expect(GameStorage.getCustomPalettes()).toEqual([]);
+  });
+});
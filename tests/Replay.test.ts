@@ -0,0 +1,168 @@
+/**
+ * Tests for input recording and replay playback
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  ReplayRecorder,
+  serializeReplay,
+  parseReplay,
+  REPLAY_FORMAT_VERSION,
+} from '../src/systems/ReplayRecorder';
+import { ReplayPlayer } from '../src/systems/ReplayPlayer';
+import { InputAction, GameMode } from '../src/types/game';
+import type { InputState } from '../src/types/game';
+
+const RUN_INFO = { seed: 12345, characterId: 2, startLevel: 3, mode: GameMode.Classic };
+
+describe('ReplayRecorder', () => {
+  let recorder: ReplayRecorder;
+
+  beforeEach(() => {
+    recorder = new ReplayRecorder();
+  });
+
+  it('should record run info and tick-stamped input transitions', () => {
+    recorder.start(RUN_INFO);
+    recorder.record(5, InputAction.MoveLeft, true);
+    recorder.record(12, InputAction.MoveLeft, false);
+    recorder.setTick(40);
+
+    const replay = recorder.getReplay();
+    expect(replay).not.toBeNull();
+    expect(replay!.version).toBe(REPLAY_FORMAT_VERSION);
+    expect(replay!.seed).toBe(12345);
+    expect(replay!.characterId).toBe(2);
+    expect(replay!.startLevel).toBe(3);
+    expect(replay!.durationTicks).toBe(40);
+    expect(replay!.events).toEqual([
+      { tick: 5, action: InputAction.MoveLeft, active: true },
+      { tick: 12, action: InputAction.MoveLeft, active: false },
+    ]);
+  });
+
+  it('should record actions already held at start on tick 0', () => {
+    const held: InputState = {
+      [InputAction.MoveLeft]: false,
+      [InputAction.MoveRight]: true,
+      [InputAction.Jump]: false,
+      [InputAction.Pause]: false,
+      [InputAction.Confirm]: false,
+      [InputAction.Back]: false,
+    };
+
+    recorder.start(RUN_INFO, held);
+
+    expect(recorder.getReplay()!.events).toEqual([
+      { tick: 0, action: InputAction.MoveRight, active: true },
+    ]);
+  });
+
+  it('should ignore input when not recording and return null after stop', () => {
+    recorder.record(1, InputAction.Jump, true);
+    expect(recorder.getReplay()).toBeNull();
+
+    recorder.start(RUN_INFO);
+    recorder.record(1, InputAction.Jump, true);
+    const replay = recorder.stop();
+
+    expect(replay!.events).toHaveLength(1);
+    expect(recorder.isRecording()).toBe(false);
+    expect(recorder.getReplay()).toBeNull();
+  });
+});
+
+describe('ReplayPlayer', () => {
+  it('should reproduce the recorded input state at every tick', () => {
+    const recorder = new ReplayRecorder();
+    recorder.start(RUN_INFO);
+    recorder.record(2, InputAction.MoveRight, true);
+    recorder.record(2, InputAction.Jump, true);
+    recorder.record(3, InputAction.Jump, false);
+    recorder.record(6, InputAction.MoveRight, false);
+    recorder.setTick(8);
+
+    const player = new ReplayPlayer(recorder.stop()!);
+
+    const states = Array.from({ length: 8 }, (_, tick) => player.getInputStateForTick(tick));
+
+    expect(states.map((s) => s[InputAction.MoveRight])).toEqual([
+      false,
+      false,
+      true,
+      true,
+      true,
+      true,
+      false,
+      false,
+    ]);
+    expect(states.map((s) => s[InputAction.Jump])).toEqual([
+      false,
+      false,
+      true,
+      false,
+      false,
+      false,
+      false,
+      false,
+    ]);
+    expect(player.isFinished()).toBe(false);
+
+    player.getInputStateForTick(8);
+    expect(player.isFinished()).toBe(true);
+    expect(player.getProgress()).toBe(1);
+  });
+
+  it('should rewind to the start on reset', () => {
+    const recorder = new ReplayRecorder();
+    recorder.start(RUN_INFO);
+    recorder.record(0, InputAction.MoveLeft, true);
+    recorder.setTick(4);
+    const player = new ReplayPlayer(recorder.stop()!);
+
+    player.getInputStateForTick(4);
+    player.reset();
+
+    expect(player.getProgress()).toBe(0);
+    expect(player.getInputStateForTick(0)[InputAction.MoveLeft]).toBe(true);
+  });
+});
+
+describe('Replay serialization', () => {
+  it('should round-trip a replay through JSON', () => {
+    const recorder = new ReplayRecorder();
+    recorder.start(RUN_INFO);
+    recorder.record(7, InputAction.Jump, true);
+    recorder.setTick(20);
+    const replay = recorder.stop()!;
+
+    expect(parseReplay(serializeReplay(replay))).toEqual(replay);
+  });
+
+  it('should reject malformed or unsupported data', () => {
+    expect(parseReplay('not json')).toBeNull();
+    expect(parseReplay('null')).toBeNull();
+    expect(parseReplay(JSON.stringify({ ...RUN_INFO, version: 999, events: [] }))).toBeNull();
+    expect(
+      parseReplay(
+        JSON.stringify({
+          ...RUN_INFO,
+          version: REPLAY_FORMAT_VERSION,
+          durationTicks: 1,
+          events: [{ tick: 0, action: 'teleport', active: true }],
+        })
+      )
+    ).toBeNull();
+    expect(
+      parseReplay(
+        JSON.stringify({
+          ...RUN_INFO,
+          mode: undefined,
+          version: REPLAY_FORMAT_VERSION,
+          durationTicks: 1,
+          events: [],
+        })
+      )
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,93 @@
+// @vitest-environment node
+/**
+ * Tests for portable save codes: encoding, checksums and validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { encodeSaveCode, decodeSaveCode, SAVE_CODE_VERSION } from '../src/systems/SaveTransfer';
+import type { SaveTransferData } from '../src/systems/SaveTransfer';
+
+function createData(): SaveTransferData {
+  return {
+    highScores: {
+      classic: [
+        { score: 4200, level: 6, date: '2024-03-01T10:00:00.000Z', linesCleared: 30 },
+        { score: 900, level: 2, date: '2024-02-01T10:00:00.000Z' },
+      ],
+      endless: [{ score: 12000, level: 1, date: '2024-03-02T10:00:00.000Z', linesCleared: 80 }],
+    },
+    settings: { palette: 'amber', selectedCharacterId: 3, soundEnabled: false },
+    unlockProgress: {
+      unlockedCharacterIds: [1, 2, 3],
+      highestLevelByCharacter: { 1: 6, 3: 2 },
+      bestScore: 12000,
+    },
+  };
+}
+
+/**
+ * Replace the character at an index of the code's payload with a different digit
+ */
+function corrupt(code: string, index: number): string {
+  const replacement = code[index] === '0' ? '1' : '0';
+  return code.slice(0, index) + replacement + code.slice(index + 1);
+}
+
+describe('Save codes', () => {
+  it('should round-trip save data', async () => {
+    const data = createData();
+
+    const code = await encodeSaveCode(data);
+    const result = await decodeSaveCode(code);
+
+    expect(result.error).toBeNull();
+    expect(result.data).toEqual(data);
+  });
+
+  it('should only use QR alphanumeric characters that are hard to mistype', async () => {
+    const code = await encodeSaveCode(createData());
+
+    expect(code.startsWith(`SA${SAVE_CODE_VERSION}-`)).toBe(true);
+    expect(code).toMatch(/^[0-9A-Z-]+$/);
+    expect(code.slice(4)).not.toMatch(/[ILOU]/);
+  });
+
+  it('should accept codes with spaces, line breaks and lower case', async () => {
+    const code = await encodeSaveCode(createData());
+    const retyped = `  ${code.slice(0, 20).toLowerCase()}\n${code.slice(20)} `;
+
+    expect((await decodeSaveCode(retyped)).data).toEqual(createData());
+  });
+
+  it('should detect damaged codes', async () => {
+    const code = await encodeSaveCode(createData());
+
+    const result = await decodeSaveCode(corrupt(code, 10));
+
+    expect(result.data).toBeNull();
+    expect(result.error).toBe('Save code is damaged - check for typos');
+  });
+
+  it('should reject text that is not a save code', async () => {
+    expect((await decodeSaveCode('hello world')).error).toBe('Not a save code');
+    expect((await decodeSaveCode('SA1-')).error).toBe('Not a save code');
+    expect((await decodeSaveCode('SA1-0123')).error).toBe('Not a save code');
+  });
+
+  it('should reject codes from a newer version', async () => {
+    const code = await encodeSaveCode(createData());
+
+    const result = await decodeSaveCode(code.replace(/^SA\d+/, `SA${SAVE_CODE_VERSION + 1}`));
+
+    expect(result.error).toBe('Save code is from a newer version of the game');
+  });
+
+  it('should reject codes with invalid contents', async () => {
+    const data = createData() as unknown as Record<string, unknown>;
+    data.unlockProgress = { unlockedCharacterIds: 'all' };
+
+    const code = await encodeSaveCode(data as unknown as SaveTransferData);
+
+    expect((await decodeSaveCode(code)).error).toBe('Save code contents are not valid');
+  });
+});
@@ -0,0 +1,45 @@
+// @vitest-environment node
+/**
+ * Tests for the synthesized sound effects
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  SoundEngine,
+  SoundEffect,
+  SOUND_EFFECTS,
+  createNoiseSamples,
+} from '../src/systems/SoundEngine';
+
+describe('SoundEngine', () => {
+  it('should define notes for every sound effect', () => {
+    for (const effect of Object.values(SoundEffect)) {
+      const notes = SOUND_EFFECTS[effect];
+      expect(notes.length).toBeGreaterThan(0);
+      for (const note of notes) {
+        expect(note.duration).toBeGreaterThan(0);
+        expect(note.frequency).toBeGreaterThan(0);
+        expect(note.volume).toBeGreaterThan(0);
+        expect(note.volume).toBeLessThanOrEqual(1);
+      }
+    }
+  });
+
+  it('should generate full-scale noise that is not a short repeating pattern', () => {
+    const samples = createNoiseSamples(1000);
+
+    expect(samples.every((sample) => sample === 1 || sample === -1)).toBe(true);
+    expect(samples.filter((sample) => sample === 1).length).toBeGreaterThan(400);
+    expect(samples.slice(0, 50)).not.toEqual(samples.slice(50, 100));
+  });
+
+  it('should stay silent without an audio context', () => {
+    const engine = new SoundEngine();
+
+    engine.unlock();
+
+    expect(() => engine.play(SoundEffect.Explosion)).not.toThrow();
+    engine.setEnabled(false);
+    expect(engine.isEnabled()).toBe(false);
+  });
+});
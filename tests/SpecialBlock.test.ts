@@ -25,6 +25,19 @@ describe('Special Block System', () => {
       expect(block.isSpecial()).toBe(true);
     });
 
+    it('should treat rainbow crates as pushable crates rather than pickups', () => {
+      const crate = new Crate({
+        id: 'rainbow-1',
+        column: 5,
+        type: CrateType.Rainbow,
+        fallSpeed: 100,
+      });
+
+      expect(crate.isRainbow()).toBe(true);
+      expect(crate.isSpecial()).toBe(false);
+      expect(SpecialBlockManager.getEffectDescription(CrateType.Rainbow)).toMatch(/any color/);
+    });
+
     it('should not be activated initially', () => {
       const block = new SpecialBlock({
         id: 'special-1',
@@ -0,0 +1,145 @@
+/**
+ * Tests for the on-screen touch controls and their saved layout
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { VirtualController } from '../src/systems/VirtualController';
+import {
+  ControllerLayout,
+  DEFAULT_VIRTUAL_CONTROLLER_SETTINGS,
+  MIN_BUTTON_OPACITY,
+  MAX_BUTTON_SIZE,
+  mirrorVirtualController,
+  readVirtualControllerSettings,
+} from '../src/config/virtualController';
+import { GameStorage } from '../src/systems/GameStorage';
+import { MemoryStorageBackend } from '../src/utils/StorageBackend';
+import { InputAction } from '../src/types/game';
+
+describe('Virtual controller settings', () => {
+  it('should fall back to the defaults and clamp stored values', () => {
+    expect(readVirtualControllerSettings('broken')).toEqual(DEFAULT_VIRTUAL_CONTROLLER_SETTINGS);
+
+    const settings = readVirtualControllerSettings({
+      layout: 'joystick',
+      buttonSize: 500,
+      opacity: 0,
+      buttons: { jump: { x: 1.5, y: 0.5 }, left: { x: 'far' } },
+    });
+
+    expect(settings.layout).toBe(ControllerLayout.DpadButton);
+    expect(settings.buttonSize).toBe(MAX_BUTTON_SIZE);
+    expect(settings.opacity).toBe(MIN_BUTTON_OPACITY);
+    expect(settings.buttons.jump).toEqual({ x: 1, y: 0.5 });
+    expect(settings.buttons.left).toEqual(DEFAULT_VIRTUAL_CONTROLLER_SETTINGS.buttons.left);
+  });
+
+  it('should mirror the layout for left-handed play', () => {
+    const mirrored = mirrorVirtualController(DEFAULT_VIRTUAL_CONTROLLER_SETTINGS);
+
+    expect(mirrored.buttons.jump.x).toBeCloseTo(0.16);
+    // The arrows swap places, so the left arrow is still on the left
+    expect(mirrored.buttons.left.x).toBeLessThan(mirrored.buttons.right.x);
+    expect(mirrored.buttons.left.x).toBeCloseTo(0.58);
+  });
+
+  it('should save the layout per device, shared by all profiles', async () => {
+    const backend = new MemoryStorageBackend();
+    await GameStorage.initialize(backend);
+    expect(GameStorage.getVirtualControllerSettings()).toEqual(DEFAULT_VIRTUAL_CONTROLLER_SETTINGS);
+
+    const settings = { ...DEFAULT_VIRTUAL_CONTROLLER_SETTINGS, layout: ControllerLayout.TapZones };
+    GameStorage.saveVirtualControllerSettings(settings);
+    GameStorage.switchProfile(GameStorage.createProfile('LEFTY')!);
+    expect(GameStorage.getVirtualControllerSettings().layout).toBe(ControllerLayout.TapZones);
+
+    await GameStorage.initialize(backend);
+    expect(GameStorage.getVirtualControllerSettings()).toEqual(settings);
+  });
+});
+
+describe('VirtualController', () => {
+  let root: HTMLElement;
+  let controller: VirtualController;
+
+  beforeEach(() => {
+    root = document.createElement('div');
+    document.body.appendChild(root);
+    controller = new VirtualController(root);
+  });
+
+  afterEach(() => {
+    controller.destroy();
+    root.remove();
+  });
+
+  it('should draw the controls of the chosen layout', () => {
+    expect(root.querySelectorAll('.mobile-btn')).toHaveLength(4);
+    expect(root.querySelectorAll('.tap-zone')).toHaveLength(0);
+
+    controller.setSettings({ ...controller.getSettings(), layout: ControllerLayout.TapZones });
+    expect(root.querySelectorAll('.tap-zone')).toHaveLength(3);
+    expect(root.querySelectorAll('.mobile-btn')).toHaveLength(1);
+
+    controller.setSettings({ ...controller.getSettings(), layout: ControllerLayout.SwipeOnly });
+    expect(root.querySelectorAll('.tap-zone')).toHaveLength(0);
+    expect(root.querySelector('.mobile-btn')?.getAttribute('aria-label')).toBe('Pause');
+  });
+
+  it('should hold an action while a button is pressed', () => {
+    const listener = vi.fn();
+    controller.onAction(listener);
+    const jump = root.querySelector('.mobile-btn-jump')!;
+
+    jump.dispatchEvent(new Event('pointerdown'));
+    jump.dispatchEvent(new Event('pointerleave'));
+    jump.dispatchEvent(new Event('pointerup'));
+
+    expect(listener.mock.calls).toEqual([
+      [InputAction.Jump, true],
+      [InputAction.Jump, false],
+    ]);
+  });
+
+  it('should release held actions when tap zones are turned off', () => {
+    const listener = vi.fn();
+    controller.onAction(listener);
+    controller.setSettings({ ...controller.getSettings(), layout: ControllerLayout.TapZones });
+    controller.setTapZonesActive(true);
+
+    root.querySelector('.tap-zone')!.dispatchEvent(new Event('pointerdown'));
+    controller.setTapZonesActive(false);
+
+    expect(root.classList.contains('playing')).toBe(false);
+    expect(listener).toHaveBeenLastCalledWith(InputAction.Jump, false);
+  });
+
+  it('should move dragged buttons and report edits without pressing them', () => {
+    const listener = vi.fn();
+    const onChange = vi.fn();
+    controller.onAction(listener);
+    controller.startEditing(onChange);
+    const jump = root.querySelector<HTMLElement>('.mobile-btn-jump')!;
+
+    jump.dispatchEvent(new MouseEvent('pointerdown'));
+    jump.dispatchEvent(
+      new MouseEvent('pointermove', {
+        clientX: window.innerWidth / 4,
+        clientY: window.innerHeight / 2,
+      })
+    );
+    jump.dispatchEvent(new MouseEvent('pointerup'));
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(jump.style.left).toBe('25%');
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange.mock.calls[0][0].buttons.jump).toEqual({ x: 0.25, y: 0.5 });
+
+    const done = [...root.querySelectorAll('.controller-editor-btn')].find(
+      (button) => button.textContent === 'DONE'
+    ) as HTMLElement;
+    done.click();
+    expect(controller.isEditing()).toBe(false);
+    expect(root.querySelector('.controller-editor')).toBeNull();
+  });
+});
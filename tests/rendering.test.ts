@@ -67,6 +67,13 @@ describe('Rendering System', () => {
       expect(colors.accent).toBeDefined();
     });
 
+    it('should provide a black on white High Contrast palette', () => {
+      lcdEffect.setPalette(ColorPalette.HighContrast);
+      const colors = lcdEffect.getPaletteColors();
+      expect(colors.background).toBe(0xffffff);
+      expect(colors.foreground).toBe(0x000000);
+    });
+
     it('should emit event when palette changes', () => {
       let eventFired = false;
       lcdEffect.on('paletteChanged', () => {